@@ -11,8 +11,19 @@ import { appError } from "./utils/classError.js";
 import userRouter from "./modules/users/user.controller.js";
 import adminRouter from "./modules/admin/admin.controller.js";
 import chatRouter from "./modules/chat/chat.controller.js";
+import notificationRouter from "./modules/notifications/notification.controller.js";
+import hashtagRouter from "./modules/hashtags/hashtag.controller.js";
+import searchRouter from "./modules/search/search.controller.js";
+import bookmarkRouter from "./modules/bookmarks/bookmark.controller.js";
+import followRouter from "./modules/follows/follow.controller.js";
+import friendListRouter from "./modules/friendLists/friendList.controller.js";
 import connectionDB from "./db/connectionDB.js";
 import { initializeSocketServer } from "./socket/server.js";
+import { digestScheduler } from "./service/digest.js";
+import { postScheduler } from "./service/postPublishing.js";
+import { trashPurgeScheduler } from "./service/trash.js";
+import { friendRequestExpiryScheduler } from "./service/friendRequests.js";
+import { heldNotificationEmailScheduler } from "./service/notificationEmails.js";
 import { schema } from "./graphql/index.js";
 import {
   graphqlAuthMiddleware,
@@ -48,6 +59,12 @@ const bootstrap = async () => {
   app.use("/users", userRouter);
   app.use("/admin", adminRouter);
   app.use("/chat", chatRouter);
+  app.use("/notifications", notificationRouter);
+  app.use("/hashtags", hashtagRouter);
+  app.use("/search", searchRouter);
+  app.use("/bookmarks", bookmarkRouter);
+  app.use("/follows", followRouter);
+  app.use("/friend-lists", friendListRouter);
 
   // GraphQL endpoint with authentication context
   app.all(
@@ -76,6 +93,15 @@ const bootstrap = async () => {
   const httpServer = createServer(app);
   const io = initializeSocketServer(httpServer);
 
+  // Email digests of unread activity
+  digestScheduler.start();
+  postScheduler.start();
+  // Deleted posts and comments are purged once their retention runs out
+  trashPurgeScheduler.start();
+  friendRequestExpiryScheduler.start();
+  // Emails held back by quiet hours go out once they end
+  heldNotificationEmailScheduler.start();
+
   httpServer.listen(port, () => {
     console.log(`Server is running on port ${port}`);
     console.log(`Socket.IO server is running`);
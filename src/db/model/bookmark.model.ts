@@ -0,0 +1,47 @@
+import mongoose, { Types, Document } from "mongoose";
+
+// A post a user saved for later, at most once per post. Bookmarks outside
+// any collection are still listed with all of the user's bookmarks.
+export interface IBookmark extends Document {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  post: Types.ObjectId;
+  bookmarkCollection?: Types.ObjectId | null;
+  createdAt: Date; // When the post was saved
+}
+
+const bookmarkSchema = new mongoose.Schema<IBookmark>(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+
+    post: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Post",
+      required: true,
+    },
+
+    bookmarkCollection: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "BookmarkCollection",
+      default: null,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    versionKey: false,
+  }
+);
+
+bookmarkSchema.index({ user: 1, post: 1 }, { unique: true });
+// Saved posts are listed newest first, all of them or one collection
+bookmarkSchema.index({ user: 1, createdAt: -1, _id: -1 });
+bookmarkSchema.index({ bookmarkCollection: 1, createdAt: -1, _id: -1 });
+bookmarkSchema.index({ post: 1 });
+
+const Bookmark = mongoose.model<IBookmark>("Bookmark", bookmarkSchema);
+
+export default Bookmark;
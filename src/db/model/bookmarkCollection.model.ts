@@ -0,0 +1,49 @@
+import mongoose, { Types, Document } from "mongoose";
+
+// A named list a user files saved posts under
+export interface IBookmarkCollection extends Document {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  name: string;
+  isPrivate: boolean; // Public collections can be browsed by other users
+
+  // Timestamps
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const bookmarkCollectionSchema = new mongoose.Schema<IBookmarkCollection>(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: [50, "Collection name cannot exceed 50 characters"],
+    },
+
+    isPrivate: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// Names are unique per user
+bookmarkCollectionSchema.index({ user: 1, name: 1 }, { unique: true });
+
+const BookmarkCollection = mongoose.model<IBookmarkCollection>(
+  "BookmarkCollection",
+  bookmarkCollectionSchema
+);
+
+export default BookmarkCollection;
@@ -1,5 +1,6 @@
 import mongoose, { Types, Document } from "mongoose";
 import { evenEmitter } from "../../service/event.js";
+import { ReactionCounts, reactionCountsDefinition } from "./reaction.model.js";
 
 export enum CommentType {
   post = "post",
@@ -27,9 +28,13 @@ export interface IComment extends Document {
   rootComment?: Types.ObjectId | null; // Top-level comment for deep nesting
   depth: number; // Nesting level (0 = root comment)
 
+  // Users @mentioned in the content
+  mentions: Types.ObjectId[];
+
   // Engagement metrics
   likesCount: number;
   dislikesCount: number;
+  reactionCounts: ReactionCounts; // Per reaction type, likes/dislikes included
   repliesCount: number; // Number of direct replies
   totalRepliesCount: number; // Total replies including nested
 
@@ -49,6 +54,7 @@ export interface IComment extends Document {
   isDeleted: boolean;
   deletedAt?: Date;
   deletedBy?: Types.ObjectId;
+  trashedWithPost?: Types.ObjectId; // Set when the comment's post was deleted
 
   // Timestamps
   createdAt: Date;
@@ -114,6 +120,13 @@ const commentSchema = new mongoose.Schema<IComment>(
       index: true,
     },
 
+    mentions: [
+      {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "User",
+      },
+    ],
+
     // Engagement metrics
     likesCount: {
       type: Number,
@@ -127,6 +140,8 @@ const commentSchema = new mongoose.Schema<IComment>(
       min: 0,
     },
 
+    reactionCounts: reactionCountsDefinition,
+
     repliesCount: {
       type: Number,
       default: 0,
@@ -195,6 +210,11 @@ const commentSchema = new mongoose.Schema<IComment>(
       type: mongoose.Schema.Types.ObjectId,
       ref: "User",
     },
+
+    trashedWithPost: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Post",
+    },
   },
   {
     timestamps: true,
@@ -208,6 +228,10 @@ commentSchema.index({ parentComment: 1, isDeleted: 1, createdAt: -1 });
 commentSchema.index({ rootComment: 1, depth: 1, createdAt: -1 });
 commentSchema.index({ author: 1, isDeleted: 1, createdAt: -1 });
 commentSchema.index({ createdAt: -1, isDeleted: 1 });
+commentSchema.index({ mentions: 1, isDeleted: 1, createdAt: -1 });
+commentSchema.index({ content: "text" }, { name: "comment_text_search" });
+commentSchema.index({ author: 1, isDeleted: 1, deletedAt: -1 });
+commentSchema.index({ trashedWithPost: 1 }, { sparse: true });
 
 // Virtual for polymorphic population using refPath
 commentSchema.virtual("commentOnDetails", {
@@ -342,6 +366,38 @@ commentSchema.pre("findOneAndUpdate", async function (next) {
     }
   }
 
+  // Handle restore from the trash, the counters get the comment back
+  if (update.$set && update.$set.isDeleted === false) {
+    const comment = await this.model.findOne({
+      ...this.getQuery(),
+      isDeleted: true,
+    });
+    if (comment) {
+      if (comment.parentComment) {
+        await mongoose
+          .model("Comment")
+          .findByIdAndUpdate(comment.parentComment, {
+            $inc: { repliesCount: 1 },
+          });
+      }
+
+      if (comment.rootComment) {
+        await mongoose.model("Comment").findByIdAndUpdate(comment.rootComment, {
+          $inc: { totalRepliesCount: 1 },
+        });
+      }
+
+      if (
+        comment.commentOnModel === CommentType.post &&
+        !comment.parentComment
+      ) {
+        await mongoose.model("Post").findByIdAndUpdate(comment.commentOn, {
+          $inc: { commentsCount: 1 },
+        });
+      }
+    }
+  }
+
   next();
 });
 
@@ -0,0 +1,40 @@
+import mongoose, { Types, Document } from "mongoose";
+
+// Cursors of a ranked comment list work for this long after its first page
+export const COMMENT_RANKING_TTL_HOURS = 6;
+
+// The order of a list of comments sorted by score (top, controversial),
+// taken when its first page is read. Later pages are read from it so
+// reactions and replies in between cannot move comments across pages.
+export interface ICommentRanking extends Document {
+  _id: Types.ObjectId;
+  comments: Types.ObjectId[]; // Best ranked first
+  createdAt: Date;
+}
+
+const commentRankingSchema = new mongoose.Schema<ICommentRanking>(
+  {
+    comments: [
+      {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Comment",
+      },
+    ],
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    versionKey: false,
+  }
+);
+
+commentRankingSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: COMMENT_RANKING_TTL_HOURS * 60 * 60 }
+);
+
+const CommentRanking = mongoose.model<ICommentRanking>(
+  "CommentRanking",
+  commentRankingSchema
+);
+
+export default CommentRanking;
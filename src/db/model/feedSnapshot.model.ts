@@ -0,0 +1,46 @@
+import mongoose, { Types, Document } from "mongoose";
+
+// A feed session can be paged through for this long after its first page
+export const FEED_SNAPSHOT_TTL_HOURS = 6;
+
+// The ranking of one home feed session, taken when its first page is read.
+// Later pages are read from it so engagement in between cannot reorder them.
+export interface IFeedSnapshot extends Document {
+  _id: Types.ObjectId;
+  owner: Types.ObjectId; // User whose feed this is
+  posts: Types.ObjectId[]; // Best ranked first
+  createdAt: Date;
+}
+
+const feedSnapshotSchema = new mongoose.Schema<IFeedSnapshot>(
+  {
+    owner: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+
+    posts: [
+      {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Post",
+      },
+    ],
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    versionKey: false,
+  }
+);
+
+feedSnapshotSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: FEED_SNAPSHOT_TTL_HOURS * 60 * 60 }
+);
+
+const FeedSnapshot = mongoose.model<IFeedSnapshot>(
+  "FeedSnapshot",
+  feedSnapshotSchema
+);
+
+export default FeedSnapshot;
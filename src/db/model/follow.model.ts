@@ -0,0 +1,59 @@
+import mongoose, { Types, Document } from "mongoose";
+
+export enum FollowStatus {
+  pending = "pending", // Waiting for an account that approves its followers
+  accepted = "accepted",
+}
+
+// One user following another. Unlike friendships it goes one way and only
+// needs the other side's approval when their account asks for it.
+export interface IFollow extends Document {
+  _id: Types.ObjectId;
+  follower: Types.ObjectId;
+  following: Types.ObjectId;
+  status: FollowStatus;
+  acceptedAt?: Date;
+
+  // Timestamps
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const followSchema = new mongoose.Schema<IFollow>(
+  {
+    follower: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+
+    following: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+
+    status: {
+      type: String,
+      enum: Object.values(FollowStatus),
+      default: FollowStatus.accepted,
+    },
+
+    acceptedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+followSchema.index({ follower: 1, following: 1 }, { unique: true });
+// Followers, following and pending requests are listed newest first
+followSchema.index({ following: 1, status: 1, createdAt: -1, _id: -1 });
+followSchema.index({ follower: 1, status: 1, createdAt: -1, _id: -1 });
+
+const Follow = mongoose.model<IFollow>("Follow", followSchema);
+
+export default Follow;
@@ -0,0 +1,50 @@
+import mongoose, { Types, Document } from "mongoose";
+
+// A named group of a user's friends, such as "Close friends", that posts
+// can be shown to
+export interface IFriendList extends Document {
+  _id: Types.ObjectId;
+  owner: Types.ObjectId;
+  name: string;
+  members: Types.ObjectId[];
+
+  // Timestamps
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const friendListSchema = new mongoose.Schema<IFriendList>(
+  {
+    owner: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: [50, "List name cannot exceed 50 characters"],
+    },
+
+    members: [
+      {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "User",
+      },
+    ],
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// Names are unique per user
+friendListSchema.index({ owner: 1, name: 1 }, { unique: true });
+friendListSchema.index({ members: 1 });
+
+const FriendList = mongoose.model<IFriendList>("FriendList", friendListSchema);
+
+export default FriendList;
@@ -5,6 +5,7 @@ export enum FriendRequestStatus {
   accepted = "accepted",
   rejected = "rejected",
   cancelled = "cancelled",
+  expired = "expired", // Left pending past the expiry period
 }
 
 export interface IFriendRequest extends Document {
@@ -18,6 +19,7 @@ export interface IFriendRequest extends Document {
   // Timestamps
   createdAt: Date;
   updatedAt: Date;
+  sentAt?: Date; // Latest send, a request sent again reuses its document
   respondedAt?: Date;
 
   // Virtual fields
@@ -60,6 +62,10 @@ const friendRequestSchema = new mongoose.Schema<IFriendRequest>(
       maxlength: [200, "Response message cannot exceed 200 characters"],
     },
 
+    sentAt: {
+      type: Date,
+    },
+
     respondedAt: {
       type: Date,
     },
@@ -75,6 +81,10 @@ friendRequestSchema.index({ sender: 1, receiver: 1 }, { unique: true });
 friendRequestSchema.index({ receiver: 1, status: 1 });
 friendRequestSchema.index({ sender: 1, status: 1 });
 friendRequestSchema.index({ createdAt: -1 });
+friendRequestSchema.index({ status: 1, createdAt: 1 });
+friendRequestSchema.index({ sender: 1, createdAt: -1 });
+friendRequestSchema.index({ status: 1, sentAt: 1 });
+friendRequestSchema.index({ sender: 1, sentAt: -1 });
 
 // Virtual for sender details
 friendRequestSchema.virtual("senderDetails", {
@@ -0,0 +1,77 @@
+import mongoose, { Types, Document } from "mongoose";
+
+// A ranked candidate with the signals behind its score
+export interface ISuggestedFriend {
+  user: Types.ObjectId;
+  score: number;
+  mutualFriends: number;
+  sharedGroups: number;
+  sharedConversations: number;
+  coCommentedPosts: number;
+}
+
+// A user's "people you may know", computed on a read and kept until it
+// goes stale. Dismissed users outlive every recomputation.
+export interface IFriendSuggestions extends Document {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  candidates: ISuggestedFriend[];
+  dismissed: Types.ObjectId[];
+  computedAt?: Date | null; // Unset when the candidates need a recompute
+
+  // Timestamps
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const suggestedFriendSchema = new mongoose.Schema<ISuggestedFriend>(
+  {
+    user: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+    score: { type: Number, required: true },
+    mutualFriends: { type: Number, default: 0 },
+    sharedGroups: { type: Number, default: 0 },
+    sharedConversations: { type: Number, default: 0 },
+    coCommentedPosts: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+const friendSuggestionsSchema = new mongoose.Schema<IFriendSuggestions>(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+
+    candidates: {
+      type: [suggestedFriendSchema],
+      default: [],
+    },
+
+    dismissed: [
+      {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "User",
+      },
+    ],
+
+    computedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+friendSuggestionsSchema.index({ user: 1 }, { unique: true });
+
+const FriendSuggestions = mongoose.model<IFriendSuggestions>(
+  "FriendSuggestions",
+  friendSuggestionsSchema
+);
+
+export default FriendSuggestions;
@@ -0,0 +1,48 @@
+import mongoose, { Types, Document } from "mongoose";
+
+export interface IHashtag extends Document {
+  _id: Types.ObjectId;
+  tag: string;
+
+  // Number of currently public, published posts using the tag
+  postsCount: number;
+  lastUsedAt?: Date;
+
+  // Timestamps
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const hashtagSchema = new mongoose.Schema<IHashtag>(
+  {
+    tag: {
+      type: String,
+      required: true,
+      trim: true,
+      lowercase: true,
+      maxlength: [50, "Hashtag cannot exceed 50 characters"],
+    },
+
+    postsCount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+
+    lastUsedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// Indexes for performance
+hashtagSchema.index({ tag: 1 }, { unique: true });
+hashtagSchema.index({ postsCount: -1 });
+
+const Hashtag = mongoose.model<IHashtag>("Hashtag", hashtagSchema);
+
+export default Hashtag;
@@ -0,0 +1,44 @@
+import mongoose, { Types, Document } from "mongoose";
+
+// Hourly usage bucket of a hashtag, summed over a window for trending
+export interface IHashtagUsage extends Document {
+  _id: Types.ObjectId;
+  tag: string;
+  bucket: Date; // Start of the hour the posts were published in
+  count: number;
+}
+
+const hashtagUsageSchema = new mongoose.Schema<IHashtagUsage>(
+  {
+    tag: {
+      type: String,
+      required: true,
+      trim: true,
+      lowercase: true,
+    },
+
+    bucket: {
+      type: Date,
+      required: true,
+    },
+
+    count: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    versionKey: false,
+  }
+);
+
+// Indexes for performance
+hashtagUsageSchema.index({ tag: 1, bucket: 1 }, { unique: true });
+hashtagUsageSchema.index({ bucket: -1, tag: 1 });
+
+const HashtagUsage = mongoose.model<IHashtagUsage>(
+  "HashtagUsage",
+  hashtagUsageSchema
+);
+
+export default HashtagUsage;
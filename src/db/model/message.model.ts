@@ -1,4 +1,5 @@
 import mongoose, { Types, Document } from "mongoose";
+import { ReactionCounts, reactionCountsDefinition } from "./reaction.model.js";
 
 export enum MessageType {
   text = "text",
@@ -24,6 +25,7 @@ export interface IMessage extends Document {
   // Content
   content: string;
   messageType: MessageType;
+  mentions: Types.ObjectId[]; // Participants @mentioned in the content
 
   // File information (for non-text messages)
   fileUrl?: string;
@@ -48,6 +50,9 @@ export interface IMessage extends Document {
   replyTo?: Types.ObjectId;
   isForwarded: boolean;
 
+  // Reactions
+  reactionCounts: ReactionCounts;
+
   // Metadata
   isEdited: boolean;
   editedAt?: Date;
@@ -95,6 +100,13 @@ const messageSchema = new mongoose.Schema<IMessage>(
       default: MessageType.text,
     },
 
+    mentions: [
+      {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "User",
+      },
+    ],
+
     // File information
     fileUrl: {
       type: String,
@@ -161,6 +173,9 @@ const messageSchema = new mongoose.Schema<IMessage>(
       default: false,
     },
 
+    // Reactions
+    reactionCounts: reactionCountsDefinition,
+
     // Metadata
     isEdited: {
       type: Boolean,
@@ -198,6 +213,7 @@ messageSchema.index({ conversation: 1, createdAt: -1 });
 messageSchema.index({ sender: 1, createdAt: -1 });
 messageSchema.index({ status: 1 });
 messageSchema.index({ conversation: 1, isDeleted: 1, createdAt: -1 });
+messageSchema.index({ content: "text" }, { name: "message_text_search" });
 
 // Virtual for sender details
 messageSchema.virtual("senderDetails", {
@@ -0,0 +1,143 @@
+import mongoose, { Types, Document } from "mongoose";
+
+export enum NotificationType {
+  FRIEND_REQUEST = "friend_request",
+  FRIEND_REQUEST_ACCEPTED = "friend_request_accepted",
+  NEW_FOLLOWER = "new_follower",
+  FOLLOW_REQUEST = "follow_request",
+  FOLLOW_REQUEST_ACCEPTED = "follow_request_accepted",
+  POST_LIKE = "post_like",
+  COMMENT_LIKE = "comment_like",
+  POST_COMMENT = "post_comment",
+  COMMENT_REPLY = "comment_reply",
+  MENTION = "mention",
+  POST_SHARE = "post_share",
+  FRIEND_POST = "friend_post",
+  SYSTEM = "system",
+}
+
+export interface INotification extends Document {
+  _id: Types.ObjectId;
+  recipient: Types.ObjectId;
+  type: NotificationType;
+  title: string;
+  message: string;
+  data?: any;
+  link?: string;
+
+  // Grouping of repeated events ("12 people liked your post")
+  actors: Types.ObjectId[];
+  groupKey?: string;
+  activityAt: Date;
+
+  // Read state
+  isRead: boolean;
+  readAt?: Date;
+
+  // Email held back by the recipient's quiet hours, sent once they end.
+  // Failed sends are counted and retried later, up to a limit.
+  emailHeldUntil?: Date;
+  emailFailedAttempts?: number;
+
+  // Timestamps
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const notificationSchema = new mongoose.Schema<INotification>(
+  {
+    recipient: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+
+    type: {
+      type: String,
+      enum: Object.values(NotificationType),
+      required: true,
+    },
+
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: [200, "Title cannot exceed 200 characters"],
+    },
+
+    message: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: [1000, "Message cannot exceed 1000 characters"],
+    },
+
+    data: {
+      type: mongoose.Schema.Types.Mixed,
+    },
+
+    link: {
+      type: String,
+      trim: true,
+    },
+
+    // Grouping
+    actors: [
+      {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "User",
+      },
+    ],
+
+    groupKey: {
+      type: String,
+      trim: true,
+    },
+
+    activityAt: {
+      type: Date,
+      default: Date.now,
+    },
+
+    // Read state
+    isRead: {
+      type: Boolean,
+      default: false,
+    },
+
+    readAt: {
+      type: Date,
+    },
+
+    emailHeldUntil: {
+      type: Date,
+    },
+
+    emailFailedAttempts: {
+      type: Number,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// Indexes for performance
+notificationSchema.index({ recipient: 1, activityAt: -1 });
+notificationSchema.index({ recipient: 1, isRead: 1, activityAt: -1 });
+notificationSchema.index({ recipient: 1, type: 1 });
+notificationSchema.index({ recipient: 1, groupKey: 1, isRead: 1 });
+notificationSchema.index({ emailHeldUntil: 1 }, { sparse: true });
+
+// Ensure virtuals are included in JSON output
+notificationSchema.set("toJSON", { virtuals: true });
+notificationSchema.set("toObject", { virtuals: true });
+
+const Notification = mongoose.model<INotification>(
+  "Notification",
+  notificationSchema
+);
+
+export default Notification;
@@ -0,0 +1,56 @@
+import mongoose, { Types, Document } from "mongoose";
+
+// Slot of every vote in a single choice poll, so a user holds one at most
+export const SINGLE_CHOICE_SLOT = "single";
+
+// One user's vote for one option of a post's poll
+export interface IPollVote extends Document {
+  _id: Types.ObjectId;
+  post: Types.ObjectId;
+  user: Types.ObjectId;
+  option: Types.ObjectId;
+  // SINGLE_CHOICE_SLOT in single choice polls, the option id in multiple
+  // choice ones: unique per (post, user), which makes the database enforce
+  // one vote per user or one per option
+  slot: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const pollVoteSchema = new mongoose.Schema<IPollVote>(
+  {
+    post: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Post",
+      required: true,
+    },
+
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+
+    option: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+    },
+
+    slot: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+pollVoteSchema.index({ post: 1, user: 1, slot: 1 }, { unique: true });
+// Voters of an option, newest first
+pollVoteSchema.index({ post: 1, option: 1, updatedAt: -1 });
+
+const PollVote = mongoose.model<IPollVote>("PollVote", pollVoteSchema);
+
+export default PollVote;
@@ -0,0 +1,44 @@
+import mongoose, { Types, Document } from "mongoose";
+
+// How many options one user holds a vote for in a post's multiple choice
+// poll. Its atomic increments tell when a user starts or stops being one of
+// the poll's voters, which separate vote documents cannot.
+export interface IPollVoter extends Document {
+  _id: Types.ObjectId;
+  post: Types.ObjectId;
+  user: Types.ObjectId;
+  votesCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const pollVoterSchema = new mongoose.Schema<IPollVoter>(
+  {
+    post: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Post",
+      required: true,
+    },
+
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+
+    votesCount: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+pollVoterSchema.index({ post: 1, user: 1 }, { unique: true });
+
+const PollVoter = mongoose.model<IPollVoter>("PollVoter", pollVoterSchema);
+
+export default PollVoter;
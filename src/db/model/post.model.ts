@@ -1,4 +1,5 @@
 import mongoose, { Types } from "mongoose";
+import { ReactionCounts, reactionCountsDefinition } from "./reaction.model.js";
 
 export enum PostStatus {
   draft = "draft",
@@ -11,22 +12,60 @@ export enum PostAvailability {
   public = "public",
   private = "private",
   friends = "friends",
+  lists = "lists", // Friends on one of the author's friend lists
+}
+
+// Who may comment on a post besides its author
+export enum CommentSetting {
+  everyone = "everyone",
+  friends = "friends",
+  off = "off",
+}
+
+export interface IPollOption {
+  _id: Types.ObjectId;
+  text: string;
+  votesCount: number;
+}
+
+// Poll attached to a post; votes are kept as PollVotes, the counts here are
+// denormalized from them
+export interface IPoll {
+  question: string;
+  options: IPollOption[];
+  multipleChoice: boolean; // Voters may pick several options
+  anonymous: boolean; // Nobody can list who voted for what
+  closesAt?: Date; // No more votes from then on; open forever when unset
+  votersCount: number;
 }
 
 export interface IPost {
   _id: Types.ObjectId;
-  title: string;
-  content: string;
+  title: string; // Empty for reposts and quotes
+  content: string; // Commentary on quote posts, empty for reposts
+  sharedPost?: Types.ObjectId; // Reposts and quotes: the post being shared
+  poll?: IPoll;
   author: Types.ObjectId;
   images?: string[];
   imageKeys?: string[]; // S3 keys for cleanup
   tags?: string[];
+  mentions: Types.ObjectId[]; // Users @mentioned in the content
   status: PostStatus;
   availability: PostAvailability;
+  audienceLists?: Types.ObjectId[]; // Lists availability: the friend lists shown to
+  excludedUsers?: Types.ObjectId[]; // Kept from the post whatever its availability
+  publishedAt?: Date; // First time the post was published
+  scheduledAt?: Date; // Drafts only: when the scheduler publishes the post
+  isEdited: boolean; // Title, content, tags or images changed after creation
+  editedAt?: Date;
   likesCount: number;
   dislikesCount: number;
+  reactionCounts: ReactionCounts;
   commentsCount: number;
   viewsCount: number;
+  sharesCount: number; // Live reposts and quotes of this post
+  commentSetting: CommentSetting;
+  pinnedComments: Types.ObjectId[]; // Root comments shown first, in pin order
 
   // Moderation and freezing
   isFrozen: boolean;
@@ -44,21 +83,67 @@ export interface IPost {
   updatedAt: Date;
 }
 
+const pollSchema = new mongoose.Schema<IPoll>(
+  {
+    question: { type: String, required: true, trim: true, maxLength: 300 },
+    options: {
+      type: [
+        {
+          text: { type: String, required: true, trim: true, maxLength: 100 },
+          votesCount: { type: Number, default: 0 },
+        },
+      ],
+      validate: {
+        validator: (options: unknown[]) =>
+          options.length >= 2 && options.length <= 10,
+        message: "A poll needs 2 to 10 options",
+      },
+    },
+    multipleChoice: { type: Boolean, default: false },
+    anonymous: { type: Boolean, default: false },
+    closesAt: { type: Date },
+    votersCount: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+// Reposts and quotes carry another post, so a title and content of their own
+// are optional
+function isOwnPost(this: IPost) {
+  return !this.sharedPost;
+}
+
+// Who a post is narrowed to or kept from is for its author only, the
+// access policy reads it off the document
+const hideAudience = (ret: any) => {
+  delete ret.audienceLists;
+  delete ret.excludedUsers;
+  return ret;
+};
+
 const postSchema = new mongoose.Schema<IPost>(
   {
     title: {
       type: String,
-      required: true,
+      required: isOwnPost,
       trim: true,
       minLength: 3,
       maxLength: 200,
     },
     content: {
       type: String,
-      required: true,
-      minLength: 10,
+      required: isOwnPost,
       maxLength: 5000,
+      validate: {
+        // Commentary on a shared post may be shorter than a post of its own
+        validator: function (this: IPost, value: string) {
+          return !isOwnPost.call(this) || value.length >= 10;
+        },
+        message: "Content must be at least 10 characters",
+      },
     },
+    sharedPost: { type: mongoose.Schema.Types.ObjectId, ref: "Post" },
+    poll: { type: pollSchema },
     author: {
       type: mongoose.Schema.Types.ObjectId,
       ref: "User",
@@ -73,6 +158,7 @@ const postSchema = new mongoose.Schema<IPost>(
         lowercase: true,
       },
     ],
+    mentions: [{ type: mongoose.Schema.Types.ObjectId, ref: "User" }],
     status: {
       type: String,
       enum: Object.values(PostStatus),
@@ -83,10 +169,26 @@ const postSchema = new mongoose.Schema<IPost>(
       enum: Object.values(PostAvailability),
       default: PostAvailability.public,
     },
+    audienceLists: [
+      { type: mongoose.Schema.Types.ObjectId, ref: "FriendList" },
+    ],
+    excludedUsers: [{ type: mongoose.Schema.Types.ObjectId, ref: "User" }],
+    publishedAt: { type: Date },
+    scheduledAt: { type: Date },
+    isEdited: { type: Boolean, default: false },
+    editedAt: { type: Date },
     likesCount: { type: Number, default: 0 },
     dislikesCount: { type: Number, default: 0 },
+    reactionCounts: reactionCountsDefinition,
     commentsCount: { type: Number, default: 0 },
     viewsCount: { type: Number, default: 0 },
+    sharesCount: { type: Number, default: 0 },
+    commentSetting: {
+      type: String,
+      enum: Object.values(CommentSetting),
+      default: CommentSetting.everyone,
+    },
+    pinnedComments: [{ type: mongoose.Schema.Types.ObjectId, ref: "Comment" }],
 
     // Moderation and freezing
     isFrozen: { type: Boolean, default: false },
@@ -102,8 +204,8 @@ const postSchema = new mongoose.Schema<IPost>(
   },
   {
     timestamps: true,
-    toObject: { virtuals: true },
-    toJSON: { virtuals: true },
+    toObject: { virtuals: true, transform: (_doc, ret) => hideAudience(ret) },
+    toJSON: { virtuals: true, transform: (_doc, ret) => hideAudience(ret) },
   }
 );
 
@@ -119,30 +221,123 @@ postSchema.virtual("authorDetails", {
 // Index for better performance
 postSchema.index({ author: 1, createdAt: -1 });
 postSchema.index({ status: 1, availability: 1, isDeleted: 1 });
-postSchema.index({ tags: 1 });
+postSchema.index({ tags: 1, createdAt: -1, _id: -1 });
+postSchema.index({ mentions: 1, createdAt: -1 });
+postSchema.index({ audienceLists: 1 });
 postSchema.index({ createdAt: -1 });
+postSchema.index({ status: 1, scheduledAt: 1 });
+postSchema.index({ author: 1, scheduledAt: 1 });
+postSchema.index({ sharedPost: 1, createdAt: -1 });
+postSchema.index({ isDeleted: 1, deletedAt: 1 });
+// Full-text search, titles and tags weigh more than the body
+postSchema.index(
+  { title: "text", tags: "text", content: "text" },
+  { name: "post_text_search", weights: { title: 5, tags: 3, content: 1 } }
+);
+
+// Stamp the first publish time on new posts
+postSchema.pre("save", function () {
+  this.$locals.justPublished =
+    this.status === PostStatus.published && !this.publishedAt;
+  if (this.$locals.justPublished) {
+    this.publishedAt = new Date();
+  }
+  this.$locals.wasNew = this.isNew;
+});
+
+postSchema.post("save", async function (doc) {
+  // Import event emitter dynamically to avoid circular dependency
+  const { evenEmitter } = await import("../../service/event.js");
+
+  if (doc.$locals.wasNew) {
+    evenEmitter.emit("postChanged", {
+      before: null,
+      after: doc.toObject(),
+    });
+  }
+  if (doc.$locals.justPublished) {
+    evenEmitter.emit("postPublished", { postId: doc._id });
+  }
+});
+
+// Fields the postChanged listeners follow. Updates that touch none of them,
+// like counter bumps from reactions, views and polls, skip the event.
+const TRACKED_POST_FIELDS = new Set([
+  "tags",
+  "status",
+  "availability",
+  "audienceLists",
+  "excludedUsers",
+  "isFrozen",
+  "isDeleted",
+  "sharedPost",
+  "publishedAt",
+]);
+
+const touchesTrackedFields = (update: any): boolean => {
+  if (!update) return false;
+  // Aggregation pipeline updates are a list of stages
+  if (Array.isArray(update)) return update.some(touchesTrackedFields);
+
+  return Object.entries(update).some(([key, value]) =>
+    key.startsWith("$")
+      ? touchesTrackedFields(value)
+      : TRACKED_POST_FIELDS.has(key.split(".")[0]!)
+  );
+};
+
+// Keep the post as it was before an update or delete so hashtag usage and
+// timelines can follow tag, status, availability, freeze and delete changes
+postSchema.pre(["findOneAndUpdate", "findOneAndDelete"], async function () {
+  if (
+    (this as any).op === "findOneAndUpdate" &&
+    !touchesTrackedFields(this.getUpdate())
+  ) {
+    return;
+  }
+
+  const before = await this.model
+    .findOne(this.getQuery(), null, { includeDeleted: true })
+    .lean<IPost>();
+  (this as any)._postBefore = before;
 
-// Pre-hook for soft delete - automatically delete associated images
-postSchema.pre("findOneAndUpdate", async function () {
   const update = this.getUpdate() as any;
+  const status = update?.status ?? update?.$set?.status;
+  if (before && !before.publishedAt && status === PostStatus.published) {
+    this.set("publishedAt", new Date());
+    (this as any)._justPublished = true;
+  }
+});
+
+// Only updates that matched a post report a change, so a conditional update
+// that lost a race (e.g. two schedulers publishing the same post) is silent
+postSchema.post("findOneAndUpdate", async function (result) {
+  const before = (this as any)._postBefore;
+  if (!before || !result) return;
 
-  if (update && update.isDeleted === true) {
-    const post = await this.model.findOne(this.getQuery());
+  const after = await this.model
+    .findOne({ _id: before._id }, null, { includeDeleted: true })
+    .lean();
 
-    if (post && post.imageKeys && post.imageKeys.length > 0) {
-      // Import event emitter dynamically to avoid circular dependency
-      const { evenEmitter } = await import("../../service/event.js");
+  // Import event emitter dynamically to avoid circular dependency
+  const { evenEmitter } = await import("../../service/event.js");
+  evenEmitter.emit("postChanged", { before, after });
 
-      // Emit event to delete images
-      evenEmitter.emit("deletePostImages", {
-        imageKeys: post.imageKeys,
-        bucket: process.env.AWS_BUCKET_NAME,
-        postId: post._id,
-      });
-    }
+  // The first publish fires the post-published side effects exactly once
+  if ((this as any)._justPublished) {
+    evenEmitter.emit("postPublished", { postId: before._id });
   }
 });
 
+postSchema.post("findOneAndDelete", async function (result) {
+  const before = (this as any)._postBefore;
+  if (!before || !result) return;
+
+  // Import event emitter dynamically to avoid circular dependency
+  const { evenEmitter } = await import("../../service/event.js");
+  evenEmitter.emit("postChanged", { before, after: null });
+});
+
 // Query middleware to exclude soft deleted posts by default
 postSchema.pre(/^find/, function (this: any) {
   // Only exclude deleted posts if not explicitly including them
@@ -0,0 +1,57 @@
+import mongoose, { Types, Document } from "mongoose";
+
+// Activity on a post during one UTC day
+export interface IPostDailyStats extends Document {
+  _id: Types.ObjectId;
+  post: Types.ObjectId;
+  author: Types.ObjectId; // Kept to roll up an author's posts in one query
+  day: Date; // Midnight UTC
+  views: number;
+  friendViews: number; // Views by friends of the author, part of views
+  reactions: number; // New reactions
+  comments: number; // New comments and replies in the post's thread
+  shares: number; // New reposts and quotes
+}
+
+export type PostDailyMetric =
+  "views" | "friendViews" | "reactions" | "comments" | "shares";
+
+const postDailyStatsSchema = new mongoose.Schema<IPostDailyStats>(
+  {
+    post: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Post",
+      required: true,
+    },
+
+    author: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+
+    day: {
+      type: Date,
+      required: true,
+    },
+
+    views: { type: Number, default: 0 },
+    friendViews: { type: Number, default: 0 },
+    reactions: { type: Number, default: 0 },
+    comments: { type: Number, default: 0 },
+    shares: { type: Number, default: 0 },
+  },
+  {
+    versionKey: false,
+  }
+);
+
+postDailyStatsSchema.index({ post: 1, day: 1 }, { unique: true });
+postDailyStatsSchema.index({ author: 1, day: 1 });
+
+const PostDailyStats = mongoose.model<IPostDailyStats>(
+  "PostDailyStats",
+  postDailyStatsSchema
+);
+
+export default PostDailyStats;
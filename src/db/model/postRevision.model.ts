@@ -0,0 +1,67 @@
+import mongoose, { Types, Document } from "mongoose";
+
+// State of a post before one of its edits. Revisions are numbered per post
+// from 1 (the original) upwards.
+export interface IPostRevision extends Document {
+  _id: Types.ObjectId;
+  post: Types.ObjectId;
+  revision: number;
+  title: string;
+  content: string;
+  tags: string[];
+  images: string[];
+  imageKeys: string[]; // Keeps the S3 objects alive, see deletePostImages
+  editedBy: Types.ObjectId; // User whose edit replaced this state
+  createdAt: Date; // When this state was replaced
+}
+
+const postRevisionSchema = new mongoose.Schema<IPostRevision>(
+  {
+    post: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Post",
+      required: true,
+    },
+
+    revision: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+
+    title: {
+      type: String,
+      required: true,
+    },
+
+    content: {
+      type: String,
+      required: true,
+    },
+
+    tags: [String],
+    images: [String],
+    imageKeys: [String],
+
+    editedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    versionKey: false,
+  }
+);
+
+postRevisionSchema.index({ post: 1, revision: -1 }, { unique: true });
+// Image cleanup checks whether any revision still uses a key
+postRevisionSchema.index({ imageKeys: 1 });
+
+const PostRevision = mongoose.model<IPostRevision>(
+  "PostRevision",
+  postRevisionSchema
+);
+
+export default PostRevision;
@@ -0,0 +1,43 @@
+import mongoose, { Types, Document } from "mongoose";
+
+// A user's views of a post. A view only counts again once the counting
+// window since the last counted one has passed, so refreshes do not add up.
+export interface IPostView extends Document {
+  _id: Types.ObjectId;
+  post: Types.ObjectId;
+  viewer: Types.ObjectId;
+  lastCountedAt: Date; // Last view that was counted
+  createdAt: Date; // First view
+  updatedAt: Date;
+}
+
+const postViewSchema = new mongoose.Schema<IPostView>(
+  {
+    post: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Post",
+      required: true,
+    },
+
+    viewer: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+
+    lastCountedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+postViewSchema.index({ post: 1, viewer: 1 }, { unique: true });
+
+const PostView = mongoose.model<IPostView>("PostView", postViewSchema);
+
+export default PostView;
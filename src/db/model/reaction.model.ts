@@ -0,0 +1,115 @@
+import mongoose, { Types } from "mongoose";
+
+export enum ReactionType {
+  like = "like",
+  dislike = "dislike",
+  love = "love",
+  haha = "haha",
+  wow = "wow",
+  sad = "sad",
+  angry = "angry",
+}
+
+export enum ReactionTargetType {
+  post = "post",
+  comment = "comment",
+  message = "message",
+}
+
+// Denormalized number of reactions of each type, kept on every target
+export type ReactionCounts = Record<ReactionType, number>;
+
+export const reactionCountsDefinition = Object.fromEntries(
+  Object.values(ReactionType).map((type) => [
+    type,
+    { type: Number, default: 0 },
+  ])
+) as Record<ReactionType, { type: NumberConstructor; default: number }>;
+
+export const emptyReactionCounts = (): ReactionCounts =>
+  Object.fromEntries(
+    Object.values(ReactionType).map((type) => [type, 0])
+  ) as ReactionCounts;
+
+// $inc of a change in reaction counts. Posts and comments also keep their
+// original like/dislike counters in sync.
+export const toReactionCountsInc = (
+  delta: Partial<ReactionCounts>,
+  withLikeCounters = false
+) => {
+  const inc: Record<string, number> = {};
+  for (const [type, value] of Object.entries(delta)) {
+    if (!value) continue;
+    inc[`reactionCounts.${type}`] = value;
+    if (withLikeCounters && type === ReactionType.like) inc.likesCount = value;
+    if (withLikeCounters && type === ReactionType.dislike) {
+      inc.dislikesCount = value;
+    }
+  }
+  return inc;
+};
+
+// $set of a target's full reaction counts, see toReactionCountsInc
+export const toReactionCountsSet = (
+  counts: ReactionCounts,
+  withLikeCounters = false
+) => ({
+  reactionCounts: counts,
+  ...(withLikeCounters && {
+    likesCount: counts.like,
+    dislikesCount: counts.dislike,
+  }),
+});
+
+export interface IReaction {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  target: Types.ObjectId;
+  targetType: ReactionTargetType;
+  reactionType: ReactionType;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const reactionSchema = new mongoose.Schema<IReaction>(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    target: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+    },
+    targetType: {
+      type: String,
+      enum: Object.values(ReactionTargetType),
+      required: true,
+    },
+    reactionType: {
+      type: String,
+      enum: Object.values(ReactionType),
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One reaction per user per target
+reactionSchema.index({ user: 1, target: 1, targetType: 1 }, { unique: true });
+
+// Who reacted to a target (optionally with one type), newest first
+reactionSchema.index({
+  target: 1,
+  targetType: 1,
+  reactionType: 1,
+  createdAt: -1,
+});
+reactionSchema.index({ target: 1, targetType: 1, createdAt: -1 });
+
+const reactionModel = mongoose.model<IReaction>("Reaction", reactionSchema);
+
+export default reactionModel;
@@ -0,0 +1,61 @@
+import mongoose, { Types, Document } from "mongoose";
+
+// Entries older than this are expired by MongoDB; the feed never reads
+// further back than its own age window
+export const TIMELINE_RETENTION_DAYS = 30;
+
+// One post materialized into a user's home timeline (fan-out on write)
+export interface ITimelineEntry extends Document {
+  _id: Types.ObjectId;
+  owner: Types.ObjectId; // User whose timeline this is
+  post: Types.ObjectId;
+  author: Types.ObjectId; // Kept to purge an author's entries in one query
+  publishedAt: Date;
+}
+
+const timelineEntrySchema = new mongoose.Schema<ITimelineEntry>(
+  {
+    owner: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+
+    post: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Post",
+      required: true,
+    },
+
+    author: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+
+    publishedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    versionKey: false,
+  }
+);
+
+// Reading a timeline page is a single scan of this index
+timelineEntrySchema.index({ owner: 1, publishedAt: -1, post: -1 });
+timelineEntrySchema.index({ owner: 1, post: 1 }, { unique: true });
+timelineEntrySchema.index({ owner: 1, author: 1 });
+timelineEntrySchema.index({ post: 1 });
+timelineEntrySchema.index(
+  { publishedAt: 1 },
+  { expireAfterSeconds: TIMELINE_RETENTION_DAYS * 24 * 60 * 60 }
+);
+
+const TimelineEntry = mongoose.model<ITimelineEntry>(
+  "TimelineEntry",
+  timelineEntrySchema
+);
+
+export default TimelineEntry;
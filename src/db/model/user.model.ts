@@ -1,4 +1,5 @@
 import mongoose, { Types } from "mongoose";
+import { NotificationType } from "./notification.model.js";
 export enum GenderType {
   male = "male",
   female = "female",
@@ -7,11 +8,52 @@ export enum RoleType {
   user = "user",
   admin = "admin",
 }
+export enum NotificationChannel {
+  socket = "socket",
+  email = "email",
+  digest = "digest",
+}
+
+export interface INotificationChannelPreference {
+  socket: boolean;
+  email: boolean;
+  digest: boolean;
+}
+
+export interface IQuietHours {
+  enabled: boolean;
+  start: string; // "HH:mm" in the user's timezone
+  end: string; // "HH:mm" in the user's timezone
+  timezone: string; // IANA timezone, e.g. "Africa/Cairo"
+}
+
+export enum DigestFrequency {
+  off = "off",
+  daily = "daily",
+  weekly = "weekly",
+}
+
+export interface IDigestSettings {
+  frequency: DigestFrequency;
+  lastSentAt?: Date;
+  // Failed sends in a row and when the next attempt may run
+  failedAttempts?: number;
+  retryAt?: Date;
+}
+
+export interface INotificationSettings {
+  // Keyed by NotificationType, missing types fall back to defaults
+  preferences?: Map<string, INotificationChannelPreference>;
+  quietHours?: IQuietHours;
+  digest?: IDigestSettings;
+}
+
 export interface IUser {
   _id: Types.ObjectId;
   fName: string;
   lName: string;
   userName?: string;
+  handle?: string; // Unique @handle used for mentions
   email: string;
   password?: string;
   age?: number;
@@ -32,16 +74,73 @@ export interface IUser {
   frozenReason?: string;
   restoredAt?: Date;
   role?: RoleType;
+  notificationSettings?: INotificationSettings;
+  // Follows need the user's approval when set
+  approveFollowers: boolean;
+  // Accepted follows only, kept in step by the follow service
+  followersCount: number;
+  followingCount: number;
   changeCredentials: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const channelPreferenceSchema =
+  new mongoose.Schema<INotificationChannelPreference>(
+    {
+      socket: { type: Boolean },
+      email: { type: Boolean },
+      digest: { type: Boolean },
+    },
+    { _id: false }
+  );
+
+const notificationSettingsSchema = new mongoose.Schema<INotificationSettings>(
+  {
+    preferences: {
+      type: Map,
+      of: channelPreferenceSchema,
+      validate: {
+        validator: (value: Map<string, unknown>) =>
+          Array.from(value.keys()).every((key) =>
+            Object.values(NotificationType).includes(key as NotificationType)
+          ),
+        message: "Unknown notification type in preferences",
+      },
+    },
+    quietHours: {
+      enabled: { type: Boolean, default: false },
+      start: { type: String, match: /^([01]\d|2[0-3]):[0-5]\d$/ },
+      end: { type: String, match: /^([01]\d|2[0-3]):[0-5]\d$/ },
+      timezone: { type: String, default: "UTC" },
+    },
+    digest: {
+      frequency: {
+        type: String,
+        enum: DigestFrequency,
+        default: DigestFrequency.off,
+      },
+      lastSentAt: { type: Date },
+      failedAttempts: { type: Number },
+      retryAt: { type: Date },
+    },
+  },
+  { _id: false }
+);
+
 const userSchema = new mongoose.Schema<IUser>(
   {
     fName: { type: String, required: true, minLength: 2, trim: true },
     lName: { type: String, required: true, minLength: 2, trim: true },
     email: { type: String, required: true, unique: true, trim: true },
+    handle: {
+      type: String,
+      unique: true,
+      sparse: true,
+      trim: true,
+      lowercase: true,
+      match: /^[a-z0-9_]{3,30}$/,
+    },
     password: { type: String },
     age: { type: Number, min: 18, max: 60 },
     phone: { type: String },
@@ -66,6 +165,10 @@ const userSchema = new mongoose.Schema<IUser>(
     changeCredentials: { type: Date },
     gender: { type: String, enum: GenderType },
     role: { type: String, enum: RoleType, default: RoleType.user },
+    notificationSettings: { type: notificationSettingsSchema },
+    approveFollowers: { type: Boolean, default: false },
+    followersCount: { type: Number, default: 0, min: 0 },
+    followingCount: { type: Number, default: 0, min: 0 },
   },
   {
     timestamps: true,
@@ -74,6 +177,18 @@ const userSchema = new mongoose.Schema<IUser>(
   }
 );
 
+// Digest job picks opted-in users whose last digest is due
+userSchema.index({
+  "notificationSettings.digest.frequency": 1,
+  "notificationSettings.digest.lastSentAt": 1,
+});
+
+// Full-text search over names and handles
+userSchema.index(
+  { fName: "text", lName: "text", handle: "text" },
+  { name: "user_text_search", weights: { handle: 10, fName: 5, lName: 5 } }
+);
+
 userSchema
   .virtual("userName")
   .set(function (value) {
@@ -45,6 +45,40 @@ export class BlockedUserRepository {
     return !!blockedUser;
   }
 
+  // Which of the given users the blocker blocked
+  async getBlockedAmong(
+    blockerId: string,
+    userIds: Types.ObjectId[]
+  ): Promise<Types.ObjectId[]> {
+    const blocks = await this.model
+      .find({
+        blocker: new Types.ObjectId(blockerId),
+        blocked: { $in: userIds },
+      })
+      .select("blocked")
+      .lean();
+    return blocks.map((block) => block.blocked);
+  }
+
+  // IDs of everyone the user blocked or was blocked by
+  async getBlockRelatedUserIds(userId: string): Promise<Types.ObjectId[]> {
+    const relations = await this.model
+      .find({
+        $or: [
+          { blocker: new Types.ObjectId(userId) },
+          { blocked: new Types.ObjectId(userId) },
+        ],
+      })
+      .select("blocker blocked")
+      .lean();
+
+    return relations.map((relation) =>
+      relation.blocker.toString() === userId
+        ? relation.blocked
+        : relation.blocker
+    );
+  }
+
   // Get list of users blocked by a specific user
   async getBlockedUsers(
     blockerId: string,
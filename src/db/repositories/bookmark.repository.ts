@@ -0,0 +1,115 @@
+import { Types } from "mongoose";
+import Bookmark from "../model/bookmark.model.js";
+
+export interface BookmarkCursor {
+  createdAt: Date;
+  _id: Types.ObjectId;
+}
+
+export class BookmarkRepository {
+  private model = Bookmark;
+
+  // Save a post, or move an existing bookmark to another collection (null
+  // for none). The original save time is kept.
+  async upsert(userId: string, postId: string, collectionId: string | null) {
+    return await this.model.findOneAndUpdate(
+      {
+        user: new Types.ObjectId(userId),
+        post: new Types.ObjectId(postId),
+      },
+      {
+        $set: {
+          bookmarkCollection: collectionId
+            ? new Types.ObjectId(collectionId)
+            : null,
+        },
+      },
+      { upsert: true, new: true }
+    );
+  }
+
+  // Remove a user's bookmark of a post
+  async remove(userId: string, postId: string) {
+    const { deletedCount } = await this.model.deleteOne({
+      user: new Types.ObjectId(userId),
+      post: new Types.ObjectId(postId),
+    });
+    return deletedCount > 0;
+  }
+
+  // Which of the given posts the user saved
+  async getBookmarkedPostIds(
+    userId: string,
+    postIds: (Types.ObjectId | string)[]
+  ): Promise<Set<string>> {
+    const bookmarks = await this.model
+      .find({
+        user: new Types.ObjectId(userId),
+        post: { $in: postIds.map((id) => new Types.ObjectId(id)) },
+      })
+      .select("post")
+      .lean();
+    return new Set(bookmarks.map((bookmark) => bookmark.post.toString()));
+  }
+
+  // One page of a user's bookmarks, or of one collection, newest first
+  // with a (createdAt, _id) cursor. Posts are populated, deleted ones come
+  // back as null.
+  async getBookmarks(
+    query: { userId: string; collectionId?: string | undefined },
+    options: { limit?: number; cursor?: BookmarkCursor | null } = {}
+  ) {
+    const { limit = 10, cursor } = options;
+    const filter: any = { user: new Types.ObjectId(query.userId) };
+    if (query.collectionId) {
+      filter.bookmarkCollection = new Types.ObjectId(query.collectionId);
+    }
+
+    if (cursor) {
+      filter.$or = [
+        { createdAt: { $lt: cursor.createdAt } },
+        { createdAt: cursor.createdAt, _id: { $lt: cursor._id } },
+      ];
+    }
+
+    const bookmarks = await this.model
+      .find(filter)
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1)
+      .populate({ path: "post", populate: { path: "authorDetails" } });
+
+    const hasNextPage = bookmarks.length > limit;
+    if (hasNextPage) bookmarks.pop();
+
+    return { data: bookmarks, hasNextPage };
+  }
+
+  // Number of bookmarks in each of the given collections
+  async countByCollection(
+    collectionIds: Types.ObjectId[]
+  ): Promise<Map<string, number>> {
+    const counts = await this.model.aggregate([
+      { $match: { bookmarkCollection: { $in: collectionIds } } },
+      { $group: { _id: "$bookmarkCollection", count: { $sum: 1 } } },
+    ]);
+    return new Map(counts.map((entry) => [entry._id.toString(), entry.count]));
+  }
+
+  // Take the bookmarks of a deleted collection out of it
+  async clearCollection(collectionId: Types.ObjectId | string) {
+    await this.model.updateMany(
+      { bookmarkCollection: new Types.ObjectId(collectionId) },
+      { $set: { bookmarkCollection: null } }
+    );
+  }
+
+  // Remove every bookmark of a post
+  async removeByPost(postId: string) {
+    await this.model.deleteMany({ post: new Types.ObjectId(postId) });
+  }
+
+  // Remove every bookmark of a user
+  async removeByUser(userId: string) {
+    await this.model.deleteMany({ user: new Types.ObjectId(userId) });
+  }
+}
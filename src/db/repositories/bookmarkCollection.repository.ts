@@ -0,0 +1,62 @@
+import { Types } from "mongoose";
+import BookmarkCollection, {
+  IBookmarkCollection,
+} from "../model/bookmarkCollection.model.js";
+
+export class BookmarkCollectionRepository {
+  private model = BookmarkCollection;
+
+  async create(
+    userId: string,
+    data: { name: string; isPrivate?: boolean | undefined }
+  ) {
+    return await this.model.create({
+      user: new Types.ObjectId(userId),
+      name: data.name,
+      ...(data.isPrivate !== undefined && { isPrivate: data.isPrivate }),
+    });
+  }
+
+  async findById(id: string) {
+    return await this.model.findById(id);
+  }
+
+  // A collection only if it belongs to the user
+  async findOwned(userId: string, id: string) {
+    return await this.model.findOne({
+      _id: new Types.ObjectId(id),
+      user: new Types.ObjectId(userId),
+    });
+  }
+
+  // A user's collections, alphabetically
+  async getUserCollections(userId: string) {
+    return await this.model
+      .find({ user: new Types.ObjectId(userId) })
+      .sort({ name: 1 });
+  }
+
+  async update(
+    userId: string,
+    id: string,
+    update: Partial<Pick<IBookmarkCollection, "name" | "isPrivate">>
+  ) {
+    return await this.model.findOneAndUpdate(
+      { _id: new Types.ObjectId(id), user: new Types.ObjectId(userId) },
+      { $set: update },
+      { new: true, runValidators: true }
+    );
+  }
+
+  async delete(userId: string, id: string) {
+    return await this.model.findOneAndDelete({
+      _id: new Types.ObjectId(id),
+      user: new Types.ObjectId(userId),
+    });
+  }
+
+  // Remove every collection of a user
+  async removeByUser(userId: string) {
+    await this.model.deleteMany({ user: new Types.ObjectId(userId) });
+  }
+}
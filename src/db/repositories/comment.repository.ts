@@ -1,9 +1,17 @@
-import { Types } from "mongoose";
+import { PipelineStage, Types } from "mongoose";
 import Comment, {
   IComment,
   CommentType,
   CommentStatus,
 } from "../model/comment.model.js";
+import {
+  ReactionCounts,
+  toReactionCountsInc,
+} from "../model/reaction.model.js";
+import postModel from "../model/post.model.js";
+import CommentRanking, {
+  COMMENT_RANKING_TTL_HOURS,
+} from "../model/commentRanking.model.js";
 
 export interface CommentQueryOptions {
   page?: number | undefined;
@@ -19,8 +27,53 @@ export interface CommentQueryOptions {
   includeNestedReplies?: boolean | undefined;
   populateAuthor?: boolean | undefined;
   populateCommentOn?: boolean | undefined;
+  // Hidden comments are left out unless the viewer wrote them, or all are
+  // shown with includeHidden (the post author's view)
+  viewerId?: string | undefined;
+  includeHidden?: boolean | undefined;
+  excludeIds?: Types.ObjectId[] | undefined;
 }
 
+// Orders comments can be listed in. Top and controversial rank by a score
+// computed from like/dislike and reply counts.
+export type CommentSort = "top" | "newest" | "oldest" | "controversial";
+
+// Position after the last comment of a page. For the date orders its
+// creation date with the id breaking ties; for the score orders how far
+// into the ranking taken on the first page, and that ranking's id.
+export interface CommentCursor {
+  value: number | Date;
+  _id: Types.ObjectId;
+}
+
+// Comments a score order ranks on its first page; its pages end after them
+export const COMMENT_RANKING_SIZE = 1000;
+
+const likes = { $ifNull: ["$likesCount", 0] };
+const dislikes = { $ifNull: ["$dislikesCount", 0] };
+const replies = { $ifNull: ["$repliesCount", 0] };
+
+const COMMENT_SCORES: Record<"top" | "controversial", any> = {
+  // Net likes, with every reply counting as one more
+  top: { $add: [{ $subtract: [likes, dislikes] }, replies] },
+  // Engagement weighted by how evenly likes and dislikes are split; 0 unless
+  // the comment has both
+  controversial: {
+    $multiply: [
+      { $add: [likes, dislikes, replies] },
+      {
+        $cond: [
+          { $and: [{ $gt: [likes, 0] }, { $gt: [dislikes, 0] }] },
+          {
+            $divide: [{ $min: [likes, dislikes] }, { $max: [likes, dislikes] }],
+          },
+          0,
+        ],
+      },
+    ],
+  },
+};
+
 export interface PaginationResult<T> {
   data: T[];
   pagination: {
@@ -69,6 +122,9 @@ export class CommentRepository {
       depth,
       maxDepth,
       author,
+      viewerId,
+      includeHidden = false,
+      excludeIds,
     } = options;
 
     const baseQuery: any = {
@@ -78,6 +134,8 @@ export class CommentRepository {
       isDeleted: false,
     };
 
+    this.applyVisibility(baseQuery, { viewerId, includeHidden, excludeIds });
+
     if (depth !== undefined) {
       baseQuery.depth = depth;
     } else if (maxDepth !== undefined) {
@@ -95,6 +153,64 @@ export class CommentRepository {
     return await this.getOffsetPaginatedComments(baseQuery, options);
   }
 
+  // Comments by id in the order of the ids, deleted ones and those no
+  // longer matching the query left out
+  async findByIds(
+    ids: Types.ObjectId[],
+    options: CommentQueryOptions = {},
+    match: any = {}
+  ): Promise<IComment[]> {
+    if (ids.length === 0) return [];
+
+    let query = this.model.find({
+      $and: [match, { _id: { $in: ids }, isDeleted: false }],
+    });
+    query = this.applyPopulation(query, options);
+    const comments: IComment[] = await query.exec();
+
+    const byId = new Map(
+      comments.map((comment) => [comment._id.toString(), comment])
+    );
+    return ids
+      .map((id) => byId.get(id.toString()))
+      .filter((comment): comment is IComment => !!comment);
+  }
+
+  // One page of a post's root comments in the given order
+  async getSortedRootComments(
+    commentOn: string,
+    commentOnModel: CommentType,
+    sort: CommentSort,
+    options: CommentQueryOptions & { after?: CommentCursor | null } = {}
+  ) {
+    const baseQuery: any = {
+      commentOn: new Types.ObjectId(commentOn),
+      commentOnModel,
+      depth: 0,
+      status: CommentStatus.active,
+      isDeleted: false,
+    };
+    this.applyVisibility(baseQuery, options);
+
+    return await this.getSortedPage(baseQuery, sort, options);
+  }
+
+  // One page of a comment's direct replies in the given order
+  async getSortedReplies(
+    parentCommentId: string,
+    sort: CommentSort,
+    options: CommentQueryOptions & { after?: CommentCursor | null } = {}
+  ) {
+    const baseQuery: any = {
+      parentComment: new Types.ObjectId(parentCommentId),
+      status: CommentStatus.active,
+      isDeleted: false,
+    };
+    this.applyVisibility(baseQuery, options);
+
+    return await this.getSortedPage(baseQuery, sort, options);
+  }
+
   async getRootComments(
     commentOn: string,
     commentOnModel: CommentType,
@@ -185,6 +301,138 @@ export class CommentRepository {
     );
   }
 
+  // Bring back a comment from the trash with the given status
+  async restore(id: string, status: CommentStatus): Promise<IComment | null> {
+    return await this.model.findOneAndUpdate(
+      { _id: new Types.ObjectId(id), isDeleted: true },
+      {
+        $set: { isDeleted: false, status },
+        $unset: { deletedAt: "", deletedBy: "" },
+      },
+      { new: true }
+    );
+  }
+
+  // A comment in the trash
+  async findDeletedById(id: string): Promise<IComment | null> {
+    return await this.model.findOne({
+      _id: new Types.ObjectId(id),
+      isDeleted: true,
+    });
+  }
+
+  // IDs of every comment in a post's thread, deleted ones included: the
+  // comments on the post and, level by level, the comments on those
+  async getThreadCommentIds(postId: string): Promise<Types.ObjectId[]> {
+    const ids: Types.ObjectId[] = [];
+    let frontier = [new Types.ObjectId(postId)];
+
+    for (let depth = 0; frontier.length > 0 && depth <= 10; depth++) {
+      const comments = await this.model
+        .find({
+          commentOn: { $in: frontier },
+          // Set explicitly so the default filter keeps deleted comments
+          isDeleted: { $in: [true, false] },
+        })
+        .select("_id")
+        .lean();
+      frontier = comments.map((comment) => comment._id);
+      ids.push(...frontier);
+    }
+
+    return ids;
+  }
+
+  // Move the live comments of a post's thread to the trash along with the
+  // post. Counters are left alone, the thread comes back as a whole.
+  async trashThread(postId: string, deletedBy: string, deletedAt: Date) {
+    const ids = await this.getThreadCommentIds(postId);
+    if (ids.length === 0) return 0;
+
+    const result = await this.model.updateMany(
+      { _id: { $in: ids }, isDeleted: false },
+      {
+        $set: {
+          isDeleted: true,
+          deletedAt,
+          deletedBy: new Types.ObjectId(deletedBy),
+          trashedWithPost: new Types.ObjectId(postId),
+        },
+      }
+    );
+    return result.modifiedCount;
+  }
+
+  // Bring back the comments that went to the trash with a post
+  async restoreThread(postId: string) {
+    const result = await this.model.updateMany(
+      { trashedWithPost: new Types.ObjectId(postId), isDeleted: true },
+      {
+        $set: { isDeleted: false },
+        $unset: { deletedAt: "", deletedBy: "", trashedWithPost: "" },
+      }
+    );
+    return result.modifiedCount;
+  }
+
+  // Comments a user deleted themselves, most recently deleted first.
+  // Comments that went with a post come back with it and are not listed.
+  async getTrashedComments(
+    userId: string,
+    options: { page?: number; limit?: number } = {}
+  ): Promise<PaginationResult<IComment>> {
+    const { page = 1, limit = 20 } = options;
+    const query = {
+      author: new Types.ObjectId(userId),
+      deletedBy: new Types.ObjectId(userId),
+      isDeleted: true,
+      trashedWithPost: { $exists: false },
+    };
+
+    const [data, total] = await Promise.all([
+      this.model
+        .find(query)
+        .sort({ deletedAt: -1, _id: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      this.model.countDocuments(query),
+    ]);
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+
+  // IDs of comments deleted at or before `cutoff`, due to be purged.
+  // Comments that went with a post are purged with it.
+  async findExpiredTrashIds(cutoff: Date, limit = 100) {
+    const comments = await this.model
+      .find({
+        isDeleted: true,
+        deletedAt: { $lte: cutoff },
+        trashedWithPost: { $exists: false },
+      })
+      .select("_id")
+      .sort({ deletedAt: 1 })
+      .limit(limit)
+      .lean();
+    return comments.map((comment) => comment._id);
+  }
+
+  async purge(ids: Types.ObjectId[]): Promise<number> {
+    const result = await this.model.deleteMany({ _id: { $in: ids } });
+    return result.deletedCount || 0;
+  }
+
   async updateMetrics(
     id: string,
     metrics: {
@@ -209,6 +457,17 @@ export class CommentRepository {
     );
   }
 
+  // Apply a change in reaction counts, likes/dislikes included
+  async incrementReactionCounts(
+    id: string,
+    delta: Partial<ReactionCounts>
+  ): Promise<void> {
+    await this.model.updateOne(
+      { _id: id },
+      { $inc: toReactionCountsInc(delta, true) }
+    );
+  }
+
   async incrementField(
     id: string,
     field: string,
@@ -234,12 +493,189 @@ export class CommentRepository {
     return await this.getOffsetPaginatedComments(baseQuery, options);
   }
 
+  // Aggregation stages keeping only comments whose thread post (the post
+  // itself, or the post of the root comment) matches the filter
+  private threadPostStages(postFilter: any): PipelineStage[] {
+    return [
+      {
+        $lookup: {
+          from: this.model.collection.name,
+          localField: "rootComment",
+          foreignField: "_id",
+          as: "root",
+          pipeline: [{ $project: { commentOn: 1 } }],
+        },
+      },
+      {
+        $lookup: {
+          from: postModel.collection.name,
+          let: {
+            postId: {
+              $cond: [
+                { $eq: ["$commentOnModel", CommentType.post] },
+                "$commentOn",
+                { $first: "$root.commentOn" },
+              ],
+            },
+          },
+          as: "post",
+          pipeline: [
+            { $match: { $expr: { $eq: ["$_id", "$$postId"] } } },
+            { $match: { ...postFilter, isDeleted: { $ne: true } } },
+            { $project: { _id: 1 } },
+          ],
+        },
+      },
+      { $match: { "post.0": { $exists: true } } },
+    ];
+  }
+
+  // Active comments that @mention the user, newest first, on posts that
+  // match the post filter (the post of a reply's thread for replies)
+  async getMentioningComments(
+    userId: string,
+    postFilter: any,
+    options: CommentQueryOptions = {}
+  ): Promise<PaginationResult<IComment>> {
+    const page = Number(options.page) || 1;
+    const limit = Number(options.limit) || 20;
+
+    const [result] = await this.model.aggregate([
+      {
+        $match: {
+          mentions: new Types.ObjectId(userId),
+          status: CommentStatus.active,
+          isDeleted: false,
+        },
+      },
+      ...this.threadPostStages(postFilter),
+      {
+        $facet: {
+          ids: [
+            { $sort: { createdAt: -1, _id: -1 } },
+            { $skip: (page - 1) * limit },
+            { $limit: limit },
+            { $project: { _id: 1 } },
+          ],
+          total: [{ $count: "count" }],
+        },
+      },
+    ]);
+
+    const data = await this.findByIds(
+      result.ids.map((entry: { _id: Types.ObjectId }) => entry._id),
+      options
+    );
+    const total = result.total[0]?.count || 0;
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+
+  // Posts the user commented on since a date, most recent first. Replies
+  // count for the post of their thread.
+  async getCommentedPostIds(
+    userId: string,
+    since: Date,
+    limit = 50
+  ): Promise<Types.ObjectId[]> {
+    const comments = await this.model
+      .find({
+        author: new Types.ObjectId(userId),
+        isDeleted: false,
+        createdAt: { $gte: since },
+      })
+      .select("commentOn commentOnModel rootComment")
+      .sort({ createdAt: -1 })
+      .limit(limit * 4)
+      .lean();
+
+    const rootIds = comments
+      .filter((comment) => comment.commentOnModel !== CommentType.post)
+      .map((comment) => comment.rootComment)
+      .filter(Boolean);
+    const roots = rootIds.length
+      ? await this.model
+          .find({ _id: { $in: rootIds } })
+          .select("commentOn")
+          .lean()
+      : [];
+    const rootPosts = new Map(
+      roots.map((root) => [root._id.toString(), root.commentOn])
+    );
+
+    const postIds = new Map<string, Types.ObjectId>();
+    for (const comment of comments) {
+      const postId =
+        comment.commentOnModel === CommentType.post
+          ? comment.commentOn
+          : rootPosts.get(comment.rootComment?.toString() || "");
+      if (postId) postIds.set(postId.toString(), postId);
+      if (postIds.size >= limit) break;
+    }
+    return Array.from(postIds.values());
+  }
+
+  // Other users who commented on the same posts, anywhere in their
+  // threads, with the number of those posts, most shared first
+  async getCoCommenters(
+    postIds: Types.ObjectId[],
+    userId: string,
+    limit = 100
+  ): Promise<{ _id: Types.ObjectId; count: number }[]> {
+    if (postIds.length === 0) return [];
+
+    return await this.model.aggregate([
+      {
+        $match: {
+          commentOn: { $in: postIds },
+          commentOnModel: CommentType.post,
+          isDeleted: false,
+        },
+      },
+      {
+        $lookup: {
+          from: this.model.collection.name,
+          localField: "_id",
+          foreignField: "rootComment",
+          pipeline: [
+            { $match: { isDeleted: false } },
+            { $project: { author: 1 } },
+          ],
+          as: "replies",
+        },
+      },
+      {
+        $project: {
+          post: "$commentOn",
+          authors: { $concatArrays: [["$author"], "$replies.author"] },
+        },
+      },
+      { $unwind: "$authors" },
+      { $match: { authors: { $ne: new Types.ObjectId(userId) } } },
+      { $group: { _id: { author: "$authors", post: "$post" } } },
+      { $group: { _id: "$_id.author", count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } },
+      { $limit: limit },
+    ]);
+  }
+
   async searchComments(
     searchText: string,
     options: CommentQueryOptions = {}
   ): Promise<PaginationResult<IComment>> {
     const baseQuery = {
-      content: { $regex: searchText, $options: "i" },
+      $text: { $search: searchText },
       status: CommentStatus.active,
       isDeleted: false,
     };
@@ -247,6 +683,64 @@ export class CommentRepository {
     return await this.getOffsetPaginatedComments(baseQuery, options);
   }
 
+  // Full-text search over live comments on posts matching the filter, best
+  // matches first. Visibility is settled before paging, so pages are full
+  // and the total only counts comments the filter lets through.
+  async searchText(
+    search: string,
+    filter: any,
+    postFilter: any,
+    options: { page?: number; limit?: number } = {}
+  ) {
+    const { page = 1, limit = 10 } = options;
+
+    const [result] = await this.model.aggregate([
+      {
+        $match: {
+          ...filter,
+          $text: { $search: search },
+          status: CommentStatus.active,
+          isDeleted: false,
+        },
+      },
+      { $addFields: { score: { $meta: "textScore" } } },
+      ...this.threadPostStages(postFilter),
+      {
+        $facet: {
+          ids: [
+            { $sort: { score: -1, _id: -1 } },
+            { $skip: (page - 1) * limit },
+            { $limit: limit },
+            { $project: { _id: 1, score: 1 } },
+          ],
+          total: [{ $count: "count" }],
+        },
+      },
+    ]);
+
+    const hits: { _id: Types.ObjectId; score: number }[] = result.ids;
+    const comments = hits.length
+      ? await this.model
+          .find({ _id: { $in: hits.map((hit) => hit._id) } })
+          .populate({
+            path: "authorDetails",
+            select: "fName lName profilePicture",
+          })
+      : [];
+    const byId = new Map(
+      comments.map((comment) => [comment._id.toString(), comment])
+    );
+    // Keep the rank order and the text score the hits are reported with
+    const data = hits.flatMap((hit) => {
+      const comment = byId.get(hit._id.toString());
+      if (!comment) return [];
+      comment.set("score", hit.score, { strict: false });
+      return [comment];
+    });
+
+    return { data, total: result.total[0]?.count || 0, page, limit };
+  }
+
   async countDocuments(query: any = {}): Promise<number> {
     return await this.model.countDocuments({
       ...query,
@@ -351,6 +845,158 @@ export class CommentRepository {
     };
   }
 
+  // Let hidden comments through for their author, or for everyone with
+  // includeHidden, and leave out excluded ids. Only applies to queries for
+  // active comments.
+  private applyVisibility(
+    baseQuery: any,
+    options: Pick<
+      CommentQueryOptions,
+      "viewerId" | "includeHidden" | "excludeIds"
+    >
+  ) {
+    const { viewerId, includeHidden = false, excludeIds } = options;
+
+    if (baseQuery.status === CommentStatus.active && includeHidden) {
+      baseQuery.status = { $in: [CommentStatus.active, CommentStatus.hidden] };
+    } else if (baseQuery.status === CommentStatus.active && viewerId) {
+      delete baseQuery.status;
+      baseQuery.$or = [
+        { status: CommentStatus.active },
+        { status: CommentStatus.hidden, author: new Types.ObjectId(viewerId) },
+      ];
+    }
+
+    if (excludeIds && excludeIds.length > 0) {
+      baseQuery._id = { $nin: excludeIds };
+    }
+  }
+
+  // One page in a date order by keyset over (createdAt, _id), or in a score
+  // order from the ranking taken on the first page. Either way pages neither
+  // repeat nor skip comments when new ones come in or counts change. Null
+  // once the ranking a cursor points into has expired.
+  private async getSortedPage(
+    baseQuery: any,
+    sort: CommentSort,
+    options: CommentQueryOptions & { after?: CommentCursor | null }
+  ): Promise<{
+    data: IComment[];
+    hasNextPage: boolean;
+    last: CommentCursor | null;
+  } | null> {
+    const { after } = options;
+    const limit = Number(options.limit) || 20;
+
+    if (sort === "top" || sort === "controversial") {
+      const ranking = after
+        ? await this.getRankingSlice(after._id, Number(after.value), limit)
+        : await this.createRanking(baseQuery, sort, limit);
+      if (!ranking) return null;
+
+      const offset = after ? Number(after.value) : 0;
+      const hasNextPage = offset + limit < ranking.total;
+      return {
+        data: await this.findByIds(ranking.comments, options, baseQuery),
+        hasNextPage,
+        last: { value: offset + limit, _id: ranking._id },
+      };
+    }
+
+    const direction = sort === "newest" ? -1 : 1;
+    const query: any = { ...baseQuery };
+    if (after) {
+      const beyond = direction === -1 ? "$lt" : "$gt";
+      query.$and = [
+        {
+          $or: [
+            { createdAt: { [beyond]: after.value } },
+            { createdAt: after.value, _id: { [beyond]: after._id } },
+          ],
+        },
+      ];
+    }
+
+    const ranked = await this.model
+      .find(query)
+      .select("_id createdAt")
+      .sort({ createdAt: direction, _id: direction })
+      .limit(limit + 1)
+      .lean();
+
+    const hasNextPage = ranked.length > limit;
+    if (hasNextPage) ranked.pop();
+
+    const data = await this.findByIds(
+      ranked.map((entry) => entry._id),
+      options,
+      baseQuery
+    );
+    const last = ranked[ranked.length - 1];
+
+    return {
+      data,
+      hasNextPage,
+      last: last ? { value: last.createdAt, _id: last._id } : null,
+    };
+  }
+
+  // Rank the comments matching the query by score and keep the ranking for
+  // later pages. Returns the first page's slice of it.
+  private async createRanking(
+    baseQuery: any,
+    sort: "top" | "controversial",
+    limit: number
+  ) {
+    const ranked: { _id: Types.ObjectId }[] = await this.model.aggregate([
+      { $match: baseQuery },
+      { $project: { value: COMMENT_SCORES[sort] } },
+      { $sort: { value: -1, _id: -1 } },
+      { $limit: COMMENT_RANKING_SIZE },
+      { $project: { _id: 1 } },
+    ]);
+    const comments = ranked.map((entry) => entry._id);
+    const ranking = await CommentRanking.create({ comments });
+
+    return {
+      _id: ranking._id,
+      comments: comments.slice(0, limit),
+      total: comments.length,
+    };
+  }
+
+  // A slice of a stored ranking, null once it has expired. MongoDB drops
+  // expired rankings lazily, so their age is checked too.
+  private async getRankingSlice(
+    id: Types.ObjectId,
+    offset: number,
+    limit: number
+  ): Promise<{
+    _id: Types.ObjectId;
+    comments: Types.ObjectId[];
+    total: number;
+  } | null> {
+    const [ranking] = await CommentRanking.aggregate([
+      {
+        $match: {
+          _id: id,
+          createdAt: {
+            $gt: new Date(
+              Date.now() - COMMENT_RANKING_TTL_HOURS * 60 * 60 * 1000
+            ),
+          },
+        },
+      },
+      {
+        $project: {
+          comments: { $slice: ["$comments", offset, limit] },
+          total: { $size: "$comments" },
+        },
+      },
+    ]);
+    return ranking || null;
+  }
+
   private applyPopulation(query: any, options: CommentQueryOptions): any {
     const {
       populateAuthor = true,
@@ -443,12 +1089,11 @@ export class CommentRepository {
     return !!result;
   }
 
+  // Delete a post's whole thread, replies to its comments included
   async hardDeleteByPost(postId: string): Promise<number> {
-    const result = await this.model.deleteMany({
-      commentOn: new Types.ObjectId(postId),
-      commentOnModel: CommentType.post,
-    });
-    return result.deletedCount || 0;
+    const ids = await this.getThreadCommentIds(postId);
+    if (ids.length === 0) return 0;
+    return await this.purge(ids);
   }
 
   async hardDeleteByUser(userId: string): Promise<number> {
@@ -226,6 +226,46 @@ export class ConversationRepository {
     return !!conversation;
   }
 
+  // IDs of every conversation the user takes part in
+  async getUserConversationIds(userId: string): Promise<Types.ObjectId[]> {
+    const conversations = await this.model
+      .find({ participants: new Types.ObjectId(userId) })
+      .select("_id")
+      .lean();
+    return conversations.map((conversation) => conversation._id);
+  }
+
+  // Everyone the user shares an active conversation with, counting the
+  // groups and the one-to-one chats apart
+  async getConversationPartners(userId: string): Promise<
+    {
+      _id: Types.ObjectId;
+      groups: number;
+      conversations: number;
+    }[]
+  > {
+    const id = new Types.ObjectId(userId);
+    return await this.model.aggregate([
+      { $match: { participants: id, isActive: true } },
+      { $project: { type: 1, participants: 1 } },
+      { $unwind: "$participants" },
+      { $match: { participants: { $ne: id } } },
+      {
+        $group: {
+          _id: "$participants",
+          groups: {
+            $sum: { $cond: [{ $eq: ["$type", ConversationType.group] }, 1, 0] },
+          },
+          conversations: {
+            $sum: {
+              $cond: [{ $eq: ["$type", ConversationType.oneToOne] }, 1, 0],
+            },
+          },
+        },
+      },
+    ]);
+  }
+
   // Check if user is admin
   async isAdmin(conversationId: string, userId: string): Promise<boolean> {
     const conversation = await this.model.findOne({
@@ -0,0 +1,50 @@
+import { Types } from "mongoose";
+import FeedSnapshot, {
+  FEED_SNAPSHOT_TTL_HOURS,
+  IFeedSnapshot,
+} from "../model/feedSnapshot.model.js";
+
+export class FeedSnapshotRepository {
+  private model = FeedSnapshot;
+
+  // Store the ranking of a new feed session
+  async create(
+    ownerId: string,
+    posts: Types.ObjectId[]
+  ): Promise<IFeedSnapshot> {
+    return await this.model.create({
+      owner: new Types.ObjectId(ownerId),
+      posts,
+    });
+  }
+
+  // One slice of a user's session ranking, null once the session is gone.
+  // MongoDB drops expired snapshots lazily, so their age is checked too.
+  async getSlice(
+    id: Types.ObjectId,
+    ownerId: string,
+    offset: number,
+    limit: number
+  ): Promise<{ posts: Types.ObjectId[]; total: number } | null> {
+    const [snapshot] = await this.model.aggregate([
+      {
+        $match: {
+          _id: id,
+          owner: new Types.ObjectId(ownerId),
+          createdAt: {
+            $gt: new Date(
+              Date.now() - FEED_SNAPSHOT_TTL_HOURS * 60 * 60 * 1000
+            ),
+          },
+        },
+      },
+      {
+        $project: {
+          posts: { $slice: ["$posts", offset, limit] },
+          total: { $size: "$posts" },
+        },
+      },
+    ]);
+    return snapshot || null;
+  }
+}
@@ -0,0 +1,167 @@
+import { Types } from "mongoose";
+import Follow, { FollowStatus, IFollow } from "../model/follow.model.js";
+
+export interface FollowCursor {
+  createdAt: Date;
+  _id: Types.ObjectId;
+}
+
+const USER_SUMMARY = "fName lName handle profilePicture";
+
+export class FollowRepository {
+  private model = Follow;
+
+  // Start following a user. Returns null when the follow already exists.
+  async create(
+    followerId: string,
+    followingId: string,
+    status: FollowStatus
+  ): Promise<IFollow | null> {
+    try {
+      return await this.model.create({
+        follower: new Types.ObjectId(followerId),
+        following: new Types.ObjectId(followingId),
+        status,
+        ...(status === FollowStatus.accepted && { acceptedAt: new Date() }),
+      });
+    } catch (error: any) {
+      if (error?.code === 11000) return null;
+      throw error;
+    }
+  }
+
+  // The follow of one user by another, whatever its status
+  async find(followerId: string, followingId: string) {
+    return await this.model.findOne({
+      follower: new Types.ObjectId(followerId),
+      following: new Types.ObjectId(followingId),
+    });
+  }
+
+  // Check if a user follows another (accepted follow exists)
+  async isFollowing(followerId: string, followingId: string) {
+    const follow = await this.model.exists({
+      follower: new Types.ObjectId(followerId),
+      following: new Types.ObjectId(followingId),
+      status: FollowStatus.accepted,
+    });
+    return !!follow;
+  }
+
+  // Approve a pending follow. Returns null when there was none.
+  async accept(followerId: string, followingId: string) {
+    return await this.model.findOneAndUpdate(
+      {
+        follower: new Types.ObjectId(followerId),
+        following: new Types.ObjectId(followingId),
+        status: FollowStatus.pending,
+      },
+      { $set: { status: FollowStatus.accepted, acceptedAt: new Date() } },
+      { new: true }
+    );
+  }
+
+  // Remove a follow, only in the given status if one is passed. Returns
+  // the removed follow.
+  async remove(followerId: string, followingId: string, status?: FollowStatus) {
+    return await this.model.findOneAndDelete({
+      follower: new Types.ObjectId(followerId),
+      following: new Types.ObjectId(followingId),
+      ...(status && { status }),
+    });
+  }
+
+  // Remove a user's follows, given and received. Returns what was removed.
+  async removeByUser(userId: string) {
+    const filter = {
+      $or: [
+        { follower: new Types.ObjectId(userId) },
+        { following: new Types.ObjectId(userId) },
+      ],
+    };
+    const follows = await this.model.find(filter).lean();
+    await this.model.deleteMany({
+      _id: { $in: follows.map((follow) => follow._id) },
+    });
+    return follows;
+  }
+
+  // One page of a user's followers, or of the requests waiting for their
+  // approval, newest first with a (createdAt, _id) cursor
+  async getFollowers(
+    userId: string,
+    options: {
+      status?: FollowStatus;
+      limit?: number;
+      cursor?: FollowCursor | null;
+    } = {}
+  ) {
+    const { status = FollowStatus.accepted, ...page } = options;
+    return this.getPage(
+      { following: new Types.ObjectId(userId), status },
+      "follower",
+      page
+    );
+  }
+
+  // One page of the users a user follows, newest first
+  async getFollowing(
+    userId: string,
+    options: { limit?: number; cursor?: FollowCursor | null } = {}
+  ) {
+    return this.getPage(
+      { follower: new Types.ObjectId(userId), status: FollowStatus.accepted },
+      "following",
+      options
+    );
+  }
+
+  // IDs of the users a user follows
+  async getFollowingIds(userId: string): Promise<Types.ObjectId[]> {
+    const follows = await this.model
+      .find({
+        follower: new Types.ObjectId(userId),
+        status: FollowStatus.accepted,
+      })
+      .select("following")
+      .lean();
+    return follows.map((follow) => follow.following);
+  }
+
+  // IDs of a user's followers, or of those waiting for approval
+  async getFollowerIds(
+    userId: string,
+    status: FollowStatus = FollowStatus.accepted
+  ): Promise<Types.ObjectId[]> {
+    const follows = await this.model
+      .find({ following: new Types.ObjectId(userId), status })
+      .select("follower")
+      .lean();
+    return follows.map((follow) => follow.follower);
+  }
+
+  private async getPage(
+    filter: any,
+    populate: "follower" | "following",
+    options: { limit?: number; cursor?: FollowCursor | null }
+  ) {
+    const { limit = 20, cursor } = options;
+    if (cursor) {
+      filter.$or = [
+        { createdAt: { $lt: cursor.createdAt } },
+        { createdAt: cursor.createdAt, _id: { $lt: cursor._id } },
+      ];
+    }
+
+    const follows = await this.model
+      .find(filter)
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1)
+      .populate({ path: populate, select: USER_SUMMARY });
+
+    const hasNextPage = follows.length > limit;
+    if (hasNextPage) follows.pop();
+
+    return { data: follows, hasNextPage };
+  }
+}
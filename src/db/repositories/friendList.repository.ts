@@ -0,0 +1,124 @@
+import { Types } from "mongoose";
+import FriendList from "../model/friendList.model.js";
+
+export class FriendListRepository {
+  private model = FriendList;
+
+  async create(userId: string, data: { name: string; members: string[] }) {
+    return await this.model.create({
+      owner: new Types.ObjectId(userId),
+      name: data.name,
+      members: data.members.map((id) => new Types.ObjectId(id)),
+    });
+  }
+
+  // A list only if it belongs to the user
+  async findOwned(userId: string, id: string) {
+    return await this.model.findOne({
+      _id: new Types.ObjectId(id),
+      owner: new Types.ObjectId(userId),
+    });
+  }
+
+  // A user's lists with their members, alphabetically
+  async getUserLists(userId: string) {
+    return await this.model
+      .find({ owner: new Types.ObjectId(userId) })
+      .sort({ name: 1 });
+  }
+
+  async countByOwner(userId: string) {
+    return await this.model.countDocuments({
+      owner: new Types.ObjectId(userId),
+    });
+  }
+
+  // IDs of those of the given lists that belong to the user
+  async getOwnedIds(
+    userId: string,
+    ids: (Types.ObjectId | string)[]
+  ): Promise<Types.ObjectId[]> {
+    const lists = await this.model
+      .find({
+        _id: { $in: ids.map((id) => new Types.ObjectId(id)) },
+        owner: new Types.ObjectId(userId),
+      })
+      .select("_id")
+      .lean();
+    return lists.map((list) => list._id);
+  }
+
+  // IDs of the lists a user is a member of, of one owner when given
+  async getListIdsWithMember(
+    memberId: string,
+    ownerId?: string
+  ): Promise<Types.ObjectId[]> {
+    const lists = await this.model
+      .find({
+        members: new Types.ObjectId(memberId),
+        ...(ownerId && { owner: new Types.ObjectId(ownerId) }),
+      })
+      .select("_id")
+      .lean();
+    return lists.map((list) => list._id);
+  }
+
+  // Everyone on any of the given lists
+  async getMemberIds(ids: Types.ObjectId[]): Promise<Types.ObjectId[]> {
+    if (ids.length === 0) return [];
+    return await this.model.distinct("members", { _id: { $in: ids } });
+  }
+
+  async rename(userId: string, id: string, name: string) {
+    return await this.model.findOneAndUpdate(
+      { _id: new Types.ObjectId(id), owner: new Types.ObjectId(userId) },
+      { $set: { name } },
+      { new: true, runValidators: true }
+    );
+  }
+
+  async addMembers(userId: string, id: string, memberIds: string[]) {
+    return await this.model.findOneAndUpdate(
+      { _id: new Types.ObjectId(id), owner: new Types.ObjectId(userId) },
+      {
+        $addToSet: {
+          members: { $each: memberIds.map((id) => new Types.ObjectId(id)) },
+        },
+      },
+      { new: true }
+    );
+  }
+
+  async removeMember(userId: string, id: string, memberId: string) {
+    return await this.model.findOneAndUpdate(
+      { _id: new Types.ObjectId(id), owner: new Types.ObjectId(userId) },
+      { $pull: { members: new Types.ObjectId(memberId) } },
+      { new: true }
+    );
+  }
+
+  // Take a user off every list of an owner, e.g. after an unfriend
+  async removeMemberFromOwner(ownerId: string, memberId: string) {
+    await this.model.updateMany(
+      {
+        owner: new Types.ObjectId(ownerId),
+        members: new Types.ObjectId(memberId),
+      },
+      { $pull: { members: new Types.ObjectId(memberId) } }
+    );
+  }
+
+  async delete(userId: string, id: string) {
+    return await this.model.findOneAndDelete({
+      _id: new Types.ObjectId(id),
+      owner: new Types.ObjectId(userId),
+    });
+  }
+
+  // Remove a user's lists and take them off everyone else's
+  async removeByUser(userId: string) {
+    const id = new Types.ObjectId(userId);
+    await this.model.deleteMany({ owner: id });
+    await this.model.updateMany({ members: id }, { $pull: { members: id } });
+  }
+}
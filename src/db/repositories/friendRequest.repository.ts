@@ -12,6 +12,12 @@ export interface FriendRequestQueryOptions {
   populateReceiver?: boolean;
 }
 
+// Requests sent in a time range. Requests from before sentAt was recorded
+// fall back to when they were created.
+const sentIn = (range: { $gte?: Date; $lt?: Date }) => ({
+  $or: [{ sentAt: range }, { sentAt: { $exists: false }, createdAt: range }],
+});
+
 export class FriendRequestRepository {
   private model = FriendRequest;
 
@@ -111,14 +117,14 @@ export class FriendRequestRepository {
     if (populateReceiver) {
       mongoQuery = mongoQuery.populate({
         path: "receiverDetails",
-        select: "firstName lastName profilePicture isVerified",
+        select: "fName lName handle profilePicture",
       });
     }
 
     const results = await mongoQuery
       .skip(skip)
       .limit(limit)
-      .sort({ createdAt: -1 });
+      .sort({ sentAt: -1, createdAt: -1 });
     const total = await this.model.countDocuments(query);
 
     return {
@@ -137,10 +143,87 @@ export class FriendRequestRepository {
   ): Promise<IFriendRequest | null> {
     const updateData: any = { status };
     if (responseMessage) updateData.responseMessage = responseMessage;
+    if (status !== FriendRequestStatus.pending) {
+      updateData.respondedAt = new Date();
+    }
 
     return await this.model.findByIdAndUpdate(id, updateData, { new: true });
   }
 
+  // Withdraw a request the sender still has pending
+  async cancel(id: string, senderId: string): Promise<IFriendRequest | null> {
+    return await this.model.findOneAndUpdate(
+      {
+        _id: id,
+        sender: new Types.ObjectId(senderId),
+        status: FriendRequestStatus.pending,
+      },
+      { status: FriendRequestStatus.cancelled, respondedAt: new Date() },
+      { new: true }
+    );
+  }
+
+  // Mark up to `limit` requests left pending since before the cutoff as
+  // expired. Returns how many were expired.
+  async expirePending(cutoff: Date, limit: number): Promise<number> {
+    const requests = await this.model
+      .find({
+        status: FriendRequestStatus.pending,
+        ...sentIn({ $lt: cutoff }),
+      })
+      .limit(limit)
+      .select("_id")
+      .lean();
+    if (requests.length === 0) return 0;
+
+    const result = await this.model.updateMany(
+      {
+        _id: { $in: requests.map((request) => request._id) },
+        status: FriendRequestStatus.pending,
+      },
+      { status: FriendRequestStatus.expired, respondedAt: new Date() }
+    );
+    return result.modifiedCount;
+  }
+
+  // The request one user sent another, whatever became of it
+  async findFromSender(
+    senderId: string,
+    receiverId: string
+  ): Promise<IFriendRequest | null> {
+    return await this.model.findOne({
+      sender: new Types.ObjectId(senderId),
+      receiver: new Types.ObjectId(receiverId),
+    });
+  }
+
+  // How many requests a user sent since a given time, sending one again
+  // included
+  async countSentSince(senderId: string, since: Date): Promise<number> {
+    return await this.model.countDocuments({
+      sender: new Types.ObjectId(senderId),
+      ...sentIn({ $gte: since }),
+    });
+  }
+
+  // Send a closed request again, as a pending one with the new message
+  async resend(id: string, message?: string): Promise<IFriendRequest | null> {
+    return await this.model.findByIdAndUpdate(
+      id,
+      {
+        status: FriendRequestStatus.pending,
+        sentAt: new Date(),
+        ...(message ? { message } : {}),
+        $unset: {
+          respondedAt: "",
+          responseMessage: "",
+          ...(message ? {} : { message: "" }),
+        },
+      },
+      { new: true }
+    );
+  }
+
   // Delete friend request
   async deleteById(id: string): Promise<IFriendRequest | null> {
     return await this.model.findByIdAndDelete(id);
@@ -230,6 +313,29 @@ export class FriendRequestRepository {
     };
   }
 
+  // IDs of all of a user's friends (no pagination, no population)
+  async getFriendIds(userId: string): Promise<Types.ObjectId[]> {
+    const friendRequests = await this.model
+      .find({
+        $or: [
+          {
+            sender: new Types.ObjectId(userId),
+            status: FriendRequestStatus.accepted,
+          },
+          {
+            receiver: new Types.ObjectId(userId),
+            status: FriendRequestStatus.accepted,
+          },
+        ],
+      })
+      .select("sender receiver")
+      .lean();
+
+    return friendRequests.map((request) =>
+      request.sender.toString() === userId ? request.receiver : request.sender
+    );
+  }
+
   // Remove friendship (delete accepted friend request)
   async removeFriendship(userId1: string, userId2: string): Promise<boolean> {
     const result = await this.model.findOneAndDelete({
@@ -248,4 +354,141 @@ export class FriendRequestRepository {
     });
     return !!result;
   }
+
+  // IDs of users a friend request rules out as suggestions: pending or
+  // accepted in either direction, or one of the user's they rejected
+  async getRequestRelatedUserIds(userId: string): Promise<Types.ObjectId[]> {
+    const id = new Types.ObjectId(userId);
+    const requests = await this.model
+      .find({
+        $or: [
+          {
+            status: {
+              $in: [FriendRequestStatus.pending, FriendRequestStatus.accepted],
+            },
+            $or: [{ sender: id }, { receiver: id }],
+          },
+          { sender: id, status: FriendRequestStatus.rejected },
+        ],
+      })
+      .select("sender receiver")
+      .lean();
+
+    return requests.map((request) =>
+      request.sender.toString() === userId ? request.receiver : request.sender
+    );
+  }
+
+  // Friends of the given users, with how many of them each one is friends
+  // with, most shared first
+  async getFriendsOfFriends(
+    friendIds: Types.ObjectId[],
+    excludeIds: Types.ObjectId[],
+    limit = 100
+  ): Promise<{ _id: Types.ObjectId; count: number }[]> {
+    if (friendIds.length === 0) return [];
+
+    return await this.model.aggregate([
+      {
+        $match: {
+          status: FriendRequestStatus.accepted,
+          $or: [
+            { sender: { $in: friendIds } },
+            { receiver: { $in: friendIds } },
+          ],
+        },
+      },
+      {
+        $project: {
+          pairs: [
+            { friend: "$sender", candidate: "$receiver" },
+            { friend: "$receiver", candidate: "$sender" },
+          ],
+        },
+      },
+      { $unwind: "$pairs" },
+      {
+        $match: {
+          "pairs.friend": { $in: friendIds },
+          "pairs.candidate": { $nin: excludeIds },
+        },
+      },
+      { $group: { _id: "$pairs.candidate", count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } },
+      { $limit: limit },
+    ]);
+  }
+
+  // Pending and accepted requests between a user and any of the others
+  async findWithUsers(
+    userId: string,
+    otherIds: Types.ObjectId[]
+  ): Promise<IFriendRequest[]> {
+    const id = new Types.ObjectId(userId);
+    return await this.model
+      .find({
+        status: {
+          $in: [FriendRequestStatus.pending, FriendRequestStatus.accepted],
+        },
+        $or: [
+          { sender: id, receiver: { $in: otherIds } },
+          { sender: { $in: otherIds }, receiver: id },
+        ],
+      })
+      .select("sender receiver status createdAt sentAt")
+      .lean<IFriendRequest[]>();
+  }
+
+  // How many of the given friends each user is friends with, and the first
+  // few of them
+  async getMutualFriends(
+    userIds: Types.ObjectId[],
+    friendIds: Types.ObjectId[],
+    previewSize = 3
+  ): Promise<
+    { _id: Types.ObjectId; count: number; preview: Types.ObjectId[] }[]
+  > {
+    if (userIds.length === 0 || friendIds.length === 0) return [];
+
+    return await this.model.aggregate([
+      {
+        $match: {
+          status: FriendRequestStatus.accepted,
+          $or: [
+            { sender: { $in: userIds }, receiver: { $in: friendIds } },
+            { sender: { $in: friendIds }, receiver: { $in: userIds } },
+          ],
+        },
+      },
+      {
+        $project: {
+          pairs: [
+            { user: "$sender", friend: "$receiver" },
+            { user: "$receiver", friend: "$sender" },
+          ],
+        },
+      },
+      { $unwind: "$pairs" },
+      {
+        $match: {
+          "pairs.user": { $in: userIds },
+          "pairs.friend": { $in: friendIds },
+        },
+      },
+      { $sort: { "pairs.friend": 1 } },
+      {
+        $group: {
+          _id: "$pairs.user",
+          count: { $sum: 1 },
+          friends: { $push: "$pairs.friend" },
+        },
+      },
+      {
+        $project: {
+          count: 1,
+          preview: { $slice: ["$friends", previewSize] },
+        },
+      },
+    ]);
+  }
 }
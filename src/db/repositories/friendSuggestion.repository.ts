@@ -0,0 +1,56 @@
+import { Types } from "mongoose";
+import FriendSuggestions, {
+  ISuggestedFriend,
+} from "../model/friendSuggestion.model.js";
+
+export class FriendSuggestionRepository {
+  private model = FriendSuggestions;
+
+  // The stored suggestions of a user, null before the first computation
+  async findByUser(userId: string) {
+    return await this.model.findOne({ user: new Types.ObjectId(userId) });
+  }
+
+  // Replace a user's candidates with a fresh ranking
+  async saveCandidates(
+    userId: string,
+    candidates: ISuggestedFriend[],
+    computedAt: Date
+  ) {
+    await this.model.updateOne(
+      { user: new Types.ObjectId(userId) },
+      { $set: { candidates, computedAt } },
+      { upsert: true }
+    );
+  }
+
+  // Never suggest a user to another again
+  async dismiss(userId: string, dismissedId: string) {
+    await this.model.updateOne(
+      { user: new Types.ObjectId(userId) },
+      {
+        $addToSet: { dismissed: new Types.ObjectId(dismissedId) },
+        $pull: { candidates: { user: new Types.ObjectId(dismissedId) } },
+      },
+      { upsert: true }
+    );
+  }
+
+  // Have the suggestions of some users recomputed on their next read
+  async invalidate(userIds: string[]) {
+    await this.model.updateMany(
+      { user: { $in: userIds.map((id) => new Types.ObjectId(id)) } },
+      { $set: { computedAt: null } }
+    );
+  }
+
+  // Drop a user's suggestions and take them out of everyone else's
+  async removeByUser(userId: string) {
+    const id = new Types.ObjectId(userId);
+    await this.model.deleteOne({ user: id });
+    await this.model.updateMany(
+      { $or: [{ "candidates.user": id }, { dismissed: id }] },
+      { $pull: { candidates: { user: id }, dismissed: id } }
+    );
+  }
+}
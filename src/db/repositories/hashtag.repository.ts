@@ -0,0 +1,77 @@
+import Hashtag, { IHashtag } from "../model/hashtag.model.js";
+import HashtagUsage from "../model/hashtagUsage.model.js";
+
+export interface HashtagUsageChange {
+  tag: string;
+  bucket: Date;
+  delta: number;
+}
+
+export interface TrendingHashtag {
+  tag: string;
+  count: number;
+}
+
+export class HashtagRepository {
+  private model = Hashtag;
+  private usageModel = HashtagUsage;
+
+  // Find a hashtag by its (lowercase) name
+  async findByTag(tag: string): Promise<IHashtag | null> {
+    return await this.model.findOne({ tag: tag.toLowerCase() });
+  }
+
+  // Apply usage increments/decrements to the hourly buckets and totals
+  async applyUsageChanges(changes: HashtagUsageChange[]): Promise<void> {
+    if (changes.length === 0) return;
+
+    await this.usageModel.bulkWrite(
+      changes.map(({ tag, bucket, delta }) => ({
+        updateOne: {
+          filter: { tag, bucket },
+          update: { $inc: { count: delta } },
+          upsert: true,
+        },
+      }))
+    );
+
+    const totals = new Map<string, number>();
+    for (const { tag, delta } of changes) {
+      totals.set(tag, (totals.get(tag) || 0) + delta);
+    }
+
+    const now = new Date();
+    await this.model.bulkWrite(
+      Array.from(totals.entries())
+        .filter(([, delta]) => delta !== 0)
+        .map(([tag, delta]) => ({
+          updateOne: {
+            filter: { tag },
+            update: {
+              $inc: { postsCount: delta },
+              ...(delta > 0 && { $set: { lastUsedAt: now } }),
+            },
+            upsert: true,
+          },
+        }))
+    );
+
+    // Buckets emptied by decrements carry no information
+    await this.usageModel.deleteMany({
+      tag: { $in: Array.from(totals.keys()) },
+      count: { $lte: 0 },
+    });
+  }
+
+  // Most used tags in buckets starting at or after `since`
+  async getTrending(since: Date, limit = 10): Promise<TrendingHashtag[]> {
+    return await this.usageModel.aggregate([
+      { $match: { bucket: { $gte: since } } },
+      { $group: { _id: "$tag", count: { $sum: "$count" } } },
+      { $match: { count: { $gt: 0 } } },
+      { $sort: { count: -1, _id: 1 } },
+      { $limit: limit },
+      { $project: { _id: 0, tag: "$_id", count: 1 } },
+    ]);
+  }
+}
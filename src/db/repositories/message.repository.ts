@@ -5,6 +5,10 @@ import messageModel, {
   MessageType,
   MessageStatus,
 } from "../model/message.model.js";
+import {
+  ReactionCounts,
+  toReactionCountsInc,
+} from "../model/reaction.model.js";
 
 export interface MessageQueryOptions {
   page?: number;
@@ -159,6 +163,17 @@ export class MessageRepository {
     );
   }
 
+  // Apply a change in reaction counts, without marking the message edited
+  async incrementReactionCounts(
+    messageId: string,
+    delta: Partial<ReactionCounts>
+  ): Promise<void> {
+    await this.model.updateOne(
+      { _id: messageId },
+      { $inc: toReactionCountsInc(delta) }
+    );
+  }
+
   // Mark message as delivered
   async markAsDelivered(
     messageId: string,
@@ -265,6 +280,38 @@ export class MessageRepository {
     });
   }
 
+  // Full-text search over messages the user can still see, best matches
+  // first. The filter must restrict to the user's conversations.
+  async searchText(
+    search: string,
+    userId: string,
+    filter: any = {},
+    options: { page?: number; limit?: number } = {}
+  ) {
+    const { page = 1, limit = 10 } = options;
+    const query = {
+      ...filter,
+      $text: { $search: search },
+      isDeleted: false,
+      deletedFor: { $ne: new Types.ObjectId(userId) },
+    };
+
+    const [data, total] = await Promise.all([
+      this.model
+        .find(query, { score: { $meta: "textScore" } })
+        .populate({
+          path: "senderDetails",
+          select: "fName lName profilePicture",
+        })
+        .sort({ score: { $meta: "textScore" } })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      this.model.countDocuments(query),
+    ]);
+
+    return { data, total, page, limit };
+  }
+
   // Search messages in conversation
   async searchInConversation(
     conversationId: string,
@@ -282,20 +329,20 @@ export class MessageRepository {
 
     const query = {
       conversation: new Types.ObjectId(conversationId),
-      content: { $regex: searchTerm, $options: "i" },
+      $text: { $search: searchTerm },
       isDeleted: false,
       deletedFor: { $ne: new Types.ObjectId(userId) },
     };
 
     const results = await this.model
-      .find(query)
+      .find(query, { score: { $meta: "textScore" } })
       .populate({
         path: "senderDetails",
         select: "fName lName email profilePicture",
       })
       .skip(skip)
       .limit(limit)
-      .sort({ createdAt: -1 })
+      .sort({ score: { $meta: "textScore" }, createdAt: -1 })
       .exec();
 
     const total = await this.model.countDocuments(query);
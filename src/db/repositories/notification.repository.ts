@@ -0,0 +1,193 @@
+import Notification, {
+  INotification,
+  NotificationType,
+} from "../model/notification.model.js";
+import { Types } from "mongoose";
+
+export interface NotificationQueryOptions {
+  page?: number;
+  limit?: number;
+  unreadOnly?: boolean;
+  type?: NotificationType;
+  since?: Date;
+}
+
+export class NotificationRepository {
+  private model = Notification;
+
+  // Store a new notification
+  async create(
+    notificationData: Partial<INotification>
+  ): Promise<INotification> {
+    const notification = new this.model(notificationData);
+    return await notification.save();
+  }
+
+  // Find notification by ID
+  async findById(id: string): Promise<INotification | null> {
+    return await this.model.findById(id);
+  }
+
+  // Find the unread notification that repeated events of a group collapse into
+  async findUnreadByGroup(
+    userId: string,
+    groupKey: string
+  ): Promise<INotification | null> {
+    return await this.model.findOne({
+      recipient: new Types.ObjectId(userId),
+      groupKey,
+      isRead: false,
+    });
+  }
+
+  // Add an actor to a grouped notification and refresh its text
+  async addActor(
+    id: string,
+    actorId: string,
+    update: Partial<INotification>
+  ): Promise<INotification | null> {
+    return await this.model.findByIdAndUpdate(
+      id,
+      {
+        $addToSet: { actors: new Types.ObjectId(actorId) },
+        $set: { ...update, activityAt: new Date() },
+      },
+      { new: true }
+    );
+  }
+
+  // Get notifications for a user with pagination
+  async getUserNotifications(
+    userId: string,
+    options: NotificationQueryOptions = {}
+  ): Promise<{
+    data: INotification[];
+    total: number;
+    unreadCount: number;
+    page: number;
+    limit: number;
+  }> {
+    const { page = 1, limit = 20, unreadOnly = false, type, since } = options;
+    const skip = (page - 1) * limit;
+
+    const query: any = { recipient: new Types.ObjectId(userId) };
+    if (unreadOnly) query.isRead = false;
+    if (type) query.type = type;
+    if (since) query.activityAt = { $gt: since };
+
+    const results = await this.model
+      .find(query)
+      .sort({ activityAt: -1 })
+      .skip(skip)
+      .limit(limit);
+
+    const [total, unreadCount] = await Promise.all([
+      this.model.countDocuments(query),
+      this.getUnreadCount(userId),
+    ]);
+
+    return {
+      data: results,
+      total,
+      unreadCount,
+      page,
+      limit,
+    };
+  }
+
+  // Get unread notification count for a user
+  async getUnreadCount(userId: string): Promise<number> {
+    return await this.model.countDocuments({
+      recipient: new Types.ObjectId(userId),
+      isRead: false,
+    });
+  }
+
+  // Latest unread notifications of the given types, for the email digest
+  async getUnreadForDigest(
+    userId: string,
+    types: NotificationType[],
+    limit = 5
+  ): Promise<{ data: INotification[]; total: number }> {
+    const query = {
+      recipient: new Types.ObjectId(userId),
+      isRead: false,
+      type: { $in: types },
+    };
+
+    const [data, total] = await Promise.all([
+      this.model.find(query).sort({ activityAt: -1 }).limit(limit),
+      this.model.countDocuments(query),
+    ]);
+
+    return { data, total };
+  }
+
+  // Hold a notification's email back until the given time
+  async holdEmail(id: string, until: Date): Promise<void> {
+    await this.model.updateOne(
+      { _id: id },
+      { $set: { emailHeldUntil: until } }
+    );
+  }
+
+  // Notifications whose held email is due, oldest first
+  async findHeldEmailsDue(now: Date, limit: number): Promise<INotification[]> {
+    return await this.model
+      .find({ emailHeldUntil: { $lte: now } })
+      .sort({ emailHeldUntil: 1 })
+      .limit(limit);
+  }
+
+  // Stop holding a notification's email, whether it went out or not
+  async releaseHeldEmail(id: string): Promise<void> {
+    await this.model.updateOne(
+      { _id: id },
+      { $unset: { emailHeldUntil: "", emailFailedAttempts: "" } }
+    );
+  }
+
+  // Count a failed send of a held email and try again at the given time
+  async retryHeldEmail(id: string, retryAt: Date): Promise<void> {
+    await this.model.updateOne(
+      { _id: id },
+      { $set: { emailHeldUntil: retryAt }, $inc: { emailFailedAttempts: 1 } }
+    );
+  }
+
+  // Mark a single notification as read (only the recipient can do this)
+  async markAsRead(id: string, userId: string): Promise<INotification | null> {
+    return await this.model.findOneAndUpdate(
+      { _id: id, recipient: new Types.ObjectId(userId) },
+      { isRead: true, readAt: new Date() },
+      { new: true }
+    );
+  }
+
+  // Mark all notifications of a user as read
+  async markAllAsRead(userId: string): Promise<number> {
+    const result = await this.model.updateMany(
+      { recipient: new Types.ObjectId(userId), isRead: false },
+      { isRead: true, readAt: new Date() }
+    );
+
+    return result.modifiedCount;
+  }
+
+  // Delete a single notification (only the recipient can do this)
+  async deleteById(id: string, userId: string): Promise<INotification | null> {
+    return await this.model.findOneAndDelete({
+      _id: id,
+      recipient: new Types.ObjectId(userId),
+    });
+  }
+
+  // Delete all notifications of a user, optionally only the read ones
+  async deleteAllForUser(userId: string, readOnly = false): Promise<number> {
+    const query: any = { recipient: new Types.ObjectId(userId) };
+    if (readOnly) query.isRead = true;
+
+    const result = await this.model.deleteMany(query);
+    return result.deletedCount || 0;
+  }
+}
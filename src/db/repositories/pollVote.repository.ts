@@ -0,0 +1,117 @@
+import { Types } from "mongoose";
+import PollVote, { SINGLE_CHOICE_SLOT } from "../model/pollVote.model.js";
+
+export class PollVoteRepository {
+  private model = PollVote;
+
+  // Options a user voted for in a post's poll
+  async getUserVotes(postId: string, userId: string): Promise<string[]> {
+    const votes = await this.model
+      .find({
+        post: new Types.ObjectId(postId),
+        user: new Types.ObjectId(userId),
+      })
+      .select("option")
+      .lean();
+    return votes.map((vote) => vote.option.toString());
+  }
+
+  // Vote for an option of a multiple choice poll. Returns false when the
+  // user had already voted for it.
+  async addVote(postId: string, userId: string, optionId: string) {
+    try {
+      await this.model.create({
+        post: new Types.ObjectId(postId),
+        user: new Types.ObjectId(userId),
+        option: new Types.ObjectId(optionId),
+        slot: optionId,
+      });
+      return true;
+    } catch (error: any) {
+      if (error?.code === 11000) return false;
+      throw error;
+    }
+  }
+
+  // Cast or change a user's vote in a single choice poll. Returns the
+  // option voted for before, null for a first vote.
+  async setSingleVote(
+    postId: string,
+    userId: string,
+    optionId: string
+  ): Promise<string | null> {
+    const query = {
+      post: new Types.ObjectId(postId),
+      user: new Types.ObjectId(userId),
+      slot: SINGLE_CHOICE_SLOT,
+    };
+    const update = { $set: { option: new Types.ObjectId(optionId) } };
+
+    try {
+      const previous = await this.model.findOneAndUpdate(query, update, {
+        upsert: true,
+        new: false,
+      });
+      return previous ? previous.option.toString() : null;
+    } catch (error: any) {
+      // Two first votes at once: the other one inserted, change it instead
+      if (error?.code !== 11000) throw error;
+      const previous = await this.model.findOneAndUpdate(query, update, {
+        new: false,
+      });
+      return previous ? previous.option.toString() : null;
+    }
+  }
+
+  // Withdraw a user's votes, for the given options only or all of them.
+  // Returns the options whose vote was removed.
+  async removeVotes(
+    postId: string,
+    userId: string,
+    optionIds?: string[]
+  ): Promise<string[]> {
+    const query: any = {
+      post: new Types.ObjectId(postId),
+      user: new Types.ObjectId(userId),
+    };
+    if (optionIds) {
+      query.option = { $in: optionIds.map((id) => new Types.ObjectId(id)) };
+    }
+
+    const votes = await this.model.find(query).select("option").lean();
+    const removed: string[] = [];
+    for (const vote of votes) {
+      // Vote by vote, so a concurrent unvote is not counted twice
+      const { deletedCount } = await this.model.deleteOne({ _id: vote._id });
+      if (deletedCount) removed.push(vote.option.toString());
+    }
+    return removed;
+  }
+
+  // Users who voted in a poll, optionally for one option, newest first
+  async getVoters(
+    postId: string,
+    options: { optionId?: string | undefined; page?: number; limit?: number }
+  ) {
+    const { optionId, page = 1, limit = 20 } = options;
+    const query: any = { post: new Types.ObjectId(postId) };
+    if (optionId) query.option = new Types.ObjectId(optionId);
+
+    const [data, total] = await Promise.all([
+      this.model
+        .find(query)
+        .populate("user", "fName lName profilePicture handle")
+        .sort({ updatedAt: -1, _id: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      this.model.countDocuments(query),
+    ]);
+
+    return { data, total, page, limit };
+  }
+
+  // Remove every vote of a post's poll
+  async removeByPost(postId: string) {
+    await this.model.deleteMany({ post: new Types.ObjectId(postId) });
+  }
+}
@@ -0,0 +1,54 @@
+import { Types } from "mongoose";
+import PollVoter from "../model/pollVoter.model.js";
+
+export class PollVoterRepository {
+  private model = PollVoter;
+
+  // Count new votes of a user. Returns true when they had none before, so
+  // the user just became a voter of the poll.
+  async addVotes(postId: string, userId: string, count: number) {
+    const query = {
+      post: new Types.ObjectId(postId),
+      user: new Types.ObjectId(userId),
+    };
+    const update = { $inc: { votesCount: count } };
+
+    try {
+      const previous = await this.model.findOneAndUpdate(query, update, {
+        upsert: true,
+        new: false,
+      });
+      return !previous || previous.votesCount <= 0;
+    } catch (error: any) {
+      // Two first votes at once: the other one inserted, count on it instead
+      if (error?.code !== 11000) throw error;
+      const previous = await this.model.findOneAndUpdate(query, update, {
+        new: false,
+      });
+      return !previous || previous.votesCount <= 0;
+    }
+  }
+
+  // Count withdrawn votes of a user. Returns true when none are left, so
+  // the user is no longer a voter of the poll.
+  async removeVotes(postId: string, userId: string, count: number) {
+    const voter = await this.model.findOneAndUpdate(
+      {
+        post: new Types.ObjectId(postId),
+        user: new Types.ObjectId(userId),
+      },
+      { $inc: { votesCount: -count } },
+      { new: true }
+    );
+    if (!voter || voter.votesCount > 0) return false;
+
+    // Only while still empty, a vote counted in the meantime keeps it
+    await this.model.deleteOne({ _id: voter._id, votesCount: { $lte: 0 } });
+    return true;
+  }
+
+  // Remove every voter of a post's poll
+  async removeByPost(postId: string) {
+    await this.model.deleteMany({ post: new Types.ObjectId(postId) });
+  }
+}
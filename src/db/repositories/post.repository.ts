@@ -1,5 +1,9 @@
-import { Model } from "mongoose";
-import { IPost } from "../model/post.model.js";
+import { Model, Types } from "mongoose";
+import { IPost, PostAvailability, PostStatus } from "../model/post.model.js";
+import {
+  ReactionCounts,
+  toReactionCountsInc,
+} from "../model/reaction.model.js";
 
 export class PostRepository {
   private model: Model<IPost>;
@@ -73,10 +77,51 @@ export class PostRepository {
           deletedBy: "",
         },
       },
-      { new: true }
+      { new: true, includeDeleted: true }
     );
   }
 
+  // A post in the trash
+  async findDeletedById(id: string) {
+    return await this.findOne({ _id: id, isDeleted: true }, true);
+  }
+
+  // Posts a user deleted themselves, most recently deleted first
+  async getTrashedPosts(
+    userId: string,
+    options: { page?: number; limit?: number } = {}
+  ) {
+    const { page = 1, limit = 10 } = options;
+    const query = {
+      author: new Types.ObjectId(userId),
+      deletedBy: new Types.ObjectId(userId),
+      isDeleted: true,
+    };
+
+    const [data, total] = await Promise.all([
+      this.find(query, {
+        page,
+        limit,
+        sort: { deletedAt: -1, _id: -1 },
+        includeDeleted: true,
+      }),
+      this.model.countDocuments(query),
+    ]);
+
+    return { data, total, page, limit };
+  }
+
+  // Posts deleted at or before `cutoff`, due to be purged
+  async findExpiredTrash(cutoff: Date, limit = 100) {
+    return await this.model
+      .find({ isDeleted: true, deletedAt: { $lte: cutoff } }, "_id imageKeys", {
+        includeDeleted: true,
+      })
+      .sort({ deletedAt: 1 })
+      .limit(limit)
+      .lean<Pick<IPost, "_id" | "imageKeys">[]>();
+  }
+
   async countDocuments(query: any = {}) {
     return await this.model.countDocuments(query);
   }
@@ -89,6 +134,79 @@ export class PostRepository {
     );
   }
 
+  // Apply a change in reaction counts, likes/dislikes included
+  async incrementReactionCounts(id: string, delta: Partial<ReactionCounts>) {
+    await this.model.updateOne(
+      { _id: id },
+      { $inc: toReactionCountsInc(delta, true) }
+    );
+  }
+
+  // Counter update that skips the post change hooks, the post itself does
+  // not change
+  async incrementSharesCount(id: Types.ObjectId | string, value: number) {
+    await this.model.updateOne({ _id: id }, { $inc: { sharesCount: value } });
+  }
+
+  // A counted view; like the share count it skips the post change hooks
+  async incrementViewsCount(id: string) {
+    await this.model.updateOne({ _id: id }, { $inc: { viewsCount: 1 } });
+  }
+
+  // Pin a comment unless `max` are pinned already. The size check is part
+  // of the update, so concurrent pins cannot go over the limit. Returns
+  // false when the limit was reached.
+  async pinComment(id: string, commentId: string, max: number) {
+    const comment = new Types.ObjectId(commentId);
+    const result = await this.model.updateOne(
+      {
+        _id: id,
+        $or: [
+          { pinnedComments: comment },
+          { [`pinnedComments.${max - 1}`]: { $exists: false } },
+        ],
+      },
+      { $addToSet: { pinnedComments: comment } }
+    );
+    return result.matchedCount > 0;
+  }
+
+  async unpinComment(
+    id: Types.ObjectId | string,
+    commentId: Types.ObjectId | string
+  ) {
+    await this.model.updateOne(
+      { _id: id },
+      { $pull: { pinnedComments: new Types.ObjectId(commentId) } }
+    );
+  }
+
+  // Apply a change in poll vote counts, per option id and in voters
+  async incrementPollCounts(
+    id: string,
+    optionDeltas: Record<string, number>,
+    votersDelta = 0
+  ) {
+    const inc: Record<string, number> = {};
+    const arrayFilters: Record<string, Types.ObjectId>[] = [];
+    Object.entries(optionDeltas).forEach(([optionId, value], index) => {
+      if (!value) return;
+      inc[`poll.options.$[o${index}].votesCount`] = value;
+      arrayFilters.push({ [`o${index}._id`]: new Types.ObjectId(optionId) });
+    });
+    if (votersDelta) inc["poll.votersCount"] = votersDelta;
+    if (Object.keys(inc).length === 0) return;
+
+    await this.model.updateOne({ _id: id }, { $inc: inc }, { arrayFilters });
+  }
+
+  // Posts by id, deleted ones left out
+  async findByIds(ids: (Types.ObjectId | string)[]) {
+    return await this.model
+      .find({ _id: { $in: ids.map((id) => new Types.ObjectId(id)) } })
+      .populate("authorDetails");
+  }
+
   async getUserPosts(userId: string, options: any = {}) {
     const { page = 1, limit = 10, status, availability } = options;
     const query: any = { author: userId };
@@ -108,6 +226,208 @@ export class PostRepository {
     return await this.find(query, options);
   }
 
+  // Published posts that @mention the user (private ones are never
+  // mentionable) and match the access filter
+  async getMentioningPosts(
+    userId: string,
+    accessFilter: any,
+    options: any = {}
+  ) {
+    const { page = 1, limit = 10 } = options;
+    const query = {
+      mentions: new Types.ObjectId(userId),
+      status: PostStatus.published,
+      availability: { $ne: PostAvailability.private },
+      isFrozen: { $ne: true },
+      $and: [accessFilter],
+    };
+
+    const [data, total] = await Promise.all([
+      this.find(query, { page, limit }),
+      this.countDocuments(query),
+    ]);
+
+    return { data, total, page, limit };
+  }
+
+  // Full-text search, best matches first. Visibility rules come with the
+  // filter.
+  async searchText(
+    search: string,
+    filter: any = {},
+    options: { page?: number; limit?: number } = {}
+  ) {
+    const { page = 1, limit = 10 } = options;
+    const query = { ...filter, $text: { $search: search } };
+
+    const [data, total] = await Promise.all([
+      this.model
+        .find(query, { score: { $meta: "textScore" } })
+        .populate("authorDetails")
+        .sort({ score: { $meta: "textScore" } })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      this.model.countDocuments(query),
+    ]);
+
+    return { data, total, page, limit };
+  }
+
+  // An author's drafts waiting to be published, soonest first
+  async getScheduledPosts(
+    authorId: string,
+    options: { page?: number; limit?: number } = {}
+  ) {
+    const { page = 1, limit = 10 } = options;
+    const query = {
+      author: new Types.ObjectId(authorId),
+      status: PostStatus.draft,
+      scheduledAt: { $exists: true },
+    };
+
+    const [data, total] = await Promise.all([
+      this.find(query, { page, limit, sort: { scheduledAt: 1, _id: 1 } }),
+      this.countDocuments(query),
+    ]);
+
+    return { data, total, page, limit };
+  }
+
+  // IDs of scheduled drafts that are due at `now`
+  async findDueScheduledPostIds(now: Date, limit = 100) {
+    const posts = await this.model
+      .find({ status: PostStatus.draft, scheduledAt: { $lte: now } })
+      .select("_id")
+      .sort({ scheduledAt: 1 })
+      .limit(limit)
+      .lean();
+    return posts.map((post) => post._id);
+  }
+
+  // Publish a scheduled draft if it is still due. The conditional update is
+  // atomic, so a post is published at most once even with several
+  // schedulers running. Returns null when there was nothing to publish.
+  async publishScheduledPost(postId: Types.ObjectId, now: Date) {
+    return await this.model.findOneAndUpdate(
+      {
+        _id: postId,
+        status: PostStatus.draft,
+        scheduledAt: { $lte: now },
+      },
+      {
+        $set: { status: PostStatus.published },
+        $unset: { scheduledAt: "" },
+      },
+      { new: true }
+    );
+  }
+
+  // Latest live posts of some authors that friends can see, or only the
+  // public ones followers see, for timeline rebuilds and backfills
+  async getTimelinePosts(
+    authorIds: Types.ObjectId[],
+    options: { since?: Date; limit?: number; publicOnly?: boolean } = {}
+  ) {
+    const { since, limit = 500, publicOnly = false } = options;
+    const query: any = {
+      author: { $in: authorIds },
+      status: PostStatus.published,
+      availability: publicOnly
+        ? PostAvailability.public
+        : { $ne: PostAvailability.private },
+      isFrozen: { $ne: true },
+    };
+    if (since) query.createdAt = { $gte: since };
+
+    return await this.model
+      .find(query)
+      .select("author publishedAt createdAt")
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .lean();
+  }
+
+  // Public, published posts carrying a tag, newest first with a stable
+  // (createdAt, _id) cursor
+  async getTagFeed(
+    tag: string,
+    options: {
+      limit?: number;
+      cursor?: { createdAt: Date; _id: Types.ObjectId } | null;
+      accessFilter?: any;
+    } = {}
+  ) {
+    const { limit = 10, cursor, accessFilter } = options;
+    const query: any = {
+      tags: tag.toLowerCase(),
+      status: PostStatus.published,
+      availability: PostAvailability.public,
+      isFrozen: { $ne: true },
+    };
+
+    // The access filter and the cursor both match through $or
+    const conditions: any[] = [];
+    if (accessFilter) conditions.push(accessFilter);
+    if (cursor) {
+      conditions.push({
+        $or: [
+          { createdAt: { $lt: cursor.createdAt } },
+          { createdAt: cursor.createdAt, _id: { $lt: cursor._id } },
+        ],
+      });
+    }
+    if (conditions.length > 0) query.$and = conditions;
+
+    const results = await this.model
+      .find(query)
+      .populate("authorDetails")
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1);
+
+    const hasNextPage = results.length > limit;
+    if (hasNextPage) results.pop();
+
+    return { data: results, hasNextPage };
+  }
+
+  // IDs of the best scored posts matching the query, best first
+  async getRankedPostIds(
+    match: any,
+    scoreExpression: any,
+    limit: number
+  ): Promise<Types.ObjectId[]> {
+    const ranked: { _id: Types.ObjectId }[] = await this.model.aggregate([
+      { $match: { ...match, isDeleted: { $ne: true } } },
+      { $project: { score: scoreExpression } },
+      { $sort: { score: -1, _id: -1 } },
+      { $limit: limit },
+      { $project: { _id: 1 } },
+    ]);
+    return ranked.map((entry) => entry._id);
+  }
+
+  // The posts of a list of IDs that still match the query, in list order
+  async findMatchingInOrder(ids: Types.ObjectId[], match: any) {
+    if (ids.length === 0) return [];
+
+    const posts = await this.model
+      .find({ ...match, _id: { $in: ids }, isDeleted: { $ne: true } })
+      .populate("authorDetails");
+    const postsById = new Map(posts.map((post) => [post._id.toString(), post]));
+
+    return ids
+      .map((id) => postsById.get(id.toString()))
+      .filter((post) => !!post);
+  }
+
+  // Drop a deleted friend list from the audience of the posts shown to it
+  async removeAudienceList(listId: Types.ObjectId) {
+    await this.model.updateMany(
+      { audienceLists: listId },
+      { $pull: { audienceLists: listId } }
+    );
+  }
+
   // Freeze post
   async freezePost(
     id: string,
@@ -153,8 +473,9 @@ export class PostRepository {
   }
 
   // Hard delete post (permanent deletion)
-  async hardDelete(id: string): Promise<boolean> {
-    const result = await this.model.findByIdAndDelete(id);
+  async hardDelete(id: string, includeDeleted = false): Promise<boolean> {
+    const options = includeDeleted ? { includeDeleted: true } : {};
+    const result = await this.model.findByIdAndDelete(id, options);
     return !!result;
   }
 
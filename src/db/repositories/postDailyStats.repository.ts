@@ -0,0 +1,84 @@
+import { Types } from "mongoose";
+import PostDailyStats, {
+  PostDailyMetric,
+} from "../model/postDailyStats.model.js";
+
+export interface DailyTotals {
+  day: Date;
+  views: number;
+  friendViews: number;
+  reactions: number;
+  comments: number;
+  shares: number;
+}
+
+const totalsGroup = {
+  views: { $sum: "$views" },
+  friendViews: { $sum: "$friendViews" },
+  reactions: { $sum: "$reactions" },
+  comments: { $sum: "$comments" },
+  shares: { $sum: "$shares" },
+};
+
+export class PostDailyStatsRepository {
+  private model = PostDailyStats;
+
+  // Add to a post's counters for the day, creating the day's row on first use
+  async increment(
+    postId: Types.ObjectId | string,
+    authorId: Types.ObjectId | string,
+    day: Date,
+    delta: Partial<Record<PostDailyMetric, number>>
+  ) {
+    await this.model.updateOne(
+      { post: new Types.ObjectId(postId), day },
+      {
+        $inc: delta,
+        $setOnInsert: { author: new Types.ObjectId(authorId) },
+      },
+      { upsert: true }
+    );
+  }
+
+  // A post's days since `from`, oldest first. Days without activity have no
+  // row.
+  async getPostSeries(postId: string, from: Date): Promise<DailyTotals[]> {
+    return await this.model
+      .find({ post: new Types.ObjectId(postId), day: { $gte: from } })
+      .select("-_id day views friendViews reactions comments shares")
+      .sort({ day: 1 })
+      .lean();
+  }
+
+  // An author's days since `from` summed over all their posts, oldest first
+  async getAuthorSeries(authorId: string, from: Date): Promise<DailyTotals[]> {
+    const days = await this.model.aggregate([
+      { $match: { author: new Types.ObjectId(authorId), day: { $gte: from } } },
+      { $group: { _id: "$day", ...totalsGroup } },
+      { $sort: { _id: 1 } },
+    ]);
+    return days.map(({ _id, ...totals }) => ({ day: _id, ...totals }));
+  }
+
+  // An author's posts with the most views since `from`
+  async getTopPosts(authorId: string, from: Date, limit = 5) {
+    const posts: ({ _id: Types.ObjectId } & Omit<DailyTotals, "day">)[] =
+      await this.model.aggregate([
+        {
+          $match: { author: new Types.ObjectId(authorId), day: { $gte: from } },
+        },
+        { $group: { _id: "$post", ...totalsGroup } },
+        { $sort: { views: -1, _id: -1 } },
+        { $limit: limit },
+      ]);
+    return posts;
+  }
+
+  async removeByPost(postId: Types.ObjectId | string) {
+    await this.model.deleteMany({ post: new Types.ObjectId(postId) });
+  }
+
+  async removeByAuthor(authorId: Types.ObjectId | string) {
+    await this.model.deleteMany({ author: new Types.ObjectId(authorId) });
+  }
+}
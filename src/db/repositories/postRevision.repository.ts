@@ -0,0 +1,91 @@
+import { Types } from "mongoose";
+import PostRevision, { IPostRevision } from "../model/postRevision.model.js";
+
+export type PostRevisionSnapshot = Pick<
+  IPostRevision,
+  "title" | "content" | "tags" | "images" | "imageKeys"
+>;
+
+export class PostRevisionRepository {
+  private model = PostRevision;
+
+  // Store a post's state under the next revision number. Two edits saving
+  // at once collide on the unique index, the loser takes the next number.
+  async create(
+    postId: Types.ObjectId | string,
+    snapshot: PostRevisionSnapshot,
+    editedBy: Types.ObjectId | string
+  ): Promise<IPostRevision> {
+    const post = new Types.ObjectId(postId);
+
+    for (let attempt = 0; ; attempt++) {
+      const last = await this.model
+        .findOne({ post })
+        .sort({ revision: -1 })
+        .select("revision")
+        .lean();
+
+      try {
+        return await this.model.create({
+          ...snapshot,
+          post,
+          revision: (last?.revision || 0) + 1,
+          editedBy: new Types.ObjectId(editedBy),
+        });
+      } catch (error: any) {
+        if (error?.code !== 11000 || attempt >= 2) throw error;
+      }
+    }
+  }
+
+  // Revisions of a post, newest first
+  async getRevisions(
+    postId: string,
+    options: { page?: number; limit?: number } = {}
+  ) {
+    const { page = 1, limit = 20 } = options;
+    const query = { post: new Types.ObjectId(postId) };
+
+    const [data, total] = await Promise.all([
+      this.model
+        .find(query)
+        .sort({ revision: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate("editedBy", "fName lName profilePicture"),
+      this.model.countDocuments(query),
+    ]);
+
+    return { data, total, page, limit };
+  }
+
+  // One revision of a post by number
+  async findRevision(postId: string, revision: number) {
+    return await this.model.findOne({
+      post: new Types.ObjectId(postId),
+      revision,
+    });
+  }
+
+  // The subset of the keys still used by a revision of any post
+  async getReferencedImageKeys(imageKeys: string[]): Promise<Set<string>> {
+    if (imageKeys.length === 0) return new Set();
+
+    const referenced: string[] = await this.model.distinct("imageKeys", {
+      imageKeys: { $in: imageKeys },
+    });
+    const keys = new Set(imageKeys);
+    return new Set(referenced.filter((key) => keys.has(key)));
+  }
+
+  // Remove all revisions of a post, returning the image keys they held
+  async removeByPost(postId: string): Promise<string[]> {
+    const post = new Types.ObjectId(postId);
+    const imageKeys: string[] = await this.model.distinct("imageKeys", {
+      post,
+    });
+
+    await this.model.deleteMany({ post });
+    return imageKeys;
+  }
+}
@@ -0,0 +1,48 @@
+import { Types } from "mongoose";
+import PostView from "../model/postView.model.js";
+
+export class PostViewRepository {
+  private model = PostView;
+
+  // Count a view unless the viewer's last counted view of the post is more
+  // recent than `countedSince`. The conditional upsert is atomic, so
+  // concurrent requests count at most once; the one that loses the race
+  // hits the unique index. Returns whether the view was counted.
+  async recordView(
+    postId: string,
+    viewerId: string,
+    now: Date,
+    countedSince: Date
+  ) {
+    try {
+      await this.model.updateOne(
+        {
+          post: new Types.ObjectId(postId),
+          viewer: new Types.ObjectId(viewerId),
+          lastCountedAt: { $lte: countedSince },
+        },
+        { $set: { lastCountedAt: now } },
+        { upsert: true }
+      );
+      return true;
+    } catch (error: any) {
+      if (error?.code === 11000) return false;
+      throw error;
+    }
+  }
+
+  // Number of different users who viewed a post
+  async countViewers(postId: string) {
+    return await this.model.countDocuments({
+      post: new Types.ObjectId(postId),
+    });
+  }
+
+  async removeByPost(postId: Types.ObjectId | string) {
+    await this.model.deleteMany({ post: new Types.ObjectId(postId) });
+  }
+
+  async removeByUser(userId: Types.ObjectId | string) {
+    await this.model.deleteMany({ viewer: new Types.ObjectId(userId) });
+  }
+}
@@ -0,0 +1,201 @@
+import { Types } from "mongoose";
+import reactionModel, {
+  emptyReactionCounts,
+  ReactionCounts,
+  ReactionTargetType,
+  ReactionType,
+} from "../model/reaction.model.js";
+
+export interface ReactionTarget {
+  target: string;
+  targetType: ReactionTargetType;
+}
+
+export type ReactionAction = "created" | "updated" | "removed" | "unchanged";
+
+export interface ReactionChange {
+  action: ReactionAction;
+  reactionType: ReactionType | null; // The user's reaction after the change
+  previousType: ReactionType | null; // The user's reaction before the change
+}
+
+export class ReactionRepository {
+  private model = reactionModel;
+
+  // Toggle a user's reaction: the same type again removes it, another type
+  // replaces it. Every write is conditional on the state that was read so
+  // concurrent toggles never report a change that did not happen.
+  async toggleReaction(
+    userId: string,
+    { target, targetType }: ReactionTarget,
+    reactionType: ReactionType
+  ): Promise<ReactionChange | null> {
+    const query = {
+      user: new Types.ObjectId(userId),
+      target: new Types.ObjectId(target),
+      targetType,
+    };
+    const existing = await this.model.findOne(query);
+
+    if (!existing) {
+      try {
+        await this.model.create({ ...query, reactionType });
+        return { action: "created", reactionType, previousType: null };
+      } catch (error: any) {
+        // Duplicate key: another request reacted first
+        if (error?.code === 11000) return null;
+        throw error;
+      }
+    }
+
+    if (existing.reactionType === reactionType) {
+      const { deletedCount } = await this.model.deleteOne({
+        _id: existing._id,
+        reactionType,
+      });
+      return deletedCount
+        ? { action: "removed", reactionType: null, previousType: reactionType }
+        : null;
+    }
+
+    const { modifiedCount } = await this.model.updateOne(
+      { _id: existing._id, reactionType: existing.reactionType },
+      { $set: { reactionType } }
+    );
+    return modifiedCount
+      ? {
+          action: "updated",
+          reactionType,
+          previousType: existing.reactionType,
+        }
+      : null;
+  }
+
+  // Get the user's reaction to one target
+  async getUserReaction(
+    userId: string,
+    { target, targetType }: ReactionTarget
+  ) {
+    return await this.model.findOne({
+      user: new Types.ObjectId(userId),
+      target: new Types.ObjectId(target),
+      targetType,
+    });
+  }
+
+  // The user's reaction to each of the given targets, keyed by target id
+  async getUserReactions(
+    userId: string,
+    targetIds: (Types.ObjectId | string)[],
+    targetType: ReactionTargetType
+  ) {
+    const reactions = await this.model
+      .find({
+        user: new Types.ObjectId(userId),
+        target: { $in: targetIds.map((id) => new Types.ObjectId(id)) },
+        targetType,
+      })
+      .select("target reactionType")
+      .lean();
+
+    return new Map(
+      reactions.map((reaction) => [
+        reaction.target.toString(),
+        reaction.reactionType,
+      ])
+    );
+  }
+
+  // Count the reactions of one target by type
+  async getReactionCounts({
+    target,
+    targetType,
+  }: ReactionTarget): Promise<ReactionCounts> {
+    const reactions = await this.model.aggregate([
+      { $match: { target: new Types.ObjectId(target), targetType } },
+      { $group: { _id: "$reactionType", count: { $sum: 1 } } },
+    ]);
+
+    const counts = emptyReactionCounts();
+    reactions.forEach((reaction) => {
+      if (reaction._id in counts) {
+        counts[reaction._id as ReactionType] = reaction.count;
+      }
+    });
+    return counts;
+  }
+
+  // Counts of every target of a type that has at least one reaction
+  async getAllReactionCounts(
+    targetType: ReactionTargetType
+  ): Promise<{ target: Types.ObjectId; counts: ReactionCounts }[]> {
+    const groups = await this.model.aggregate([
+      { $match: { targetType } },
+      {
+        $group: {
+          _id: { target: "$target", reactionType: "$reactionType" },
+          count: { $sum: 1 },
+        },
+      },
+      {
+        $group: {
+          _id: "$_id.target",
+          types: { $push: { k: "$_id.reactionType", v: "$count" } },
+        },
+      },
+    ]);
+
+    return groups.map((group) => {
+      const counts = emptyReactionCounts();
+      for (const { k, v } of group.types) {
+        if (k in counts) counts[k as ReactionType] = v;
+      }
+      return { target: group._id, counts };
+    });
+  }
+
+  // Users who reacted to a target, optionally with one type, newest first
+  async getReactors(
+    { target, targetType }: ReactionTarget,
+    options: {
+      reactionType?: ReactionType | undefined;
+      page?: number;
+      limit?: number;
+    } = {}
+  ) {
+    const { reactionType, page = 1, limit = 20 } = options;
+    const query: any = { target: new Types.ObjectId(target), targetType };
+    if (reactionType) query.reactionType = reactionType;
+
+    const [data, total] = await Promise.all([
+      this.model
+        .find(query)
+        .populate("user", "fName lName profilePicture handle")
+        .sort({ createdAt: -1, _id: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      this.model.countDocuments(query),
+    ]);
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+
+  // Remove every reaction of a target
+  async removeAllReactions({ target, targetType }: ReactionTarget) {
+    return await this.model.deleteMany({
+      target: new Types.ObjectId(target),
+      targetType,
+    });
+  }
+}
@@ -0,0 +1,84 @@
+import { Types } from "mongoose";
+import TimelineEntry from "../model/timeline.model.js";
+
+export interface TimelinePost {
+  post: Types.ObjectId;
+  author: Types.ObjectId;
+  publishedAt: Date;
+}
+
+export class TimelineRepository {
+  private model = TimelineEntry;
+
+  // Upsert posts into timelines, one entry per (owner, post)
+  async addEntries(entries: (TimelinePost & { owner: Types.ObjectId })[]) {
+    if (entries.length === 0) return;
+
+    await this.model.bulkWrite(
+      entries.map(({ owner, post, author, publishedAt }) => ({
+        updateOne: {
+          filter: { owner, post },
+          update: { $set: { author, publishedAt } },
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    );
+  }
+
+  // Remove a post from every timeline
+  async removePost(postId: Types.ObjectId | string) {
+    await this.model.deleteMany({ post: new Types.ObjectId(postId) });
+  }
+
+  // Remove an author's posts from one user's timeline
+  async removeAuthorFromTimeline(ownerId: string, authorId: string) {
+    await this.model.deleteMany({
+      owner: new Types.ObjectId(ownerId),
+      author: new Types.ObjectId(authorId),
+    });
+  }
+
+  // Replace a user's whole timeline
+  async replaceTimeline(ownerId: string, posts: TimelinePost[]) {
+    const owner = new Types.ObjectId(ownerId);
+    await this.model.deleteMany({ owner });
+    if (posts.length === 0) return;
+
+    await this.model.insertMany(
+      posts.map((post) => ({ owner, ...post })),
+      { ordered: false }
+    );
+  }
+
+  // One page of a user's timeline, newest first, using a
+  // (publishedAt, post) cursor
+  async getTimeline(
+    ownerId: string,
+    options: {
+      limit?: number;
+      cursor?: { publishedAt: Date; post: Types.ObjectId } | null;
+    } = {}
+  ) {
+    const { limit = 10, cursor } = options;
+    const query: any = { owner: new Types.ObjectId(ownerId) };
+
+    if (cursor) {
+      query.$or = [
+        { publishedAt: { $lt: cursor.publishedAt } },
+        { publishedAt: cursor.publishedAt, post: { $lt: cursor.post } },
+      ];
+    }
+
+    const entries = await this.model
+      .find(query)
+      .sort({ publishedAt: -1, post: -1 })
+      .limit(limit + 1)
+      .populate({ path: "post", populate: { path: "authorDetails" } });
+
+    const hasNextPage = entries.length > limit;
+    if (hasNextPage) entries.pop();
+
+    return { data: entries, hasNextPage };
+  }
+}
@@ -1,7 +1,7 @@
 import { extend } from "zod/mini";
 import { dbRepository } from "./db.repositories.js";
-import { IUser } from "../model/user.model.js";
-import { HydratedDocument, Model } from "mongoose";
+import { DigestFrequency, IUser } from "../model/user.model.js";
+import { HydratedDocument, Model, Types } from "mongoose";
 import { appError } from "../../utils/classError.js";
 
 export class userRepository extends dbRepository<IUser>{
@@ -19,5 +19,76 @@ export class userRepository extends dbRepository<IUser>{
 
           return user
     
+}
+
+    // Active users owning any of the given @handles
+    async findByHandles(handles:string[]):Promise<HydratedDocument<IUser>[]>{
+        return this.model.find({
+          handle: { $in: handles },
+          confirmed: true,
+          accountStatus: "active",
+        })
+}
+
+    // Active users among the given IDs, with what a profile card shows
+    async findActiveByIds(ids:Types.ObjectId[]):Promise<HydratedDocument<IUser>[]>{
+        return this.model
+          .find({ _id: { $in: ids }, confirmed: true, accountStatus: "active" })
+          .select("fName lName handle profilePicture")
+}
+
+    // Full-text search over active users, best matches first
+    async searchText(search:string,filter:any = {},options:{page?:number;limit?:number} = {}){
+        const { page = 1, limit = 10 } = options
+        const query = {
+          ...filter,
+          $text: { $search: search },
+          confirmed: true,
+          accountStatus: "active",
+        }
+
+        const [data, total] = await Promise.all([
+          this.model
+            .find(query, { score: { $meta: "textScore" } })
+            .select("fName lName handle profilePicture")
+            .sort({ score: { $meta: "textScore" } })
+            .skip((page - 1) * limit)
+            .limit(limit),
+          this.model.countDocuments(query),
+        ])
+
+        return { data, total, page, limit }
+}
+
+    // Opted-in, active users whose last digest is older than their period
+    // and who are not backing off after a failed one
+    async findDueDigestRecipients(now:Date,limit:number = 200):Promise<HydratedDocument<IUser>[]>{
+        const dayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000)
+        const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)
+
+        return this.model
+          .find({
+            confirmed: true,
+            accountStatus: "active",
+            // Recipients whose digest failed wait out their backoff
+            "notificationSettings.digest.retryAt": { $not: { $gt: now } },
+            $or: [
+              {
+                "notificationSettings.digest.frequency": DigestFrequency.daily,
+                "notificationSettings.digest.lastSentAt": { $not: { $gt: dayAgo } },
+              },
+              {
+                "notificationSettings.digest.frequency": DigestFrequency.weekly,
+                "notificationSettings.digest.lastSentAt": { $not: { $gt: weekAgo } },
+              },
+            ],
+          })
+          .sort({ "notificationSettings.digest.lastSentAt": 1 })
+          .limit(limit)
+}
+
+    // Shift a user's denormalized follower and following counts
+    async incrementFollowCounts(userId:string|Types.ObjectId,counts:{followersCount?:number;followingCount?:number}){
+        await this.model.updateOne({ _id: userId }, { $inc: counts })
 }
 }
\ No newline at end of file
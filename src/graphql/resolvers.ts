@@ -2,11 +2,80 @@
 import { GraphQLError } from "graphql";
 import { Types } from "mongoose";
 import userModel from "../db/model/user.model.js";
-import postModel from "../db/model/post.model.js";
-import postReactionModel from "../db/model/postReaction.model.js";
+import postModel, { CommentSetting } from "../db/model/post.model.js";
+import {
+  emptyReactionCounts,
+  ReactionTargetType,
+} from "../db/model/reaction.model.js";
 import { userRepository } from "../db/repositories/user.repository.js";
 import { PostRepository } from "../db/repositories/post.repository.js";
-import { PostReactionRepository } from "../db/repositories/postReaction.repository.js";
+import { CommentSort } from "../db/repositories/comment.repository.js";
+import {
+  buildNotificationSettingsUpdate,
+  isValidTimeZone,
+  resolveNotificationSettings,
+} from "../service/notificationPreferences.js";
+import {
+  getNewMentions,
+  notifyMentions,
+  resolvePostMentions,
+} from "../service/mentions.js";
+import {
+  buildPostTags,
+  decodeTagFeedCursor,
+  getTagFeed,
+  getTrendingHashtags,
+} from "../service/hashtags.js";
+import { decodeFeedCursor, getHomeFeed } from "../service/feed.js";
+import { decodeTimelineCursor, getTimelineFeed } from "../service/timeline.js";
+import { search } from "../service/search.js";
+import { appError } from "../utils/classError.js";
+import {
+  findReactionTarget,
+  getReactionSet,
+  getReactions,
+  getUserReaction,
+  toggleReaction,
+} from "../service/reactions.js";
+import { recordPostRevision } from "../service/postRevisions.js";
+import {
+  loadPostViewer,
+  postAccessFilter,
+  userCanViewPost,
+} from "../service/postAccess.js";
+import {
+  MAX_AUDIENCE_LISTS,
+  MAX_EXCLUDED_USERS,
+  resolvePostAudience,
+} from "../service/friendLists.js";
+import { recordPostView } from "../service/postAnalytics.js";
+import { resolveSharedPost, sharePost } from "../service/shares.js";
+import {
+  buildPoll,
+  getPollResults,
+  unvotePoll,
+  votePoll,
+} from "../service/polls.js";
+import {
+  addBookmark,
+  createCollection,
+  decodeBookmarkCursor,
+  deleteCollection,
+  getCollections,
+  getSavedPosts,
+  isBookmarked,
+  removeBookmark,
+  updateCollection,
+} from "../service/bookmarks.js";
+import {
+  getCommentReplies,
+  getPostRootComments,
+} from "../service/commentControls.js";
+import {
+  dismissFriendSuggestion,
+  getFriendSuggestions,
+} from "../service/friendSuggestions.js";
+import { createRelationshipLoader } from "../service/relationships.js";
 
 /**
  * GraphQL Context Interface
@@ -19,6 +88,8 @@ interface GraphQLContext {
     role: string;
   };
   isAuthenticated: boolean;
+  // Batches relationship lookups, created on first use
+  relationshipLoader?: ReturnType<typeof createRelationshipLoader>;
 }
 
 /**
@@ -32,9 +103,13 @@ const _userModel = new userRepository(userModel);
 const _postModel = new PostRepository(postModel);
 
 /**
- * Post Reaction Repository instance for database operations
+ * Reaction counts of a post, comment or message; documents created before
+ * reactions were counted per type have none stored
  */
-const _postReactionModel = new PostReactionRepository(postReactionModel);
+const resolveReactionCounts = (parent: any) => ({
+  ...emptyReactionCounts(),
+  ...(parent.reactionCounts || {}),
+});
 
 /**
  * Helper function to check if user is authenticated
@@ -52,6 +127,42 @@ const requireAuth = (context: GraphQLContext) => {
   return context.user;
 };
 
+/**
+ * GraphQL error codes of the HTTP statuses services fail with
+ */
+const errorCodes: Record<number, string> = {
+  400: "BAD_REQUEST",
+  403: "FORBIDDEN",
+  404: "NOT_FOUND",
+  409: "CONFLICT",
+  410: "GONE",
+};
+
+/**
+ * Convert an error thrown by a service into a GraphQLError
+ * appErrors keep their message and status, anything else is reported as an
+ * internal error with the fallback message
+ */
+const toGraphQLError = (error: any, fallbackMessage: string) => {
+  if (error instanceof GraphQLError) return error;
+  if (error instanceof appError) {
+    return new GraphQLError(error.message, {
+      extensions: {
+        code: errorCodes[error.statusCode] || "BAD_REQUEST",
+        http: { status: error.statusCode },
+      },
+    });
+  }
+
+  return new GraphQLError(fallbackMessage, {
+    extensions: {
+      code: "INTERNAL_SERVER_ERROR",
+      http: { status: 500 },
+      originalError: error.message,
+    },
+  });
+};
+
 /**
  * Helper function to check if user is admin
  * Throws GraphQLError if not admin
@@ -76,6 +187,24 @@ const isValidObjectId = (id: string): boolean => {
   return Types.ObjectId.isValid(id);
 };
 
+/**
+ * Resolve the current user's relationship with a user, batched across the
+ * whole request; responses that already carry it are returned as they are
+ */
+const resolveRelationship = (
+  parent: any,
+  _args: any,
+  context: GraphQLContext
+) => {
+  if (!context.user) return null;
+  if (parent.relationship !== undefined) return parent.relationship;
+
+  context.relationshipLoader ||= createRelationshipLoader(
+    context.user._id.toString()
+  );
+  return context.relationshipLoader.load(parent._id);
+};
+
 /**
  * Transform user document to remove sensitive fields
  */
@@ -106,6 +235,21 @@ const transformPost = (post: any) => {
   return postObj;
 };
 
+/**
+ * Validate a bookmark collection name
+ */
+const validateCollectionName = (name: string) => {
+  const trimmed = name.trim();
+  if (trimmed.length < 1 || trimmed.length > 50) {
+    throw new GraphQLError("Collection name must be 1-50 characters", {
+      extensions: {
+        code: "BAD_REQUEST",
+        http: { status: 400 },
+      },
+    });
+  }
+};
+
 /**
  * Validate post input fields
  */
@@ -167,6 +311,94 @@ const validatePostInput = (input: any, isUpdate = false) => {
       },
     });
   }
+
+  if (input.scheduledAt !== undefined && input.scheduledAt !== null) {
+    const scheduledAt = new Date(input.scheduledAt);
+    if (isNaN(scheduledAt.getTime()) || scheduledAt <= new Date()) {
+      throw new GraphQLError("Scheduled time must be in the future", {
+        extensions: {
+          code: "BAD_REQUEST",
+          http: { status: 400 },
+        },
+      });
+    }
+
+    if (input.status === "published") {
+      throw new GraphQLError("A scheduled post cannot be published now", {
+        extensions: {
+          code: "BAD_REQUEST",
+          http: { status: 400 },
+        },
+      });
+    }
+  }
+  if (
+    input.audienceListIds &&
+    input.audienceListIds.length > MAX_AUDIENCE_LISTS
+  ) {
+    throw new GraphQLError(
+      `A post can be shown to at most ${MAX_AUDIENCE_LISTS} friend lists`,
+      {
+        extensions: {
+          code: "BAD_REQUEST",
+          http: { status: 400 },
+        },
+      }
+    );
+  }
+
+  if (
+    input.excludedUserIds &&
+    input.excludedUserIds.length > MAX_EXCLUDED_USERS
+  ) {
+    throw new GraphQLError(
+      `A post can exclude at most ${MAX_EXCLUDED_USERS} users`,
+      {
+        extensions: {
+          code: "BAD_REQUEST",
+          http: { status: 400 },
+        },
+      }
+    );
+  }
+};
+
+/**
+ * Validate the poll of a new post
+ */
+const validatePollInput = (poll: any) => {
+  const fail = (message: string) => {
+    throw new GraphQLError(message, {
+      extensions: {
+        code: "BAD_REQUEST",
+        http: { status: 400 },
+      },
+    });
+  };
+
+  const question = poll.question.trim();
+  if (question.length < 1 || question.length > 300) {
+    fail("Poll question must be 1-300 characters");
+  }
+
+  const options = poll.options.map((option: string) => option.trim());
+  if (options.length < 2 || options.length > 10) {
+    fail("A poll needs 2 to 10 options");
+  }
+  if (options.some((option: string) => !option || option.length > 100)) {
+    fail("Poll options must be 1-100 characters");
+  }
+  const distinct = new Set(
+    options.map((option: string) => option.toLowerCase())
+  );
+  if (distinct.size !== options.length) fail("Poll options must be unique");
+
+  if (poll.closesAt !== undefined && poll.closesAt !== null) {
+    const closesAt = new Date(poll.closesAt);
+    if (isNaN(closesAt.getTime()) || closesAt <= new Date()) {
+      fail("Poll closing time must be in the future");
+    }
+  }
 };
 
 /**
@@ -485,7 +717,7 @@ export const resolvers = {
     },
 
     /**
-     * Search users by name or email
+     * Search users by name or handle
      * @param _parent - Parent resolver (not used in root query)
      * @param args - Query arguments with search text and limit
      * @param context - GraphQL context with authenticated user info
@@ -495,8 +727,8 @@ export const resolvers = {
      * - Requires authentication
      *
      * Features:
-     * - Case-insensitive search
-     * - Searches in first name, last name, and email
+     * - Full-text search on first name, last name and handle
+     * - Best matches first
      * - Only returns active, confirmed users
      */
     searchUsers: async (
@@ -508,19 +740,18 @@ export const resolvers = {
 
       try {
         const limit = Math.min(args.limit || 20, 50); // Max 50 results
-        const searchRegex = new RegExp(args.searchText, "i");
 
         const users = await userModel
-          .find({
-            $or: [
-              { fName: searchRegex },
-              { lName: searchRegex },
-              { email: searchRegex },
-            ],
-            accountStatus: "active",
-            confirmed: true,
-          })
+          .find(
+            {
+              $text: { $search: args.searchText },
+              accountStatus: "active",
+              confirmed: true,
+            },
+            { score: { $meta: "textScore" } }
+          )
           .select("-password -otp -tempOtp -resetPasswordOtp")
+          .sort({ score: { $meta: "textScore" } })
           .limit(limit)
           .lean();
 
@@ -569,13 +800,40 @@ export const resolvers = {
           availability: args.input.availability || "public",
         };
 
+        // Scheduled posts stay drafts until the scheduler publishes them
+        if (args.input.scheduledAt) {
+          postData.status = "draft";
+          postData.scheduledAt = new Date(args.input.scheduledAt);
+        }
+
+        if (args.input.poll) {
+          validatePollInput(args.input.poll);
+          postData.poll = buildPoll({
+            ...args.input.poll,
+            closesAt: args.input.poll.closesAt ?? undefined,
+          });
+        }
+
         if (args.input.images) postData.images = args.input.images;
         if (args.input.imageKeys) postData.imageKeys = args.input.imageKeys;
-        if (args.input.tags) {
-          postData.tags = args.input.tags.map((tag: string) =>
-            tag.toLowerCase().trim()
-          );
-        }
+        postData.tags = buildPostTags(postData.content, args.input.tags);
+
+        Object.assign(
+          postData,
+          await resolvePostAudience(
+            currentUser._id.toString(),
+            postData.availability,
+            args.input.audienceListIds ?? undefined,
+            args.input.excludedUserIds ?? undefined
+          )
+        );
+
+        postData.mentions = await resolvePostMentions(postData.content, {
+          author: currentUser._id,
+          availability: postData.availability,
+          audienceLists: postData.audienceLists,
+          excludedUsers: postData.excludedUsers,
+        });
 
         const post = await _postModel.create(postData);
         const populatedPost = await _postModel.findById(post._id.toString());
@@ -587,6 +845,14 @@ export const resolvers = {
         };
       } catch (error: any) {
         if (error instanceof GraphQLError) throw error;
+        if (error instanceof appError) {
+          throw new GraphQLError(error.message, {
+            extensions: {
+              code: "BAD_REQUEST",
+              http: { status: error.statusCode },
+            },
+          });
+        }
 
         throw new GraphQLError("Failed to create post", {
           extensions: {
@@ -661,6 +927,26 @@ export const resolvers = {
         if (args.input.availability !== undefined)
           updateData.availability = args.input.availability;
 
+        // Scheduling turns the post back into a draft until it is due, a
+        // manual status change drops the schedule
+        if (args.input.scheduledAt) {
+          if (post.status === "published") {
+            throw new GraphQLError("Published posts cannot be scheduled", {
+              extensions: {
+                code: "BAD_REQUEST",
+                http: { status: 400 },
+              },
+            });
+          }
+          updateData.status = "draft";
+          updateData.scheduledAt = new Date(args.input.scheduledAt);
+        } else if (
+          args.input.status !== undefined &&
+          args.input.status !== "draft"
+        ) {
+          updateData.$unset = { scheduledAt: "" };
+        }
+
         if (args.input.images) {
           updateData.images = [...(post.images || []), ...args.input.images];
         }
@@ -670,14 +956,73 @@ export const resolvers = {
             ...args.input.imageKeys,
           ];
         }
-        if (args.input.tags) {
-          updateData.tags = args.input.tags.map((tag: string) =>
-            tag.toLowerCase().trim()
+        // Hashtags in the content are kept in sync with the post's tags
+        if (args.input.content !== undefined || args.input.tags) {
+          updateData.tags = buildPostTags(
+            updateData.content ?? post.content,
+            args.input.tags ?? post.tags,
+            post.content
+          );
+        }
+
+        // The lists and exclusions are checked again whenever any part of
+        // the audience changes
+        const audienceChanged =
+          args.input.availability !== undefined ||
+          args.input.audienceListIds != null ||
+          args.input.excludedUserIds != null;
+        if (audienceChanged) {
+          Object.assign(
+            updateData,
+            await resolvePostAudience(
+              post.author.toString(),
+              updateData.availability ?? post.availability,
+              args.input.audienceListIds ??
+                post.audienceLists?.map((id) => id.toString()),
+              args.input.excludedUserIds ??
+                post.excludedUsers?.map((id) => id.toString())
+            )
+          );
+        }
+
+        // Re-resolve mentions when the text or the audience changes
+        if (args.input.content !== undefined || audienceChanged) {
+          updateData.mentions = await resolvePostMentions(
+            updateData.content ?? post.content,
+            {
+              author: post.author,
+              availability: updateData.availability ?? post.availability,
+              audienceLists: updateData.audienceLists ?? post.audienceLists,
+              excludedUsers: updateData.excludedUsers ?? post.excludedUsers,
+            }
           );
         }
 
+        Object.assign(
+          updateData,
+          await recordPostRevision(post, updateData, currentUser._id.toString())
+        );
+
         const updatedPost = await _postModel.updateById(args.id, updateData);
 
+        // The first publish announces the post through the postPublished
+        // event, later edits only notify newly mentioned users
+        const wasAnnounced = post.status === "published" || !!post.publishedAt;
+        if (
+          wasAnnounced &&
+          (updateData.status ?? post.status) === "published"
+        ) {
+          notifyMentions(
+            getNewMentions(
+              updateData.mentions ?? post.mentions ?? [],
+              post.mentions ?? []
+            ),
+            currentUser._id.toString(),
+            "post",
+            { postId: args.id }
+          );
+        }
+
         return {
           success: true,
           message: "Post updated successfully",
@@ -685,6 +1030,14 @@ export const resolvers = {
         };
       } catch (error: any) {
         if (error instanceof GraphQLError) throw error;
+        if (error instanceof appError) {
+          throw new GraphQLError(error.message, {
+            extensions: {
+              code: "BAD_REQUEST",
+              http: { status: error.statusCode },
+            },
+          });
+        }
 
         throw new GraphQLError("Failed to update post", {
           extensions: {
@@ -804,12 +1157,7 @@ export const resolvers = {
         }
 
         // Check if post is accessible
-        const isPublic =
-          post.availability === "public" && post.status === "published";
-        const isAuthor = post.author.toString() === currentUser._id.toString();
-        const isAdmin = currentUser.role === "admin";
-
-        if (!isPublic && !isAuthor && !isAdmin) {
+        if (!(await userCanViewPost(currentUser._id.toString(), post))) {
           throw new GraphQLError(
             "You don't have permission to react to this post",
             {
@@ -821,21 +1169,13 @@ export const resolvers = {
           );
         }
 
-        // Toggle reaction
-        const result = await _postReactionModel.toggleReaction(
+        // Toggle reaction, the post's counts are kept in step
+        const { change: result } = await toggleReaction(
           currentUser._id.toString(),
-          args.postId,
-          args.reactionType as any
+          { target: args.postId, targetType: ReactionTargetType.post },
+          args.reactionType
         );
 
-        // Update post reaction counts
-        const counts = await _postReactionModel.getReactionCounts(args.postId);
-
-        await _postModel.updateById(args.postId, {
-          likesCount: counts.likes,
-          dislikesCount: counts.dislikes,
-        });
-
         // Get updated post
         const updatedPost = await _postModel.findById(args.postId);
 
@@ -846,6 +1186,14 @@ export const resolvers = {
         };
       } catch (error: any) {
         if (error instanceof GraphQLError) throw error;
+        if (error instanceof appError) {
+          throw new GraphQLError(error.message, {
+            extensions: {
+              code: "BAD_REQUEST",
+              http: { status: error.statusCode },
+            },
+          });
+        }
 
         throw new GraphQLError("Failed to react to post", {
           extensions: {
@@ -858,81 +1206,77 @@ export const resolvers = {
     },
 
     /**
-     * Update user profile
+     * Repost a post, or quote it with commentary
      * @param _parent - Parent resolver
-     * @param args - Mutation arguments with profile fields
+     * @param args - Mutation arguments with post ID and share input
      * @param context - GraphQL context with authenticated user
-     * @returns MutationResponse
+     * @returns MutationResponse with the new share
      */
-    updateProfile: async (
+    sharePost: async (
       _parent: any,
       args: {
-        fName?: string;
-        lName?: string;
-        age?: number;
-        phone?: string;
-        address?: string;
-        gender?: string;
+        postId: string;
+        input?: { content?: string; availability?: string } | null;
       },
       context: GraphQLContext
     ) => {
       const currentUser = requireAuth(context);
 
-      try {
-        // Build update data
-        const updateData: any = {};
-
-        if (args.fName !== undefined) {
-          if (args.fName.trim().length < 2) {
-            throw new GraphQLError("First name must be at least 2 characters", {
-              extensions: {
-                code: "BAD_REQUEST",
-                http: { status: 400 },
-              },
-            });
-          }
-          updateData.fName = args.fName.trim();
-        }
-
-        if (args.lName !== undefined) {
-          if (args.lName.trim().length < 2) {
-            throw new GraphQLError("Last name must be at least 2 characters", {
-              extensions: {
-                code: "BAD_REQUEST",
-                http: { status: 400 },
-              },
-            });
-          }
-          updateData.lName = args.lName.trim();
-        }
+      if (!isValidObjectId(args.postId)) {
+        throw new GraphQLError("Invalid post ID format", {
+          extensions: {
+            code: "BAD_REQUEST",
+            http: { status: 400 },
+          },
+        });
+      }
 
-        if (args.age !== undefined) {
-          if (args.age < 18 || args.age > 60) {
-            throw new GraphQLError("Age must be between 18 and 60", {
-              extensions: {
-                code: "BAD_REQUEST",
-                http: { status: 400 },
-              },
-            });
-          }
-          updateData.age = args.age;
-        }
+      // Shares have no friend lists to target
+      if (args.input?.availability === "lists") {
+        throw new GraphQLError("Shares cannot be shown to friend lists", {
+          extensions: {
+            code: "BAD_REQUEST",
+            http: { status: 400 },
+          },
+        });
+      }
 
-        if (args.phone !== undefined) updateData.phone = args.phone;
-        if (args.address !== undefined) updateData.address = args.address;
-        if (args.gender !== undefined) updateData.gender = args.gender;
+      const content = args.input?.content?.trim();
+      if (args.input?.content != null && (!content || content.length > 5000)) {
+        throw new GraphQLError("Commentary must be 1-5000 characters", {
+          extensions: {
+            code: "BAD_REQUEST",
+            http: { status: 400 },
+          },
+        });
+      }
 
-        await _userModel.updateOne({ _id: currentUser._id }, updateData);
+      try {
+        const share = await sharePost(currentUser, args.postId, {
+          content,
+          availability: args.input?.availability || undefined,
+        });
+        const populatedShare = await _postModel.findById(share._id.toString());
 
         return {
           success: true,
-          message: "Profile updated successfully",
-          post: null,
+          message: content
+            ? "Post quoted successfully"
+            : "Post shared successfully",
+          post: transformPost(populatedShare),
         };
       } catch (error: any) {
         if (error instanceof GraphQLError) throw error;
+        if (error instanceof appError) {
+          throw new GraphQLError(error.message, {
+            extensions: {
+              code: error.statusCode === 404 ? "NOT_FOUND" : "FORBIDDEN",
+              http: { status: error.statusCode },
+            },
+          });
+        }
 
-        throw new GraphQLError("Failed to update profile", {
+        throw new GraphQLError("Failed to share post", {
           extensions: {
             code: "INTERNAL_SERVER_ERROR",
             http: { status: 500 },
@@ -941,41 +1285,490 @@ export const resolvers = {
         });
       }
     },
-  },
 
-  /**
-   * Parent Resolvers
-   * Field-level resolvers that fetch related data
-   */
-  Post: {
     /**
-     * Resolve author field for Post type
-     * Replaces author ObjectId with full User object from database
-     * @param parent - The parent Post object
-     * @param _args - No arguments
-     * @param context - GraphQL context
-     * @returns User object
+     * Vote in a post's poll
+     * @param _parent - Parent resolver
+     * @param args - Mutation arguments with post ID and options
+     * @param context - GraphQL context with authenticated user
+     * @returns Poll with the updated results
      */
-    author: async (parent: any, _args: any, context: GraphQLContext) => {
-      try {
-        // If author is already populated (object), return it
-        if (
-          parent.author &&
-          typeof parent.author === "object" &&
-          parent.author._id
-        ) {
-          return transformUser(parent.author);
-        }
+    votePoll: async (
+      _parent: any,
+      args: { postId: string; optionIds: string[] },
+      context: GraphQLContext
+    ) => {
+      const currentUser = requireAuth(context);
 
-        // Otherwise fetch from database
-        const authorId = parent.author.toString();
-        const user = await _userModel.findOne({ _id: authorId });
+      try {
+        return await votePoll(
+          currentUser._id.toString(),
+          args.postId,
+          args.optionIds.map((id) => id.toString())
+        );
+      } catch (error: any) {
+        throw toGraphQLError(error, "Failed to vote");
+      }
+    },
 
-        if (!user) {
-          throw new GraphQLError("Author not found", {
-            extensions: {
-              code: "NOT_FOUND",
-              http: { status: 404 },
+    /**
+     * Withdraw votes from a post's poll
+     * @param _parent - Parent resolver
+     * @param args - Mutation arguments with post ID and optional options
+     * @param context - GraphQL context with authenticated user
+     * @returns Poll with the updated results
+     */
+    unvotePoll: async (
+      _parent: any,
+      args: { postId: string; optionIds?: string[] | null },
+      context: GraphQLContext
+    ) => {
+      const currentUser = requireAuth(context);
+
+      try {
+        return await unvotePoll(
+          currentUser._id.toString(),
+          args.postId,
+          args.optionIds?.map((id) => id.toString())
+        );
+      } catch (error: any) {
+        throw toGraphQLError(error, "Failed to withdraw vote");
+      }
+    },
+
+    /**
+     * Save a post, or move a saved post to another collection
+     * @param _parent - Parent resolver
+     * @param args - Mutation arguments with post ID and optional collection
+     * @param context - GraphQL context with authenticated user
+     * @returns The bookmark with its post
+     */
+    addBookmark: async (
+      _parent: any,
+      args: { postId: string; collectionId?: string | null },
+      context: GraphQLContext
+    ) => {
+      const currentUser = requireAuth(context);
+
+      try {
+        const bookmark = await addBookmark(
+          currentUser._id.toString(),
+          args.postId,
+          args.collectionId
+        );
+        const post = await _postModel.findById(args.postId);
+
+        return { ...bookmark.toObject(), post: transformPost(post) };
+      } catch (error: any) {
+        throw toGraphQLError(error, "Failed to bookmark post");
+      }
+    },
+
+    /**
+     * Remove a saved post
+     * @param _parent - Parent resolver
+     * @param args - Mutation arguments with post ID
+     * @param context - GraphQL context with authenticated user
+     * @returns MutationResponse
+     */
+    removeBookmark: async (
+      _parent: any,
+      args: { postId: string },
+      context: GraphQLContext
+    ) => {
+      const currentUser = requireAuth(context);
+
+      try {
+        await removeBookmark(currentUser._id.toString(), args.postId);
+        return { success: true, message: "Bookmark removed" };
+      } catch (error: any) {
+        throw toGraphQLError(error, "Failed to remove bookmark");
+      }
+    },
+
+    /**
+     * Create a bookmark collection
+     * @param _parent - Parent resolver
+     * @param args - Mutation arguments with name and privacy
+     * @param context - GraphQL context with authenticated user
+     * @returns The new BookmarkCollection
+     */
+    createBookmarkCollection: async (
+      _parent: any,
+      args: { name: string; isPrivate?: boolean | null },
+      context: GraphQLContext
+    ) => {
+      const currentUser = requireAuth(context);
+      validateCollectionName(args.name);
+
+      try {
+        const collection = await createCollection(currentUser._id.toString(), {
+          name: args.name,
+          isPrivate: args.isPrivate ?? undefined,
+        });
+        return { ...collection.toObject(), bookmarksCount: 0 };
+      } catch (error: any) {
+        throw toGraphQLError(error, "Failed to create collection");
+      }
+    },
+
+    /**
+     * Rename a bookmark collection or change its privacy
+     * @param _parent - Parent resolver
+     * @param args - Mutation arguments with collection ID and changes
+     * @param context - GraphQL context with authenticated user
+     * @returns The updated BookmarkCollection
+     */
+    updateBookmarkCollection: async (
+      _parent: any,
+      args: { id: string; name?: string | null; isPrivate?: boolean | null },
+      context: GraphQLContext
+    ) => {
+      const currentUser = requireAuth(context);
+      if (args.name != null) validateCollectionName(args.name);
+
+      try {
+        await updateCollection(currentUser._id.toString(), args.id, {
+          name: args.name ?? undefined,
+          isPrivate: args.isPrivate ?? undefined,
+        });
+
+        const collections = await getCollections(currentUser._id.toString());
+        return collections.find(
+          (collection) => collection._id.toString() === args.id
+        );
+      } catch (error: any) {
+        throw toGraphQLError(error, "Failed to update collection");
+      }
+    },
+
+    /**
+     * Delete a bookmark collection, its posts stay saved
+     * @param _parent - Parent resolver
+     * @param args - Mutation arguments with collection ID
+     * @param context - GraphQL context with authenticated user
+     * @returns MutationResponse
+     */
+    deleteBookmarkCollection: async (
+      _parent: any,
+      args: { id: string },
+      context: GraphQLContext
+    ) => {
+      const currentUser = requireAuth(context);
+
+      try {
+        await deleteCollection(currentUser._id.toString(), args.id);
+        return { success: true, message: "Collection deleted" };
+      } catch (error: any) {
+        throw toGraphQLError(error, "Failed to delete collection");
+      }
+    },
+
+    /**
+     * Update user profile
+     * @param _parent - Parent resolver
+     * @param args - Mutation arguments with profile fields
+     * @param context - GraphQL context with authenticated user
+     * @returns MutationResponse
+     */
+    updateProfile: async (
+      _parent: any,
+      args: {
+        fName?: string;
+        lName?: string;
+        age?: number;
+        phone?: string;
+        address?: string;
+        gender?: string;
+        handle?: string;
+        notificationSettings?: {
+          preferences?: Array<{
+            type: string;
+            socket?: boolean;
+            email?: boolean;
+            digest?: boolean;
+          }>;
+          quietHours?: {
+            enabled?: boolean;
+            start?: string;
+            end?: string;
+            timezone?: string;
+          };
+          digestFrequency?: string;
+        };
+      },
+      context: GraphQLContext
+    ) => {
+      const currentUser = requireAuth(context);
+
+      try {
+        // Build update data
+        const updateData: any = {};
+
+        if (args.fName !== undefined) {
+          if (args.fName.trim().length < 2) {
+            throw new GraphQLError("First name must be at least 2 characters", {
+              extensions: {
+                code: "BAD_REQUEST",
+                http: { status: 400 },
+              },
+            });
+          }
+          updateData.fName = args.fName.trim();
+        }
+
+        if (args.lName !== undefined) {
+          if (args.lName.trim().length < 2) {
+            throw new GraphQLError("Last name must be at least 2 characters", {
+              extensions: {
+                code: "BAD_REQUEST",
+                http: { status: 400 },
+              },
+            });
+          }
+          updateData.lName = args.lName.trim();
+        }
+
+        if (args.age !== undefined) {
+          if (args.age < 18 || args.age > 60) {
+            throw new GraphQLError("Age must be between 18 and 60", {
+              extensions: {
+                code: "BAD_REQUEST",
+                http: { status: 400 },
+              },
+            });
+          }
+          updateData.age = args.age;
+        }
+
+        if (args.phone !== undefined) updateData.phone = args.phone;
+        if (args.address !== undefined) updateData.address = args.address;
+        if (args.gender !== undefined) updateData.gender = args.gender;
+
+        if (args.handle !== undefined) {
+          if (!/^[a-zA-Z0-9_]{3,30}$/.test(args.handle)) {
+            throw new GraphQLError(
+              "Handle must be 3-30 letters, numbers or underscores",
+              {
+                extensions: {
+                  code: "BAD_REQUEST",
+                  http: { status: 400 },
+                },
+              }
+            );
+          }
+
+          const handle = args.handle.toLowerCase();
+          const handleOwner = await _userModel.findOne({
+            handle,
+            _id: { $ne: currentUser._id },
+          });
+          if (handleOwner) {
+            throw new GraphQLError("Handle already taken", {
+              extensions: {
+                code: "CONFLICT",
+                http: { status: 409 },
+              },
+            });
+          }
+          updateData.handle = handle;
+        }
+
+        if (args.notificationSettings) {
+          const {
+            preferences = [],
+            quietHours = {},
+            digestFrequency,
+          } = args.notificationSettings;
+          const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+          if (
+            (quietHours.start && !timePattern.test(quietHours.start)) ||
+            (quietHours.end && !timePattern.test(quietHours.end))
+          ) {
+            throw new GraphQLError("Quiet hours must be in HH:mm format", {
+              extensions: {
+                code: "BAD_REQUEST",
+                http: { status: 400 },
+              },
+            });
+          }
+
+          if (quietHours.timezone && !isValidTimeZone(quietHours.timezone)) {
+            throw new GraphQLError("Invalid timezone", {
+              extensions: {
+                code: "BAD_REQUEST",
+                http: { status: 400 },
+              },
+            });
+          }
+
+          // GraphQL has no map type, so preferences arrive as a list
+          const preferencesByType: any = {};
+          for (const { type, ...channels } of preferences) {
+            preferencesByType[type] = {
+              ...preferencesByType[type],
+              ...channels,
+            };
+          }
+
+          Object.assign(
+            updateData,
+            buildNotificationSettingsUpdate({
+              preferences: preferencesByType,
+              quietHours,
+              digest: { frequency: digestFrequency },
+            })
+          );
+        }
+
+        await _userModel.updateOne({ _id: currentUser._id }, updateData);
+
+        return {
+          success: true,
+          message: "Profile updated successfully",
+          post: null,
+        };
+      } catch (error: any) {
+        if (error instanceof GraphQLError) throw error;
+
+        throw new GraphQLError("Failed to update profile", {
+          extensions: {
+            code: "INTERNAL_SERVER_ERROR",
+            http: { status: 500 },
+            originalError: error.message,
+          },
+        });
+      }
+    },
+
+    /**
+     * Stop suggesting a user as someone the current user may know
+     * @param _parent - Parent resolver
+     * @param args - Mutation arguments with the suggested user's ID
+     * @param context - GraphQL context with authenticated user
+     * @returns MutationResponse
+     */
+    dismissFriendSuggestion: async (
+      _parent: any,
+      args: { userId: string },
+      context: GraphQLContext
+    ) => {
+      const currentUser = requireAuth(context);
+
+      try {
+        await dismissFriendSuggestion(currentUser._id.toString(), args.userId);
+        return { success: true, message: "Suggestion dismissed" };
+      } catch (error: any) {
+        throw toGraphQLError(error, "Failed to dismiss suggestion");
+      }
+    },
+  },
+
+  /**
+   * Parent Resolvers
+   * Field-level resolvers that fetch related data
+   */
+  User: {
+    /**
+     * Resolve notificationSettings field for User type
+     * Fills in defaults and flattens preferences into a list
+     * @param parent - The parent User object
+     * @param _args - No arguments
+     * @param context - GraphQL context
+     * @returns NotificationSettings or null for other users
+     */
+    notificationSettings: (
+      parent: any,
+      _args: any,
+      context: GraphQLContext
+    ) => {
+      const viewer = context.user;
+      if (
+        !viewer ||
+        (viewer._id.toString() !== parent._id.toString() &&
+          viewer.role !== "admin")
+      ) {
+        return null;
+      }
+
+      const settings = resolveNotificationSettings(parent.notificationSettings);
+
+      return {
+        preferences: Object.entries(settings.preferences).map(
+          ([type, channels]) => ({ type, ...channels })
+        ),
+        quietHours: settings.quietHours,
+        digest: settings.digest,
+      };
+    },
+
+    // Users created before follows existed have no counts stored
+    approveFollowers: (parent: any) => !!parent.approveFollowers,
+    followersCount: (parent: any) => parent.followersCount || 0,
+    followingCount: (parent: any) => parent.followingCount || 0,
+
+    relationship: resolveRelationship,
+  },
+
+  UserSummary: {
+    relationship: resolveRelationship,
+  },
+
+  Post: {
+    reactionCounts: resolveReactionCounts,
+
+    // Reposts have no title or content of their own
+    title: (parent: any) => parent.title || "",
+    content: (parent: any) => parent.content || "",
+
+    /**
+     * Resolve sharedPost field for Post type
+     * Embeds the original of a repost or quote, or a placeholder once it
+     * was deleted, frozen or is outside the viewer's audience
+     * @param parent - The parent Post object
+     * @param _args - No arguments
+     * @param context - GraphQL context
+     * @returns SharedPost object or null for posts of their own
+     */
+    sharedPost: async (parent: any, _args: any, context: GraphQLContext) => {
+      if (!parent.sharedPost) return null;
+
+      const sharedPost = await resolveSharedPost(
+        parent.sharedPost._id || parent.sharedPost,
+        context.user?._id.toString() || null
+      );
+      return { ...sharedPost, post: transformPost(sharedPost.post) };
+    },
+
+    /**
+     * Resolve author field for Post type
+     * Replaces author ObjectId with full User object from database
+     * @param parent - The parent Post object
+     * @param _args - No arguments
+     * @param context - GraphQL context
+     * @returns User object
+     */
+    author: async (parent: any, _args: any, context: GraphQLContext) => {
+      try {
+        // If author is already populated (object), return it
+        if (
+          parent.author &&
+          typeof parent.author === "object" &&
+          parent.author._id
+        ) {
+          return transformUser(parent.author);
+        }
+
+        // Otherwise fetch from database
+        const authorId = parent.author.toString();
+        const user = await _userModel.findOne({ _id: authorId });
+
+        if (!user) {
+          throw new GraphQLError("Author not found", {
+            extensions: {
+              code: "NOT_FOUND",
+              http: { status: 404 },
             },
           });
         }
@@ -995,33 +1788,150 @@ export const resolvers = {
     },
 
     /**
-     * Resolve userReaction field for Post type
-     * Gets current user's reaction to the post
-     * @param parent - The parent Post object
-     * @param _args - No arguments
+     * Resolve userReaction field for Post type
+     * Gets current user's reaction to the post
+     * @param parent - The parent Post object
+     * @param _args - No arguments
+     * @param context - GraphQL context with authenticated user
+     * @returns Reaction type or null
+     */
+    userReaction: async (parent: any, _args: any, context: GraphQLContext) => {
+      // If no user authenticated, return null
+      if (!context.isAuthenticated || !context.user) {
+        return null;
+      }
+
+      try {
+        return await getUserReaction(context.user._id.toString(), {
+          target: parent._id.toString(),
+          targetType: ReactionTargetType.post,
+        });
+      } catch (error: any) {
+        // If error fetching reaction, just return null
+        return null;
+      }
+    },
+
+    /**
+     * Resolve isBookmarked field for Post type
+     * @param parent - The parent Post object
+     * @param _args - No arguments
+     * @param context - GraphQL context with authenticated user
+     * @returns Whether the current user saved the post
+     */
+    isBookmarked: async (parent: any, _args: any, context: GraphQLContext) => {
+      if (!context.isAuthenticated || !context.user) return false;
+
+      return isBookmarked(context.user._id.toString(), parent._id.toString());
+    },
+
+    /**
+     * Resolve poll field for Post type
+     * Live results with the current user's votes
+     * @param parent - The parent Post object
+     * @param _args - No arguments
+     * @param context - GraphQL context
+     * @returns Poll or null for posts without one
+     */
+    poll: (parent: any, _args: any, context: GraphQLContext) =>
+      getPollResults(parent, context.user?._id.toString() || null),
+
+    commentSetting: (parent: any) =>
+      parent.commentSetting || CommentSetting.everyone,
+
+    /**
+     * Resolve comments field for Post type
+     * Pinned comments first on the first page, hidden ones only for their
+     * author and the post author
+     * @param parent - The parent Post object
+     * @param args - Sort, cursor and page size
+     * @param context - GraphQL context with authenticated user
+     * @returns CommentConnection
+     */
+    comments: async (
+      parent: any,
+      args: { sort: CommentSort; cursor?: string; limit?: number },
+      context: GraphQLContext
+    ) => {
+      const currentUser = requireAuth(context);
+
+      try {
+        const { comments, pagination } = await getPostRootComments(
+          currentUser._id.toString(),
+          parent,
+          {
+            sort: args.sort,
+            cursor: args.cursor || undefined,
+            limit: Math.min(Math.max(args.limit || 10, 1), 50),
+            populateAuthor: false,
+          }
+        );
+
+        return {
+          comments: comments.map((comment) =>
+            comment.toObject ? comment.toObject() : comment
+          ),
+          nextCursor: pagination.nextCursor,
+          hasNextPage: pagination.hasNextPage,
+        };
+      } catch (error: any) {
+        throw toGraphQLError(error, "Failed to fetch comments");
+      }
+    },
+  },
+
+  Comment: {
+    reactionCounts: resolveReactionCounts,
+
+    isPinned: (parent: any) => !!parent.isPinned,
+
+    /**
+     * Resolve replies field for Comment type
+     * @param parent - The parent Comment object
+     * @param args - Sort, cursor and page size
      * @param context - GraphQL context with authenticated user
-     * @returns Reaction type or null
+     * @returns CommentConnection
      */
-    userReaction: async (parent: any, _args: any, context: GraphQLContext) => {
-      // If no user authenticated, return null
-      if (!context.isAuthenticated || !context.user) {
-        return null;
-      }
+    replies: async (
+      parent: any,
+      args: { sort: CommentSort; cursor?: string; limit?: number },
+      context: GraphQLContext
+    ) => {
+      requireAuth(context);
 
       try {
-        const reaction = await _postReactionModel.getUserReaction(
-          context.user._id.toString(),
-          parent._id.toString()
+        const { comments, pagination } = await getCommentReplies(
+          parent._id.toString(),
+          args.sort,
+          {
+            cursor: args.cursor || undefined,
+            limit: Math.min(Math.max(args.limit || 10, 1), 50),
+            populateAuthor: false,
+          }
         );
 
-        return reaction ? reaction.reactionType : null;
+        return {
+          comments: comments.map((comment) => comment.toObject()),
+          nextCursor: pagination.nextCursor,
+          hasNextPage: pagination.hasNextPage,
+        };
       } catch (error: any) {
-        // If error fetching reaction, just return null
-        return null;
+        throw toGraphQLError(error, "Failed to fetch replies");
       }
     },
   },
 
+  Message: {
+    reactionCounts: resolveReactionCounts,
+  },
+
+  /**
+   * Search result union, resolved from the hit's type
+   */
+  SearchResult: {
+    __resolveType: (parent: any) => parent.__searchType,
+  },
+
   /**
    * Additional Query Resolvers for Posts
    */
@@ -1065,12 +1975,13 @@ export const resolvers = {
         }
 
         // Check access permissions
-        const isPublic =
-          post.availability === "public" && post.status === "published";
-        const isAuthor = post.author.toString() === context.user._id.toString();
-        const isAdmin = context.user.role === "admin";
+        const canView = await userCanViewPost(
+          context.user._id.toString(),
+          post,
+          { isAdmin: context.user.role === "admin" }
+        );
 
-        if (!isPublic && !isAuthor && !isAdmin) {
+        if (!canView) {
           throw new GraphQLError(
             "You don't have permission to view this post",
             {
@@ -1082,8 +1993,8 @@ export const resolvers = {
           );
         }
 
-        // Increment view count
-        await _postModel.incrementField(args.id, "viewsCount");
+        // Count the view, once per view window
+        await recordPostView(post, context.user._id.toString());
 
         return transformPost(post);
       } catch (error: any) {
@@ -1168,11 +2079,12 @@ export const resolvers = {
           }
         }
 
-        // If not admin and not filtering by specific author, show only public published posts
+        // If not admin, show only the posts the user may see
         const isAdmin = context.user.role === "admin";
-        if (!isAdmin && !args.filter?.authorId) {
-          query.status = "published";
-          query.availability = "public";
+        if (!isAdmin) {
+          query.$and = [
+            postAccessFilter(await loadPostViewer(context.user._id.toString())),
+          ];
         }
 
         // Execute query
@@ -1277,5 +2189,390 @@ export const resolvers = {
         });
       }
     },
+
+    /**
+     * Get trending hashtags
+     * @param _parent - Parent resolver
+     * @param args - Query arguments with time window and limit
+     * @param context - GraphQL context with authenticated user
+     * @returns Tags ranked by usage within the window
+     */
+    trendingHashtags: async (
+      _parent: any,
+      args: {
+        window?: "hour" | "day" | "week";
+        limit?: number;
+      },
+      context: GraphQLContext
+    ) => {
+      requireAuth(context);
+
+      const limit = Math.min(Math.max(args.limit || 10, 1), 50);
+      return await getTrendingHashtags(args.window || "day", limit);
+    },
+
+    /**
+     * Get a tag's feed
+     * @param _parent - Parent resolver
+     * @param args - Query arguments with tag, cursor and limit
+     * @param context - GraphQL context with authenticated user
+     * @returns TagFeedConnection with the tag's public posts
+     */
+    tagFeed: async (
+      _parent: any,
+      args: {
+        tag: string;
+        cursor?: string;
+        limit?: number;
+      },
+      context: GraphQLContext
+    ) => {
+      const currentUser = requireAuth(context);
+
+      const tag = args.tag.trim().replace(/^#/, "").toLowerCase();
+      if (!/^[\p{L}\p{N}_]{1,50}$/u.test(tag)) {
+        throw new GraphQLError("Invalid hashtag", {
+          extensions: {
+            code: "BAD_REQUEST",
+            http: { status: 400 },
+          },
+        });
+      }
+
+      const cursor = args.cursor ? decodeTagFeedCursor(args.cursor) : null;
+      if (args.cursor && !cursor) {
+        throw new GraphQLError("Invalid cursor", {
+          extensions: {
+            code: "BAD_REQUEST",
+            http: { status: 400 },
+          },
+        });
+      }
+
+      const feed = await getTagFeed(tag, {
+        viewerId: currentUser._id.toString(),
+        cursor,
+        limit: Math.min(Math.max(args.limit || 10, 1), 50),
+      });
+
+      return {
+        tag,
+        posts: feed.posts.map(transformPost),
+        nextCursor: feed.nextCursor,
+        hasNextPage: feed.hasNextPage,
+      };
+    },
+
+    /**
+     * Get the personalized home feed
+     * @param _parent - Parent resolver
+     * @param args - Query arguments with cursor and limit
+     * @param context - GraphQL context with authenticated user
+     * @returns FeedConnection with ranked posts
+     */
+    feed: async (
+      _parent: any,
+      args: {
+        cursor?: string;
+        limit?: number;
+      },
+      context: GraphQLContext
+    ) => {
+      const currentUser = requireAuth(context);
+
+      const cursor = args.cursor ? decodeFeedCursor(args.cursor) : null;
+      if (args.cursor && !cursor) {
+        throw new GraphQLError("Invalid cursor", {
+          extensions: {
+            code: "BAD_REQUEST",
+            http: { status: 400 },
+          },
+        });
+      }
+
+      try {
+        const feed = await getHomeFeed(currentUser._id.toString(), {
+          cursor,
+          limit: Math.min(Math.max(args.limit || 10, 1), 50),
+        });
+
+        return {
+          posts: feed.posts.map(transformPost),
+          nextCursor: feed.nextCursor,
+          hasNextPage: feed.hasNextPage,
+        };
+      } catch (error: any) {
+        throw toGraphQLError(error, "Failed to fetch feed");
+      }
+    },
+
+    /**
+     * Get the friends timeline
+     * @param _parent - Parent resolver
+     * @param args - Query arguments with cursor and limit
+     * @param context - GraphQL context with authenticated user
+     * @returns FeedConnection with the timeline's posts
+     */
+    timeline: async (
+      _parent: any,
+      args: {
+        cursor?: string;
+        limit?: number;
+      },
+      context: GraphQLContext
+    ) => {
+      const currentUser = requireAuth(context);
+
+      const cursor = args.cursor ? decodeTimelineCursor(args.cursor) : null;
+      if (args.cursor && !cursor) {
+        throw new GraphQLError("Invalid cursor", {
+          extensions: {
+            code: "BAD_REQUEST",
+            http: { status: 400 },
+          },
+        });
+      }
+
+      const timeline = await getTimelineFeed(currentUser._id.toString(), {
+        cursor,
+        limit: Math.min(Math.max(args.limit || 10, 1), 50),
+      });
+
+      return {
+        posts: timeline.posts.map(transformPost),
+        nextCursor: timeline.nextCursor,
+        hasNextPage: timeline.hasNextPage,
+      };
+    },
+
+    /**
+     * Full-text search across users, posts, comments and messages
+     * @param _parent - Parent resolver
+     * @param args - Query arguments with search text, types, filter and pagination
+     * @param context - GraphQL context with authenticated user
+     * @returns SearchResults with hits and per-type totals
+     */
+    search: async (
+      _parent: any,
+      args: {
+        query: string;
+        types?: ("users" | "posts" | "comments" | "messages")[];
+        filter?: {
+          author?: string;
+          tags?: string[];
+          conversationId?: string;
+          from?: string;
+          to?: string;
+        };
+        page?: number;
+        limit?: number;
+      },
+      context: GraphQLContext
+    ) => {
+      const currentUser = requireAuth(context);
+
+      const query = args.query.trim();
+      if (!query || query.length > 200) {
+        throw new GraphQLError("Search query must be 1-200 characters", {
+          extensions: {
+            code: "BAD_REQUEST",
+            http: { status: 400 },
+          },
+        });
+      }
+
+      for (const id of [args.filter?.author, args.filter?.conversationId]) {
+        if (id && !isValidObjectId(id)) {
+          throw new GraphQLError("Invalid ID format in filter", {
+            extensions: {
+              code: "BAD_REQUEST",
+              http: { status: 400 },
+            },
+          });
+        }
+      }
+
+      const sections = await search(currentUser._id.toString(), query, {
+        types: args.types?.length ? args.types : undefined,
+        filters: {
+          author: args.filter?.author,
+          tags: args.filter?.tags,
+          conversationId: args.filter?.conversationId,
+          from: args.filter?.from ? new Date(args.filter.from) : undefined,
+          to: args.filter?.to ? new Date(args.filter.to) : undefined,
+        },
+        page: Math.max(args.page || 1, 1),
+        limit: Math.min(Math.max(args.limit || 10, 1), 50),
+      });
+
+      const typeNames = {
+        users: "UserSummary",
+        posts: "Post",
+        comments: "Comment",
+        messages: "Message",
+      };
+
+      const hits = [];
+      const totals = [];
+      for (const [type, section] of Object.entries(sections)) {
+        totals.push({ type, total: section.total });
+        for (const hit of section.hits) {
+          const item = hit.item.toObject ? hit.item.toObject() : hit.item;
+          hits.push({
+            type,
+            score: hit.score,
+            snippet: hit.snippet,
+            highlights: hit.highlights,
+            result: { ...item, __searchType: typeNames[type] },
+          });
+        }
+      }
+
+      return { hits, totals };
+    },
+
+    /**
+     * Reaction types users can currently pick
+     * @returns List of reaction types with their emoji
+     */
+    reactionTypes: () => getReactionSet(),
+
+    /**
+     * Users who reacted to a post, comment or message
+     * @param _parent - Parent resolver
+     * @param args - Query arguments with target, reaction type and pagination
+     * @param context - GraphQL context with authenticated user
+     * @returns ReactionConnection with reactions, counts and pagination
+     */
+    reactions: async (
+      _parent: any,
+      args: {
+        targetType: ReactionTargetType;
+        targetId: string;
+        reactionType?: string;
+        page?: number;
+        limit?: number;
+      },
+      context: GraphQLContext
+    ) => {
+      const currentUser = requireAuth(context);
+
+      if (!isValidObjectId(args.targetId)) {
+        throw new GraphQLError("Invalid target ID format", {
+          extensions: {
+            code: "BAD_REQUEST",
+            http: { status: 400 },
+          },
+        });
+      }
+
+      const target = { target: args.targetId, targetType: args.targetType };
+      try {
+        await findReactionTarget(currentUser._id.toString(), target);
+      } catch (error: any) {
+        throw new GraphQLError(error.message, {
+          extensions: {
+            code: error.statusCode === 404 ? "NOT_FOUND" : "FORBIDDEN",
+            http: { status: error.statusCode || 500 },
+          },
+        });
+      }
+
+      const result = await getReactions(target, {
+        reactionType: args.reactionType,
+        page: Math.max(args.page || 1, 1),
+        limit: Math.min(Math.max(args.limit || 20, 1), 50),
+      });
+
+      return {
+        reactions: result.reactions.map((reaction) => reaction.toObject()),
+        counts: result.counts,
+        pagination: {
+          ...result.pagination,
+          hasPreviousPage: result.pagination.hasPrevPage,
+        },
+      };
+    },
+
+    /**
+     * Saved posts, all of the user's or of one collection
+     * @param _parent - Parent resolver
+     * @param args - Query arguments with collection and cursor pagination
+     * @param context - GraphQL context with authenticated user
+     * @returns BookmarkConnection with the saved posts of this page
+     */
+    bookmarks: async (
+      _parent: any,
+      args: { collectionId?: string; cursor?: string; limit?: number },
+      context: GraphQLContext
+    ) => {
+      const currentUser = requireAuth(context);
+
+      const cursor = args.cursor ? decodeBookmarkCursor(args.cursor) : null;
+      if (args.cursor && !cursor) {
+        throw new GraphQLError("Invalid cursor", {
+          extensions: {
+            code: "BAD_REQUEST",
+            http: { status: 400 },
+          },
+        });
+      }
+
+      try {
+        const saved = await getSavedPosts(currentUser._id.toString(), {
+          collectionId: args.collectionId || undefined,
+          cursor,
+          limit: Math.min(Math.max(args.limit || 10, 1), 50),
+        });
+
+        return {
+          bookmarks: saved.bookmarks.map((bookmark) => bookmark.toObject()),
+          nextCursor: saved.nextCursor,
+          hasNextPage: saved.hasNextPage,
+        };
+      } catch (error: any) {
+        throw toGraphQLError(error, "Failed to fetch bookmarks");
+      }
+    },
+
+    /**
+     * The user's bookmark collections with their bookmark counts
+     * @param _parent - Parent resolver
+     * @param _args - No arguments
+     * @param context - GraphQL context with authenticated user
+     * @returns Array of BookmarkCollection
+     */
+    bookmarkCollections: async (
+      _parent: any,
+      _args: any,
+      context: GraphQLContext
+    ) => {
+      const currentUser = requireAuth(context);
+      return getCollections(currentUser._id.toString());
+    },
+
+    /**
+     * People the user may know, best match first
+     * @param _parent - Parent resolver
+     * @param args - Query arguments with limit
+     * @param context - GraphQL context with authenticated user
+     * @returns Array of FriendSuggestion
+     */
+    friendSuggestions: async (
+      _parent: any,
+      args: { limit?: number },
+      context: GraphQLContext
+    ) => {
+      const currentUser = requireAuth(context);
+
+      try {
+        return await getFriendSuggestions(
+          currentUser._id.toString(),
+          Math.min(Math.max(args.limit || 10, 1), 50)
+        );
+      } catch (error: any) {
+        throw toGraphQLError(error, "Failed to fetch friend suggestions");
+      }
+    },
   },
 };
@@ -0,0 +1,63 @@
+import { Router } from "express";
+import bookmarkService from "./bookmark.service.js";
+import { authentication } from "../../middleware/Authentication.js";
+import { validation } from "../../middleware/validation.js";
+import * as BV from "./bookmark.validation.js";
+
+const bookmarkRouter = Router();
+
+// Saved posts, newest first (?collectionId=, ?cursor=, ?limit=); public
+// collections of other users can be read too
+bookmarkRouter.get(
+  "/",
+  authentication(),
+  validation(BV.getBookmarksSchema),
+  bookmarkService.getBookmarks
+);
+
+// Save a post, or move a saved post to another collection
+bookmarkRouter.post(
+  "/",
+  authentication(),
+  validation(BV.addBookmarkSchema),
+  bookmarkService.addBookmark
+);
+
+// The user's collections with their bookmark counts
+bookmarkRouter.get(
+  "/collections",
+  authentication(),
+  bookmarkService.getCollections
+);
+
+bookmarkRouter.post(
+  "/collections",
+  authentication(),
+  validation(BV.createCollectionSchema),
+  bookmarkService.createCollection
+);
+
+// Rename a collection or change its privacy
+bookmarkRouter.patch(
+  "/collections/:collectionId",
+  authentication(),
+  validation(BV.updateCollectionSchema),
+  bookmarkService.updateCollection
+);
+
+// Delete a collection, its posts stay saved
+bookmarkRouter.delete(
+  "/collections/:collectionId",
+  authentication(),
+  validation(BV.collectionIdSchema),
+  bookmarkService.deleteCollection
+);
+
+bookmarkRouter.delete(
+  "/:postId",
+  authentication(),
+  validation(BV.removeBookmarkSchema),
+  bookmarkService.removeBookmark
+);
+
+export default bookmarkRouter;
@@ -0,0 +1,172 @@
+import { NextFunction, Request, Response } from "express";
+import {
+  addBookmark,
+  createCollection,
+  decodeBookmarkCursor,
+  deleteCollection,
+  getCollections,
+  getSavedPosts,
+  removeBookmark,
+  updateCollection,
+} from "../../service/bookmarks.js";
+import {
+  addBookmarkSchemaType,
+  createCollectionSchemaType,
+  getBookmarksSchemaType,
+  updateCollectionSchemaType,
+} from "./bookmark.validation.js";
+
+class BookmarkService {
+  // Saved posts, newest first (cursor paginated)
+  getBookmarks = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const {
+        collectionId,
+        cursor,
+        limit = "10",
+      } = req.query as getBookmarksSchemaType;
+
+      const decodedCursor = cursor ? decodeBookmarkCursor(cursor) : null;
+      if (cursor && !decodedCursor) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid cursor",
+        });
+      }
+
+      const saved = await getSavedPosts(req.user._id.toString(), {
+        collectionId,
+        cursor: decodedCursor,
+        limit: parseInt(limit),
+      });
+
+      res.json({
+        success: true,
+        bookmarks: saved.bookmarks,
+        pagination: {
+          nextCursor: saved.nextCursor,
+          hasNextPage: saved.hasNextPage,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  addBookmark = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { postId, collectionId }: addBookmarkSchemaType = req.body;
+
+      const bookmark = await addBookmark(
+        req.user._id.toString(),
+        postId,
+        collectionId
+      );
+
+      res.status(201).json({
+        success: true,
+        message: "Post bookmarked",
+        bookmark,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  removeBookmark = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { postId } = req.params as { postId: string };
+
+      await removeBookmark(req.user._id.toString(), postId);
+
+      res.json({
+        success: true,
+        message: "Bookmark removed",
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  getCollections = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const collections = await getCollections(req.user._id.toString());
+
+      res.json({
+        success: true,
+        collections,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  createCollection = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const { name, isPrivate }: createCollectionSchemaType = req.body;
+
+      const collection = await createCollection(req.user._id.toString(), {
+        name,
+        isPrivate,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: "Collection created",
+        collection,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  updateCollection = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const { collectionId } = req.params as { collectionId: string };
+      const { name, isPrivate }: updateCollectionSchemaType = req.body;
+
+      const collection = await updateCollection(
+        req.user._id.toString(),
+        collectionId,
+        { name, isPrivate }
+      );
+
+      res.json({
+        success: true,
+        message: "Collection updated",
+        collection,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  deleteCollection = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const { collectionId } = req.params as { collectionId: string };
+
+      await deleteCollection(req.user._id.toString(), collectionId);
+
+      res.json({
+        success: true,
+        message: "Collection deleted",
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+export default new BookmarkService();
@@ -0,0 +1,74 @@
+import { z } from "zod";
+
+// ============ BOOKMARK VALIDATION ============
+
+const objectId = (message: string) =>
+  z.string().regex(/^[0-9a-fA-F]{24}$/, message);
+
+const collectionName = z.string().trim().min(1).max(50);
+
+export const getBookmarksSchema = {
+  query: z.object({
+    collectionId: objectId("Invalid collection ID").optional(),
+    cursor: z.string().min(1).optional(),
+    limit: z
+      .string()
+      .regex(/^\d+$/)
+      .refine((val) => Number(val) >= 1 && Number(val) <= 50, {
+        message: "Limit must be between 1 and 50",
+      })
+      .optional(),
+  }),
+};
+
+export const addBookmarkSchema = {
+  body: z.strictObject({
+    postId: objectId("Invalid post ID"),
+    // Omit or null to keep the bookmark outside any collection
+    collectionId: objectId("Invalid collection ID").nullable().optional(),
+  }),
+};
+
+export const removeBookmarkSchema = {
+  params: z.object({
+    postId: objectId("Invalid post ID"),
+  }),
+};
+
+export const createCollectionSchema = {
+  body: z.strictObject({
+    name: collectionName,
+    isPrivate: z.boolean().optional(),
+  }),
+};
+
+export const updateCollectionSchema = {
+  params: z.object({
+    collectionId: objectId("Invalid collection ID"),
+  }),
+  body: z
+    .strictObject({
+      name: collectionName.optional(),
+      isPrivate: z.boolean().optional(),
+    })
+    .refine((data) => data.name !== undefined || data.isPrivate !== undefined, {
+      message: "Nothing to update",
+    }),
+};
+
+export const collectionIdSchema = {
+  params: z.object({
+    collectionId: objectId("Invalid collection ID"),
+  }),
+};
+
+// ============ TYPE EXPORTS ============
+
+export type getBookmarksSchemaType = z.infer<typeof getBookmarksSchema.query>;
+export type addBookmarkSchemaType = z.infer<typeof addBookmarkSchema.body>;
+export type createCollectionSchemaType = z.infer<
+  typeof createCollectionSchema.body
+>;
+export type updateCollectionSchemaType = z.infer<
+  typeof updateCollectionSchema.body
+>;
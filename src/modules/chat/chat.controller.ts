@@ -111,6 +111,22 @@ chatRouter.delete(
   chatService.deleteMessage
 );
 
+// React to a message (same reaction again removes it)
+chatRouter.post(
+  "/messages/:messageId/react",
+  authentication(),
+  validation(CV.reactToMessageSchema),
+  chatService.reactToMessage
+);
+
+// Who reacted to a message
+chatRouter.get(
+  "/messages/:messageId/reactions",
+  authentication(),
+  validation(CV.getMessageReactionsSchema),
+  chatService.getMessageReactions
+);
+
 // Mark conversation as read
 chatRouter.post(
   "/conversations/:conversationId/read",
@@ -14,6 +14,10 @@ import messageModel, {
 import friendRequestModel from "../../db/model/friendRequest.model.js";
 import userModel from "../../db/model/user.model.js";
 import { appError } from "../../utils/classError.js";
+import {
+  notifyMentions,
+  resolveMessageMentions,
+} from "../../service/mentions.js";
 import {
   createOneToOneChatSchemaType,
   createGroupChatSchemaType,
@@ -27,7 +31,16 @@ import {
   getMessagesSchemaType,
   searchMessagesSchemaType,
   forwardMessageSchemaType,
+  reactToMessageSchemaType,
+  getMessageReactionsSchemaType,
 } from "./chat.validation.js";
+import { ReactionTargetType } from "../../db/model/reaction.model.js";
+import {
+  findReactionTarget,
+  getReactions,
+  getUserReactions,
+  toggleReaction,
+} from "../../service/reactions.js";
 import {
   sendNotificationToUser,
   NotificationType,
@@ -709,12 +722,25 @@ class ChatService {
         });
       }
 
+      // Get conversation to resolve mentions and notify participants
+      const conversation = await this._conversationRepo.findById(
+        conversationId
+      );
+
+      // Only participants of the conversation can be mentioned
+      const mentions = await resolveMessageMentions(
+        messageData.content,
+        userId,
+        conversation?.participants || []
+      );
+
       // Create message
       const message = await this._messageRepo.create({
         conversation: new Types.ObjectId(conversationId),
         sender: new Types.ObjectId(userId),
         content: messageData.content,
         messageType: messageData.messageType || MessageType.text,
+        mentions,
         replyTo: messageData.replyTo
           ? new Types.ObjectId(messageData.replyTo)
           : undefined,
@@ -741,11 +767,6 @@ class ChatService {
         }
       );
 
-      // Get conversation to notify participants
-      const conversation = await this._conversationRepo.findById(
-        conversationId
-      );
-
       // Emit to all participants via Socket.IO
       const io = getSocketIOInstance();
       if (io && conversation) {
@@ -760,6 +781,11 @@ class ChatService {
         });
       }
 
+      notifyMentions(mentions, userId, "message", {
+        conversationId,
+        messageId: message._id.toString(),
+      });
+
       res.status(201).json({
         success: true,
         message: populatedMessage,
@@ -809,9 +835,18 @@ class ChatService {
         }
       );
 
+      const userReactions = await getUserReactions(
+        userId,
+        result.data.map((message: any) => message._id),
+        ReactionTargetType.message
+      );
+
       res.json({
         success: true,
-        messages: result.data,
+        messages: result.data.map((message: any) => ({
+          ...message.toObject(),
+          userReaction: userReactions.get(message._id.toString()) || null,
+        })),
         pagination: {
           page: result.page,
           limit: result.limit,
@@ -950,6 +985,91 @@ class ChatService {
     }
   };
 
+  // React to a message, reacting again with the same type removes it
+  reactToMessage = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { messageId } = req.params as { messageId: string };
+      const { reactionType }: reactToMessageSchemaType = req.body;
+      const userId = req.user._id.toString();
+      const target = {
+        target: messageId,
+        targetType: ReactionTargetType.message,
+      };
+
+      // Participants only, and not on messages they deleted for themselves
+      const message = await findReactionTarget(userId, target);
+
+      const { change, counts } = await toggleReaction(
+        userId,
+        target,
+        reactionType
+      );
+
+      const conversation = await this._conversationRepo.findById(
+        message.conversation.toString()
+      );
+
+      const io = getSocketIOInstance();
+      if (io && conversation && change.action !== "unchanged") {
+        conversation.participants.forEach((participantId) => {
+          emitToUser(io, participantId.toString(), "chat:message_reaction", {
+            messageId,
+            conversationId: message.conversation.toString(),
+            userId,
+            reactionType: change.reactionType,
+            counts,
+          });
+        });
+      }
+
+      res.json({
+        success: true,
+        reaction: {
+          type: change.reactionType,
+          action: change.action,
+        },
+        counts,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Who reacted to a message (?type=love&page=1&limit=20)
+  getMessageReactions = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const { messageId } = req.params as { messageId: string };
+      const {
+        type,
+        page = "1",
+        limit = "20",
+      }: getMessageReactionsSchemaType = req.query as any;
+      const target = {
+        target: messageId,
+        targetType: ReactionTargetType.message,
+      };
+
+      await findReactionTarget(req.user._id.toString(), target);
+
+      const result = await getReactions(target, {
+        reactionType: type,
+        page: parseInt(page),
+        limit: parseInt(limit),
+      });
+
+      res.json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
   // Mark conversation as read
   markAsRead = async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { Types } from "mongoose";
+import { ReactionType } from "../../db/model/reaction.model.js";
 
 // ============ CONVERSATION VALIDATION ============
 
@@ -166,6 +167,29 @@ export const searchMessagesSchema = {
   }),
 };
 
+export const reactToMessageSchema = {
+  body: z
+    .strictObject({
+      reactionType: z.enum(ReactionType),
+    })
+    .required(),
+};
+
+// Who reacted to a message, page and limit are parsed by the handler
+export const getMessageReactionsSchema = {
+  query: z.object({
+    type: z.enum(ReactionType).optional(),
+    page: z.string().regex(/^\d+$/).optional(),
+    limit: z
+      .string()
+      .regex(/^\d+$/)
+      .refine((val) => Number(val) >= 1 && Number(val) <= 50, {
+        message: "Limit must be between 1 and 50",
+      })
+      .optional(),
+  }),
+};
+
 export const forwardMessageSchema = {
   body: z
     .strictObject({
@@ -209,3 +233,9 @@ export type searchMessagesSchemaType = z.infer<
 export type forwardMessageSchemaType = z.infer<
   typeof forwardMessageSchema.body
 >;
+export type reactToMessageSchemaType = z.infer<
+  typeof reactToMessageSchema.body
+>;
+export type getMessageReactionsSchemaType = z.infer<
+  typeof getMessageReactionsSchema.query
+>;
@@ -0,0 +1,78 @@
+import { Router } from "express";
+import followService from "./follow.service.js";
+import { authentication } from "../../middleware/Authentication.js";
+import { validation } from "../../middleware/validation.js";
+import * as FV from "./follow.validation.js";
+
+const followRouter = Router();
+
+// Follow requests waiting for approval (?cursor=, ?limit=)
+followRouter.get(
+  "/requests",
+  authentication(),
+  validation(FV.getFollowRequestsSchema),
+  followService.getFollowRequests
+);
+
+followRouter.post(
+  "/requests/:userId/accept",
+  authentication(),
+  validation(FV.userIdSchema),
+  followService.acceptFollowRequest
+);
+
+followRouter.delete(
+  "/requests/:userId",
+  authentication(),
+  validation(FV.userIdSchema),
+  followService.rejectFollowRequest
+);
+
+// Require approval of new followers, or let everyone waiting in
+followRouter.patch(
+  "/settings",
+  authentication(),
+  validation(FV.followSettingsSchema),
+  followService.updateSettings
+);
+
+// Remove someone from the user's followers
+followRouter.delete(
+  "/followers/:userId",
+  authentication(),
+  validation(FV.userIdSchema),
+  followService.removeFollower
+);
+
+// Followers and following of any user, newest first (?cursor=, ?limit=)
+followRouter.get(
+  "/:userId/followers",
+  authentication(),
+  validation(FV.getFollowListSchema),
+  followService.getFollowers
+);
+
+followRouter.get(
+  "/:userId/following",
+  authentication(),
+  validation(FV.getFollowListSchema),
+  followService.getFollowing
+);
+
+// Follow a user, or ask to when their account approves followers
+followRouter.post(
+  "/:userId",
+  authentication(),
+  validation(FV.userIdSchema),
+  followService.follow
+);
+
+// Unfollow, or withdraw a pending request
+followRouter.delete(
+  "/:userId",
+  authentication(),
+  validation(FV.userIdSchema),
+  followService.unfollow
+);
+
+export default followRouter;
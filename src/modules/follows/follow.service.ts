@@ -0,0 +1,214 @@
+import { NextFunction, Request, Response } from "express";
+import { FollowStatus } from "../../db/model/follow.model.js";
+import {
+  acceptFollowRequest,
+  decodeFollowCursor,
+  followUser,
+  getFollowers,
+  getFollowing,
+  getFollowRequests,
+  rejectFollowRequest,
+  removeFollower,
+  unfollowUser,
+  updateFollowSettings,
+} from "../../service/follows.js";
+import {
+  followPageSchemaType,
+  followSettingsSchemaType,
+} from "./follow.validation.js";
+
+class FollowService {
+  // Read ?cursor= and ?limit= of a follow list, null after answering 400
+  // for a cursor that does not decode
+  private readPage = (req: Request, res: Response) => {
+    const { cursor, limit = "20" } = req.query as followPageSchemaType;
+
+    const decodedCursor = cursor ? decodeFollowCursor(cursor) : null;
+    if (cursor && !decodedCursor) {
+      res.status(400).json({
+        success: false,
+        error: "Invalid cursor",
+      });
+      return null;
+    }
+    return { cursor: decodedCursor, limit: parseInt(limit) };
+  };
+
+  follow = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { userId } = req.params as { userId: string };
+
+      const follow = await followUser(req.user, userId);
+
+      res.status(201).json({
+        success: true,
+        message:
+          follow.status === FollowStatus.pending
+            ? "Follow request sent"
+            : "You are now following this user",
+        follow,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  unfollow = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { userId } = req.params as { userId: string };
+
+      await unfollowUser(req.user._id.toString(), userId);
+
+      res.json({
+        success: true,
+        message: "User unfollowed",
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Followers of a user, newest first (cursor paginated)
+  getFollowers = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { userId } = req.params as { userId: string };
+      const page = this.readPage(req, res);
+      if (!page) return;
+
+      const result = await getFollowers(req.user._id.toString(), userId, page);
+
+      res.json({
+        success: true,
+        followers: result.users,
+        pagination: {
+          nextCursor: result.nextCursor,
+          hasNextPage: result.hasNextPage,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Users a user follows, newest first (cursor paginated)
+  getFollowing = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { userId } = req.params as { userId: string };
+      const page = this.readPage(req, res);
+      if (!page) return;
+
+      const result = await getFollowing(req.user._id.toString(), userId, page);
+
+      res.json({
+        success: true,
+        following: result.users,
+        pagination: {
+          nextCursor: result.nextCursor,
+          hasNextPage: result.hasNextPage,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  removeFollower = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { userId } = req.params as { userId: string };
+
+      await removeFollower(req.user._id.toString(), userId);
+
+      res.json({
+        success: true,
+        message: "Follower removed",
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Requests waiting for the user's approval, newest first
+  getFollowRequests = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const page = this.readPage(req, res);
+      if (!page) return;
+
+      const result = await getFollowRequests(req.user._id.toString(), page);
+
+      res.json({
+        success: true,
+        requests: result.users,
+        pagination: {
+          nextCursor: result.nextCursor,
+          hasNextPage: result.hasNextPage,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  acceptFollowRequest = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const { userId } = req.params as { userId: string };
+
+      const follow = await acceptFollowRequest(req.user, userId);
+
+      res.json({
+        success: true,
+        message: "Follow request accepted",
+        follow,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  rejectFollowRequest = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const { userId } = req.params as { userId: string };
+
+      await rejectFollowRequest(req.user._id.toString(), userId);
+
+      res.json({
+        success: true,
+        message: "Follow request rejected",
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  updateSettings = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { approveFollowers }: followSettingsSchemaType = req.body;
+
+      const settings = await updateFollowSettings(
+        req.user._id.toString(),
+        approveFollowers
+      );
+
+      res.json({
+        success: true,
+        message: "Follow settings updated",
+        settings,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+export default new FollowService();
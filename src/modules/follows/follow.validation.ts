@@ -0,0 +1,47 @@
+import { z } from "zod";
+
+// ============ FOLLOW VALIDATION ============
+
+const objectId = (message: string) =>
+  z.string().regex(/^[0-9a-fA-F]{24}$/, message);
+
+const userIdParams = z.object({
+  userId: objectId("Invalid user ID"),
+});
+
+const pageQuery = z.object({
+  cursor: z.string().min(1).optional(),
+  limit: z
+    .string()
+    .regex(/^\d+$/)
+    .refine((val) => Number(val) >= 1 && Number(val) <= 50, {
+      message: "Limit must be between 1 and 50",
+    })
+    .optional(),
+});
+
+export const userIdSchema = {
+  params: userIdParams,
+};
+
+export const getFollowListSchema = {
+  params: userIdParams,
+  query: pageQuery,
+};
+
+export const getFollowRequestsSchema = {
+  query: pageQuery,
+};
+
+export const followSettingsSchema = {
+  body: z.strictObject({
+    approveFollowers: z.boolean(),
+  }),
+};
+
+// ============ TYPE EXPORTS ============
+
+export type followPageSchemaType = z.infer<typeof pageQuery>;
+export type followSettingsSchemaType = z.infer<
+  typeof followSettingsSchema.body
+>;
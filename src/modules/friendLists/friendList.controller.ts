@@ -0,0 +1,57 @@
+import { Router } from "express";
+import friendListService from "./friendList.service.js";
+import { authentication } from "../../middleware/Authentication.js";
+import { validation } from "../../middleware/validation.js";
+import * as FLV from "./friendList.validation.js";
+
+const friendListRouter = Router();
+
+// The user's friend lists with their member counts
+friendListRouter.get("/", authentication(), friendListService.getLists);
+
+friendListRouter.post(
+  "/",
+  authentication(),
+  validation(FLV.createFriendListSchema),
+  friendListService.createList
+);
+
+// A list with its members
+friendListRouter.get(
+  "/:listId",
+  authentication(),
+  validation(FLV.listIdSchema),
+  friendListService.getList
+);
+
+friendListRouter.patch(
+  "/:listId",
+  authentication(),
+  validation(FLV.renameFriendListSchema),
+  friendListService.renameList
+);
+
+// Delete a list, posts shown to it lose it from their audience
+friendListRouter.delete(
+  "/:listId",
+  authentication(),
+  validation(FLV.listIdSchema),
+  friendListService.deleteList
+);
+
+// Add friends to a list
+friendListRouter.post(
+  "/:listId/members",
+  authentication(),
+  validation(FLV.addMembersSchema),
+  friendListService.addMembers
+);
+
+friendListRouter.delete(
+  "/:listId/members/:userId",
+  authentication(),
+  validation(FLV.removeMemberSchema),
+  friendListService.removeMember
+);
+
+export default friendListRouter;
@@ -0,0 +1,146 @@
+import { NextFunction, Request, Response } from "express";
+import {
+  addFriendListMembers,
+  createFriendList,
+  deleteFriendList,
+  getFriendList,
+  getFriendLists,
+  removeFriendListMember,
+  renameFriendList,
+} from "../../service/friendLists.js";
+import {
+  addMembersSchemaType,
+  createFriendListSchemaType,
+  renameFriendListSchemaType,
+} from "./friendList.validation.js";
+
+class FriendListService {
+  getLists = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const lists = await getFriendLists(req.user._id.toString());
+
+      res.json({
+        success: true,
+        lists,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  getList = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { listId } = req.params as { listId: string };
+
+      const list = await getFriendList(req.user._id.toString(), listId);
+
+      res.json({
+        success: true,
+        list,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  createList = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { name, members }: createFriendListSchemaType = req.body;
+
+      const list = await createFriendList(req.user._id.toString(), {
+        name,
+        members,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: "Friend list created",
+        list,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  renameList = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { listId } = req.params as { listId: string };
+      const { name }: renameFriendListSchemaType = req.body;
+
+      const list = await renameFriendList(
+        req.user._id.toString(),
+        listId,
+        name
+      );
+
+      res.json({
+        success: true,
+        message: "Friend list renamed",
+        list,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  deleteList = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { listId } = req.params as { listId: string };
+
+      await deleteFriendList(req.user._id.toString(), listId);
+
+      res.json({
+        success: true,
+        message: "Friend list deleted",
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  addMembers = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { listId } = req.params as { listId: string };
+      const { userIds }: addMembersSchemaType = req.body;
+
+      const list = await addFriendListMembers(
+        req.user._id.toString(),
+        listId,
+        userIds
+      );
+
+      res.json({
+        success: true,
+        message: "Members added",
+        list,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  removeMember = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { listId, userId } = req.params as {
+        listId: string;
+        userId: string;
+      };
+
+      const list = await removeFriendListMember(
+        req.user._id.toString(),
+        listId,
+        userId
+      );
+
+      res.json({
+        success: true,
+        message: "Member removed",
+        list,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+export default new FriendListService();
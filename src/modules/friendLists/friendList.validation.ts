@@ -0,0 +1,59 @@
+import { z } from "zod";
+import { MAX_LIST_MEMBERS } from "../../service/friendLists.js";
+
+// ============ FRIEND LIST VALIDATION ============
+
+const objectId = (message: string) =>
+  z.string().regex(/^[0-9a-fA-F]{24}$/, message);
+
+const listName = z.string().trim().min(1).max(50);
+
+const memberIds = z
+  .array(objectId("Invalid user ID"))
+  .min(1)
+  .max(MAX_LIST_MEMBERS);
+
+const listIdParams = z.object({
+  listId: objectId("Invalid list ID"),
+});
+
+export const listIdSchema = {
+  params: listIdParams,
+};
+
+export const createFriendListSchema = {
+  body: z.strictObject({
+    name: listName,
+    members: memberIds.optional(),
+  }),
+};
+
+export const renameFriendListSchema = {
+  params: listIdParams,
+  body: z.strictObject({
+    name: listName,
+  }),
+};
+
+export const addMembersSchema = {
+  params: listIdParams,
+  body: z.strictObject({
+    userIds: memberIds,
+  }),
+};
+
+export const removeMemberSchema = {
+  params: listIdParams.extend({
+    userId: objectId("Invalid user ID"),
+  }),
+};
+
+// ============ TYPE EXPORTS ============
+
+export type createFriendListSchemaType = z.infer<
+  typeof createFriendListSchema.body
+>;
+export type renameFriendListSchemaType = z.infer<
+  typeof renameFriendListSchema.body
+>;
+export type addMembersSchemaType = z.infer<typeof addMembersSchema.body>;
@@ -0,0 +1,25 @@
+import { Router } from "express";
+import hashtagService from "./hashtag.service.js";
+import { authentication } from "../../middleware/Authentication.js";
+import { validation } from "../../middleware/validation.js";
+import * as HV from "./hashtag.validation.js";
+
+const hashtagRouter = Router();
+
+// Trending tags (?window=hour|day|week, ?limit=)
+hashtagRouter.get(
+  "/trending",
+  authentication(),
+  validation(HV.getTrendingSchema),
+  hashtagService.getTrending
+);
+
+// Tag page: public posts with the tag (?cursor=, ?limit=)
+hashtagRouter.get(
+  "/:tag/posts",
+  authentication(),
+  validation(HV.getTagFeedSchema),
+  hashtagService.getTagFeed
+);
+
+export default hashtagRouter;
@@ -0,0 +1,75 @@
+import { NextFunction, Request, Response } from "express";
+import { HashtagRepository } from "../../db/repositories/hashtag.repository.js";
+import {
+  TrendingWindow,
+  decodeTagFeedCursor,
+  getTagFeed,
+  getTrendingHashtags,
+} from "../../service/hashtags.js";
+import {
+  getTagFeedSchemaType,
+  getTrendingSchemaType,
+} from "./hashtag.validation.js";
+
+class HashtagService {
+  private _hashtagRepo = new HashtagRepository();
+
+  // Most used tags in the last hour, day or week
+  getTrending = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { window = TrendingWindow.day, limit = "10" } =
+        req.query as getTrendingSchemaType;
+
+      const hashtags = await getTrendingHashtags(window, parseInt(limit));
+
+      res.json({
+        success: true,
+        window,
+        hashtags,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Public posts carrying a tag, newest first (cursor paginated)
+  getTagFeed = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { tag: rawTag } = req.params as { tag: string };
+      const tag = rawTag.replace(/^#/, "").toLowerCase();
+      const { cursor, limit = "10" } = req.query as getTagFeedSchemaType;
+
+      const decodedCursor = cursor ? decodeTagFeedCursor(cursor) : null;
+      if (cursor && !decodedCursor) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid cursor",
+        });
+      }
+
+      const [hashtag, feed] = await Promise.all([
+        this._hashtagRepo.findByTag(tag),
+        getTagFeed(tag, {
+          viewerId: req.user._id.toString(),
+          cursor: decodedCursor,
+          limit: parseInt(limit),
+        }),
+      ]);
+
+      res.json({
+        success: true,
+        tag,
+        postsCount: hashtag?.postsCount || 0,
+        posts: feed.posts,
+        pagination: {
+          nextCursor: feed.nextCursor,
+          hasNextPage: feed.hasNextPage,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+export default new HashtagService();
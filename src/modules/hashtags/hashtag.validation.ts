@@ -0,0 +1,33 @@
+import { z } from "zod";
+import { TrendingWindow } from "../../service/hashtags.js";
+
+// ============ HASHTAG VALIDATION ============
+
+const limit = z
+  .string()
+  .regex(/^\d+$/)
+  .refine((val) => Number(val) >= 1 && Number(val) <= 50, {
+    message: "Limit must be between 1 and 50",
+  });
+
+export const getTrendingSchema = {
+  query: z.object({
+    window: z.enum(TrendingWindow).optional(),
+    limit: limit.optional(),
+  }),
+};
+
+export const getTagFeedSchema = {
+  params: z.object({
+    tag: z.string().regex(/^#?[\p{L}\p{N}_]{1,50}$/u, "Invalid hashtag"),
+  }),
+  query: z.object({
+    cursor: z.string().min(1).optional(),
+    limit: limit.optional(),
+  }),
+};
+
+// ============ TYPE EXPORTS ============
+
+export type getTrendingSchemaType = z.infer<typeof getTrendingSchema.query>;
+export type getTagFeedSchemaType = z.infer<typeof getTagFeedSchema.query>;
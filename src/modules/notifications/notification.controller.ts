@@ -0,0 +1,86 @@
+import { Router } from "express";
+import notificationService from "./notification.service.js";
+import { authentication } from "../../middleware/Authentication.js";
+import { validation } from "../../middleware/validation.js";
+import * as NV from "./notification.validation.js";
+
+const notificationRouter = Router();
+
+// Get user's notifications (supports ?unreadOnly=true, ?type=, ?since=)
+notificationRouter.get(
+  "/",
+  authentication(),
+  validation(NV.getNotificationsSchema),
+  notificationService.getNotifications
+);
+
+// Get unread badge count
+notificationRouter.get(
+  "/unread-count",
+  authentication(),
+  notificationService.getUnreadCount
+);
+
+// Get notification preferences and quiet hours
+notificationRouter.get(
+  "/settings",
+  authentication(),
+  notificationService.getSettings
+);
+
+// Update notification preferences and quiet hours (partial)
+notificationRouter.patch(
+  "/settings",
+  authentication(),
+  validation(NV.updateNotificationSettingsSchema),
+  notificationService.updateSettings
+);
+
+// Digest unsubscribe link from the email (no login, signed token). Opening it
+// only shows a confirmation page, link scanners must not unsubscribe anyone.
+notificationRouter.get(
+  "/digest/unsubscribe",
+  validation(NV.digestUnsubscribeSchema),
+  notificationService.confirmDigestUnsubscribe
+);
+
+// Unsubscribe, from the confirmation page or as the RFC 8058 one-click POST
+// sent by mail clients
+notificationRouter.post(
+  "/digest/unsubscribe",
+  validation(NV.digestUnsubscribeSchema),
+  notificationService.unsubscribeDigest
+);
+
+// Mark all notifications as read
+notificationRouter.patch(
+  "/read-all",
+  authentication(),
+  notificationService.markAllAsRead
+);
+
+// Mark single notification as read
+notificationRouter.patch(
+  "/:notificationId/read",
+  authentication(),
+  validation(NV.notificationIdSchema),
+  notificationService.markAsRead
+);
+
+// Delete all notifications (or only read ones with ?readOnly=true)
+notificationRouter.delete(
+  "/",
+  authentication(),
+  validation(NV.clearNotificationsSchema),
+  notificationService.clearNotifications
+);
+
+// Delete single notification
+notificationRouter.delete(
+  "/:notificationId",
+  authentication(),
+  validation(NV.notificationIdSchema),
+  notificationService.deleteNotification
+);
+
+export default notificationRouter;
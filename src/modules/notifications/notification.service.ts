@@ -0,0 +1,331 @@
+import { NextFunction, Request, Response } from "express";
+import { NotificationRepository } from "../../db/repositories/notification.repository.js";
+import { NotificationType } from "../../db/model/notification.model.js";
+import { emitToUser } from "../../socket/server.js";
+import { getSocketIOInstance } from "../../socket/events/notification.events.js";
+import {
+  getUserNotificationSettings,
+  updateUserNotificationSettings,
+} from "../../service/notificationPreferences.js";
+import {
+  unsubscribeFromDigest,
+  verifyDigestUnsubscribeToken,
+} from "../../service/digest.js";
+import { digestUnsubscribePageTemplate } from "../../service/email.template.js";
+import {
+  digestUnsubscribeSchemaType,
+  updateNotificationSettingsSchemaType,
+} from "./notification.validation.js";
+
+class NotificationService {
+  private _notificationRepo = new NotificationRepository();
+
+  // Keep the unread badge of every open tab in sync after a change
+  private syncUnreadCount = async (userId: string) => {
+    const io = getSocketIOInstance();
+    if (!io) return;
+
+    const unreadCount = await this._notificationRepo.getUnreadCount(userId);
+    emitToUser(io, userId, "notification:unread_count", { unreadCount });
+  };
+
+  // Get user's notifications (paginated)
+  getNotifications = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const {
+        page = "1",
+        limit = "20",
+        unreadOnly,
+        type,
+        since,
+      } = req.query as any;
+      const userId = req.user._id.toString();
+
+      const options: any = {
+        page: parseInt(page),
+        limit: parseInt(limit),
+        unreadOnly: unreadOnly === "true",
+      };
+      if (type) options.type = type as NotificationType;
+      if (since) options.since = new Date(since);
+
+      const result = await this._notificationRepo.getUserNotifications(
+        userId,
+        options
+      );
+
+      res.json({
+        success: true,
+        notifications: result.data,
+        unreadCount: result.unreadCount,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: Math.ceil(result.total / result.limit),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Get unread badge count
+  getUnreadCount = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const unreadCount = await this._notificationRepo.getUnreadCount(
+        req.user._id.toString()
+      );
+
+      res.json({
+        success: true,
+        unreadCount,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Get notification preferences and quiet hours (defaults filled in)
+  getSettings = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const settings = await getUserNotificationSettings(
+        req.user._id.toString()
+      );
+
+      res.json({
+        success: true,
+        settings,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Update notification preferences and quiet hours (partial)
+  updateSettings = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const input: updateNotificationSettingsSchemaType = req.body;
+
+      const settings = await updateUserNotificationSettings(
+        req.user._id.toString(),
+        input
+      );
+
+      res.json({
+        success: true,
+        message: "Notification settings updated successfully",
+        settings,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Answer API clients with JSON and browsers with a page
+  private sendUnsubscribeResult = (
+    res: Response,
+    status: number,
+    success: boolean,
+    text: string
+  ) => {
+    res.status(status).format({
+      json: () =>
+        res.json(
+          success ? { success, message: text } : { success, error: text }
+        ),
+      html: () =>
+        res.send(
+          digestUnsubscribePageTemplate({
+            title: success ? "Unsubscribed" : "Unsubscribe failed",
+            message: text,
+          })
+        ),
+    });
+  };
+
+  // Confirmation page for the unsubscribe link in digest emails. Changes
+  // nothing, the page posts back to unsubscribeDigest.
+  confirmDigestUnsubscribe = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const { token } = req.query as digestUnsubscribeSchemaType;
+
+      const userId = await verifyDigestUnsubscribeToken(token);
+      if (!userId) {
+        return this.sendUnsubscribeResult(
+          res,
+          400,
+          false,
+          "Invalid or expired unsubscribe link"
+        );
+      }
+
+      res.type("html").send(
+        digestUnsubscribePageTemplate({
+          title: "Unsubscribe from digest emails",
+          message: "You will no longer receive digest emails.",
+          confirmUrl: req.originalUrl,
+        })
+      );
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Unsubscribe from digest emails using the signed token from the email
+  unsubscribeDigest = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const { token } = req.query as digestUnsubscribeSchemaType;
+
+      const userId = await verifyDigestUnsubscribeToken(token);
+      if (!userId) {
+        return this.sendUnsubscribeResult(
+          res,
+          400,
+          false,
+          "Invalid or expired unsubscribe link"
+        );
+      }
+
+      const unsubscribed = await unsubscribeFromDigest(userId);
+      if (!unsubscribed) {
+        return this.sendUnsubscribeResult(res, 404, false, "User not found");
+      }
+
+      this.sendUnsubscribeResult(
+        res,
+        200,
+        true,
+        "You have been unsubscribed from digest emails"
+      );
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Mark single notification as read
+  markAsRead = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { notificationId } = req.params as { notificationId: string };
+      const userId = req.user._id.toString();
+
+      const notification = await this._notificationRepo.markAsRead(
+        notificationId,
+        userId
+      );
+
+      if (!notification) {
+        return res.status(404).json({
+          success: false,
+          error: "Notification not found",
+        });
+      }
+
+      await this.syncUnreadCount(userId);
+
+      res.json({
+        success: true,
+        message: "Notification marked as read",
+        notification,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Mark all notifications as read
+  markAllAsRead = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.user._id.toString();
+
+      const modifiedCount = await this._notificationRepo.markAllAsRead(userId);
+
+      await this.syncUnreadCount(userId);
+
+      res.json({
+        success: true,
+        message: "All notifications marked as read",
+        modifiedCount,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Delete single notification
+  deleteNotification = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const { notificationId } = req.params as { notificationId: string };
+      const userId = req.user._id.toString();
+
+      const deleted = await this._notificationRepo.deleteById(
+        notificationId,
+        userId
+      );
+
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: "Notification not found",
+        });
+      }
+
+      if (!deleted.isRead) {
+        await this.syncUnreadCount(userId);
+      }
+
+      res.json({
+        success: true,
+        message: "Notification deleted successfully",
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Delete all notifications (or only the read ones with ?readOnly=true)
+  clearNotifications = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const { readOnly } = req.query as any;
+      const userId = req.user._id.toString();
+
+      const deletedCount = await this._notificationRepo.deleteAllForUser(
+        userId,
+        readOnly === "true"
+      );
+
+      await this.syncUnreadCount(userId);
+
+      res.json({
+        success: true,
+        message: "Notifications deleted successfully",
+        deletedCount,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+const notificationService = new NotificationService();
+export default notificationService;
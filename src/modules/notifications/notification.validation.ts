@@ -0,0 +1,109 @@
+import { z } from "zod";
+import { NotificationType } from "../../db/model/notification.model.js";
+import { DigestFrequency } from "../../db/model/user.model.js";
+import { isValidTimeZone } from "../../service/notificationPreferences.js";
+
+// ============ NOTIFICATION VALIDATION ============
+
+export const getNotificationsSchema = {
+  query: z.object({
+    page: z.string().regex(/^\d+$/).transform(Number).optional(),
+    limit: z
+      .string()
+      .regex(/^\d+$/)
+      .transform(Number)
+      .refine((val) => val >= 1 && val <= 100, {
+        message: "Limit must be between 1 and 100",
+      })
+      .optional(),
+    unreadOnly: z
+      .string()
+      .transform((val) => val === "true")
+      .optional(),
+    type: z.enum(NotificationType).optional(),
+    since: z.string().datetime().optional(),
+  }),
+};
+
+export const notificationIdSchema = {
+  params: z.object({
+    notificationId: z
+      .string()
+      .regex(/^[0-9a-fA-F]{24}$/, "Invalid notification ID"),
+  }),
+};
+
+export const clearNotificationsSchema = {
+  query: z.object({
+    readOnly: z
+      .string()
+      .transform((val) => val === "true")
+      .optional(),
+  }),
+};
+
+// ============ NOTIFICATION SETTINGS VALIDATION ============
+
+const timeOfDay = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be in HH:mm format");
+
+export const updateNotificationSettingsSchema = {
+  body: z
+    .strictObject({
+      preferences: z
+        .partialRecord(
+          z.enum(NotificationType),
+          z.strictObject({
+            socket: z.boolean().optional(),
+            email: z.boolean().optional(),
+            digest: z.boolean().optional(),
+          })
+        )
+        .optional(),
+      quietHours: z
+        .strictObject({
+          enabled: z.boolean().optional(),
+          start: timeOfDay.optional(),
+          end: timeOfDay.optional(),
+          timezone: z
+            .string()
+            .refine(isValidTimeZone, { message: "Invalid timezone" })
+            .optional(),
+        })
+        .optional(),
+      digest: z
+        .strictObject({
+          frequency: z.enum(DigestFrequency),
+        })
+        .optional(),
+    })
+    .refine((data) => data.preferences || data.quietHours || data.digest, {
+      message:
+        "At least one of preferences, quietHours or digest must be provided",
+    }),
+};
+
+export const digestUnsubscribeSchema = {
+  query: z.object({
+    token: z.string().min(1, "Unsubscribe token is required"),
+  }),
+};
+
+// ============ TYPE EXPORTS ============
+
+export type getNotificationsSchemaType = z.infer<
+  typeof getNotificationsSchema.query
+>;
+export type notificationIdSchemaType = z.infer<
+  typeof notificationIdSchema.params
+>;
+export type clearNotificationsSchemaType = z.infer<
+  typeof clearNotificationsSchema.query
+>;
+export type updateNotificationSettingsSchemaType = z.infer<
+  typeof updateNotificationSettingsSchema.body
+>;
+export type digestUnsubscribeSchemaType = z.infer<
+  typeof digestUnsubscribeSchema.query
+>;
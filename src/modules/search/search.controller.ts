@@ -0,0 +1,17 @@
+import { Router } from "express";
+import searchService from "./search.service.js";
+import { authentication } from "../../middleware/Authentication.js";
+import { validation } from "../../middleware/validation.js";
+import * as SV from "./search.validation.js";
+
+const searchRouter = Router();
+
+// Unified search (?q=, ?type=users,posts,comments,messages, per-type filters)
+searchRouter.get(
+  "/",
+  authentication(),
+  validation(SV.searchSchema),
+  searchService.search
+);
+
+export default searchRouter;
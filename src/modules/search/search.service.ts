@@ -0,0 +1,49 @@
+import { NextFunction, Request, Response } from "express";
+import { SearchType, search } from "../../service/search.js";
+import { searchSchemaType } from "./search.validation.js";
+
+class SearchService {
+  // Search users, posts, comments and messages the user may see
+  search = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const {
+        q,
+        type,
+        author,
+        tags,
+        conversationId,
+        from,
+        to,
+        page = "1",
+        limit = "10",
+      } = req.query as searchSchemaType;
+
+      const results = await search(req.user._id.toString(), q.trim(), {
+        types: type
+          ? type.split(",").map((value) => value.trim() as SearchType)
+          : undefined,
+        filters: {
+          author,
+          tags: tags
+            ? tags.split(",").map((tag) => tag.trim().toLowerCase())
+            : undefined,
+          conversationId,
+          from: from ? new Date(from) : undefined,
+          to: to ? new Date(to) : undefined,
+        },
+        page: parseInt(page),
+        limit: parseInt(limit),
+      });
+
+      res.json({
+        success: true,
+        query: q,
+        results,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+export default new SearchService();
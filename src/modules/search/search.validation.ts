@@ -0,0 +1,43 @@
+import { z } from "zod";
+import { SearchType } from "../../service/search.js";
+
+// ============ SEARCH VALIDATION ============
+
+const objectId = (message: string) =>
+  z.string().regex(/^[0-9a-fA-F]{24}$/, message);
+
+export const searchSchema = {
+  query: z.object({
+    q: z.string().trim().min(1, "Search query is required").max(200),
+    // Comma-separated list of types (default: all)
+    type: z
+      .string()
+      .refine(
+        (val) =>
+          val
+            .split(",")
+            .every((type) =>
+              Object.values(SearchType).includes(type.trim() as SearchType)
+            ),
+        { message: "Type must be one of users, posts, comments, messages" }
+      )
+      .optional(),
+    author: objectId("Invalid author ID").optional(),
+    tags: z.string().optional(), // Comma-separated tags (posts)
+    conversationId: objectId("Invalid conversation ID").optional(),
+    from: z.string().datetime().optional(),
+    to: z.string().datetime().optional(),
+    page: z.string().regex(/^\d+$/).optional(),
+    limit: z
+      .string()
+      .regex(/^\d+$/)
+      .refine((val) => Number(val) >= 1 && Number(val) <= 50, {
+        message: "Limit must be between 1 and 50",
+      })
+      .optional(),
+  }),
+};
+
+// ============ TYPE EXPORTS ============
+
+export type searchSchemaType = z.infer<typeof searchSchema.query>;
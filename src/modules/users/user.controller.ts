@@ -15,6 +15,13 @@ userRouter.patch(
 );
 userRouter.post("/signIn", validation(UV.signInSchema), US.signIn);
 userRouter.get("/profile", authentication(), US.getProfile);
+// Another user's public profile with the viewer's relationship to them
+userRouter.get(
+  "/users/:userId",
+  authentication(),
+  validation(UV.userIdParamsSchema),
+  US.getUserProfile
+);
 userRouter.get(
   "/refreshToken",
   authentication(TokenType.refresh),
@@ -167,6 +174,85 @@ userRouter.post(
   US.createPost
 );
 userRouter.get("/posts", authentication(), US.getPosts);
+
+// Trash: deleted posts and comments wait here until they are purged
+userRouter.get(
+  "/posts/trash",
+  authentication(),
+  validation(UV.getTrashSchema),
+  US.getPostTrash
+);
+userRouter.post("/posts/:postId/restore", authentication(), US.restorePost);
+userRouter.get(
+  "/comments/trash",
+  authentication(),
+  validation(UV.getTrashSchema),
+  US.getCommentTrash
+);
+userRouter.post(
+  "/comments/:commentId/restore",
+  authentication(),
+  US.restoreComment
+);
+
+// Scheduled posts: list mine, (re)schedule a draft, cancel a schedule
+userRouter.get(
+  "/posts/scheduled",
+  authentication(),
+  validation(UV.getScheduledPostsSchema),
+  US.getScheduledPosts
+);
+userRouter.put(
+  "/posts/:postId/schedule",
+  authentication(),
+  validation(UV.schedulePostSchema),
+  US.schedulePost
+);
+userRouter.delete(
+  "/posts/:postId/schedule",
+  authentication(),
+  US.cancelScheduledPost
+);
+
+// Edit history: list, diff and view revisions, restore one (author/admin)
+userRouter.get(
+  "/posts/:postId/revisions",
+  authentication(),
+  validation(UV.getPostRevisionsSchema),
+  US.getPostRevisions
+);
+userRouter.get(
+  "/posts/:postId/revisions/diff",
+  authentication(),
+  validation(UV.diffPostRevisionsSchema),
+  US.diffPostRevisions
+);
+userRouter.get(
+  "/posts/:postId/revisions/:revision",
+  authentication(),
+  US.getPostRevision
+);
+userRouter.post(
+  "/posts/:postId/revisions/:revision/restore",
+  authentication(),
+  US.restorePostRevision
+);
+
+// Home feed: friends' and public posts ranked by engagement and age
+userRouter.get(
+  "/feed",
+  authentication(),
+  validation(UV.getFeedSchema),
+  US.getFeed
+);
+
+// Friends timeline: my and my friends' posts, newest first
+userRouter.get(
+  "/timeline",
+  authentication(),
+  validation(UV.getFeedSchema),
+  US.getTimeline
+);
 userRouter.get("/posts/:postId", authentication(), US.getPost);
 userRouter.patch(
   "/posts/:postId",
@@ -176,6 +262,49 @@ userRouter.patch(
   US.updatePost
 );
 userRouter.delete("/posts/:postId", authentication(), US.deletePost);
+userRouter.post(
+  "/posts/:postId/share",
+  authentication(),
+  validation(UV.sharePostSchema),
+  US.sharePost
+);
+userRouter.post(
+  "/posts/:postId/poll/vote",
+  authentication(),
+  validation(UV.votePollSchema),
+  US.votePoll
+);
+userRouter.delete(
+  "/posts/:postId/poll/vote",
+  authentication(),
+  validation(UV.unvotePollSchema),
+  US.unvotePoll
+);
+userRouter.get(
+  "/posts/:postId/poll/voters",
+  authentication(),
+  validation(UV.getPollVotersSchema),
+  US.getPollVoters
+);
+userRouter.patch(
+  "/posts/:postId/comment-settings",
+  authentication(),
+  validation(UV.commentSettingSchema),
+  US.updateCommentSetting
+);
+userRouter.get(
+  "/posts/:postId/analytics",
+  authentication(),
+  validation(UV.getAnalyticsSchema),
+  US.getPostAnalytics
+);
+userRouter.get(
+  "/analytics",
+  authentication(),
+  validation(UV.getAnalyticsSchema),
+  US.getAuthorAnalytics
+);
+userRouter.get("/reactions", authentication(), US.getReactionTypes);
 userRouter.post(
   "/posts/:postId/react",
   authentication(),
@@ -185,6 +314,7 @@ userRouter.post(
 userRouter.get(
   "/posts/:postId/reactions",
   authentication(),
+  validation(UV.getReactionsSchema),
   US.getPostReactions
 );
 
@@ -196,9 +326,20 @@ userRouter.post(
   US.createComment
 );
 userRouter.get("/comments", authentication(), US.getComments);
-userRouter.get("/posts/:postId/comments", authentication(), US.getRootComments);
+// Comments and replies, ?sort=top|newest|oldest|controversial pages by cursor
+userRouter.get(
+  "/posts/:postId/comments",
+  authentication(),
+  validation(UV.getCommentsSchema),
+  US.getRootComments
+);
 userRouter.get("/comments/:commentId", authentication(), US.getCommentById);
-userRouter.get("/comments/:commentId/replies", authentication(), US.getReplies);
+userRouter.get(
+  "/comments/:commentId/replies",
+  authentication(),
+  validation(UV.getCommentsSchema),
+  US.getReplies
+);
 userRouter.get(
   "/comments/:commentId/nested",
   authentication(),
@@ -211,13 +352,41 @@ userRouter.patch(
   US.updateComment
 );
 userRouter.delete("/comments/:commentId", authentication(), US.deleteComment);
+
+// Post authors moderating the comments under their posts
+userRouter.patch(
+  "/comments/:commentId/hide",
+  authentication(),
+  validation(UV.hideCommentSchema),
+  US.hideComment
+);
+userRouter.post("/comments/:commentId/pin", authentication(), US.pinComment);
+userRouter.delete(
+  "/comments/:commentId/pin",
+  authentication(),
+  US.unpinComment
+);
 userRouter.post(
   "/comments/:commentId/react",
   authentication(),
   validation(UV.commentReactionSchema),
   US.reactToComment
 );
+userRouter.get(
+  "/comments/:commentId/reactions",
+  authentication(),
+  validation(UV.getReactionsSchema),
+  US.getCommentReactions
+);
 userRouter.get("/comments/search", authentication(), US.searchComments);
+
+// Posts or comments mentioning me (?type=posts|comments)
+userRouter.get(
+  "/mentions",
+  authentication(),
+  validation(UV.getMentionsSchema),
+  US.getMentions
+);
 userRouter.get("/users/:userId/comments", authentication(), US.getUserComments);
 
 // Post freeze/unfreeze routes
@@ -286,6 +455,30 @@ userRouter.get(
   authentication(),
   US.getPendingFriendRequests
 );
+userRouter.get(
+  "/friend-requests/sent",
+  authentication(),
+  validation(UV.getSentFriendRequestsSchema),
+  US.getSentFriendRequests
+);
+userRouter.delete(
+  "/friend-requests/:requestId",
+  authentication(),
+  validation(UV.cancelFriendRequestSchema),
+  US.cancelFriendRequest
+);
+userRouter.get(
+  "/friends/suggestions",
+  authentication(),
+  validation(UV.getFriendSuggestionsSchema),
+  US.getFriendSuggestions
+);
+userRouter.post(
+  "/friends/suggestions/:userId/dismiss",
+  authentication(),
+  validation(UV.userIdParamsSchema),
+  US.dismissFriendSuggestion
+);
 userRouter.get("/friends", authentication(), US.getFriends);
 userRouter.delete("/friends/:userId", authentication(), US.unfriend);
 
@@ -31,6 +31,7 @@ import {
   updateCommentSchemaType,
   getCommentsSchemaType,
   commentReactionSchemaType,
+  getReactionsSchemaType,
   searchCommentsSchemaType,
   freezePostSchemaType,
   unfreezePostSchemaType,
@@ -40,22 +41,37 @@ import {
   unblockUserSchemaType,
   sendFriendRequestSchemaType,
   respondFriendRequestSchemaType,
+  getSentFriendRequestsSchemaType,
+  getFriendSuggestionsSchemaType,
   getEntityByIdSchemaType,
+  getMentionsSchemaType,
+  getFeedSchemaType,
+  schedulePostSchemaType,
+  sharePostSchemaType,
+  votePollSchemaType,
+  unvotePollSchemaType,
+  getPollVotersSchemaType,
+  getAnalyticsSchemaType,
+  getTrashSchemaType,
+  commentSettingSchemaType,
+  hideCommentSchemaType,
+  getScheduledPostsSchemaType,
+  getPostRevisionsSchemaType,
+  diffPostRevisionsSchemaType,
 } from "./user.validation.js";
 import { generateToken } from "../../utils/token.js";
 import { RevokeTokenRepository } from "../../db/repositories/revokeToken.repository.js";
 import RevokeTokenModel from "../../db/model/revokeToken.model.js";
-import { LikeRepository } from "../../db/repositories/like.repository.js";
-import LikeModel from "../../db/model/like.model.js";
 import { PostRepository } from "../../db/repositories/post.repository.js";
 import postModel, {
   PostStatus,
   PostAvailability,
+  CommentSetting,
 } from "../../db/model/post.model.js";
-import { PostReactionRepository } from "../../db/repositories/postReaction.repository.js";
-import postReactionModel, {
+import {
+  ReactionTargetType,
   ReactionType,
-} from "../../db/model/postReaction.model.js";
+} from "../../db/model/reaction.model.js";
 import { CommentRepository } from "../../db/repositories/comment.repository.js";
 import commentModel, {
   CommentType,
@@ -70,6 +86,7 @@ import { BlockedUserRepository } from "../../db/repositories/blockedUser.reposit
 import blockedUserModel from "../../db/model/blockedUser.model.js";
 import {
   sendNotificationToUser,
+  collapsedActorsMessage,
   NotificationType,
 } from "../../socket/events/notification.events.js";
 import { v4 as uuidv4 } from "uuid";
@@ -88,14 +105,98 @@ import {
   deleteMultipleFiles,
   getFileWithSignedUrl,
 } from "../../service/awsS3.js";
+import {
+  getNewMentions,
+  notifyMentions,
+  resolveCommentMentions,
+  resolvePostMentions,
+} from "../../service/mentions.js";
+import { buildPostTags } from "../../service/hashtags.js";
+import {
+  buildRevisionRestore,
+  diffRevisionStates,
+  getPostRevision,
+  getPostRevisions,
+  getRevisionState,
+  recordPostRevision,
+} from "../../service/postRevisions.js";
+import {
+  describeReaction,
+  findReactionTarget,
+  getReactionSet,
+  getReactions,
+  getUserReaction,
+  getUserReactions,
+  toggleReaction,
+} from "../../service/reactions.js";
+import { attachSharedPosts, sharePost } from "../../service/shares.js";
+import { isBookmarked } from "../../service/bookmarks.js";
+import {
+  buildPoll,
+  getPollResults,
+  getPollVoters,
+  parsePollField,
+  PollInput,
+  unvotePoll,
+  votePoll,
+} from "../../service/polls.js";
+import { decodeFeedCursor, getHomeFeed } from "../../service/feed.js";
+import {
+  assertCanComment,
+  getCommentReplies,
+  getPostRootComments,
+  pinComment,
+  setCommentHidden,
+  unpinComment,
+  updateCommentSetting,
+} from "../../service/commentControls.js";
+import {
+  getTrashedComments,
+  getTrashedPosts,
+  purgePost,
+  restoreComment,
+  restorePost,
+} from "../../service/trash.js";
+import {
+  DEFAULT_ANALYTICS_DAYS,
+  getAuthorAnalytics,
+  getPostAnalytics,
+  recordPostActivity,
+  recordPostView,
+} from "../../service/postAnalytics.js";
+import {
+  decodeTimelineCursor,
+  getTimelineFeed,
+} from "../../service/timeline.js";
+import { removeFollowsBetween } from "../../service/follows.js";
+import {
+  dismissFriendSuggestion,
+  getFriendSuggestions,
+} from "../../service/friendSuggestions.js";
+import { attachRelationships } from "../../service/relationships.js";
+import {
+  cancelFriendRequest,
+  createFriendRequest,
+  getSentFriendRequests,
+  isFriendRequestExpired,
+} from "../../service/friendRequests.js";
+import {
+  findCommentPost,
+  loadPostViewer,
+  postAccessFilter,
+  userCanViewComment,
+  userCanViewPost,
+} from "../../service/postAccess.js";
+import {
+  getPostAudience,
+  resolvePostAudience,
+} from "../../service/friendLists.js";
 import multer from "multer";
 
 class UserService {
   private _userModel = new userRepository(userModel);
   private _revokeToken = new RevokeTokenRepository(RevokeTokenModel);
-  private _likeModel = new LikeRepository(LikeModel);
   private _postModel = new PostRepository(postModel);
-  private _postReactionModel = new PostReactionRepository(postReactionModel);
   private _commentModel = new CommentRepository();
   private _friendRequestModel = new FriendRequestRepository();
   private _blockedUserModel = new BlockedUserRepository();
@@ -651,6 +752,7 @@ class UserService {
     );
 
     evenEmitter.emit("accountStatusChanged", {
+      userId: user._id.toString(),
       email: user.email,
       status: "frozen",
       reason: reason || "Self-requested freeze",
@@ -689,6 +791,7 @@ class UserService {
     );
 
     evenEmitter.emit("accountStatusChanged", {
+      userId: user._id.toString(),
       email: user.email,
       status: "active",
       userName: user.userName || `${user.fName} ${user.lName}`,
@@ -733,6 +836,7 @@ class UserService {
     );
 
     evenEmitter.emit("accountStatusChanged", {
+      userId: user._id.toString(),
       email: user.email,
       status: "frozen",
       reason: reason || "Admin action",
@@ -777,6 +881,7 @@ class UserService {
     );
 
     evenEmitter.emit("accountStatusChanged", {
+      userId: user._id.toString(),
       email: user.email,
       status: "active",
       userName: user.userName || `${user.fName} ${user.lName}`,
@@ -789,8 +894,18 @@ class UserService {
   };
 
   createPost = async (req: Request, res: Response, next: NextFunction) => {
-    const { title, content, tags, status, availability }: createPostSchemaType =
-      req.body;
+    const {
+      title,
+      content,
+      tags,
+      status,
+      availability,
+      audienceLists,
+      excludedUsers,
+      scheduledAt,
+      commentSetting,
+    }: createPostSchemaType = req.body;
+    const poll = parsePollField(req.body.poll) as PollInput | undefined;
     const files = req.files as Express.Multer.File[];
 
     let imageUrls: string[] = [];
@@ -807,21 +922,48 @@ class UserService {
       }
     }
 
+    // Scheduled posts stay drafts until the scheduler publishes them
+    const postStatus = (
+      scheduledAt ? "draft" : status || "draft"
+    ) as PostStatus;
+    const postAvailability = (availability || "public") as PostAvailability;
+    const audience = await resolvePostAudience(
+      req.user._id.toString(),
+      postAvailability,
+      audienceLists,
+      excludedUsers
+    );
+    const mentions = await resolvePostMentions(content, {
+      author: req.user._id,
+      availability: postAvailability,
+      ...audience,
+    });
+
     const post = await this._postModel.create({
       title,
       content,
       author: req.user._id,
       images: imageUrls,
       imageKeys: imageKeys,
-      tags: tags || [],
-      status: (status || "draft") as PostStatus,
-      availability: (availability || "public") as PostAvailability,
+      tags: buildPostTags(content, tags),
+      mentions,
+      status: postStatus,
+      availability: postAvailability,
+      ...audience,
+      ...(scheduledAt && { scheduledAt: new Date(scheduledAt) }),
+      ...(poll && { poll: buildPoll(poll) }),
+      ...(commentSetting && {
+        commentSetting: commentSetting as CommentSetting,
+      }),
     });
 
     res.status(201).json({
       success: true,
       message: "Post created successfully",
-      post: await this._postModel.findById(post._id.toString()),
+      post: {
+        ...(await this._postModel.findById(post._id.toString()))?.toObject(),
+        audience: getPostAudience(post, req.user._id.toString()),
+      },
     });
   };
 
@@ -843,7 +985,9 @@ class UserService {
       if (availability) query.availability = availability;
     } else {
       query.status = "published";
-      query.availability = "public";
+      query.$and = [
+        postAccessFilter(await loadPostViewer(req.user._id.toString())),
+      ];
       if (author) query.author = author;
     }
 
@@ -863,7 +1007,7 @@ class UserService {
 
     res.json({
       success: true,
-      posts,
+      posts: await attachSharedPosts(posts, req.user._id.toString()),
       pagination: {
         page: parseInt(page),
         limit: parseInt(limit),
@@ -873,6 +1017,62 @@ class UserService {
     });
   };
 
+  // Personalized home feed (cursor paginated)
+  getFeed = async (req: Request, res: Response, next: NextFunction) => {
+    const { cursor, limit = "10" } = (req.query ||
+      {}) as NonNullable<getFeedSchemaType>;
+
+    const decodedCursor = cursor ? decodeFeedCursor(cursor) : null;
+    if (cursor && !decodedCursor) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid cursor",
+      });
+    }
+
+    const feed = await getHomeFeed(req.user._id.toString(), {
+      cursor: decodedCursor,
+      limit: parseInt(limit),
+    });
+
+    res.json({
+      success: true,
+      posts: await attachSharedPosts(feed.posts, req.user._id.toString()),
+      pagination: {
+        nextCursor: feed.nextCursor,
+        hasNextPage: feed.hasNextPage,
+      },
+    });
+  };
+
+  // Friends timeline, read from the user's materialized timeline
+  getTimeline = async (req: Request, res: Response, next: NextFunction) => {
+    const { cursor, limit = "10" } = (req.query ||
+      {}) as NonNullable<getFeedSchemaType>;
+
+    const decodedCursor = cursor ? decodeTimelineCursor(cursor) : null;
+    if (cursor && !decodedCursor) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid cursor",
+      });
+    }
+
+    const timeline = await getTimelineFeed(req.user._id.toString(), {
+      cursor: decodedCursor,
+      limit: parseInt(limit),
+    });
+
+    res.json({
+      success: true,
+      posts: await attachSharedPosts(timeline.posts, req.user._id.toString()),
+      pagination: {
+        nextCursor: timeline.nextCursor,
+        hasNextPage: timeline.hasNextPage,
+      },
+    });
+  };
+
   getPost = async (req: Request, res: Response, next: NextFunction) => {
     const { postId } = req.params;
 
@@ -891,10 +1091,9 @@ class UserService {
       });
     }
 
-    const canView =
-      post.availability === "public" ||
-      post.author._id.toString() === req.user._id.toString() ||
-      req.user.role === "admin";
+    const canView = await userCanViewPost(req.user._id.toString(), post, {
+      isAdmin: req.user.role === "admin",
+    });
 
     if (!canView) {
       return res.status(403).json({
@@ -903,26 +1102,180 @@ class UserService {
       });
     }
 
-    await this._postModel.incrementField(postId, "viewsCount");
+    await recordPostView(post, req.user._id.toString());
 
-    const userReaction = await this._postReactionModel.getUserReaction(
-      req.user._id.toString(),
-      postId
+    const [userReaction, bookmarked, poll] = await Promise.all([
+      getUserReaction(req.user._id.toString(), {
+        target: post._id.toString(),
+        targetType: ReactionTargetType.post,
+      }),
+      isBookmarked(req.user._id.toString(), post._id.toString()),
+      getPollResults(post, req.user._id.toString()),
+    ]);
+
+    const [postWithShared] = await attachSharedPosts(
+      [post],
+      req.user._id.toString()
     );
 
     res.json({
       success: true,
       post: {
-        ...post.toObject(),
-        userReaction: userReaction?.reactionType || null,
+        ...postWithShared,
+        audience: getPostAudience(post, req.user._id.toString()),
+        userReaction,
+        isBookmarked: bookmarked,
+        poll,
       },
     });
   };
 
+  // Vote for options of a post's poll
+  votePoll = async (req: Request, res: Response, next: NextFunction) => {
+    const { postId } = req.params as { postId: string };
+    const { optionIds }: votePollSchemaType = req.body;
+
+    const poll = await votePoll(req.user._id.toString(), postId, optionIds);
+
+    res.json({
+      success: true,
+      message: "Vote recorded",
+      poll,
+    });
+  };
+
+  // Withdraw votes from a post's poll, one option's or all of them
+  unvotePoll = async (req: Request, res: Response, next: NextFunction) => {
+    const { postId } = req.params as { postId: string };
+    const { optionId } = (req.query || {}) as NonNullable<unvotePollSchemaType>;
+
+    const poll = await unvotePoll(
+      req.user._id.toString(),
+      postId,
+      optionId ? [optionId] : undefined
+    );
+
+    res.json({
+      success: true,
+      message: "Vote withdrawn",
+      poll,
+    });
+  };
+
+  // Who voted in a post's poll, unless it is anonymous
+  getPollVoters = async (req: Request, res: Response, next: NextFunction) => {
+    const { postId } = req.params as { postId: string };
+    const {
+      optionId,
+      page = "1",
+      limit = "20",
+    } = (req.query || {}) as NonNullable<getPollVotersSchemaType>;
+
+    const result = await getPollVoters(req.user._id.toString(), postId, {
+      optionId,
+      page: parseInt(page),
+      limit: parseInt(limit),
+    });
+
+    res.json({
+      success: true,
+      ...result,
+    });
+  };
+
+  // Views and engagement of a post over time, for its author
+  getPostAnalytics = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { postId } = req.params as { postId: string };
+    const { days } = (req.query || {}) as NonNullable<getAnalyticsSchemaType>;
+
+    const post = await this._postModel.findById(postId);
+    if (!post) {
+      return res.status(404).json({
+        success: false,
+        error: "Post not found",
+      });
+    }
+
+    if (
+      post.author._id.toString() !== req.user._id.toString() &&
+      req.user.role !== "admin"
+    ) {
+      return res.status(403).json({
+        success: false,
+        error: "Only the author can view this post's analytics",
+      });
+    }
+
+    const analytics = await getPostAnalytics(
+      post,
+      days ? parseInt(days) : DEFAULT_ANALYTICS_DAYS
+    );
+
+    res.json({
+      success: true,
+      analytics,
+    });
+  };
+
+  // Views and engagement across all of the user's posts
+  getAuthorAnalytics = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { days } = (req.query || {}) as NonNullable<getAnalyticsSchemaType>;
+
+    const analytics = await getAuthorAnalytics(
+      req.user._id.toString(),
+      days ? parseInt(days) : DEFAULT_ANALYTICS_DAYS
+    );
+
+    res.json({
+      success: true,
+      analytics,
+    });
+  };
+
+  // Repost a post, or quote it with commentary
+  sharePost = async (req: Request, res: Response, next: NextFunction) => {
+    const { postId } = req.params as { postId: string };
+    const { content, availability } = (req.body ||
+      {}) as NonNullable<sharePostSchemaType>;
+
+    const share = await sharePost(req.user, postId, {
+      content,
+      availability: availability as PostAvailability | undefined,
+    });
+    const [post] = await attachSharedPosts(
+      [await this._postModel.findById(share._id.toString())],
+      req.user._id.toString()
+    );
+
+    res.status(201).json({
+      success: true,
+      message: content
+        ? "Post quoted successfully"
+        : "Post shared successfully",
+      post,
+    });
+  };
+
   updatePost = async (req: Request, res: Response, next: NextFunction) => {
     const { postId } = req.params;
-    const { title, content, tags, status, availability }: updatePostSchemaType =
-      req.body;
+    const {
+      title,
+      content,
+      tags,
+      status,
+      availability,
+      audienceLists,
+      excludedUsers,
+      scheduledAt,
+    }: updatePostSchemaType = req.body;
     const files = req.files as Express.Multer.File[];
 
     if (!postId) {
@@ -954,10 +1307,72 @@ class UserService {
     const updateData: any = {};
     if (title !== undefined) updateData.title = title;
     if (content !== undefined) updateData.content = content;
-    if (tags !== undefined) updateData.tags = tags;
     if (status !== undefined) updateData.status = status;
     if (availability !== undefined) updateData.availability = availability;
 
+    // The audience is checked again whenever any part of it changes
+    const audienceChanged =
+      availability !== undefined ||
+      audienceLists !== undefined ||
+      excludedUsers !== undefined;
+    if (audienceChanged) {
+      Object.assign(
+        updateData,
+        await resolvePostAudience(
+          post.author._id.toString(),
+          (availability ?? post.availability) as PostAvailability,
+          audienceLists ?? post.audienceLists?.map((id) => id.toString()),
+          excludedUsers ?? post.excludedUsers?.map((id) => id.toString())
+        )
+      );
+    }
+
+    if (scheduledAt !== undefined) {
+      if (post.status === PostStatus.published) {
+        return res.status(400).json({
+          success: false,
+          error: "Published posts cannot be scheduled",
+        });
+      }
+      updateData.status = PostStatus.draft;
+      updateData.scheduledAt = new Date(scheduledAt);
+    } else if (status !== undefined && status !== PostStatus.draft) {
+      // Publishing or archiving by hand cancels the schedule
+      updateData.$unset = { scheduledAt: "" };
+    }
+
+    // Hashtags in the content are kept in sync with the post's tags
+    if (content !== undefined || tags !== undefined) {
+      updateData.tags = buildPostTags(
+        content ?? post.content,
+        tags ?? post.tags,
+        post.content
+      );
+    }
+
+    // Re-resolve mentions when the text or the audience changes. The first
+    // publish notifies all mentions through the post-published event; after
+    // that only mentions added by an edit are notified.
+    const wasAnnounced =
+      post.status === PostStatus.published || !!post.publishedAt;
+    const isPublished =
+      (updateData.status ?? post.status) === PostStatus.published;
+    let newMentions: Types.ObjectId[] = [];
+    if (content !== undefined || audienceChanged) {
+      updateData.mentions = await resolvePostMentions(content ?? post.content, {
+        author: post.author,
+        availability: (availability ?? post.availability) as PostAvailability,
+        audienceLists: updateData.audienceLists ?? post.audienceLists,
+        excludedUsers: updateData.excludedUsers ?? post.excludedUsers,
+      });
+    }
+    if (isPublished && wasAnnounced) {
+      newMentions = getNewMentions(
+        updateData.mentions ?? post.mentions ?? [],
+        post.mentions
+      );
+    }
+
     // Handle new image uploads
     if (files && files.length > 0) {
       const uploadResult = await this.uploadMultipleFiles(files);
@@ -977,11 +1392,379 @@ class UserService {
       }
     }
 
+    // Keep the previous title, content, tags and images as a revision
+    Object.assign(
+      updateData,
+      await recordPostRevision(post, updateData, req.user._id.toString())
+    );
+
     const updatedPost = await this._postModel.updateById(postId, updateData);
 
+    notifyMentions(newMentions, req.user._id.toString(), "post", {
+      postId: post._id.toString(),
+    });
+
     res.json({
       success: true,
       message: "Post updated successfully",
+      post: updatedPost && {
+        ...updatedPost.toObject(),
+        audience: getPostAudience(updatedPost, req.user._id.toString()),
+      },
+    });
+  };
+
+  // =============== SCHEDULED POSTS ===============
+
+  // List my scheduled posts, soonest first
+  getScheduledPosts = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { page = "1", limit = "10" } = (req.query ||
+      {}) as NonNullable<getScheduledPostsSchemaType>;
+
+    const result = await this._postModel.getScheduledPosts(
+      req.user._id.toString(),
+      { page: parseInt(page), limit: parseInt(limit) }
+    );
+
+    res.json({
+      success: true,
+      posts: result.data,
+      pagination: {
+        page: result.page,
+        limit: result.limit,
+        total: result.total,
+        pages: Math.ceil(result.total / result.limit),
+      },
+    });
+  };
+
+  // Who may comment on my post: everyone, friends only or nobody
+  updateCommentSetting = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { postId } = req.params as { postId: string };
+    const { commentSetting }: commentSettingSchemaType = req.body;
+
+    const post = await updateCommentSetting(
+      req.user._id.toString(),
+      postId,
+      commentSetting as CommentSetting
+    );
+
+    res.json({
+      success: true,
+      message: "Comment settings updated",
+      commentSetting: post?.commentSetting,
+    });
+  };
+
+  // Posts I deleted, waiting in the trash until they are purged
+  getPostTrash = async (req: Request, res: Response, next: NextFunction) => {
+    const { page = "1", limit = "10" } = (req.query ||
+      {}) as NonNullable<getTrashSchemaType>;
+
+    const result = await getTrashedPosts(req.user._id.toString(), {
+      page: parseInt(page),
+      limit: parseInt(limit),
+    });
+
+    res.json({
+      success: true,
+      ...result,
+    });
+  };
+
+  // Take a post out of the trash along with its comments
+  restorePost = async (req: Request, res: Response, next: NextFunction) => {
+    const { postId } = req.params as { postId: string };
+
+    const post = await restorePost(req.user, postId);
+
+    res.json({
+      success: true,
+      message: "Post restored successfully",
+      post,
+    });
+  };
+
+  // Own drafts only; published posts can no longer be (re)scheduled
+  private findSchedulablePost = async (req: Request, res: Response) => {
+    const { postId } = req.params as { postId: string };
+
+    const post = await this._postModel.findById(postId);
+    if (!post || post.author._id.toString() !== req.user._id.toString()) {
+      res.status(404).json({
+        success: false,
+        error: "Post not found",
+      });
+      return null;
+    }
+
+    if (post.status !== PostStatus.draft) {
+      res.status(400).json({
+        success: false,
+        error: "Only drafts can be scheduled",
+      });
+      return null;
+    }
+
+    return post;
+  };
+
+  // Schedule or reschedule a draft
+  schedulePost = async (req: Request, res: Response, next: NextFunction) => {
+    const { scheduledAt }: schedulePostSchemaType = req.body;
+
+    const post = await this.findSchedulablePost(req, res);
+    if (!post) return;
+
+    // Conditional on still being a draft so a post the scheduler just
+    // published is not pulled back
+    const updatedPost = await this._postModel.updateOne(
+      { _id: post._id, status: PostStatus.draft },
+      { $set: { scheduledAt: new Date(scheduledAt) } }
+    );
+
+    if (!updatedPost) {
+      return res.status(409).json({
+        success: false,
+        error: "Post was published in the meantime",
+      });
+    }
+
+    res.json({
+      success: true,
+      message: "Post scheduled successfully",
+      post: updatedPost,
+    });
+  };
+
+  // Cancel a schedule, the post stays a draft
+  cancelScheduledPost = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const post = await this.findSchedulablePost(req, res);
+    if (!post) return;
+
+    if (!post.scheduledAt) {
+      return res.status(400).json({
+        success: false,
+        error: "Post is not scheduled",
+      });
+    }
+
+    const updatedPost = await this._postModel.updateOne(
+      { _id: post._id, status: PostStatus.draft },
+      { $unset: { scheduledAt: "" } }
+    );
+
+    if (!updatedPost) {
+      return res.status(409).json({
+        success: false,
+        error: "Post was published in the meantime",
+      });
+    }
+
+    res.json({
+      success: true,
+      message: "Post schedule cancelled",
+      post: updatedPost,
+    });
+  };
+
+  // =============== POST REVISIONS ===============
+
+  // Revisions are visible to whoever can view the post
+  private findViewablePost = async (req: Request, res: Response) => {
+    const { postId } = req.params as { postId: string };
+
+    const post = await this._postModel.findById(postId);
+    if (!post) {
+      res.status(404).json({
+        success: false,
+        error: "Post not found",
+      });
+      return null;
+    }
+
+    const canView = await userCanViewPost(req.user._id.toString(), post, {
+      isAdmin: req.user.role === "admin",
+    });
+
+    if (!canView) {
+      res.status(403).json({
+        success: false,
+        error: "You don't have permission to view this post",
+      });
+      return null;
+    }
+
+    return post;
+  };
+
+  // List a post's revisions, newest first
+  getPostRevisions = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { page = "1", limit = "20" } = (req.query ||
+      {}) as NonNullable<getPostRevisionsSchemaType>;
+
+    const post = await this.findViewablePost(req, res);
+    if (!post) return;
+
+    const result = await getPostRevisions(post._id.toString(), {
+      page: parseInt(page),
+      limit: parseInt(limit),
+    });
+
+    res.json({
+      success: true,
+      isEdited: post.isEdited,
+      editedAt: post.editedAt,
+      revisions: result.data,
+      pagination: {
+        page: result.page,
+        limit: result.limit,
+        total: result.total,
+        pages: Math.ceil(result.total / result.limit),
+      },
+    });
+  };
+
+  // Get one revision of a post
+  getPostRevision = async (req: Request, res: Response, next: NextFunction) => {
+    const { revision } = req.params as { revision: string };
+
+    const post = await this.findViewablePost(req, res);
+    if (!post) return;
+
+    const found = /^\d+$/.test(revision)
+      ? await getPostRevision(post._id.toString(), parseInt(revision))
+      : null;
+    if (!found) {
+      return res.status(404).json({
+        success: false,
+        error: "Revision not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      revision: found,
+    });
+  };
+
+  // Compare two revisions of a post (?from=1&to=3), or one with the current
+  // state (?from=1 or ?from=1&to=current)
+  diffPostRevisions = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { from, to = "current" } =
+      req.query as unknown as diffPostRevisionsSchemaType;
+
+    const post = await this.findViewablePost(req, res);
+    if (!post) return;
+
+    const [fromState, toState] = await Promise.all([
+      getRevisionState(post, parseInt(from)),
+      getRevisionState(post, to === "current" ? "current" : parseInt(to)),
+    ]);
+    if (!fromState || !toState) {
+      return res.status(404).json({
+        success: false,
+        error: "Revision not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      from,
+      to,
+      diff: diffRevisionStates(fromState, toState),
+    });
+  };
+
+  // Bring back an older revision of a post (author or admin). The state it
+  // replaces becomes a new revision.
+  restorePostRevision = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { postId, revision } = req.params as {
+      postId: string;
+      revision: string;
+    };
+
+    const post = await this._postModel.findById(postId);
+    if (!post) {
+      return res.status(404).json({
+        success: false,
+        error: "Post not found",
+      });
+    }
+
+    if (
+      post.author._id.toString() !== req.user._id.toString() &&
+      req.user.role !== "admin"
+    ) {
+      return res.status(403).json({
+        success: false,
+        error: "You can only restore revisions of your own posts",
+      });
+    }
+
+    const updateData: any = /^\d+$/.test(revision)
+      ? await buildRevisionRestore(
+          post,
+          parseInt(revision),
+          req.user._id.toString()
+        )
+      : null;
+    if (!updateData) {
+      return res.status(404).json({
+        success: false,
+        error: "Revision not found",
+      });
+    }
+
+    // Mentions follow the restored text; only users not mentioned before
+    // are notified, and only once the post is out
+    updateData.mentions = await resolvePostMentions(updateData.content, {
+      author: post.author,
+      availability: post.availability,
+      audienceLists: post.audienceLists || [],
+      excludedUsers: post.excludedUsers || [],
+    });
+    const isAnnounced =
+      post.status === PostStatus.published && !!post.publishedAt;
+
+    const updatedPost = await this._postModel.updateById(postId, updateData);
+
+    if (isAnnounced) {
+      notifyMentions(
+        getNewMentions(updateData.mentions, post.mentions),
+        req.user._id.toString(),
+        "post",
+        { postId }
+      );
+    }
+
+    res.json({
+      success: true,
+      message: `Post restored to revision ${revision}`,
       post: updatedPost,
     });
   };
@@ -1043,9 +1826,7 @@ class UserService {
     }
 
     // Check if post is accessible
-    const canAccess =
-      post.availability === "public" ||
-      post.author._id.toString() === req.user._id.toString();
+    const canAccess = await userCanViewPost(req.user._id.toString(), post);
 
     if (!canAccess) {
       return res.status(403).json({
@@ -1054,19 +1835,40 @@ class UserService {
       });
     }
 
-    const result = await this._postReactionModel.toggleReaction(
+    // Toggles the reaction and keeps the post's counts in step
+    const { change: result, counts } = await toggleReaction(
       req.user._id.toString(),
-      postId,
-      reactionType as ReactionType
+      { target: post._id.toString(), targetType: ReactionTargetType.post },
+      reactionType
     );
 
-    // Update post reaction counts
-    const counts = await this._postReactionModel.getReactionCounts(postId);
-
-    await this._postModel.updateById(postId, {
-      likesCount: counts.likes,
-      dislikesCount: counts.dislikes,
-    });
+    // Every new or changed reaction notifies, removals don't (and
+    // sendNotificationToUser skips self-reactions)
+    if (
+      (result.action === "created" || result.action === "updated") &&
+      result.reactionType
+    ) {
+      const actorName = `${req.user.fName} ${req.user.lName}`;
+      const reaction = describeReaction(result.reactionType, "post");
+      sendNotificationToUser(post.author._id.toString(), {
+        type: NotificationType.POST_LIKE,
+        title: reaction.title,
+        message: `${actorName} ${reaction.activity}`,
+        data: {
+          postId,
+          userId: req.user._id.toString(),
+          userName: actorName,
+          reactionType: result.reactionType,
+          likesCount: counts.like,
+        },
+        actorId: req.user._id.toString(),
+        groupKey: `${NotificationType.POST_LIKE}:${postId}${reaction.groupSuffix}`,
+        collapsedMessage: collapsedActorsMessage(
+          actorName,
+          reaction.collapsedActivity
+        ),
+      });
+    }
 
     res.json({
       success: true,
@@ -1079,20 +1881,30 @@ class UserService {
     });
   };
 
-  getPostReactions = async (
+  // Reaction types users can currently pick, with their emoji
+  getReactionTypes = async (
     req: Request,
     res: Response,
     next: NextFunction
   ) => {
-    const { postId } = req.params;
-    const { type } = req.query;
+    res.json({
+      success: true,
+      reactions: getReactionSet(),
+    });
+  };
 
-    if (!postId) {
-      return res.status(400).json({
-        success: false,
-        error: "Post ID is required",
-      });
-    }
+  // Who reacted to a post (?type=love&page=1&limit=20)
+  getPostReactions = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { postId } = req.params as { postId: string };
+    const {
+      type,
+      page = "1",
+      limit = "20",
+    } = (req.query || {}) as NonNullable<getReactionsSchemaType>;
 
     const post = await this._postModel.findById(postId);
     if (!post) {
@@ -1102,17 +1914,25 @@ class UserService {
       });
     }
 
-    const reactionType = type as ReactionType | undefined;
-    const reactions = await this._postReactionModel.getPostReactions(
-      postId,
-      reactionType
+    if (
+      !(await userCanViewPost(req.user._id.toString(), post, {
+        isAdmin: req.user.role === "admin",
+      }))
+    ) {
+      return res.status(403).json({
+        success: false,
+        error: "You don't have permission to view this post",
+      });
+    }
+
+    const result = await getReactions(
+      { target: postId, targetType: ReactionTargetType.post },
+      { reactionType: type, page: parseInt(page), limit: parseInt(limit) }
     );
-    const counts = await this._postReactionModel.getReactionCounts(postId);
 
     res.json({
       success: true,
-      reactions,
-      counts,
+      ...result,
     });
   };
 
@@ -1125,16 +1945,18 @@ class UserService {
     }: createCommentSchemaType = req.body;
 
     // Validate that the target exists
+    let targetPost: any = null;
+    let targetComment: IComment | null = null;
     if (commentOnModel === CommentType.post) {
-      const post = await this._postModel.findById(commentOn);
-      if (!post) {
+      targetPost = await this._postModel.findById(commentOn);
+      if (!targetPost) {
         return res.status(404).json({
           success: false,
           error: "Post not found",
         });
       }
     } else if (commentOnModel === CommentType.comment) {
-      const targetComment = await this._commentModel.findById(commentOn);
+      targetComment = await this._commentModel.findById(commentOn);
       if (!targetComment) {
         return res.status(404).json({
           success: false,
@@ -1144,8 +1966,9 @@ class UserService {
     }
 
     // If this is a reply, validate parent comment exists
+    let parent: IComment | null = null;
     if (parentComment) {
-      const parent = await this._commentModel.findById(parentComment);
+      parent = await this._commentModel.findById(parentComment);
       if (!parent) {
         return res.status(404).json({
           success: false,
@@ -1154,11 +1977,29 @@ class UserService {
       }
     }
 
+    const threadPost =
+      targetPost || (targetComment && (await findCommentPost(targetComment)));
+    if (threadPost) {
+      if (!(await userCanViewPost(req.user._id.toString(), threadPost))) {
+        return res.status(403).json({
+          success: false,
+          error: "You don't have permission to comment on this post",
+        });
+      }
+      await assertCanComment(req.user._id.toString(), threadPost);
+    }
+    const mentions = await resolveCommentMentions(
+      content,
+      req.user._id.toString(),
+      threadPost
+    );
+
     const commentData: Partial<IComment> = {
       content,
       author: req.user._id,
       commentOn: new Types.ObjectId(commentOn),
       commentOnModel: commentOnModel as CommentType,
+      mentions,
       status: CommentStatus.active,
     };
 
@@ -1167,6 +2008,53 @@ class UserService {
     }
 
     const comment = await this._commentModel.create(commentData);
+    if (threadPost) await recordPostActivity(threadPost, "comments");
+
+    // Notify the author of the replied-to comment, or the post author
+    const repliedTo = parent || targetComment;
+    const actorName = `${req.user.fName} ${req.user.lName}`;
+    if (repliedTo) {
+      sendNotificationToUser(repliedTo.author.toString(), {
+        type: NotificationType.COMMENT_REPLY,
+        title: "New Reply",
+        message: `${actorName} replied to your comment`,
+        data: {
+          commentId: comment._id.toString(),
+          parentCommentId: repliedTo._id.toString(),
+          userId: req.user._id.toString(),
+          userName: actorName,
+        },
+        actorId: req.user._id.toString(),
+        groupKey: `${NotificationType.COMMENT_REPLY}:${repliedTo._id}`,
+        collapsedMessage: collapsedActorsMessage(
+          actorName,
+          "replied to your comment"
+        ),
+      });
+    } else if (targetPost) {
+      sendNotificationToUser(targetPost.author._id.toString(), {
+        type: NotificationType.POST_COMMENT,
+        title: "New Comment",
+        message: `${actorName} commented on your post`,
+        data: {
+          commentId: comment._id.toString(),
+          postId: targetPost._id.toString(),
+          userId: req.user._id.toString(),
+          userName: actorName,
+        },
+        actorId: req.user._id.toString(),
+        groupKey: `${NotificationType.POST_COMMENT}:${targetPost._id}`,
+        collapsedMessage: collapsedActorsMessage(
+          actorName,
+          "commented on your post"
+        ),
+      });
+    }
+
+    notifyMentions(mentions, req.user._id.toString(), "comment", {
+      commentId: comment._id.toString(),
+      ...(threadPost && { postId: threadPost._id.toString() }),
+    });
 
     // Populate the created comment
     const populatedComment = await this._commentModel.findById(
@@ -1203,6 +2091,17 @@ class UserService {
           error: "Post not found",
         });
       }
+
+      if (
+        !(await userCanViewPost(req.user._id.toString(), post, {
+          isAdmin: req.user.role === "admin",
+        }))
+      ) {
+        return res.status(403).json({
+          success: false,
+          error: "You don't have permission to view this post",
+        });
+      }
     } else if (commentId) {
       commentOn = commentId;
       commentOnModel = CommentType.comment;
@@ -1215,6 +2114,17 @@ class UserService {
           error: "Comment not found",
         });
       }
+
+      if (
+        !(await userCanViewComment(req.user._id.toString(), comment, {
+          isAdmin: req.user.role === "admin",
+        }))
+      ) {
+        return res.status(403).json({
+          success: false,
+          error: "You don't have permission to view this comment",
+        });
+      }
     } else {
       return res.status(400).json({
         success: false,
@@ -1231,9 +2141,18 @@ class UserService {
       }
     );
 
+    const userReactions = await getUserReactions(
+      req.user._id.toString(),
+      result.data.map((comment) => comment._id),
+      ReactionTargetType.comment
+    );
+
     res.json({
       success: true,
-      comments: result.data,
+      comments: result.data.map((comment) => ({
+        ...comment.toObject(),
+        userReaction: userReactions.get(comment._id.toString()) || null,
+      })),
       pagination: result.pagination,
     });
   };
@@ -1259,20 +2178,26 @@ class UserService {
       });
     }
 
-    const result = await this._commentModel.getRootComments(
-      postId,
-      CommentType.post,
-      {
-        ...queryOptions,
-        populateAuthor: queryOptions.populateAuthor ?? true,
-        includeReplies: queryOptions.includeReplies ?? false,
-      }
-    );
+    if (
+      !(await userCanViewPost(req.user._id.toString(), post, {
+        isAdmin: req.user.role === "admin",
+      }))
+    ) {
+      return res.status(403).json({
+        success: false,
+        error: "You don't have permission to view this post",
+      });
+    }
+
+    const result = await getPostRootComments(req.user._id.toString(), post, {
+      ...queryOptions,
+      populateAuthor: queryOptions.populateAuthor ?? true,
+      includeReplies: queryOptions.includeReplies ?? false,
+    });
 
     res.json({
       success: true,
-      comments: result.data,
-      pagination: result.pagination,
+      ...result,
     });
   };
 
@@ -1297,6 +2222,34 @@ class UserService {
       });
     }
 
+    if (
+      !(await userCanViewComment(req.user._id.toString(), comment, {
+        isAdmin: req.user.role === "admin",
+      }))
+    ) {
+      return res.status(403).json({
+        success: false,
+        error: "You don't have permission to view this comment",
+      });
+    }
+
+    if (queryOptions.sort) {
+      const { comments, pagination } = await getCommentReplies(
+        comment._id.toString(),
+        queryOptions.sort,
+        {
+          ...queryOptions,
+          populateAuthor: queryOptions.populateAuthor ?? true,
+        }
+      );
+
+      return res.json({
+        success: true,
+        replies: comments,
+        pagination,
+      });
+    }
+
     const result = await this._commentModel.getReplies(commentId, {
       ...queryOptions,
       populateAuthor: queryOptions.populateAuthor ?? true,
@@ -1338,6 +2291,17 @@ class UserService {
       });
     }
 
+    if (
+      !(await userCanViewComment(req.user._id.toString(), comment, {
+        isAdmin: req.user.role === "admin",
+      }))
+    ) {
+      return res.status(403).json({
+        success: false,
+        error: "You don't have permission to view this comment",
+      });
+    }
+
     const nestedComments = await this._commentModel.getNestedComments(
       commentId,
       {
@@ -1378,6 +2342,17 @@ class UserService {
       });
     }
 
+    if (
+      !(await userCanViewComment(req.user._id.toString(), comment, {
+        isAdmin: req.user.role === "admin",
+      }))
+    ) {
+      return res.status(403).json({
+        success: false,
+        error: "You don't have permission to view this comment",
+      });
+    }
+
     res.json({
       success: true,
       comment,
@@ -1415,10 +2390,28 @@ class UserService {
       });
     }
 
+    const threadPost = await findCommentPost(comment);
+    const mentions = await resolveCommentMentions(
+      content,
+      comment.author.toString(),
+      threadPost
+    );
+
     const updatedComment = await this._commentModel.updateById(commentId, {
       content,
+      mentions,
     });
 
+    notifyMentions(
+      getNewMentions(mentions, comment.mentions),
+      comment.author.toString(),
+      "comment",
+      {
+        commentId: comment._id.toString(),
+        ...(threadPost && { postId: threadPost._id.toString() }),
+      }
+    );
+
     res.json({
       success: true,
       message: "Comment updated successfully",
@@ -1464,9 +2457,77 @@ class UserService {
     });
   };
 
-  // Like/Dislike comment (this would need a separate CommentReaction model similar to PostReaction)
+  // Hide a comment under my post, or show it again
+  hideComment = async (req: Request, res: Response, next: NextFunction) => {
+    const { commentId } = req.params as { commentId: string };
+    const { hidden }: hideCommentSchemaType = req.body;
+
+    const comment = await setCommentHidden(
+      req.user._id.toString(),
+      commentId,
+      hidden
+    );
+
+    res.json({
+      success: true,
+      message: hidden ? "Comment hidden" : "Comment shown",
+      comment,
+    });
+  };
+
+  pinComment = async (req: Request, res: Response, next: NextFunction) => {
+    const { commentId } = req.params as { commentId: string };
+
+    await pinComment(req.user._id.toString(), commentId);
+
+    res.json({
+      success: true,
+      message: "Comment pinned",
+    });
+  };
+
+  unpinComment = async (req: Request, res: Response, next: NextFunction) => {
+    const { commentId } = req.params as { commentId: string };
+
+    await unpinComment(req.user._id.toString(), commentId);
+
+    res.json({
+      success: true,
+      message: "Comment unpinned",
+    });
+  };
+
+  // Comments I deleted, waiting in the trash until they are purged
+  getCommentTrash = async (req: Request, res: Response, next: NextFunction) => {
+    const { page = "1", limit = "20" } = (req.query ||
+      {}) as NonNullable<getTrashSchemaType>;
+
+    const result = await getTrashedComments(req.user._id.toString(), {
+      page: parseInt(page),
+      limit: parseInt(limit),
+    });
+
+    res.json({
+      success: true,
+      ...result,
+    });
+  };
+
+  restoreComment = async (req: Request, res: Response, next: NextFunction) => {
+    const { commentId } = req.params as { commentId: string };
+
+    const comment = await restoreComment(req.user, commentId);
+
+    res.json({
+      success: true,
+      message: "Comment restored successfully",
+      comment,
+    });
+  };
+
+  // React to a comment, reacting again with the same type removes it
   reactToComment = async (req: Request, res: Response, next: NextFunction) => {
-    const { commentId } = req.params;
+    const { commentId } = req.params as { commentId: string };
     const { reactionType }: commentReactionSchemaType = req.body;
 
     if (!commentId) {
@@ -1484,16 +2545,96 @@ class UserService {
       });
     }
 
-    // For now, we'll just increment/decrement the count directly
-    // In a full implementation, you'd want a CommentReaction model
-    const increment = reactionType === "like" ? 1 : -1;
-    const field = reactionType === "like" ? "likesCount" : "dislikesCount";
+    if (!(await userCanViewComment(req.user._id.toString(), comment))) {
+      return res.status(403).json({
+        success: false,
+        error: "You don't have permission to react to this comment",
+      });
+    }
+
+    // Toggles the reaction and keeps the comment's counts in step
+    const { change: result, counts } = await toggleReaction(
+      req.user._id.toString(),
+      { target: commentId, targetType: ReactionTargetType.comment },
+      reactionType
+    );
+
+    if (
+      (result.action === "created" || result.action === "updated") &&
+      result.reactionType
+    ) {
+      const actorName = `${req.user.fName} ${req.user.lName}`;
+      const reaction = describeReaction(result.reactionType, "comment");
+      sendNotificationToUser(comment.author.toString(), {
+        type: NotificationType.COMMENT_LIKE,
+        title: reaction.title,
+        message: `${actorName} ${reaction.activity}`,
+        data: {
+          commentId,
+          userId: req.user._id.toString(),
+          userName: actorName,
+          reactionType: result.reactionType,
+        },
+        actorId: req.user._id.toString(),
+        groupKey: `${NotificationType.COMMENT_LIKE}:${commentId}${reaction.groupSuffix}`,
+        collapsedMessage: collapsedActorsMessage(
+          actorName,
+          reaction.collapsedActivity
+        ),
+      });
+    }
+
+    res.json({
+      success: true,
+      message: `Comment reaction ${result.action}`,
+      reaction: {
+        type: result.reactionType,
+        action: result.action,
+      },
+      counts,
+    });
+  };
+
+  // Who reacted to a comment (?type=love&page=1&limit=20)
+  getCommentReactions = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { commentId } = req.params as { commentId: string };
+    const {
+      type,
+      page = "1",
+      limit = "20",
+    } = (req.query || {}) as NonNullable<getReactionsSchemaType>;
+
+    const comment = await this._commentModel.findById(commentId);
+    if (!comment) {
+      return res.status(404).json({
+        success: false,
+        error: "Comment not found",
+      });
+    }
+
+    if (
+      !(await userCanViewComment(req.user._id.toString(), comment, {
+        isAdmin: req.user.role === "admin",
+      }))
+    ) {
+      return res.status(403).json({
+        success: false,
+        error: "You don't have permission to view this comment",
+      });
+    }
 
-    await this._commentModel.incrementField(commentId, field, increment);
+    const result = await getReactions(
+      { target: commentId, targetType: ReactionTargetType.comment },
+      { reactionType: type, page: parseInt(page), limit: parseInt(limit) }
+    );
 
     res.json({
       success: true,
-      message: `Comment ${reactionType}d successfully`,
+      ...result,
     });
   };
 
@@ -1542,6 +2683,59 @@ class UserService {
     });
   };
 
+  // Posts or comments mentioning the current user. Visibility is re-checked
+  // so content the user lost access to (unfriended, blocked) drops out.
+  getMentions = async (req: Request, res: Response, next: NextFunction) => {
+    const {
+      type = "posts",
+      page = "1",
+      limit = "10",
+    } = (req.query || {}) as NonNullable<getMentionsSchemaType>;
+    const userId = req.user._id.toString();
+    const pageNumber = parseInt(page);
+    const limitNumber = parseInt(limit);
+    // Only what the user can still see, filtered before paging
+    const accessFilter = postAccessFilter(await loadPostViewer(userId));
+
+    if (type === "comments") {
+      const result = await this._commentModel.getMentioningComments(
+        userId,
+        accessFilter,
+        {
+          page: pageNumber,
+          limit: limitNumber,
+          populateAuthor: true,
+        }
+      );
+
+      return res.json({
+        success: true,
+        comments: result.data,
+        pagination: result.pagination,
+      });
+    }
+
+    const result = await this._postModel.getMentioningPosts(
+      userId,
+      accessFilter,
+      {
+        page: pageNumber,
+        limit: limitNumber,
+      }
+    );
+
+    res.json({
+      success: true,
+      posts: result.data,
+      pagination: {
+        page: result.page,
+        limit: result.limit,
+        total: result.total,
+        pages: Math.ceil(result.total / result.limit),
+      },
+    });
+  };
+
   // =============== POST FREEZE/UNFREEZE METHODS ===============
 
   // Freeze post
@@ -1642,7 +2836,8 @@ class UserService {
       });
     }
 
-    const post = await this._postModel.findById(postId);
+    // Posts in the trash can be deleted for good as well
+    const post = await this._postModel.findById(postId, true);
     if (!post) {
       return res.status(404).json({
         success: false,
@@ -1658,14 +2853,8 @@ class UserService {
       });
     }
 
-    // Emit event for cascading deletes
-    evenEmitter.emit("postDeleted", {
-      postId,
-      deletedBy: req.user._id.toString(),
-    });
-
-    // Delete the post
-    const deleted = await this._postModel.hardDelete(postId);
+    // Delete the post, related data follows through the post deleted event
+    const deleted = await purgePost(post, req.user._id.toString());
 
     if (!deleted) {
       return res.status(500).json({
@@ -1822,7 +3011,7 @@ class UserService {
 
   // Block user
   blockUser = async (req: Request, res: Response, next: NextFunction) => {
-    const { userId } = req.params;
+    const { userId } = req.params as { userId: string };
     const { reason }: blockUserSchemaType = req.body;
 
     if (!userId) {
@@ -1873,6 +3062,14 @@ class UserService {
 
     const blockedUser = await this._blockedUserModel.create(blockData);
 
+    // A block ends following in both directions
+    await removeFollowsBetween(req.user._id.toString(), userId);
+
+    evenEmitter.emit("relationshipChanged", {
+      userId: req.user._id.toString(),
+      otherUserId: userId,
+    });
+
     res.json({
       success: true,
       message: "User blocked successfully",
@@ -1904,6 +3101,12 @@ class UserService {
       });
     }
 
+    // Friends who unblock each other get their timelines back
+    evenEmitter.emit("relationshipChanged", {
+      userId: req.user._id.toString(),
+      otherUserId: userId,
+    });
+
     res.json({
       success: true,
       message: "User unblocked successfully",
@@ -1943,7 +3146,7 @@ class UserService {
     res: Response,
     next: NextFunction
   ) => {
-    const { userId } = req.params;
+    const { userId } = req.params as { userId: string };
     const { message }: sendFriendRequestSchemaType = req.body;
 
     if (!userId) {
@@ -1984,14 +3187,17 @@ class UserService {
       });
     }
 
-    // Check if friend request already exists
-    const existingRequest = await this._friendRequestModel.findBetweenUsers(
+    // Check if a pending request or friendship already exists
+    const [existingRequest] = await this._friendRequestModel.findWithUsers(
       req.user._id.toString(),
-      userId
+      [new Types.ObjectId(userId)]
     );
 
     if (existingRequest) {
-      if (existingRequest.status === FriendRequestStatus.pending) {
+      if (
+        existingRequest.status === FriendRequestStatus.pending &&
+        !isFriendRequestExpired(existingRequest)
+      ) {
         return res.status(409).json({
           success: false,
           error: "Friend request already pending",
@@ -2004,17 +3210,12 @@ class UserService {
       }
     }
 
-    const requestData: any = {
-      sender: req.user._id,
-      receiver: new Types.ObjectId(userId),
-      status: FriendRequestStatus.pending,
-    };
-
-    if (message) {
-      requestData.message = message;
-    }
-
-    const friendRequest = await this._friendRequestModel.create(requestData);
+    // Daily limit and the cooldowns after a rejection or a cancel
+    const friendRequest = await createFriendRequest(
+      req.user._id.toString(),
+      userId,
+      message
+    );
 
     // Send real-time notification via Socket.IO
     sendNotificationToUser(userId, {
@@ -2028,6 +3229,7 @@ class UserService {
         senderEmail: req.user.email,
         message: message || undefined,
       },
+      actorId: req.user._id.toString(),
     });
 
     res.status(201).json({
@@ -2069,6 +3271,13 @@ class UserService {
       });
     }
 
+    if (isFriendRequestExpired(friendRequest)) {
+      return res.status(410).json({
+        success: false,
+        error: "Friend request has expired",
+      });
+    }
+
     // Check if request is still pending
     if (friendRequest.status !== FriendRequestStatus.pending) {
       return res.status(400).json({
@@ -2098,8 +3307,13 @@ class UserService {
     // Send real-time notification to the sender
     const senderId = friendRequest.sender.toString();
     if (action === "accept") {
+      evenEmitter.emit("relationshipChanged", {
+        userId: req.user._id.toString(),
+        otherUserId: senderId,
+      });
+
       sendNotificationToUser(senderId, {
-        type: NotificationType.FRIEND_REQUEST,
+        type: NotificationType.FRIEND_REQUEST_ACCEPTED,
         title: "Friend Request Accepted",
         message: `${req.user.fName} ${req.user.lName} accepted your friend request`,
         data: {
@@ -2108,6 +3322,7 @@ class UserService {
           userName: `${req.user.fName} ${req.user.lName}`,
           action: "accepted",
         },
+        actorId: req.user._id.toString(),
       });
     } else {
       sendNotificationToUser(senderId, {
@@ -2119,6 +3334,7 @@ class UserService {
           userId: req.user._id.toString(),
           action: "rejected",
         },
+        actorId: req.user._id.toString(),
       });
     }
 
@@ -2157,6 +3373,50 @@ class UserService {
     });
   };
 
+  // Get sent friend requests, pending ones unless asked otherwise
+  getSentFriendRequests = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const {
+      status,
+      page = "1",
+      limit = "20",
+    } = (req.query || {}) as NonNullable<getSentFriendRequestsSchemaType>;
+
+    const result = await getSentFriendRequests(req.user._id.toString(), {
+      ...(status && { status: status as FriendRequestStatus }),
+      page: parseInt(page),
+      limit: parseInt(limit),
+    });
+
+    res.json({
+      success: true,
+      ...result,
+    });
+  };
+
+  // Withdraw a sent friend request
+  cancelFriendRequest = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { requestId } = req.params as { requestId: string };
+
+    const friendRequest = await cancelFriendRequest(
+      req.user._id.toString(),
+      requestId
+    );
+
+    res.json({
+      success: true,
+      message: "Friend request cancelled successfully",
+      friendRequest,
+    });
+  };
+
   // Get friends list
   getFriends = async (req: Request, res: Response, next: NextFunction) => {
     const { page = 1, limit = 20 } = req.query as any;
@@ -2204,12 +3464,53 @@ class UserService {
       });
     }
 
+    evenEmitter.emit("relationshipChanged", {
+      userId: req.user._id.toString(),
+      otherUserId: userId,
+    });
+
     res.json({
       success: true,
       message: "Friend removed successfully",
     });
   };
 
+  // People the user may know, best match first
+  getFriendSuggestions = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { limit = "10" } = (req.query ||
+      {}) as NonNullable<getFriendSuggestionsSchemaType>;
+
+    const suggestions = await getFriendSuggestions(
+      req.user._id.toString(),
+      parseInt(limit)
+    );
+
+    res.json({
+      success: true,
+      suggestions,
+    });
+  };
+
+  // Stop suggesting a user
+  dismissFriendSuggestion = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { userId } = req.params as { userId: string };
+
+    await dismissFriendSuggestion(req.user._id.toString(), userId);
+
+    res.json({
+      success: true,
+      message: "Suggestion dismissed",
+    });
+  };
+
   // =============== ENHANCED GET METHODS ===============
 
   // Get post by ID with enhanced options
@@ -2249,10 +3550,9 @@ class UserService {
     }
 
     // Check access permissions
-    const canAccess =
-      post.availability === "public" ||
-      post.author._id.toString() === req.user._id.toString() ||
-      req.user.role === "admin";
+    const canAccess = await userCanViewPost(req.user._id.toString(), post, {
+      isAdmin: req.user.role === "admin",
+    });
 
     if (!canAccess) {
       return res.status(403).json({
@@ -2261,14 +3561,29 @@ class UserService {
       });
     }
 
-    // Increment view count for non-frozen, non-deleted posts
+    // Count the view for non-frozen, non-deleted posts
     if (!post.isDeleted && !post.isFrozen) {
-      await this._postModel.incrementField(postId, "viewsCount");
+      await recordPostView(post, req.user._id.toString());
     }
 
+    const [postWithShared] = await attachSharedPosts(
+      [post],
+      req.user._id.toString()
+    );
+
+    const [bookmarked, poll] = await Promise.all([
+      isBookmarked(req.user._id.toString(), post._id.toString()),
+      getPollResults(post, req.user._id.toString()),
+    ]);
+
     res.json({
       success: true,
-      post,
+      post: {
+        ...postWithShared,
+        audience: getPostAudience(post, req.user._id.toString()),
+        isBookmarked: bookmarked,
+        poll,
+      },
     });
   };
 
@@ -2312,9 +3627,17 @@ class UserService {
       });
     }
 
+    const userReaction = await getUserReaction(req.user._id.toString(), {
+      target: comment._id.toString(),
+      targetType: ReactionTargetType.comment,
+    });
+
     res.json({
       success: true,
-      comment,
+      comment: {
+        ...comment.toObject(),
+        userReaction,
+      },
     });
   };
 
@@ -2579,6 +3902,37 @@ class UserService {
     return res.status(200).json({ message: `success`, user: req.user });
   };
 
+  // Another user's public profile, with whether they are friends, a request
+  // is pending or the viewer blocked them, and their mutual friends
+  getUserProfile = async (req: Request, res: Response, next: NextFunction) => {
+    const { userId } = req.params as { userId: string };
+    const viewerId = req.user._id.toString();
+
+    const user = await this._userModel.findOne({
+      _id: userId,
+      confirmed: true,
+      accountStatus: "active",
+    });
+    if (!user || (await this._blockedUserModel.isBlocked(userId, viewerId))) {
+      throw new appError("User not found", 404);
+    }
+
+    const [profile] = await attachRelationships(viewerId, [
+      {
+        _id: user._id,
+        fName: user.fName,
+        lName: user.lName,
+        handle: user.handle,
+        profilePicture: user.profilePicture,
+        approveFollowers: !!user.approveFollowers,
+        followersCount: user.followersCount || 0,
+        followingCount: user.followingCount || 0,
+        createdAt: user.createdAt,
+      },
+    ]);
+    return res.status(200).json({ message: `success`, user: profile });
+  };
+
   logout = async (req: Request, res: Response, next: NextFunction) => {
     const { flag }: logoutSchema = req.body;
     if (flag === FlagType?.all) {
@@ -2671,6 +4025,18 @@ class UserService {
       throw new appError("no valid data to update", 400);
     }
 
+    // Handles are unique and case-insensitive since they are used for @mentions
+    if (filteredData.handle) {
+      filteredData.handle = String(filteredData.handle).toLowerCase();
+      const handleOwner = await this._userModel.findOne({
+        handle: filteredData.handle,
+        _id: { $ne: req.user._id },
+      });
+      if (handleOwner) {
+        throw new appError("handle already taken", 409);
+      }
+    }
+
     await this._userModel.updateOne({ _id: req.user._id }, filteredData);
 
     const updatedUser = await this._userModel.findOne({ _id: req.user._id });
@@ -2735,18 +4101,21 @@ class UserService {
   likeUnlike = async (req: Request, res: Response, next: NextFunction) => {
     const { entityId, entityType }: likeUnlikeSchemaType = req.body;
 
-    const result = await this._likeModel.toggleLike(
+    const target = { target: entityId, targetType: entityType };
+    await findReactionTarget(req.user._id.toString(), target);
+
+    // A like replaces any other reaction, liking again removes it
+    const { change, counts } = await toggleReaction(
       req.user._id.toString(),
-      entityId,
-      entityType
+      target,
+      ReactionType.like
     );
-
-    const likesCount = await this._likeModel.countLikes(entityId, entityType);
+    const liked = change.reactionType === ReactionType.like;
 
     return res.status(200).json({
-      message: `successfully ${result.action}`,
-      liked: result.liked,
-      likesCount,
+      message: `successfully ${liked ? "liked" : "unLiked"}`,
+      liked,
+      likesCount: counts.like,
     });
   };
 
@@ -1,5 +1,15 @@
 import z from "zod";
 import { GenderType } from "../../db/model/user.model.js";
+import {
+  ReactionTargetType,
+  ReactionType,
+} from "../../db/model/reaction.model.js";
+import { parsePollField } from "../../service/polls.js";
+import { MAX_ANALYTICS_DAYS } from "../../service/postAnalytics.js";
+import {
+  MAX_AUDIENCE_LISTS,
+  MAX_EXCLUDED_USERS,
+} from "../../service/friendLists.js";
 
 export enum FlagType {
   all = "all",
@@ -87,7 +97,16 @@ export const updateBasicInfoSchema = {
       address: z.string().optional(),
       gender: z.enum([GenderType.male, GenderType.female]).optional(),
     })
-    .required(),
+    .required()
+    .extend({
+      handle: z
+        .string()
+        .regex(
+          /^[a-zA-Z0-9_]{3,30}$/,
+          "Handle must be 3-30 letters, numbers or underscores"
+        )
+        .optional(),
+    }),
 };
 
 export const updateEmailSchema = {
@@ -110,8 +129,8 @@ export const confirmUpdateEmailSchema = {
 export const likeUnlikeSchema = {
   body: z
     .strictObject({
-      entityId: z.string(),
-      entityType: z.string(),
+      entityId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid entity ID"),
+      entityType: z.enum(ReactionTargetType),
     })
     .required(),
 };
@@ -267,6 +286,52 @@ export const adminRestoreAccountSchema = {
     .required(),
 };
 
+// Publish time of a scheduled post, must lie in the future
+const scheduledAt = z
+  .string()
+  .datetime()
+  .refine((val) => new Date(val).getTime() > Date.now(), {
+    message: "scheduledAt must be in the future",
+  });
+
+// Poll of a new post; multipart requests carry it as a JSON string
+const pollInput = z.preprocess(
+  parsePollField,
+  z.strictObject({
+    question: z.string().trim().min(1).max(300),
+    options: z
+      .array(z.string().trim().min(1).max(100))
+      .min(2)
+      .max(10)
+      .refine(
+        (options) =>
+          new Set(options.map((option) => option.toLowerCase())).size ===
+          options.length,
+        { message: "Poll options must be unique" }
+      ),
+    multipleChoice: z.boolean().optional(),
+    anonymous: z.boolean().optional(),
+    closesAt: z
+      .string()
+      .datetime()
+      .refine((val) => new Date(val).getTime() > Date.now(), {
+        message: "closesAt must be in the future",
+      })
+      .optional(),
+  })
+);
+
+// Lists availability shows a post to the friends on some of the author's
+// friend lists; excluded users never see it whatever the availability
+const postAvailability = z.enum(["public", "private", "friends", "lists"]);
+const audienceLists = z
+  .array(z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid list ID"))
+  .min(1)
+  .max(MAX_AUDIENCE_LISTS);
+const excludedUsers = z
+  .array(z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid user ID"))
+  .max(MAX_EXCLUDED_USERS);
+
 export const createPostSchema = {
   body: z
     .strictObject({
@@ -274,9 +339,20 @@ export const createPostSchema = {
       content: z.string().min(10).max(5000),
       tags: z.array(z.string().trim().toLowerCase()).max(10).optional(),
       status: z.enum(["draft", "published", "archived"]).optional(),
-      availability: z.enum(["public", "private", "friends"]).optional(),
+      availability: postAvailability.optional(),
+      audienceLists: audienceLists.optional(),
+      excludedUsers: excludedUsers.optional(),
+      scheduledAt: scheduledAt.optional(),
+      poll: pollInput.optional(),
+      commentSetting: z.enum(["everyone", "friends", "off"]).optional(),
     })
-    .required(),
+    .refine((data) => !data.scheduledAt || data.status !== "published", {
+      message: "A scheduled post cannot be published right away",
+    })
+    .refine(
+      (data) => (data.availability === "lists") === !!data.audienceLists,
+      { message: "Audience lists go with the lists availability only" }
+    ),
 };
 
 export const updatePostSchema = {
@@ -286,15 +362,162 @@ export const updatePostSchema = {
       content: z.string().min(10).max(5000).optional(),
       tags: z.array(z.string().trim().toLowerCase()).max(10).optional(),
       status: z.enum(["draft", "published", "archived"]).optional(),
+      availability: postAvailability.optional(),
+      audienceLists: audienceLists.optional(),
+      excludedUsers: excludedUsers.optional(),
+      scheduledAt: scheduledAt.optional(),
+    })
+    .refine((data) => !data.scheduledAt || data.status !== "published", {
+      message: "A scheduled post cannot be published right away",
+    }),
+};
+
+// Commentary turns a repost into a quote
+export const sharePostSchema = {
+  body: z
+    .strictObject({
+      content: z.string().trim().min(1).max(5000).optional(),
       availability: z.enum(["public", "private", "friends"]).optional(),
     })
+    .optional(),
+};
+
+export const votePollSchema = {
+  body: z.strictObject({
+    optionIds: z
+      .array(z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid option ID"))
+      .min(1)
+      .max(10),
+  }),
+};
+
+// Without optionId every vote of the user is withdrawn
+export const unvotePollSchema = {
+  query: z
+    .strictObject({
+      optionId: z
+        .string()
+        .regex(/^[0-9a-fA-F]{24}$/, "Invalid option ID")
+        .optional(),
+    })
+    .optional(),
+};
+
+// Days of activity analytics cover, counted back from today
+export const getAnalyticsSchema = {
+  query: z
+    .strictObject({
+      days: z
+        .string()
+        .regex(/^\d+$/)
+        .refine(
+          (val) => Number(val) >= 1 && Number(val) <= MAX_ANALYTICS_DAYS,
+          { message: `Days must be between 1 and ${MAX_ANALYTICS_DAYS}` }
+        )
+        .optional(),
+    })
+    .optional(),
+};
+
+export const getPollVotersSchema = {
+  query: z
+    .strictObject({
+      optionId: z
+        .string()
+        .regex(/^[0-9a-fA-F]{24}$/, "Invalid option ID")
+        .optional(),
+      page: z.string().regex(/^\d+$/).optional(),
+      limit: z
+        .string()
+        .regex(/^\d+$/)
+        .refine((val) => Number(val) >= 1 && Number(val) <= 50, {
+          message: "Limit must be between 1 and 50",
+        })
+        .optional(),
+    })
+    .optional(),
+};
+
+export const schedulePostSchema = {
+  body: z
+    .strictObject({
+      scheduledAt,
+    })
     .required(),
 };
 
+export const getScheduledPostsSchema = {
+  query: z
+    .strictObject({
+      page: z.string().regex(/^\d+$/).optional(),
+      limit: z
+        .string()
+        .regex(/^\d+$/)
+        .refine((val) => Number(val) >= 1 && Number(val) <= 50, {
+          message: "Limit must be between 1 and 50",
+        })
+        .optional(),
+    })
+    .optional(),
+};
+
+export const commentSettingSchema = {
+  body: z.strictObject({
+    commentSetting: z.enum(["everyone", "friends", "off"]),
+  }),
+};
+
+export const hideCommentSchema = {
+  body: z.strictObject({
+    hidden: z.boolean(),
+  }),
+};
+
+export const getTrashSchema = {
+  query: z
+    .strictObject({
+      page: z.string().regex(/^\d+$/).optional(),
+      limit: z
+        .string()
+        .regex(/^\d+$/)
+        .refine((val) => Number(val) >= 1 && Number(val) <= 50, {
+          message: "Limit must be between 1 and 50",
+        })
+        .optional(),
+    })
+    .optional(),
+};
+
+export const getPostRevisionsSchema = {
+  query: z
+    .strictObject({
+      page: z.string().regex(/^\d+$/).optional(),
+      limit: z
+        .string()
+        .regex(/^\d+$/)
+        .refine((val) => Number(val) >= 1 && Number(val) <= 50, {
+          message: "Limit must be between 1 and 50",
+        })
+        .optional(),
+    })
+    .optional(),
+};
+
+// Revision numbers to compare; "current" stands for the post as it is now
+export const diffPostRevisionsSchema = {
+  query: z.strictObject({
+    from: z.string().regex(/^\d+$/, "from must be a revision number"),
+    to: z
+      .string()
+      .regex(/^(\d+|current)$/, 'to must be a revision number or "current"')
+      .optional(),
+  }),
+};
+
 export const postReactionSchema = {
   body: z
     .strictObject({
-      reactionType: z.enum(["like", "dislike"]),
+      reactionType: z.enum(ReactionType),
     })
     .required(),
 };
@@ -369,6 +592,26 @@ export type adminRestoreAccountSchemaType = z.infer<
 >;
 export type createPostSchemaType = z.infer<typeof createPostSchema.body>;
 export type updatePostSchemaType = z.infer<typeof updatePostSchema.body>;
+export type schedulePostSchemaType = z.infer<typeof schedulePostSchema.body>;
+export type sharePostSchemaType = z.infer<typeof sharePostSchema.body>;
+export type votePollSchemaType = z.infer<typeof votePollSchema.body>;
+export type unvotePollSchemaType = z.infer<typeof unvotePollSchema.query>;
+export type getPollVotersSchemaType = z.infer<typeof getPollVotersSchema.query>;
+export type getAnalyticsSchemaType = z.infer<typeof getAnalyticsSchema.query>;
+export type getTrashSchemaType = z.infer<typeof getTrashSchema.query>;
+export type commentSettingSchemaType = z.infer<
+  typeof commentSettingSchema.body
+>;
+export type hideCommentSchemaType = z.infer<typeof hideCommentSchema.body>;
+export type getScheduledPostsSchemaType = z.infer<
+  typeof getScheduledPostsSchema.query
+>;
+export type getPostRevisionsSchemaType = z.infer<
+  typeof getPostRevisionsSchema.query
+>;
+export type diffPostRevisionsSchemaType = z.infer<
+  typeof diffPostRevisionsSchema.query
+>;
 export type postReactionSchemaType = z.infer<typeof postReactionSchema.body>;
 export type getPostsSchemaType = z.infer<typeof getPostsSchema.query>;
 
@@ -414,6 +657,8 @@ export const getCommentsSchema = {
       .refine((val) => val <= 50, "Limit cannot exceed 50")
       .optional(),
     cursor: z.string().optional(),
+    // Cursor-paginated order; the cursor of one order does not fit another
+    sort: z.enum(["top", "newest", "oldest", "controversial"]).optional(),
     sortBy: z.enum(["createdAt", "likesCount", "repliesCount"]).optional(),
     sortOrder: z.enum(["asc", "desc"]).optional(),
     depth: z.string().regex(/^\d+$/).transform(Number).optional(),
@@ -449,11 +694,28 @@ export const getCommentsSchema = {
 export const commentReactionSchema = {
   body: z
     .strictObject({
-      reactionType: z.enum(["like", "dislike"]),
+      reactionType: z.enum(ReactionType),
     })
     .required(),
 };
 
+// Who reacted to a post or comment
+export const getReactionsSchema = {
+  query: z
+    .strictObject({
+      type: z.enum(ReactionType).optional(),
+      page: z.string().regex(/^\d+$/).optional(),
+      limit: z
+        .string()
+        .regex(/^\d+$/)
+        .refine((val) => Number(val) >= 1 && Number(val) <= 50, {
+          message: "Limit must be between 1 and 50",
+        })
+        .optional(),
+    })
+    .optional(),
+};
+
 export const searchCommentsSchema = {
   query: z.object({
     q: z
@@ -479,6 +741,7 @@ export type getCommentsSchemaType = z.infer<typeof getCommentsSchema.query>;
 export type commentReactionSchemaType = z.infer<
   typeof commentReactionSchema.body
 >;
+export type getReactionsSchemaType = z.infer<typeof getReactionsSchema.query>;
 export type searchCommentsSchemaType = z.infer<
   typeof searchCommentsSchema.query
 >;
@@ -595,6 +858,51 @@ export const respondFriendRequestSchema = {
     .required(),
 };
 
+export const getSentFriendRequestsSchema = {
+  query: z
+    .strictObject({
+      status: z
+        .enum(["pending", "accepted", "rejected", "cancelled", "expired"])
+        .optional(),
+      page: z.string().regex(/^\d+$/).optional(),
+      limit: z
+        .string()
+        .regex(/^\d+$/)
+        .refine((val) => Number(val) >= 1 && Number(val) <= 50, {
+          message: "Limit must be between 1 and 50",
+        })
+        .optional(),
+    })
+    .optional(),
+};
+
+export const cancelFriendRequestSchema = {
+  params: z.object({
+    requestId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid request ID"),
+  }),
+};
+
+export const getFriendSuggestionsSchema = {
+  query: z
+    .strictObject({
+      limit: z
+        .string()
+        .regex(/^\d+$/)
+        .refine((val) => Number(val) >= 1 && Number(val) <= 50, {
+          message: "Limit must be between 1 and 50",
+        })
+        .optional(),
+    })
+    .optional(),
+};
+
+// Routes addressing another user by ID
+export const userIdParamsSchema = {
+  params: z.object({
+    userId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid user ID"),
+  }),
+};
+
 export const getEntityByIdSchema = {
   query: z.object({
     includeDeleted: z
@@ -626,4 +934,45 @@ export type sendFriendRequestSchemaType = z.infer<
 export type respondFriendRequestSchemaType = z.infer<
   typeof respondFriendRequestSchema.body
 >;
+export type getSentFriendRequestsSchemaType = z.infer<
+  typeof getSentFriendRequestsSchema.query
+>;
+export type getFriendSuggestionsSchemaType = z.infer<
+  typeof getFriendSuggestionsSchema.query
+>;
 export type getEntityByIdSchemaType = z.infer<typeof getEntityByIdSchema.query>;
+
+export const getMentionsSchema = {
+  query: z
+    .strictObject({
+      type: z.enum(["posts", "comments"]).optional(),
+      page: z.string().regex(/^\d+$/).optional(),
+      limit: z
+        .string()
+        .regex(/^\d+$/)
+        .refine((val) => Number(val) >= 1 && Number(val) <= 50, {
+          message: "Limit must be between 1 and 50",
+        })
+        .optional(),
+    })
+    .optional(),
+};
+
+export type getMentionsSchemaType = z.infer<typeof getMentionsSchema.query>;
+
+export const getFeedSchema = {
+  query: z
+    .strictObject({
+      cursor: z.string().min(1).optional(),
+      limit: z
+        .string()
+        .regex(/^\d+$/)
+        .refine((val) => Number(val) >= 1 && Number(val) <= 50, {
+          message: "Limit must be between 1 and 50",
+        })
+        .optional(),
+    })
+    .optional(),
+};
+
+export type getFeedSchemaType = z.infer<typeof getFeedSchema.query>;
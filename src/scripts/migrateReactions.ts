@@ -0,0 +1,133 @@
+import { resolve } from "path";
+import { config } from "dotenv";
+config({ path: resolve("./config/.env") });
+import mongoose from "mongoose";
+import {
+  emptyReactionCounts,
+  ReactionTargetType,
+  ReactionType,
+  toReactionCountsSet,
+} from "../db/model/reaction.model.js";
+import { ReactionRepository } from "../db/repositories/reaction.repository.js";
+
+// Move the legacy post reactions, comment reactions and generic likes into
+// the reactions collection, then recompute the reaction counts stored on
+// every post, comment and message. Safe to run more than once: reactions
+// that already exist are kept as they are.
+//
+//   node dist/scripts/migrateReactions.js
+const TARGET_COLLECTIONS: Record<ReactionTargetType, string> = {
+  [ReactionTargetType.post]: "posts",
+  [ReactionTargetType.comment]: "comments",
+  [ReactionTargetType.message]: "messages",
+};
+
+const copyReactions = async (
+  collection: string,
+  toReaction: (doc: any) => {
+    user: mongoose.Types.ObjectId;
+    target: mongoose.Types.ObjectId;
+    targetType: ReactionTargetType;
+    reactionType: ReactionType;
+    createdAt: Date;
+  } | null
+) => {
+  const reactions = mongoose.connection.collection("reactions");
+  let copied = 0;
+
+  for await (const doc of mongoose.connection.collection(collection).find()) {
+    const reaction = toReaction(doc);
+    if (!reaction) continue;
+
+    const { upsertedCount } = await reactions.updateOne(
+      {
+        user: reaction.user,
+        target: reaction.target,
+        targetType: reaction.targetType,
+      },
+      {
+        $setOnInsert: {
+          reactionType: reaction.reactionType,
+          createdAt: reaction.createdAt,
+          updatedAt: reaction.createdAt,
+        },
+      },
+      { upsert: true }
+    );
+    copied += upsertedCount;
+  }
+
+  console.log(`Copied ${copied} reactions from ${collection}`);
+};
+
+const recountTargets = async (targetType: ReactionTargetType) => {
+  const withLikeCounters = targetType !== ReactionTargetType.message;
+  const collection = mongoose.connection.collection(
+    TARGET_COLLECTIONS[targetType]
+  );
+  const counts = await new ReactionRepository().getAllReactionCounts(
+    targetType
+  );
+
+  if (counts.length > 0) {
+    await collection.bulkWrite(
+      counts.map(({ target, counts }) => ({
+        updateOne: {
+          filter: { _id: target },
+          update: { $set: toReactionCountsSet(counts, withLikeCounters) },
+        },
+      }))
+    );
+  }
+  await collection.updateMany(
+    { _id: { $nin: counts.map(({ target }) => target) } },
+    { $set: toReactionCountsSet(emptyReactionCounts(), withLikeCounters) }
+  );
+
+  console.log(`Recounted reactions of ${counts.length} ${targetType}s`);
+};
+
+const main = async () => {
+  await mongoose.connect(process.env.DB_URI as string);
+
+  await copyReactions("postreactions", (doc) => ({
+    user: doc.user,
+    target: doc.post,
+    targetType: ReactionTargetType.post,
+    reactionType: doc.reactionType,
+    createdAt: doc.createdAt || new Date(),
+  }));
+  await copyReactions("commentreactions", (doc) => ({
+    user: doc.user,
+    target: doc.comment,
+    targetType: ReactionTargetType.comment,
+    reactionType: doc.reactionType,
+    createdAt: doc.createdAt || new Date(),
+  }));
+  // Generic likes took any entity type, only the ones we can react to move
+  await copyReactions("likes", (doc) => {
+    const targetType = String(doc.entityType).toLowerCase();
+    if (!Object.values(ReactionTargetType).includes(targetType as any)) {
+      return null;
+    }
+    return {
+      user: doc.userId,
+      target: doc.entityId,
+      targetType: targetType as ReactionTargetType,
+      reactionType: ReactionType.like,
+      createdAt: doc.createdAt || new Date(),
+    };
+  });
+
+  for (const targetType of Object.values(ReactionTargetType)) {
+    await recountTargets(targetType);
+  }
+
+  await mongoose.disconnect();
+};
+
+main().catch(async (error) => {
+  console.error("Reaction migration failed:", error);
+  await mongoose.disconnect();
+  process.exit(1);
+});
@@ -0,0 +1,45 @@
+import { resolve } from "path";
+import { config } from "dotenv";
+config({ path: resolve("./config/.env") });
+import mongoose from "mongoose";
+import { rebuildTimeline } from "../service/timeline.js";
+
+// Regenerate materialized timelines from scratch.
+//
+//   node dist/scripts/rebuildTimeline.js <userId> [<userId> ...]
+//   node dist/scripts/rebuildTimeline.js --all
+const main = async () => {
+  const args = process.argv.slice(2);
+  if (args.length === 0) {
+    console.error("Usage: rebuildTimeline.js <userId> [<userId> ...] | --all");
+    process.exit(1);
+  }
+
+  await mongoose.connect(process.env.DB_URI as string);
+
+  let userIds: string[] = args;
+  if (args.includes("--all")) {
+    const users = await mongoose.connection
+      .collection("users")
+      .find({}, { projection: { _id: 1 } })
+      .toArray();
+    userIds = users.map((user) => user._id.toString());
+  }
+
+  for (const userId of userIds) {
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      console.error(`Skipping invalid user id ${userId}`);
+      continue;
+    }
+    const count = await rebuildTimeline(userId);
+    console.log(`Rebuilt timeline of user ${userId} (${count} posts)`);
+  }
+
+  await mongoose.disconnect();
+};
+
+main().catch(async (error) => {
+  console.error("Timeline rebuild failed:", error);
+  await mongoose.disconnect();
+  process.exit(1);
+});
@@ -0,0 +1,204 @@
+import { Types } from "mongoose";
+import postModel from "../db/model/post.model.js";
+import { PostRepository } from "../db/repositories/post.repository.js";
+import {
+  BookmarkCursor,
+  BookmarkRepository,
+} from "../db/repositories/bookmark.repository.js";
+import { BookmarkCollectionRepository } from "../db/repositories/bookmarkCollection.repository.js";
+import { appError } from "../utils/classError.js";
+import {
+  canViewPost,
+  loadPostViewer,
+  PostAccessFields,
+  userCanViewPost,
+} from "./postAccess.js";
+
+const postRepo = new PostRepository(postModel);
+const bookmarkRepo = new BookmarkRepository();
+const collectionRepo = new BookmarkCollectionRepository();
+
+// Pages of bookmarks read to fill one page of accessible posts
+const MAX_READ_ROUNDS = 5;
+
+// Whether a user can open a saved post, under the shared access policy
+export const canAccessPost = (userId: string, post: PostAccessFields) =>
+  userCanViewPost(userId, post);
+
+// ============ BOOKMARKS ============
+
+// Save a post, into a collection of the user's when given. Saving a post
+// again moves it to the given collection.
+export const addBookmark = async (
+  userId: string,
+  postId: string,
+  collectionId?: string | null
+) => {
+  const post = await postRepo.findById(postId);
+  if (!post) throw new appError("Post not found", 404);
+  if (!(await canAccessPost(userId, post))) {
+    throw new appError("You don't have permission to bookmark this post", 403);
+  }
+
+  if (collectionId && !(await collectionRepo.findOwned(userId, collectionId))) {
+    throw new appError("Collection not found", 404);
+  }
+
+  return bookmarkRepo.upsert(userId, postId, collectionId || null);
+};
+
+export const removeBookmark = async (userId: string, postId: string) => {
+  if (!(await bookmarkRepo.remove(userId, postId))) {
+    throw new appError("Bookmark not found", 404);
+  }
+};
+
+export const isBookmarked = async (userId: string, postId: string) =>
+  (await bookmarkRepo.getBookmarkedPostIds(userId, [postId])).has(postId);
+
+// Which of the given posts the user saved
+export const getBookmarkedPostIds = (
+  userId: string,
+  postIds: (Types.ObjectId | string)[]
+) => bookmarkRepo.getBookmarkedPostIds(userId, postIds);
+
+// One page of saved posts, newest first: all of the user's, one of their
+// collections, or another user's public collection. Bookmarks of posts
+// that were deleted or that the viewer can no longer see are skipped.
+export const getSavedPosts = async (
+  viewerId: string,
+  options: {
+    collectionId?: string | undefined;
+    cursor?: BookmarkCursor | null;
+    limit?: number;
+  } = {}
+) => {
+  const { collectionId, cursor = null, limit = 10 } = options;
+
+  let ownerId = viewerId;
+  if (collectionId) {
+    const collection = await collectionRepo.findById(collectionId);
+    const isOwner = collection?.user.toString() === viewerId;
+    if (!collection || (!isOwner && collection.isPrivate)) {
+      throw new appError("Collection not found", 404);
+    }
+    ownerId = collection.user.toString();
+  }
+
+  const viewer = await loadPostViewer(viewerId);
+  const bookmarks: any[] = [];
+  let position = cursor;
+  let hasNextPage = true;
+  for (
+    let round = 0;
+    round < MAX_READ_ROUNDS && hasNextPage && bookmarks.length < limit;
+    round++
+  ) {
+    const page = await bookmarkRepo.getBookmarks(
+      { userId: ownerId, collectionId },
+      { cursor: position, limit: limit - bookmarks.length }
+    );
+    hasNextPage = page.hasNextPage;
+
+    for (const bookmark of page.data) {
+      position = { createdAt: bookmark.createdAt, _id: bookmark._id };
+      const post = bookmark.post as any;
+      if (post && canViewPost(post, viewer)) {
+        bookmarks.push(bookmark);
+      }
+    }
+  }
+
+  return {
+    bookmarks,
+    hasNextPage,
+    nextCursor: hasNextPage && position ? encodeBookmarkCursor(position) : null,
+  };
+};
+
+export const encodeBookmarkCursor = (cursor: BookmarkCursor) =>
+  Buffer.from(`${cursor.createdAt.toISOString()}_${cursor._id}`).toString(
+    "base64url"
+  );
+
+export const decodeBookmarkCursor = (cursor: string): BookmarkCursor | null => {
+  const [createdAt, id] = Buffer.from(cursor, "base64url")
+    .toString()
+    .split("_");
+  const date = new Date(createdAt || "");
+  if (isNaN(date.getTime()) || !id || !Types.ObjectId.isValid(id)) {
+    return null;
+  }
+  return { createdAt: date, _id: new Types.ObjectId(id) };
+};
+
+// ============ COLLECTIONS ============
+
+const isDuplicateName = (error: any) => error?.code === 11000;
+
+// The user's collections with the number of bookmarks in each
+export const getCollections = async (userId: string) => {
+  const collections = await collectionRepo.getUserCollections(userId);
+  const counts = await bookmarkRepo.countByCollection(
+    collections.map((collection) => collection._id)
+  );
+
+  return collections.map((collection) => ({
+    ...collection.toObject(),
+    bookmarksCount: counts.get(collection._id.toString()) || 0,
+  }));
+};
+
+export const createCollection = async (
+  userId: string,
+  data: { name: string; isPrivate?: boolean | undefined }
+) => {
+  try {
+    return await collectionRepo.create(userId, {
+      ...data,
+      name: data.name.trim(),
+    });
+  } catch (error) {
+    if (isDuplicateName(error)) {
+      throw new appError("A collection with this name already exists", 409);
+    }
+    throw error;
+  }
+};
+
+// Rename a collection or change who can see it
+export const updateCollection = async (
+  userId: string,
+  collectionId: string,
+  update: { name?: string | undefined; isPrivate?: boolean | undefined }
+) => {
+  const changes: { name?: string; isPrivate?: boolean } = {};
+  if (update.name !== undefined) changes.name = update.name.trim();
+  if (update.isPrivate !== undefined) changes.isPrivate = update.isPrivate;
+
+  try {
+    const collection = await collectionRepo.update(
+      userId,
+      collectionId,
+      changes
+    );
+    if (!collection) throw new appError("Collection not found", 404);
+    return collection;
+  } catch (error) {
+    if (isDuplicateName(error)) {
+      throw new appError("A collection with this name already exists", 409);
+    }
+    throw error;
+  }
+};
+
+// Delete a collection; its posts stay bookmarked
+export const deleteCollection = async (
+  userId: string,
+  collectionId: string
+) => {
+  const collection = await collectionRepo.delete(userId, collectionId);
+  if (!collection) throw new appError("Collection not found", 404);
+
+  await bookmarkRepo.clearCollection(collection._id);
+};
@@ -0,0 +1,273 @@
+import { Types } from "mongoose";
+import postModel, { CommentSetting, IPost } from "../db/model/post.model.js";
+import {
+  CommentStatus,
+  CommentType,
+  IComment,
+} from "../db/model/comment.model.js";
+import { PostRepository } from "../db/repositories/post.repository.js";
+import {
+  CommentCursor,
+  CommentQueryOptions,
+  CommentRepository,
+  CommentSort,
+} from "../db/repositories/comment.repository.js";
+import { FriendRequestRepository } from "../db/repositories/friendRequest.repository.js";
+import { appError } from "../utils/classError.js";
+import { findCommentPost } from "./postAccess.js";
+
+const postRepo = new PostRepository(postModel);
+const commentRepo = new CommentRepository();
+const friendRequestRepo = new FriendRequestRepository();
+
+// Comments a post author can pin at once
+export const MAX_PINNED_COMMENTS = 3;
+
+const isPostAuthor = (post: Pick<IPost, "author">, userId: string) =>
+  post.author._id.toString() === userId;
+
+// ============ COMMENT SETTINGS ============
+
+// Throw unless the user may comment under the post. The author always can.
+export const assertCanComment = async (
+  userId: string,
+  post: Pick<IPost, "author" | "commentSetting">
+) => {
+  if (isPostAuthor(post, userId)) return;
+
+  switch (post.commentSetting) {
+    case CommentSetting.off:
+      throw new appError("Comments are turned off for this post", 403);
+
+    case CommentSetting.friends: {
+      const authorId = post.author._id.toString();
+      if (!(await friendRequestRepo.areFriends(userId, authorId))) {
+        throw new appError(
+          "Only the author's friends can comment on this post",
+          403
+        );
+      }
+      return;
+    }
+  }
+};
+
+export const updateCommentSetting = async (
+  userId: string,
+  postId: string,
+  commentSetting: CommentSetting
+) => {
+  const post = await postRepo.findById(postId);
+  if (!post) throw new appError("Post not found", 404);
+  if (!isPostAuthor(post, userId)) {
+    throw new appError("Only the author can change who may comment", 403);
+  }
+
+  return postRepo.updateById(postId, { commentSetting });
+};
+
+// ============ MODERATION ============
+
+// Load a comment together with its post, for the post author only
+const findModeratedComment = async (userId: string, commentId: string) => {
+  const comment = await commentRepo.findById(commentId, {
+    populateAuthor: false,
+  });
+  if (!comment) throw new appError("Comment not found", 404);
+
+  const post = await findCommentPost(comment);
+  if (!post || !isPostAuthor(post, userId)) {
+    throw new appError(
+      "Only the post author can moderate comments on this post",
+      403
+    );
+  }
+  return { comment, post };
+};
+
+// Comments pinned to the top are root comments on the post itself
+const isRootComment = (comment: IComment) =>
+  comment.commentOnModel === CommentType.post && !comment.parentComment;
+
+// Hide a comment from everyone but its author and the post author, or show
+// it again. Hidden comments lose their pin.
+export const setCommentHidden = async (
+  userId: string,
+  commentId: string,
+  hidden: boolean
+) => {
+  const { comment, post } = await findModeratedComment(userId, commentId);
+  if (comment.status === CommentStatus.frozen) {
+    throw new appError("Frozen comments cannot be hidden or shown", 400);
+  }
+
+  if (hidden) await postRepo.unpinComment(post._id, comment._id);
+  return commentRepo.updateById(commentId, {
+    status: hidden ? CommentStatus.hidden : CommentStatus.active,
+  });
+};
+
+export const pinComment = async (userId: string, commentId: string) => {
+  const { comment, post } = await findModeratedComment(userId, commentId);
+  if (!isRootComment(comment)) {
+    throw new appError("Only comments on the post itself can be pinned", 400);
+  }
+  if (comment.status !== CommentStatus.active) {
+    throw new appError("Only visible comments can be pinned", 400);
+  }
+
+  const pinned = await postRepo.pinComment(
+    post._id.toString(),
+    commentId,
+    MAX_PINNED_COMMENTS
+  );
+  if (!pinned) {
+    throw new appError(
+      `Up to ${MAX_PINNED_COMMENTS} comments can be pinned`,
+      409
+    );
+  }
+};
+
+export const unpinComment = async (userId: string, commentId: string) => {
+  const { post } = await findModeratedComment(userId, commentId);
+  await postRepo.unpinComment(post._id, commentId);
+};
+
+// ============ READING ============
+
+// Cursors name their order, so a cursor cannot be replayed with another
+export const encodeCommentCursor = (
+  sort: CommentSort,
+  cursor: CommentCursor
+) => {
+  const value =
+    cursor.value instanceof Date ? cursor.value.toISOString() : cursor.value;
+  return Buffer.from(`${sort}_${value}_${cursor._id}`).toString("base64url");
+};
+
+export const decodeCommentCursor = (
+  sort: CommentSort,
+  cursor: string
+): CommentCursor | null => {
+  const [cursorSort, value, id] = Buffer.from(cursor, "base64url")
+    .toString()
+    .split("_");
+  if (cursorSort !== sort || !value || !id || !Types.ObjectId.isValid(id)) {
+    return null;
+  }
+
+  const parsed =
+    sort === "newest" || sort === "oldest" ? new Date(value) : Number(value);
+  // Score orders carry an offset into their ranking
+  if (
+    parsed instanceof Date
+      ? isNaN(parsed.getTime())
+      : !Number.isInteger(parsed) || parsed < 0
+  ) {
+    return null;
+  }
+  return { value: parsed, _id: new Types.ObjectId(id) };
+};
+
+const toAfter = (sort: CommentSort, cursor?: string | null) => {
+  if (!cursor) return null;
+
+  const after = decodeCommentCursor(sort, cursor);
+  if (!after) throw new appError("Invalid cursor", 400);
+  return after;
+};
+
+const toSortedPage = (
+  sort: CommentSort,
+  limit: number,
+  page: {
+    data: IComment[];
+    hasNextPage: boolean;
+    last: CommentCursor | null;
+  } | null
+) => {
+  if (!page) {
+    throw new appError(
+      "These comments have expired, start again from the top",
+      410
+    );
+  }
+
+  return {
+    comments: page.data as any[],
+    pagination: {
+      limit,
+      hasNextPage: page.hasNextPage,
+      nextCursor:
+        page.hasNextPage && page.last
+          ? encodeCommentCursor(sort, page.last)
+          : null,
+    },
+  };
+};
+
+// Root comments of a post as the viewer sees them: hidden comments only for
+// their author and the post author, pinned comments first on the first page.
+// With a sort the page is read by cursor in that order, without one by page
+// number, newest first.
+export const getPostRootComments = async (
+  viewerId: string,
+  post: Pick<IPost, "_id" | "author" | "pinnedComments">,
+  options: CommentQueryOptions & { sort?: CommentSort | undefined } = {}
+) => {
+  const { sort } = options;
+  const includeHidden = isPostAuthor(post, viewerId);
+  const pinnedIds = post.pinnedComments || [];
+  const isFirstPage = !options.cursor && Number(options.page || 1) === 1;
+  const limit = Number(options.limit) || 20;
+  const visibility = { viewerId, includeHidden, excludeIds: pinnedIds };
+
+  const [result, pinned] = await Promise.all([
+    sort
+      ? commentRepo
+          .getSortedRootComments(post._id.toString(), CommentType.post, sort, {
+            ...options,
+            ...visibility,
+            limit,
+            after: toAfter(sort, options.cursor),
+          })
+          .then((page) => toSortedPage(sort, limit, page))
+      : commentRepo
+          .getRootComments(post._id.toString(), CommentType.post, {
+            ...options,
+            ...visibility,
+          })
+          .then((page) => ({
+            comments: page.data as any[],
+            pagination: page.pagination,
+          })),
+    isFirstPage
+      ? commentRepo.findByIds(pinnedIds, options)
+      : Promise.resolve([] as IComment[]),
+  ]);
+
+  const pinnedComments = pinned
+    .filter((comment) => comment.status === CommentStatus.active)
+    .map((comment) => ({ ...comment.toObject(), isPinned: true }));
+
+  return {
+    comments: [...pinnedComments, ...result.comments],
+    pagination: result.pagination,
+  };
+};
+
+// One page of a comment's direct replies in the given order
+export const getCommentReplies = async (
+  commentId: string,
+  sort: CommentSort,
+  options: CommentQueryOptions = {}
+) => {
+  const limit = Number(options.limit) || 20;
+  const page = await commentRepo.getSortedReplies(commentId, sort, {
+    ...options,
+    limit,
+    after: toAfter(sort, options.cursor),
+  });
+  return toSortedPage(sort, limit, page);
+};
@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { Types } from "mongoose";
+import { DigestFrequency } from "../db/model/user.model.js";
+import { dbRepository } from "../db/repositories/db.repositories.js";
+import { userRepository } from "../db/repositories/user.repository.js";
+import { NotificationRepository } from "../db/repositories/notification.repository.js";
+import { FriendRequestRepository } from "../db/repositories/friendRequest.repository.js";
+import { MessageRepository } from "../db/repositories/message.repository.js";
+import { Clock } from "./clock.js";
+import { DigestScheduler, digestRetryDelay } from "./digest.js";
+
+const INTERVAL_MS = 15 * 60 * 1000;
+
+// Timers only fire when the test says so, and time only moves with them
+const fakeClock = (start: Date) => {
+  let current = start;
+  const timers = new Map<number, { callback: () => void; ms: number }>();
+  let nextHandle = 1;
+
+  const clock: Clock = {
+    now: () => current,
+    setTimeout: (callback, ms) => {
+      timers.set(nextHandle, { callback, ms });
+      return nextHandle++;
+    },
+    clearTimeout: (handle) => {
+      timers.delete(handle as number);
+    },
+  };
+
+  return {
+    clock,
+    timers,
+    // Move time forward to the earliest timer and run it
+    fireNext: async () => {
+      const [handle, timer] = [...timers.entries()].sort(
+        ([, a], [, b]) => a.ms - b.ms
+      )[0]!;
+      timers.delete(handle);
+      current = new Date(current.getTime() + timer.ms);
+      await timer.callback();
+    },
+  };
+};
+
+const recipient = () =>
+  ({
+    _id: new Types.ObjectId(),
+    email: "user@example.com",
+    userName: "user",
+    notificationSettings: { digest: { frequency: DigestFrequency.daily } },
+  }) as any;
+
+describe("DigestScheduler", () => {
+  const start = new Date("2026-03-01T08:00:00Z");
+  let dueAt: Date[];
+  let updates: { id: unknown; update: any }[];
+  const stamped = () =>
+    updates
+      .filter(
+        ({ update }) => update.$set["notificationSettings.digest.lastSentAt"]
+      )
+      .map(({ id, update }) => ({
+        id,
+        lastSentAt: update.$set["notificationSettings.digest.lastSentAt"],
+      }));
+  let recipients: any[];
+
+  beforeEach(() => {
+    dueAt = [];
+    updates = [];
+    recipients = [recipient()];
+
+    mock.method(
+      userRepository.prototype,
+      "findDueDigestRecipients",
+      async (now: Date) => {
+        dueAt.push(now);
+        return recipients;
+      }
+    );
+    mock.method(
+      dbRepository.prototype,
+      "updateOne",
+      async (filter: any, update: any) => {
+        updates.push({ id: filter._id, update });
+        return { matchedCount: 1 };
+      }
+    );
+
+    // Nothing to report, so no email goes out
+    mock.method(
+      NotificationRepository.prototype,
+      "getUnreadForDigest",
+      async () => ({ data: [], total: 0 })
+    );
+    mock.method(
+      FriendRequestRepository.prototype,
+      "getPendingRequests",
+      async () => ({ data: [], total: 0 })
+    );
+    mock.method(
+      MessageRepository.prototype,
+      "getTotalUnreadCount",
+      async () => 0
+    );
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  it("finds due recipients at the clock's time and stamps it as lastSentAt", async () => {
+    const { clock } = fakeClock(start);
+    const scheduler = new DigestScheduler(clock, INTERVAL_MS);
+
+    assert.equal(await scheduler.runDue(), 0);
+    assert.deepEqual(dueAt, [start]);
+    assert.deepEqual(stamped(), [{ id: recipients[0]._id, lastSentAt: start }]);
+  });
+
+  it("keeps lastSentAt of a failed digest and backs off before retrying", async () => {
+    const { clock } = fakeClock(start);
+    const scheduler = new DigestScheduler(clock, INTERVAL_MS);
+    const failing = recipient();
+    failing.notificationSettings.digest.failedAttempts = 2;
+    recipients = [failing, recipient()];
+
+    mock.method(
+      NotificationRepository.prototype,
+      "getUnreadForDigest",
+      async (userId: string) => {
+        if (userId === failing._id.toString()) throw new Error("boom");
+        return { data: [], total: 0 };
+      }
+    );
+    mock.method(console, "error", () => {});
+
+    await scheduler.runDue();
+    assert.deepEqual(
+      stamped().map(({ id }) => id),
+      [recipients[1]._id]
+    );
+
+    const failure = updates.find(({ id }) => id === failing._id)!.update;
+    assert.deepEqual(failure.$inc, {
+      "notificationSettings.digest.failedAttempts": 1,
+    });
+    assert.deepEqual(
+      failure.$set["notificationSettings.digest.retryAt"],
+      new Date(start.getTime() + digestRetryDelay(2))
+    );
+  });
+
+  it("doubles the retry delay per failure up to a day", () => {
+    const hour = 60 * 60 * 1000;
+    assert.equal(digestRetryDelay(0), hour);
+    assert.equal(digestRetryDelay(2), 4 * hour);
+    assert.equal(digestRetryDelay(10), 24 * hour);
+  });
+
+  it("runs once per interval on the clock until stopped", async () => {
+    const { clock, timers, fireNext } = fakeClock(start);
+    const scheduler = new DigestScheduler(clock, INTERVAL_MS);
+    mock.method(console, "log", () => {});
+
+    scheduler.start();
+    assert.deepEqual(
+      [...timers.values()].map(({ ms }) => ms),
+      [INTERVAL_MS]
+    );
+    assert.deepEqual(dueAt, []);
+
+    await fireNext();
+    await fireNext();
+    assert.deepEqual(dueAt, [
+      new Date(start.getTime() + INTERVAL_MS),
+      new Date(start.getTime() + 2 * INTERVAL_MS),
+    ]);
+    assert.equal(timers.size, 1);
+
+    scheduler.stop();
+    assert.equal(timers.size, 0);
+  });
+});
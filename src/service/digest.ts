@@ -0,0 +1,224 @@
+import { HydratedDocument } from "mongoose";
+import userModel, { DigestFrequency, IUser } from "../db/model/user.model.js";
+import { userRepository } from "../db/repositories/user.repository.js";
+import { NotificationRepository } from "../db/repositories/notification.repository.js";
+import { FriendRequestRepository } from "../db/repositories/friendRequest.repository.js";
+import { MessageRepository } from "../db/repositories/message.repository.js";
+import { generateToken, verifyToken } from "../utils/token.js";
+import { sendEmail } from "./sendEmail.js";
+import { digestEmailTemplate } from "./email.template.js";
+import { Clock, systemClock } from "./clock.js";
+import {
+  getDigestTypes,
+  resolveNotificationSettings,
+} from "./notificationPreferences.js";
+
+const _userModel = new userRepository(userModel);
+const notificationRepo = new NotificationRepository();
+const friendRequestRepo = new FriendRequestRepository();
+const messageRepo = new MessageRepository();
+
+const DIGEST_UNSUBSCRIBE_PURPOSE = "digest_unsubscribe";
+
+// ============ UNSUBSCRIBE TOKENS ============
+
+// Digest links carry a signed token instead of a session so users can
+// unsubscribe from the email without logging in
+export const generateDigestUnsubscribeToken = (userId: string) =>
+  generateToken({
+    payload: { userId, purpose: DIGEST_UNSUBSCRIBE_PURPOSE },
+    signature: process.env.SIGNATURE_DIGEST_TOKEN!,
+    options: {},
+  });
+
+// Returns the user id of a valid token, null otherwise
+export const verifyDigestUnsubscribeToken = async (token: string) => {
+  try {
+    const decoded = await verifyToken({
+      token,
+      signature: process.env.SIGNATURE_DIGEST_TOKEN!,
+    });
+    if (decoded.purpose !== DIGEST_UNSUBSCRIBE_PURPOSE) return null;
+    return decoded.userId as string;
+  } catch {
+    return null;
+  }
+};
+
+export const buildDigestUnsubscribeUrl = async (userId: string) => {
+  const baseUrl =
+    process.env.APP_URL || `http://localhost:${process.env.PORT || 5000}`;
+  const token = await generateDigestUnsubscribeToken(userId);
+  return `${baseUrl}/notifications/digest/unsubscribe?token=${token}`;
+};
+
+export const unsubscribeFromDigest = async (userId: string) => {
+  const result = await _userModel.updateOne(
+    { _id: userId },
+    {
+      $set: { "notificationSettings.digest.frequency": DigestFrequency.off },
+    }
+  );
+  return result.matchedCount > 0;
+};
+
+// ============ DIGEST ============
+
+// Collect and email one user's digest. Returns false when there was
+// nothing to report and no email was sent.
+export const sendDigest = async (user: HydratedDocument<IUser>) => {
+  const userId = user._id.toString();
+  const settings = resolveNotificationSettings(user.notificationSettings);
+
+  const [notifications, pendingRequests, unreadMessages] = await Promise.all([
+    notificationRepo.getUnreadForDigest(userId, getDigestTypes(settings)),
+    friendRequestRepo.getPendingRequests(userId, {
+      limit: 1,
+      populateSender: false,
+      populateReceiver: false,
+    }),
+    messageRepo.getTotalUnreadCount(userId),
+  ]);
+
+  if (!notifications.total && !pendingRequests.total && !unreadMessages) {
+    return false;
+  }
+
+  const unsubscribeUrl = await buildDigestUnsubscribeUrl(userId);
+  const period =
+    settings.digest.frequency === DigestFrequency.weekly ? "weekly" : "daily";
+
+  await sendEmail({
+    to: user.email,
+    subject: `Your ${period} SocialMedia App digest`,
+    html: digestEmailTemplate({
+      userName: user.userName || `${user.fName} ${user.lName}`,
+      period,
+      notifications: notifications.data.map((notification) => ({
+        title: notification.title,
+        message: notification.message,
+      })),
+      unreadNotifications: notifications.total,
+      pendingFriendRequests: pendingRequests.total,
+      unreadMessages,
+      unsubscribeUrl,
+    }),
+    // One-click unsubscribe for mail clients (RFC 8058)
+    headers: {
+      "List-Unsubscribe": `<${unsubscribeUrl}>`,
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    },
+  });
+
+  return true;
+};
+
+// ============ SCHEDULER ============
+
+// Failed digests are retried after an hour, doubling per failure up to a day
+const DIGEST_RETRY_BASE_MS = 60 * 60 * 1000;
+const DIGEST_RETRY_MAX_MS = 24 * 60 * 60 * 1000;
+
+export const digestRetryDelay = (failedAttempts: number) =>
+  Math.min(DIGEST_RETRY_BASE_MS * 2 ** failedAttempts, DIGEST_RETRY_MAX_MS);
+
+export class DigestScheduler {
+  private timer: unknown = null;
+  private running = false;
+
+  constructor(
+    private readonly clock: Clock = systemClock,
+    private readonly intervalMs: number = 15 * 60 * 1000,
+    private readonly batchSize: number = 200
+  ) {}
+
+  start() {
+    if (this.timer) return;
+    this.scheduleNext();
+    console.log("Digest scheduler started");
+  }
+
+  stop() {
+    if (this.timer) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Send every digest that is due at the clock's current time. Users whose
+  // digest fails keep their lastSentAt and back off before the next try, so
+  // they never crowd the others out of a batch.
+  runDue = async () => {
+    if (this.running) return 0;
+    this.running = true;
+
+    let sent = 0;
+    try {
+      const now = this.clock.now();
+      const recipients = await _userModel.findDueDigestRecipients(
+        now,
+        this.batchSize
+      );
+
+      for (const user of recipients) {
+        try {
+          if (await sendDigest(user)) sent++;
+
+          await _userModel.updateOne(
+            { _id: user._id },
+            {
+              $set: { "notificationSettings.digest.lastSentAt": now },
+              $unset: {
+                "notificationSettings.digest.failedAttempts": "",
+                "notificationSettings.digest.retryAt": "",
+              },
+            }
+          );
+        } catch (error) {
+          console.error(`Failed to send digest to user ${user._id}:`, error);
+          await this.recordFailure(user, now);
+        }
+      }
+    } catch (error) {
+      console.error("Digest run failed:", error);
+    } finally {
+      this.running = false;
+    }
+
+    return sent;
+  };
+
+  // Push a failed recipient's next try back, longer after every failure
+  private recordFailure = async (user: HydratedDocument<IUser>, now: Date) => {
+    const failedAttempts =
+      user.notificationSettings?.digest?.failedAttempts || 0;
+    try {
+      await _userModel.updateOne(
+        { _id: user._id },
+        {
+          $set: {
+            "notificationSettings.digest.retryAt": new Date(
+              now.getTime() + digestRetryDelay(failedAttempts)
+            ),
+          },
+          $inc: { "notificationSettings.digest.failedAttempts": 1 },
+        }
+      );
+    } catch (error) {
+      console.error(
+        `Failed to record digest failure of user ${user._id}:`,
+        error
+      );
+    }
+  };
+
+  // Chain timeouts rather than an interval so runs never overlap
+  private scheduleNext() {
+    this.timer = this.clock.setTimeout(async () => {
+      await this.runDue();
+      if (this.timer) this.scheduleNext();
+    }, this.intervalMs);
+  }
+}
+
+export const digestScheduler = new DigestScheduler();
@@ -1,3 +1,12 @@
+// Escape user supplied text (names, post excerpts) before it goes into HTML
+export const escapeHtml = (value: unknown) =>
+  String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
 export const emailTemplate = (
   otp: string,
   purpose: string = "Email Verification"
@@ -39,3 +48,135 @@ export const emailTemplate = (
     </html>
     `;
 };
+
+export const digestEmailTemplate = ({
+  userName,
+  period,
+  notifications,
+  unreadNotifications,
+  pendingFriendRequests,
+  unreadMessages,
+  unsubscribeUrl,
+}: {
+  userName: string;
+  period: string;
+  notifications: { title: string; message: string }[];
+  unreadNotifications: number;
+  pendingFriendRequests: number;
+  unreadMessages: number;
+  unsubscribeUrl: string;
+}) => {
+  const notificationItems = notifications
+    .map(
+      (notification) =>
+        `<li><strong>${escapeHtml(notification.title)}</strong><br>${escapeHtml(notification.message)}</li>`
+    )
+    .join("");
+  const moreNotifications = unreadNotifications - notifications.length;
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+        <style>
+            body { font-family: Arial, sans-serif; background-color: #f5f5f5; margin: 0; padding: 20px; }
+            .container { max-width: 600px; margin: 0 auto; background-color: white; padding: 30px; border-radius: 10px; box-shadow: 0 4px 8px rgba(0,0,0,0.1); }
+            .header { text-align: center; color: #333; margin-bottom: 30px; }
+            .stats { display: flex; justify-content: space-around; background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin: 20px 0; }
+            .stat { text-align: center; }
+            .stat-value { font-size: 28px; font-weight: bold; color: #007bff; }
+            ul { padding-left: 20px; }
+            li { margin-bottom: 12px; }
+            .footer { margin-top: 30px; text-align: center; color: #666; font-size: 14px; }
+        </style>
+    </head>
+    <body>
+        <div class="container">
+            <div class="header">
+                <h1>SocialMedia App</h1>
+                <h2>Your ${period} digest</h2>
+            </div>
+            
+            <p>Hello ${escapeHtml(userName)}, here is what you missed:</p>
+            
+            <div class="stats">
+                <div class="stat"><div class="stat-value">${unreadNotifications}</div>Notifications</div>
+                <div class="stat"><div class="stat-value">${pendingFriendRequests}</div>Friend requests</div>
+                <div class="stat"><div class="stat-value">${unreadMessages}</div>Unread messages</div>
+            </div>
+            
+            ${notificationItems ? `<ul>${notificationItems}</ul>` : ""}
+            ${moreNotifications > 0 ? `<p>...and ${moreNotifications} more.</p>` : ""}
+            
+            <div class="footer">
+                <p>You are receiving this because you subscribed to the ${period} digest.</p>
+                <p><a href="${escapeHtml(unsubscribeUrl)}">Unsubscribe from digest emails</a></p>
+                <p>&copy; 2025 SocialMedia App. All rights reserved.</p>
+            </div>
+        </div>
+    </body>
+    </html>
+    `;
+};
+
+export const notificationEmailTemplate = ({
+  userName,
+  title,
+  message,
+  link,
+}: {
+  userName: string;
+  title: string;
+  message: string;
+  link?: string | undefined;
+}) => {
+  return `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>${escapeHtml(title)}</h2>
+          <p>Hello ${escapeHtml(userName)},</p>
+          <p>${escapeHtml(message)}</p>
+          ${link ? `<p><a href="${escapeHtml(link)}">View on SocialMedia App</a></p>` : ""}
+          <hr>
+          <p style="color: #666; font-size: 12px;">You can change which emails you receive in your notification settings.</p>
+        </div>
+      `;
+};
+
+// Page shown by the digest unsubscribe link. With a confirmUrl it asks for
+// confirmation and posts back to it, so opening the link changes nothing.
+export const digestUnsubscribePageTemplate = ({
+  title,
+  message,
+  confirmUrl,
+}: {
+  title: string;
+  message: string;
+  confirmUrl?: string | undefined;
+}) => {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+        <meta name="viewport" content="width=device-width, initial-scale=1">
+        <title>${escapeHtml(title)}</title>
+        <style>
+            body { font-family: Arial, sans-serif; background-color: #f5f5f5; margin: 0; padding: 20px; }
+            .container { max-width: 600px; margin: 0 auto; background-color: white; padding: 30px; border-radius: 10px; box-shadow: 0 4px 8px rgba(0,0,0,0.1); text-align: center; }
+            button { background-color: #007bff; color: white; border: none; padding: 12px 24px; border-radius: 6px; font-size: 16px; cursor: pointer; }
+        </style>
+    </head>
+    <body>
+        <div class="container">
+            <h1>SocialMedia App</h1>
+            <h2>${escapeHtml(title)}</h2>
+            <p>${escapeHtml(message)}</p>
+            ${
+              confirmUrl
+                ? `<form method="POST" action="${escapeHtml(confirmUrl)}"><button type="submit">Unsubscribe</button></form>`
+                : ""
+            }
+        </div>
+    </body>
+    </html>
+    `;
+};
@@ -1,6 +1,6 @@
 import { EventEmitter } from "events";
 import { generateOTP, sendEmail } from "./sendEmail.js";
-import { emailTemplate } from "./email.template.js";
+import { emailTemplate, escapeHtml } from "./email.template.js";
 import { deleteFileFromS3 } from "./awsS3.js";
 
 export const evenEmitter = new EventEmitter();
@@ -28,7 +28,7 @@ evenEmitter.on("deleteProfileImage", async (data) => {
 });
 
 evenEmitter.on("accountStatusChanged", async (data) => {
-  const { email, status, reason, userName } = data;
+  const { userId, email, status, reason, userName } = data;
   const statusMessages = {
     frozen: "Your account has been temporarily frozen.",
     active: "Your account has been restored and is now active.",
@@ -36,6 +36,28 @@ evenEmitter.on("accountStatusChanged", async (data) => {
   };
 
   try {
+    if (userId) {
+      // Import dynamically to avoid circular dependency
+      const { getUserNotificationSettings, canDeliver } = await import(
+        "./notificationPreferences.js"
+      );
+      const { NotificationChannel } = await import("../db/model/user.model.js");
+      const { NotificationType } = await import(
+        "../db/model/notification.model.js"
+      );
+
+      const settings = await getUserNotificationSettings(userId);
+      if (
+        !canDeliver(
+          settings,
+          NotificationType.SYSTEM,
+          NotificationChannel.email
+        )
+      ) {
+        return;
+      }
+    }
+
     await sendEmail({
       to: email,
       subject: `Account Status Update - ${
@@ -44,9 +66,9 @@ evenEmitter.on("accountStatusChanged", async (data) => {
       html: `
         <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
           <h2>Account Status Update</h2>
-          <p>Hello ${userName},</p>
+          <p>Hello ${escapeHtml(userName)},</p>
           <p>${statusMessages[status as keyof typeof statusMessages]}</p>
-          ${reason ? `<p><strong>Reason:</strong> ${reason}</p>` : ""}
+          ${reason ? `<p><strong>Reason:</strong> ${escapeHtml(reason)}</p>` : ""}
           <p>If you have any questions, please contact support.</p>
           <hr>
           <p style="color: #666; font-size: 12px;">This is an automated message.</p>
@@ -58,6 +80,24 @@ evenEmitter.on("accountStatusChanged", async (data) => {
   }
 });
 
+// Notification email event - only sent when the recipient opted in for the
+// notification type, and held back until their quiet hours are over
+evenEmitter.on("notificationEmail", async (data) => {
+  const { userId } = data;
+  try {
+    // Import dynamically to avoid circular dependency
+    const { deliverNotificationEmail } = await import(
+      "./notificationEmails.js"
+    );
+    await deliverNotificationEmail(data);
+  } catch (error) {
+    console.error(
+      `Failed to send notification email to user ${userId}:`,
+      error
+    );
+  }
+});
+
 // Post images deletion event
 evenEmitter.on("deletePostImages", async (data) => {
   const { imageKeys, bucket, postId } = data;
@@ -68,14 +108,25 @@ evenEmitter.on("deletePostImages", async (data) => {
       imageKeys.length > 0 &&
       bucket
     ) {
+      // Images still shown by an older revision of a post are kept
+      const { PostRevisionRepository } = await import(
+        "../db/repositories/postRevision.repository.js"
+      );
+      const referenced =
+        await new PostRevisionRepository().getReferencedImageKeys(imageKeys);
+      const unusedKeys = imageKeys.filter(
+        (key: string) => !referenced.has(key)
+      );
+      if (unusedKeys.length === 0) return;
+
       console.log(
-        `Deleting ${imageKeys.length} post images for post: ${postId}`
+        `Deleting ${unusedKeys.length} post images for post: ${postId}`
       );
 
       // Import deleteMultipleFiles dynamically to avoid circular dependency
       const { deleteMultipleFiles } = await import("./awsS3.js");
 
-      const result = await deleteMultipleFiles(bucket, imageKeys);
+      const result = await deleteMultipleFiles(bucket, unusedKeys);
       console.log(
         `Post images deleted successfully for post ${postId}:`,
         result
@@ -86,14 +137,144 @@ evenEmitter.on("deletePostImages", async (data) => {
   }
 });
 
+// Post hashtag usage event - keeps trending counts in line with the post
+evenEmitter.on("postChanged", async (data) => {
+  const { before, after } = data;
+  try {
+    // Import dynamically to avoid circular dependency
+    const { syncPostHashtags, toHashtagSnapshot } = await import(
+      "./hashtags.js"
+    );
+
+    await syncPostHashtags(
+      toHashtagSnapshot(before),
+      toHashtagSnapshot(after)
+    );
+  } catch (error) {
+    console.error(
+      `Failed to sync hashtags for post ${(before || after)?._id}:`,
+      error
+    );
+  }
+});
+
+// Post timeline event - fans published posts out to friends' timelines
+evenEmitter.on("postChanged", async (data) => {
+  const { before, after } = data;
+  try {
+    // Import dynamically to avoid circular dependency
+    const { fanOutPost } = await import("./timeline.js");
+
+    await fanOutPost(before, after);
+  } catch (error) {
+    console.error(
+      `Failed to update timelines for post ${(before || after)?._id}:`,
+      error
+    );
+  }
+});
+
+// Post share event - keeps the original's share count in line with its
+// reposts and quotes
+evenEmitter.on("postChanged", async (data) => {
+  const { before, after } = data;
+  try {
+    // Import dynamically to avoid circular dependency
+    const { syncShareCount } = await import("./shares.js");
+
+    await syncShareCount(before, after);
+  } catch (error) {
+    console.error(
+      `Failed to update share count for post ${(before || after)?._id}:`,
+      error
+    );
+  }
+});
+
+// Post trash event - the post's comments go to the trash and come back
+// with it
+evenEmitter.on("postChanged", async (data) => {
+  const { before, after } = data;
+  try {
+    // Import dynamically to avoid circular dependency
+    const { syncTrashedComments } = await import("./trash.js");
+
+    await syncTrashedComments(before, after);
+  } catch (error) {
+    console.error(
+      `Failed to move comments of post ${(before || after)?._id}:`,
+      error
+    );
+  }
+});
+
+// Post published event - first time a post goes live
+evenEmitter.on("postPublished", async (data) => {
+  const { postId } = data;
+  try {
+    // Import dynamically to avoid circular dependency
+    const { announcePublishedPost } = await import("./postPublishing.js");
+
+    await announcePublishedPost(postId.toString());
+  } catch (error) {
+    console.error(`Failed to announce published post ${postId}:`, error);
+  }
+});
+
+// Relationship event - friendship, follow or block changes between two users
+evenEmitter.on("relationshipChanged", async (data) => {
+  const { userId, otherUserId } = data;
+  try {
+    // Import dynamically to avoid circular dependency
+    const { syncRelationshipTimelines } = await import("./timeline.js");
+
+    await syncRelationshipTimelines(userId, otherUserId);
+  } catch (error) {
+    console.error(
+      `Failed to sync timelines of users ${userId} and ${otherUserId}:`,
+      error
+    );
+  }
+
+  try {
+    // Both users' friend suggestions are recomputed on their next read
+    const { invalidateFriendSuggestions } = await import(
+      "./friendSuggestions.js"
+    );
+    await invalidateFriendSuggestions([userId, otherUserId]);
+  } catch (error) {
+    console.error(
+      `Failed to invalidate friend suggestions of users ${userId} and ${otherUserId}:`,
+      error
+    );
+  }
+
+  try {
+    // Users who are no longer friends leave each other's friend lists
+    const { pruneFriendLists } = await import("./friendLists.js");
+    await pruneFriendLists(userId, otherUserId);
+  } catch (error) {
+    console.error(
+      `Failed to prune friend lists of users ${userId} and ${otherUserId}:`,
+      error
+    );
+  }
+});
+
 // Comment deletion event
 evenEmitter.on("commentDeleted", async (data) => {
   const { commentId, authorId, commentOn, commentOnModel } = data;
   try {
     console.log(`Comment deleted: ${commentId} by user: ${authorId}`);
 
-    // You can add additional cleanup logic here if needed
-    // For example, sending notifications, updating analytics, etc.
+    // A deleted comment no longer holds a pin on its post
+    if (commentOnModel === "post") {
+      const { PostRepository } = await import(
+        "../db/repositories/post.repository.js"
+      );
+      const postModel = (await import("../db/model/post.model.js")).default;
+      await new PostRepository(postModel).unpinComment(commentOn, commentId);
+    }
 
     console.log(`Comment deletion cleanup completed for comment: ${commentId}`);
   } catch (error) {
@@ -136,6 +317,42 @@ evenEmitter.on("userDeleted", async (data) => {
     // Hard delete all user's comments
     const deletedCommentsCount = await commentRepo.hardDeleteByUser(userId);
 
+    // Remove the user's bookmarks and collections
+    const { BookmarkRepository } = await import(
+      "../db/repositories/bookmark.repository.js"
+    );
+    const { BookmarkCollectionRepository } = await import(
+      "../db/repositories/bookmarkCollection.repository.js"
+    );
+    await new BookmarkRepository().removeByUser(userId);
+    await new BookmarkCollectionRepository().removeByUser(userId);
+
+    // Drop the user's view records and the analytics of their posts
+    const { PostViewRepository } = await import(
+      "../db/repositories/postView.repository.js"
+    );
+    const { PostDailyStatsRepository } = await import(
+      "../db/repositories/postDailyStats.repository.js"
+    );
+    await new PostViewRepository().removeByUser(userId);
+    await new PostDailyStatsRepository().removeByAuthor(userId);
+
+    // End the user's follows and take them out of everyone's counts
+    const { removeUserFollows } = await import("./follows.js");
+    await removeUserFollows(userId);
+
+    // Nobody gets the user suggested anymore
+    const { FriendSuggestionRepository } = await import(
+      "../db/repositories/friendSuggestion.repository.js"
+    );
+    await new FriendSuggestionRepository().removeByUser(userId);
+
+    // Remove the user's friend lists and take them off everyone else's
+    const { FriendListRepository } = await import(
+      "../db/repositories/friendList.repository.js"
+    );
+    await new FriendListRepository().removeByUser(userId);
+
     console.log(
       `User cascade cleanup completed for user: ${userId}, deleted ${deletedCommentsCount} comments`
     );
@@ -162,6 +379,47 @@ evenEmitter.on("postDeleted", async (data) => {
     // Hard delete all comments related to this post
     const deletedCommentsCount = await commentRepo.hardDeleteByPost(postId);
 
+    // Nobody can open the post again, drop its bookmarks
+    const { BookmarkRepository } = await import(
+      "../db/repositories/bookmark.repository.js"
+    );
+    await new BookmarkRepository().removeByPost(postId);
+
+    // Poll votes go with the post
+    const { PollVoteRepository } = await import(
+      "../db/repositories/pollVote.repository.js"
+    );
+    await new PollVoteRepository().removeByPost(postId);
+    const { PollVoterRepository } = await import(
+      "../db/repositories/pollVoter.repository.js"
+    );
+    await new PollVoterRepository().removeByPost(postId);
+
+    // So do its views and analytics
+    const { PostViewRepository } = await import(
+      "../db/repositories/postView.repository.js"
+    );
+    const { PostDailyStatsRepository } = await import(
+      "../db/repositories/postDailyStats.repository.js"
+    );
+    await new PostViewRepository().removeByPost(postId);
+    await new PostDailyStatsRepository().removeByPost(postId);
+
+    // Drop the post's edit history along with the images only it still held
+    const { PostRevisionRepository } = await import(
+      "../db/repositories/postRevision.repository.js"
+    );
+    const revisionImageKeys = await new PostRevisionRepository().removeByPost(
+      postId
+    );
+    if (revisionImageKeys.length > 0) {
+      evenEmitter.emit("deletePostImages", {
+        imageKeys: revisionImageKeys,
+        bucket: process.env.AWS_BUCKET_NAME,
+        postId,
+      });
+    }
+
     console.log(
       `Post deletion cleanup completed for post: ${postId}, deleted ${deletedCommentsCount} comments`
     );
@@ -0,0 +1,171 @@
+import { Types } from "mongoose";
+import postModel, { PostStatus } from "../db/model/post.model.js";
+import { PostRepository } from "../db/repositories/post.repository.js";
+import { FeedSnapshotRepository } from "../db/repositories/feedSnapshot.repository.js";
+import { appError } from "../utils/classError.js";
+import { loadPostViewer, postAccessFilter } from "./postAccess.js";
+
+const postRepo = new PostRepository(postModel);
+const feedSnapshotRepo = new FeedSnapshotRepository();
+
+// Posts older than this drop out of the home feed; they stay reachable
+// through profiles, tags and search
+export const FEED_MAX_AGE_DAYS = 30;
+
+// Posts ranked when a feed session starts; a session ends after these
+export const FEED_SNAPSHOT_SIZE = 500;
+
+// Weights of the ranking. Comments cost more effort than likes and views
+// are the weakest signal. Friends' posts get a boost over strangers'.
+const FEED_WEIGHTS = {
+  likes: 1,
+  comments: 3,
+  views: 0.05,
+  friendBoost: 2,
+  gravity: 1.5,
+};
+
+export interface FeedCursor {
+  snapshot: Types.ObjectId;
+  offset: number;
+}
+
+// Score of a post at `asOf`: engagement decayed by age in hours, so fresh
+// posts with some traction outrank old popular ones
+//
+//   (1 + likes + 3 * comments + 0.05 * views) * boost / (ageHours + 2)^1.5
+const buildFeedScoreExpression = (friendIds: Types.ObjectId[], asOf: Date) => ({
+  $divide: [
+    {
+      $multiply: [
+        {
+          $add: [
+            1,
+            { $multiply: ["$likesCount", FEED_WEIGHTS.likes] },
+            { $multiply: ["$commentsCount", FEED_WEIGHTS.comments] },
+            { $multiply: ["$viewsCount", FEED_WEIGHTS.views] },
+          ],
+        },
+        {
+          $cond: [{ $in: ["$author", friendIds] }, FEED_WEIGHTS.friendBoost, 1],
+        },
+      ],
+    },
+    {
+      $pow: [
+        {
+          $add: [
+            {
+              $divide: [
+                {
+                  $subtract: [
+                    asOf,
+                    { $ifNull: ["$publishedAt", "$createdAt"] },
+                  ],
+                },
+                60 * 60 * 1000,
+              ],
+            },
+            2,
+          ],
+        },
+        FEED_WEIGHTS.gravity,
+      ],
+    },
+  ],
+});
+
+// Rank every published post of the last days the viewer may see under the
+// access policy, their own, friends' and everyone's public ones, and keep
+// the ranking for the rest of the session
+const startFeedSession = async (
+  viewerId: string,
+  visible: Record<string, unknown>,
+  friendIds: Types.ObjectId[]
+) => {
+  const asOf = new Date();
+  const ranked = await postRepo.getRankedPostIds(
+    {
+      ...visible,
+      createdAt: {
+        $gte: new Date(
+          asOf.getTime() - FEED_MAX_AGE_DAYS * 24 * 60 * 60 * 1000
+        ),
+      },
+    },
+    buildFeedScoreExpression(friendIds, asOf),
+    FEED_SNAPSHOT_SIZE
+  );
+  return feedSnapshotRepo.create(viewerId, ranked);
+};
+
+// One page of the home feed. The first page ranks the feed and later pages
+// follow that ranking through the cursor, so they neither repeat nor skip
+// posts whatever happens in between. Posts the viewer can no longer see
+// are left out, which can make a page shorter.
+export const getHomeFeed = async (
+  viewerId: string,
+  options: { cursor?: FeedCursor | null; limit?: number } = {}
+) => {
+  const { cursor = null, limit = 10 } = options;
+
+  const viewer = await loadPostViewer(viewerId);
+  const visible = {
+    status: PostStatus.published,
+    isFrozen: { $ne: true },
+    $and: [postAccessFilter(viewer)],
+  };
+
+  let snapshotId = cursor?.snapshot;
+  if (!snapshotId) {
+    const friendIds = Array.from(
+      viewer.friendIds,
+      (id) => new Types.ObjectId(id)
+    );
+    snapshotId = (await startFeedSession(viewerId, visible, friendIds))._id;
+  }
+
+  const offset = cursor?.offset || 0;
+  const slice = await feedSnapshotRepo.getSlice(
+    snapshotId,
+    viewerId,
+    offset,
+    limit
+  );
+  if (!slice) {
+    throw new appError("This feed has expired, start again from the top", 410);
+  }
+
+  const hasNextPage = offset + limit < slice.total;
+  return {
+    posts: await postRepo.findMatchingInOrder(slice.posts, visible),
+    hasNextPage,
+    nextCursor: hasNextPage
+      ? encodeFeedCursor({ snapshot: snapshotId, offset: offset + limit })
+      : null,
+  };
+};
+
+// ============ FEED CURSORS ============
+
+// Cursors name the session's ranking and how far into it the next page
+// starts
+export const encodeFeedCursor = (cursor: FeedCursor) =>
+  Buffer.from(`${cursor.snapshot}_${cursor.offset}`).toString("base64url");
+
+export const decodeFeedCursor = (cursor: string): FeedCursor | null => {
+  const [snapshot, offset] = Buffer.from(cursor, "base64url")
+    .toString()
+    .split("_");
+  const position = Number(offset);
+  if (
+    !snapshot ||
+    !offset ||
+    !Types.ObjectId.isValid(snapshot) ||
+    !Number.isInteger(position) ||
+    position < 0
+  ) {
+    return null;
+  }
+  return { snapshot: new Types.ObjectId(snapshot), offset: position };
+};
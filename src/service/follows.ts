@@ -0,0 +1,332 @@
+import { Types } from "mongoose";
+import userModel, { IUser } from "../db/model/user.model.js";
+import { FollowStatus } from "../db/model/follow.model.js";
+import { userRepository } from "../db/repositories/user.repository.js";
+import {
+  FollowCursor,
+  FollowRepository,
+} from "../db/repositories/follow.repository.js";
+import { BlockedUserRepository } from "../db/repositories/blockedUser.repository.js";
+import {
+  collapsedActorsMessage,
+  NotificationType,
+  sendNotificationToUser,
+} from "../socket/events/notification.events.js";
+import { appError } from "../utils/classError.js";
+import { evenEmitter } from "./event.js";
+import { attachRelationships } from "./relationships.js";
+
+const _userModel = new userRepository(userModel);
+const followRepo = new FollowRepository();
+const blockedUserRepo = new BlockedUserRepository();
+
+type Actor = Pick<IUser, "_id" | "fName" | "lName">;
+
+const fullName = (user: Actor) => `${user.fName} ${user.lName}`;
+
+// Keep both users' counts in line with an accepted follow that was added
+// (1) or removed (-1), and their timelines with the new relationship
+const applyFollowChange = async (
+  follow: { follower: Types.ObjectId; following: Types.ObjectId },
+  delta: 1 | -1
+) => {
+  await Promise.all([
+    _userModel.incrementFollowCounts(follow.follower, {
+      followingCount: delta,
+    }),
+    _userModel.incrementFollowCounts(follow.following, {
+      followersCount: delta,
+    }),
+  ]);
+
+  evenEmitter.emit("relationshipChanged", {
+    userId: follow.follower.toString(),
+    otherUserId: follow.following.toString(),
+  });
+};
+
+// ============ FOLLOWING ============
+
+// Follow a user. Accounts that approve their followers get a request
+// instead, which counts once they accept it.
+export const followUser = async (follower: Actor, targetId: string) => {
+  const followerId = follower._id.toString();
+  if (followerId === targetId) {
+    throw new appError("You cannot follow yourself", 400);
+  }
+
+  const target = await _userModel.findOne({ _id: targetId });
+  if (!target) throw new appError("User not found", 404);
+
+  if (await blockedUserRepo.hasBlockRelationship(followerId, targetId)) {
+    throw new appError("Cannot follow due to blocking relationship", 403);
+  }
+
+  const status = target.approveFollowers
+    ? FollowStatus.pending
+    : FollowStatus.accepted;
+  const follow = await followRepo.create(followerId, targetId, status);
+  if (!follow) {
+    const existing = await followRepo.find(followerId, targetId);
+    throw new appError(
+      existing?.status === FollowStatus.pending
+        ? "Follow request already pending"
+        : "You already follow this user",
+      409
+    );
+  }
+
+  const followerName = fullName(follower);
+  if (status === FollowStatus.accepted) {
+    await applyFollowChange(follow, 1);
+    sendNotificationToUser(targetId, {
+      type: NotificationType.NEW_FOLLOWER,
+      title: "New Follower",
+      message: `${followerName} started following you`,
+      data: { userId: followerId, userName: followerName },
+      actorId: followerId,
+      groupKey: `${NotificationType.NEW_FOLLOWER}:${targetId}`,
+      collapsedMessage: collapsedActorsMessage(
+        followerName,
+        "started following you"
+      ),
+    });
+  } else {
+    sendNotificationToUser(targetId, {
+      type: NotificationType.FOLLOW_REQUEST,
+      title: "New Follow Request",
+      message: `${followerName} asked to follow you`,
+      data: { userId: followerId, userName: followerName },
+      actorId: followerId,
+    });
+  }
+
+  return follow;
+};
+
+// Stop following a user, or withdraw a pending request
+export const unfollowUser = async (followerId: string, targetId: string) => {
+  const follow = await followRepo.remove(followerId, targetId);
+  if (!follow) throw new appError("You don't follow this user", 404);
+
+  if (follow.status === FollowStatus.accepted) {
+    await applyFollowChange(follow, -1);
+  }
+};
+
+// Take a user off the list of one's followers
+export const removeFollower = async (userId: string, followerId: string) => {
+  const follow = await followRepo.remove(
+    followerId,
+    userId,
+    FollowStatus.accepted
+  );
+  if (!follow) throw new appError("This user doesn't follow you", 404);
+
+  await applyFollowChange(follow, -1);
+};
+
+// Drop the follows between two users in both directions, used when one of
+// them blocks the other
+export const removeFollowsBetween = async (userId: string, otherId: string) => {
+  const removed = await Promise.all([
+    followRepo.remove(userId, otherId),
+    followRepo.remove(otherId, userId),
+  ]);
+
+  for (const follow of removed) {
+    if (follow?.status === FollowStatus.accepted) {
+      await applyFollowChange(follow, -1);
+    }
+  }
+};
+
+// Drop every follow of a deleted user, given and received, and take them
+// out of the other users' counts
+export const removeUserFollows = async (userId: string) => {
+  const follows = await followRepo.removeByUser(userId);
+
+  for (const follow of follows) {
+    if (follow.status !== FollowStatus.accepted) continue;
+
+    if (follow.follower.toString() === userId) {
+      await _userModel.incrementFollowCounts(follow.following, {
+        followersCount: -1,
+      });
+    } else {
+      await _userModel.incrementFollowCounts(follow.follower, {
+        followingCount: -1,
+      });
+    }
+  }
+};
+
+// ============ REQUESTS ============
+
+export const acceptFollowRequest = async (user: Actor, followerId: string) => {
+  const userId = user._id.toString();
+  const follow = await followRepo.accept(followerId, userId);
+  if (!follow) throw new appError("Follow request not found", 404);
+
+  await applyFollowChange(follow, 1);
+
+  const userName = fullName(user);
+  sendNotificationToUser(followerId, {
+    type: NotificationType.FOLLOW_REQUEST_ACCEPTED,
+    title: "Follow Request Accepted",
+    message: `${userName} accepted your follow request`,
+    data: { userId, userName },
+    actorId: userId,
+  });
+
+  return follow;
+};
+
+export const rejectFollowRequest = async (
+  userId: string,
+  followerId: string
+) => {
+  const follow = await followRepo.remove(
+    followerId,
+    userId,
+    FollowStatus.pending
+  );
+  if (!follow) throw new appError("Follow request not found", 404);
+};
+
+// Turn follower approval on or off. Turning it off lets in everyone who is
+// still waiting.
+export const updateFollowSettings = async (
+  userId: string,
+  approveFollowers: boolean
+) => {
+  await _userModel.updateOne({ _id: userId }, { approveFollowers });
+
+  let accepted = 0;
+  if (!approveFollowers) {
+    const pendingIds = await followRepo.getFollowerIds(
+      userId,
+      FollowStatus.pending
+    );
+    for (const followerId of pendingIds) {
+      const follow = await followRepo.accept(followerId.toString(), userId);
+      if (!follow) continue;
+
+      await applyFollowChange(follow, 1);
+      accepted++;
+    }
+  }
+
+  return { approveFollowers, acceptedRequests: accepted };
+};
+
+// ============ LISTS ============
+
+// Lists of an account that approves its followers are only open to the
+// account itself and its followers
+const findListOwner = async (viewerId: string, userId: string) => {
+  const owner = await _userModel.findOne({ _id: userId });
+  if (
+    !owner ||
+    (await blockedUserRepo.hasBlockRelationship(viewerId, userId))
+  ) {
+    throw new appError("User not found", 404);
+  }
+
+  if (
+    owner.approveFollowers &&
+    viewerId !== userId &&
+    !(await followRepo.isFollowing(viewerId, userId))
+  ) {
+    throw new appError(
+      "This account only shares its follows with followers",
+      403
+    );
+  }
+  return owner;
+};
+
+// A page of follows as the viewer sees it: each user with the viewer's
+// relationship to them
+const toFollowPage = async (
+  viewerId: string,
+  page: { data: any[]; hasNextPage: boolean },
+  side: "follower" | "following"
+) => {
+  const last = page.data[page.data.length - 1];
+  const follows = page.data.filter((follow) => follow[side]);
+  const users = await attachRelationships(
+    viewerId,
+    follows.map((follow) => follow[side])
+  );
+
+  return {
+    users: follows.map((follow, index) => ({
+      user: users[index],
+      followedAt: follow.acceptedAt || follow.createdAt,
+    })),
+    hasNextPage: page.hasNextPage,
+    nextCursor:
+      page.hasNextPage && last
+        ? encodeFollowCursor({ createdAt: last.createdAt, _id: last._id })
+        : null,
+  };
+};
+
+// One page of a user's followers, newest first
+export const getFollowers = async (
+  viewerId: string,
+  userId: string,
+  options: { cursor?: FollowCursor | null; limit?: number } = {}
+) => {
+  await findListOwner(viewerId, userId);
+  return toFollowPage(
+    viewerId,
+    await followRepo.getFollowers(userId, options),
+    "follower"
+  );
+};
+
+// One page of the users a user follows, newest first
+export const getFollowing = async (
+  viewerId: string,
+  userId: string,
+  options: { cursor?: FollowCursor | null; limit?: number } = {}
+) => {
+  await findListOwner(viewerId, userId);
+  return toFollowPage(
+    viewerId,
+    await followRepo.getFollowing(userId, options),
+    "following"
+  );
+};
+
+// One page of the requests waiting for the user's approval
+export const getFollowRequests = async (
+  userId: string,
+  options: { cursor?: FollowCursor | null; limit?: number } = {}
+) =>
+  toFollowPage(
+    userId,
+    await followRepo.getFollowers(userId, {
+      ...options,
+      status: FollowStatus.pending,
+    }),
+    "follower"
+  );
+
+export const encodeFollowCursor = (cursor: FollowCursor) =>
+  Buffer.from(`${cursor.createdAt.toISOString()}_${cursor._id}`).toString(
+    "base64url"
+  );
+
+export const decodeFollowCursor = (cursor: string): FollowCursor | null => {
+  const [createdAt, id] = Buffer.from(cursor, "base64url")
+    .toString()
+    .split("_");
+  const date = new Date(createdAt || "");
+  if (isNaN(date.getTime()) || !id || !Types.ObjectId.isValid(id)) {
+    return null;
+  }
+  return { createdAt: date, _id: new Types.ObjectId(id) };
+};
@@ -0,0 +1,192 @@
+import { Types } from "mongoose";
+import postModel, { PostAvailability } from "../db/model/post.model.js";
+import { FriendListRepository } from "../db/repositories/friendList.repository.js";
+import { FriendRequestRepository } from "../db/repositories/friendRequest.repository.js";
+import { PostRepository } from "../db/repositories/post.repository.js";
+import { appError } from "../utils/classError.js";
+
+const friendListRepo = new FriendListRepository();
+const friendRequestRepo = new FriendRequestRepository();
+const postRepo = new PostRepository(postModel);
+
+// Lists a user can have, members a list can hold, lists a post can target
+// and users it can exclude
+export const MAX_FRIEND_LISTS = 20;
+export const MAX_LIST_MEMBERS = 1000;
+export const MAX_AUDIENCE_LISTS = 10;
+export const MAX_EXCLUDED_USERS = 100;
+
+const isDuplicateName = (error: any) => error?.code === 11000;
+
+// Throw unless every user is a friend of the owner
+const assertFriends = async (userId: string, memberIds: string[]) => {
+  const friendIds = new Set(
+    (await friendRequestRepo.getFriendIds(userId)).map((id) => id.toString())
+  );
+  if (memberIds.some((id) => !friendIds.has(id))) {
+    throw new appError("Only friends can be added to a friend list", 400);
+  }
+};
+
+// ============ LISTS ============
+
+// The user's lists with how many friends are on each
+export const getFriendLists = async (userId: string) => {
+  const lists = await friendListRepo.getUserLists(userId);
+  return lists.map((list) => {
+    const { members, ...rest } = list.toObject();
+    return { ...rest, membersCount: members.length };
+  });
+};
+
+// One of the user's lists with its members
+export const getFriendList = async (userId: string, listId: string) => {
+  const list = await friendListRepo.findOwned(userId, listId);
+  if (!list) throw new appError("Friend list not found", 404);
+
+  return list.populate({
+    path: "members",
+    select: "fName lName handle profilePicture",
+  });
+};
+
+export const createFriendList = async (
+  userId: string,
+  data: { name: string; members?: string[] | undefined }
+) => {
+  if ((await friendListRepo.countByOwner(userId)) >= MAX_FRIEND_LISTS) {
+    throw new appError(
+      `You can have at most ${MAX_FRIEND_LISTS} friend lists`,
+      400
+    );
+  }
+
+  const members = Array.from(new Set(data.members || []));
+  await assertFriends(userId, members);
+
+  try {
+    return await friendListRepo.create(userId, {
+      name: data.name.trim(),
+      members,
+    });
+  } catch (error) {
+    if (isDuplicateName(error)) {
+      throw new appError("A friend list with this name already exists", 409);
+    }
+    throw error;
+  }
+};
+
+export const renameFriendList = async (
+  userId: string,
+  listId: string,
+  name: string
+) => {
+  try {
+    const list = await friendListRepo.rename(userId, listId, name.trim());
+    if (!list) throw new appError("Friend list not found", 404);
+    return list;
+  } catch (error) {
+    if (isDuplicateName(error)) {
+      throw new appError("A friend list with this name already exists", 409);
+    }
+    throw error;
+  }
+};
+
+// Delete a list. Posts shown to it lose it from their audience, so one
+// shown to this list only is left to its author.
+export const deleteFriendList = async (userId: string, listId: string) => {
+  const list = await friendListRepo.delete(userId, listId);
+  if (!list) throw new appError("Friend list not found", 404);
+
+  await postRepo.removeAudienceList(list._id);
+};
+
+// ============ MEMBERS ============
+
+export const addFriendListMembers = async (
+  userId: string,
+  listId: string,
+  memberIds: string[]
+) => {
+  const list = await friendListRepo.findOwned(userId, listId);
+  if (!list) throw new appError("Friend list not found", 404);
+
+  const members = new Set([
+    ...list.members.map((id) => id.toString()),
+    ...memberIds,
+  ]);
+  if (members.size > MAX_LIST_MEMBERS) {
+    throw new appError(
+      `A friend list can have at most ${MAX_LIST_MEMBERS} members`,
+      400
+    );
+  }
+  await assertFriends(userId, memberIds);
+
+  return friendListRepo.addMembers(userId, listId, memberIds);
+};
+
+export const removeFriendListMember = async (
+  userId: string,
+  listId: string,
+  memberId: string
+) => {
+  const list = await friendListRepo.removeMember(userId, listId, memberId);
+  if (!list) throw new appError("Friend list not found", 404);
+  return list;
+};
+
+// Keep two users off each other's lists once they are no longer friends
+export const pruneFriendLists = async (userId: string, otherId: string) => {
+  if (await friendRequestRepo.areFriends(userId, otherId)) return;
+
+  await Promise.all([
+    friendListRepo.removeMemberFromOwner(userId, otherId),
+    friendListRepo.removeMemberFromOwner(otherId, userId),
+  ]);
+};
+
+// ============ POST AUDIENCE ============
+
+// Check the audience of a post the user is writing: list posts need at
+// least one list and only the author's own lists count. Lists given for
+// any other availability are dropped.
+export const resolvePostAudience = async (
+  userId: string,
+  availability: PostAvailability,
+  audienceLists: string[] = [],
+  excludedUsers: string[] = []
+) => {
+  let lists: Types.ObjectId[] = [];
+  if (availability === PostAvailability.lists) {
+    lists = await friendListRepo.getOwnedIds(userId, audienceLists);
+    if (lists.length === 0 || lists.length !== new Set(audienceLists).size) {
+      throw new appError("Choose at least one of your friend lists", 400);
+    }
+  }
+
+  return {
+    audienceLists: lists,
+    excludedUsers: Array.from(new Set(excludedUsers))
+      .filter((id) => id !== userId)
+      .map((id) => new Types.ObjectId(id)),
+  };
+};
+
+// The audience of a post as its author sees it, null for anyone else
+export const getPostAudience = (
+  post: {
+    author: any;
+    audienceLists?: Types.ObjectId[];
+    excludedUsers?: Types.ObjectId[];
+  },
+  viewerId: string
+) =>
+  post.author._id.toString() === viewerId
+    ? {
+        audienceLists: post.audienceLists || [],
+        excludedUsers: post.excludedUsers || [],
+      }
+    : null;
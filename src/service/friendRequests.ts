@@ -0,0 +1,228 @@
+import { Types } from "mongoose";
+import {
+  FriendRequestStatus,
+  IFriendRequest,
+} from "../db/model/friendRequest.model.js";
+import { FriendRequestRepository } from "../db/repositories/friendRequest.repository.js";
+import { emitToUser } from "../socket/server.js";
+import { getSocketIOInstance } from "../socket/events/notification.events.js";
+import { appError } from "../utils/classError.js";
+import { Clock, systemClock } from "./clock.js";
+
+const friendRequestRepo = new FriendRequestRepository();
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// A positive number from the environment, or the default
+const positiveEnv = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+// Days a request stays pending before it expires.
+// FRIEND_REQUEST_EXPIRY_DAYS overrides the default of 30.
+export const getFriendRequestExpiryDays = () =>
+  positiveEnv("FRIEND_REQUEST_EXPIRY_DAYS", 30);
+
+// Requests a user may send in any 24 hours.
+// FRIEND_REQUEST_DAILY_LIMIT overrides the default of 50.
+export const getFriendRequestDailyLimit = () =>
+  positiveEnv("FRIEND_REQUEST_DAILY_LIMIT", 50);
+
+// Days before a user may ask someone who rejected them again.
+// FRIEND_REQUEST_COOLDOWN_DAYS overrides the default of 7.
+export const getFriendRequestCooldownDays = () =>
+  positiveEnv("FRIEND_REQUEST_COOLDOWN_DAYS", 7);
+
+// Hours before a user may send a request they cancelled again.
+// FRIEND_REQUEST_RESEND_COOLDOWN_HOURS overrides the default of 24.
+export const getFriendRequestResendCooldownHours = () =>
+  positiveEnv("FRIEND_REQUEST_RESEND_COOLDOWN_HOURS", 24);
+
+// When a pending request expires, counted from its latest send
+export const friendRequestExpiresAt = (
+  request: Pick<IFriendRequest, "createdAt" | "sentAt">
+) =>
+  new Date(
+    (request.sentAt || request.createdAt).getTime() +
+      getFriendRequestExpiryDays() * DAY_MS
+  );
+
+// Whether a request can no longer be answered, including pending ones past
+// their expiry that the scheduler hasn't reached yet
+export const isFriendRequestExpired = (
+  request: Pick<IFriendRequest, "status" | "createdAt" | "sentAt">
+) =>
+  request.status === FriendRequestStatus.expired ||
+  (request.status === FriendRequestStatus.pending &&
+    friendRequestExpiresAt(request).getTime() <= Date.now());
+
+// ============ SENDING ============
+
+// Throw while the sender has to wait before sending a closed request again
+const assertCooldownOver = (request: IFriendRequest) => {
+  let cooldownMs = 0;
+  if (request.status === FriendRequestStatus.rejected) {
+    cooldownMs = getFriendRequestCooldownDays() * DAY_MS;
+  } else if (request.status === FriendRequestStatus.cancelled) {
+    cooldownMs = getFriendRequestResendCooldownHours() * HOUR_MS;
+  }
+
+  const closedAt = request.respondedAt || request.updatedAt;
+  const retryAt = new Date(closedAt.getTime() + cooldownMs);
+  if (retryAt.getTime() > Date.now()) {
+    throw new appError(
+      `You can send this user another friend request after ${retryAt.toISOString()}`,
+      429
+    );
+  }
+};
+
+// Send a request, checked against the sender's daily limit and the
+// cooldown after a rejection or a cancel. The sender's earlier closed
+// request to the same user is sent again rather than replaced, so every
+// send counts towards the limit. Pending and accepted requests are the
+// caller's to check first.
+export const createFriendRequest = async (
+  senderId: string,
+  receiverId: string,
+  message?: string
+) => {
+  const limit = getFriendRequestDailyLimit();
+  const sent = await friendRequestRepo.countSentSince(
+    senderId,
+    new Date(Date.now() - DAY_MS)
+  );
+  if (sent >= limit) {
+    throw new appError(
+      `You can send at most ${limit} friend requests a day`,
+      429
+    );
+  }
+
+  const previous = await friendRequestRepo.findFromSender(senderId, receiverId);
+  if (previous) {
+    assertCooldownOver(previous);
+    const request = await friendRequestRepo.resend(
+      previous._id.toString(),
+      message
+    );
+    if (request) return request;
+  }
+
+  return friendRequestRepo.create({
+    sender: new Types.ObjectId(senderId),
+    receiver: new Types.ObjectId(receiverId),
+    status: FriendRequestStatus.pending,
+    sentAt: new Date(),
+    ...(message && { message }),
+  });
+};
+
+// ============ SENT REQUESTS ============
+
+// Withdraw a pending request and let the receiver's open apps drop it
+export const cancelFriendRequest = async (
+  senderId: string,
+  requestId: string
+) => {
+  const request = await friendRequestRepo.cancel(requestId, senderId);
+  if (!request) throw new appError("Pending friend request not found", 404);
+
+  const io = getSocketIOInstance();
+  if (io) {
+    emitToUser(io, request.receiver.toString(), "friend_request:withdrawn", {
+      requestId: request._id.toString(),
+      senderId,
+    });
+  }
+
+  return request;
+};
+
+// The user's sent requests, pending ones by default, newest first
+export const getSentFriendRequests = async (
+  userId: string,
+  options: { status?: FriendRequestStatus; page?: number; limit?: number } = {}
+) => {
+  const { data, total, page, limit } = await friendRequestRepo.getSentRequests(
+    userId,
+    { status: FriendRequestStatus.pending, ...options }
+  );
+  return {
+    friendRequests: data.map((request) => ({
+      ...request.toObject(),
+      expiresAt:
+        request.status === FriendRequestStatus.pending
+          ? friendRequestExpiresAt(request)
+          : null,
+    })),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+};
+
+// ============ EXPIRY ============
+
+// Expires friend requests left pending past the expiry period
+export class FriendRequestExpiryScheduler {
+  private timer: unknown = null;
+  private running = false;
+
+  constructor(
+    private readonly clock: Clock = systemClock,
+    private readonly intervalMs: number = 60 * 60 * 1000,
+    private readonly batchSize: number = 500
+  ) {}
+
+  start() {
+    if (this.timer) return;
+    this.timer = this.clock.setTimeout(() => this.tick(), 0);
+    console.log("Friend request expiry scheduler started");
+  }
+
+  stop() {
+    if (this.timer) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Expire one batch of overdue requests. Returns how many were expired.
+  runDue = async () => {
+    if (this.running) return 0;
+    this.running = true;
+
+    let expired = 0;
+    try {
+      const cutoff = new Date(
+        this.clock.now().getTime() - getFriendRequestExpiryDays() * DAY_MS
+      );
+      expired = await friendRequestRepo.expirePending(cutoff, this.batchSize);
+    } catch (error) {
+      console.error("Friend request expiry run failed:", error);
+    } finally {
+      this.running = false;
+    }
+
+    return expired;
+  };
+
+  private tick = async () => {
+    const expired = await this.runDue();
+    if (!this.timer) return;
+
+    // A full batch means more is due, keep going right away
+    this.timer = this.clock.setTimeout(
+      () => this.tick(),
+      expired >= this.batchSize ? 0 : this.intervalMs
+    );
+  };
+}
+
+export const friendRequestExpiryScheduler = new FriendRequestExpiryScheduler();
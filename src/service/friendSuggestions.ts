@@ -0,0 +1,178 @@
+import { Types } from "mongoose";
+import userModel from "../db/model/user.model.js";
+import { ISuggestedFriend } from "../db/model/friendSuggestion.model.js";
+import { userRepository } from "../db/repositories/user.repository.js";
+import { FriendSuggestionRepository } from "../db/repositories/friendSuggestion.repository.js";
+import { FriendRequestRepository } from "../db/repositories/friendRequest.repository.js";
+import { BlockedUserRepository } from "../db/repositories/blockedUser.repository.js";
+import { ConversationRepository } from "../db/repositories/conversation.repository.js";
+import { CommentRepository } from "../db/repositories/comment.repository.js";
+import { appError } from "../utils/classError.js";
+import { attachRelationships } from "./relationships.js";
+
+const _userModel = new userRepository(userModel);
+const suggestionRepo = new FriendSuggestionRepository();
+const friendRequestRepo = new FriendRequestRepository();
+const blockedUserRepo = new BlockedUserRepository();
+const conversationRepo = new ConversationRepository();
+const commentRepo = new CommentRepository();
+
+// Points per signal. A one-to-one chat says the most about knowing someone,
+// a post both commented on the least.
+const SUGGESTION_WEIGHTS = {
+  mutualFriend: 3,
+  sharedGroup: 2,
+  sharedConversation: 4,
+  coCommentedPost: 1,
+};
+
+// Candidates kept per user, how long a ranking is served before it is
+// computed again, and how far back shared comments count
+const MAX_SUGGESTIONS = 50;
+const SUGGESTIONS_TTL_MS = 6 * 60 * 60 * 1000;
+const CO_COMMENT_WINDOW_DAYS = 90;
+
+// Users never suggested: the user, friends and anyone with a pending
+// request either way, users who rejected the user, blocks either way and
+// dismissed suggestions
+const getExcludedIds = async (userId: string, dismissed: Types.ObjectId[]) => {
+  const [requestRelatedIds, blockedIds] = await Promise.all([
+    friendRequestRepo.getRequestRelatedUserIds(userId),
+    blockedUserRepo.getBlockRelatedUserIds(userId),
+  ]);
+  return new Set(
+    [userId, ...requestRelatedIds, ...blockedIds, ...dismissed].map((id) =>
+      id.toString()
+    )
+  );
+};
+
+// Rank the people the user may know from mutual friends, shared group and
+// one-to-one conversations and posts both commented on
+export const computeFriendSuggestions = async (
+  userId: string,
+  dismissed: Types.ObjectId[] = []
+): Promise<ISuggestedFriend[]> => {
+  const since = new Date(
+    Date.now() - CO_COMMENT_WINDOW_DAYS * 24 * 60 * 60 * 1000
+  );
+  const [friendIds, excluded, partners, postIds] = await Promise.all([
+    friendRequestRepo.getFriendIds(userId),
+    getExcludedIds(userId, dismissed),
+    conversationRepo.getConversationPartners(userId),
+    commentRepo.getCommentedPostIds(userId, since),
+  ]);
+  const excludedIds = Array.from(excluded, (id) => new Types.ObjectId(id));
+  const [mutuals, coCommenters] = await Promise.all([
+    friendRequestRepo.getFriendsOfFriends(friendIds, excludedIds),
+    commentRepo.getCoCommenters(postIds, userId),
+  ]);
+
+  const candidates = new Map<string, ISuggestedFriend>();
+  const candidate = (id: Types.ObjectId) => {
+    const key = id.toString();
+    if (!candidates.has(key)) {
+      candidates.set(key, {
+        user: id,
+        score: 0,
+        mutualFriends: 0,
+        sharedGroups: 0,
+        sharedConversations: 0,
+        coCommentedPosts: 0,
+      });
+    }
+    return candidates.get(key)!;
+  };
+
+  mutuals.forEach(
+    (entry) => (candidate(entry._id).mutualFriends = entry.count)
+  );
+  partners.forEach((entry) => {
+    const suggested = candidate(entry._id);
+    suggested.sharedGroups = entry.groups;
+    suggested.sharedConversations = entry.conversations;
+  });
+  coCommenters.forEach(
+    (entry) => (candidate(entry._id).coCommentedPosts = entry.count)
+  );
+
+  return Array.from(candidates.values())
+    .filter((suggested) => !excluded.has(suggested.user.toString()))
+    .map((suggested) => ({
+      ...suggested,
+      score:
+        suggested.mutualFriends * SUGGESTION_WEIGHTS.mutualFriend +
+        suggested.sharedGroups * SUGGESTION_WEIGHTS.sharedGroup +
+        suggested.sharedConversations * SUGGESTION_WEIGHTS.sharedConversation +
+        suggested.coCommentedPosts * SUGGESTION_WEIGHTS.coCommentedPost,
+    }))
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        b.mutualFriends - a.mutualFriends ||
+        a.user.toString().localeCompare(b.user.toString())
+    )
+    .slice(0, MAX_SUGGESTIONS);
+};
+
+// The user's top suggestions. The stored ranking is served while fresh and
+// only checked against relationships that changed since, so this stays
+// cheap enough for every app open.
+export const getFriendSuggestions = async (userId: string, limit = 10) => {
+  const stored = await suggestionRepo.findByUser(userId);
+  const dismissed = stored?.dismissed || [];
+  const isFresh =
+    !!stored?.computedAt &&
+    Date.now() - stored.computedAt.getTime() < SUGGESTIONS_TTL_MS;
+
+  let candidates: ISuggestedFriend[];
+  if (isFresh) {
+    const excluded = await getExcludedIds(userId, dismissed);
+    candidates = stored!.candidates.filter(
+      (suggested) => !excluded.has(suggested.user.toString())
+    );
+  } else {
+    candidates = await computeFriendSuggestions(userId, dismissed);
+    await suggestionRepo.saveCandidates(userId, candidates, new Date());
+  }
+
+  // Deleted, frozen and unconfirmed accounts drop out here
+  const top = candidates.slice(0, limit * 2);
+  const users = await attachRelationships(
+    userId,
+    await _userModel.findActiveByIds(top.map((suggested) => suggested.user))
+  );
+  const usersById = new Map(users.map((user) => [user._id.toString(), user]));
+
+  return top
+    .filter((suggested) => usersById.has(suggested.user.toString()))
+    .slice(0, limit)
+    .map((suggested) => ({
+      user: usersById.get(suggested.user.toString()),
+      score: suggested.score,
+      mutualFriends: suggested.mutualFriends,
+      sharedGroups: suggested.sharedGroups,
+      sharedConversations: suggested.sharedConversations,
+      coCommentedPosts: suggested.coCommentedPosts,
+    }));
+};
+
+// Stop suggesting a user
+export const dismissFriendSuggestion = async (
+  userId: string,
+  dismissedId: string
+) => {
+  if (userId === dismissedId) {
+    throw new appError("You cannot dismiss yourself", 400);
+  }
+  if (!(await _userModel.findOne({ _id: dismissedId }))) {
+    throw new appError("User not found", 404);
+  }
+
+  await suggestionRepo.dismiss(userId, dismissedId);
+};
+
+// Recompute the suggestions of users whose relationships changed on their
+// next read
+export const invalidateFriendSuggestions = (userIds: string[]) =>
+  suggestionRepo.invalidate(userIds);
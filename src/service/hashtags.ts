@@ -0,0 +1,186 @@
+import { Types } from "mongoose";
+import postModel, {
+  IPost,
+  PostAvailability,
+  PostStatus,
+} from "../db/model/post.model.js";
+import {
+  HashtagRepository,
+  HashtagUsageChange,
+} from "../db/repositories/hashtag.repository.js";
+import { PostRepository } from "../db/repositories/post.repository.js";
+import { loadPostViewer, postAccessFilter } from "./postAccess.js";
+
+const hashtagRepo = new HashtagRepository();
+const postRepo = new PostRepository(postModel);
+
+// Upper bound of tags kept on a single post (manual + extracted)
+export const MAX_POST_TAGS = 20;
+
+const HASHTAG_PATTERN = /(^|[^\p{L}\p{N}_#&])#([\p{L}\p{N}_]{1,50})/gu;
+
+export enum TrendingWindow {
+  hour = "hour",
+  day = "day",
+  week = "week",
+}
+
+const TRENDING_WINDOW_MS: Record<TrendingWindow, number> = {
+  [TrendingWindow.hour]: 60 * 60 * 1000,
+  [TrendingWindow.day]: 24 * 60 * 60 * 1000,
+  [TrendingWindow.week]: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Unique lowercase hashtags written as #tag in the content
+export const extractHashtags = (content: string): string[] => {
+  const tags = new Set<string>();
+  for (const match of content.matchAll(HASHTAG_PATTERN)) {
+    // Pure numbers ("#1") are references, not topics
+    if (/^\d+$/.test(match[2]!)) continue;
+    tags.add(match[2]!.toLowerCase());
+  }
+  return Array.from(tags);
+};
+
+// Combine manually set tags with the hashtags of the content. On edits,
+// tags that came from the previous content are dropped so removing a
+// hashtag from the text also removes it from the post.
+export const buildPostTags = (
+  content: string,
+  manualTags: string[] = [],
+  previousContent?: string
+) => {
+  const previousHashtags = new Set(
+    previousContent ? extractHashtags(previousContent) : []
+  );
+  const tags = new Set(
+    manualTags
+      .map((tag) => tag.trim().toLowerCase())
+      .filter((tag) => tag && !previousHashtags.has(tag))
+  );
+  for (const tag of extractHashtags(content)) tags.add(tag);
+
+  return Array.from(tags).slice(0, MAX_POST_TAGS);
+};
+
+// ============ USAGE TRACKING ============
+
+export interface PostHashtagSnapshot {
+  tags: string[];
+  countable: boolean;
+  publishedAt: Date;
+}
+
+// Only public, published, live posts count towards trending
+export const toHashtagSnapshot = (
+  post: Partial<IPost> | null
+): PostHashtagSnapshot | null => {
+  if (!post) return null;
+
+  return {
+    tags: post.tags || [],
+    countable:
+      post.status === PostStatus.published &&
+      post.availability === PostAvailability.public &&
+      !post.isFrozen &&
+      !post.isDeleted,
+    publishedAt: post.publishedAt || post.createdAt || new Date(),
+  };
+};
+
+const toHourBucket = (date: Date) => {
+  const bucket = new Date(date);
+  bucket.setUTCMinutes(0, 0, 0);
+  return bucket;
+};
+
+// Move a post's tag usage from its previous state to its new one. Posts are
+// counted in the hour they were published so a later freeze, delete or
+// availability change takes back exactly what was added.
+export const syncPostHashtags = async (
+  before: PostHashtagSnapshot | null,
+  after: PostHashtagSnapshot | null
+) => {
+  const changes = new Map<string, HashtagUsageChange>();
+  const apply = (snapshot: PostHashtagSnapshot | null, delta: number) => {
+    if (!snapshot || !snapshot.countable) return;
+    const bucket = toHourBucket(snapshot.publishedAt);
+    for (const tag of snapshot.tags) {
+      const key = `${tag}|${bucket.getTime()}`;
+      const change = changes.get(key) || { tag, bucket, delta: 0 };
+      change.delta += delta;
+      changes.set(key, change);
+    }
+  };
+
+  apply(before, -1);
+  apply(after, 1);
+
+  await hashtagRepo.applyUsageChanges(
+    Array.from(changes.values()).filter((change) => change.delta !== 0)
+  );
+};
+
+export const getTrendingHashtags = (
+  window: TrendingWindow,
+  limit = 10,
+  now: Date = new Date()
+) =>
+  hashtagRepo.getTrending(
+    toHourBucket(new Date(now.getTime() - TRENDING_WINDOW_MS[window])),
+    limit
+  );
+
+// ============ TAG FEED CURSORS ============
+
+// Cursors encode (createdAt, _id) so posts sharing a timestamp are never
+// skipped or repeated between pages
+export const encodeTagFeedCursor = (post: {
+  createdAt: Date;
+  _id: Types.ObjectId;
+}) =>
+  Buffer.from(`${post.createdAt.toISOString()}_${post._id}`).toString(
+    "base64url"
+  );
+
+export const decodeTagFeedCursor = (cursor: string) => {
+  const [createdAt, id] = Buffer.from(cursor, "base64url")
+    .toString()
+    .split("_");
+  const date = new Date(createdAt || "");
+  if (isNaN(date.getTime()) || !id || !Types.ObjectId.isValid(id)) {
+    return null;
+  }
+  return { createdAt: date, _id: new Types.ObjectId(id) };
+};
+
+// One page of a tag's feed. Posts of users the viewer blocked, or who
+// blocked the viewer, are left out.
+export const getTagFeed = async (
+  tag: string,
+  options: {
+    viewerId?: string | undefined;
+    cursor?: { createdAt: Date; _id: Types.ObjectId } | null;
+    limit?: number;
+  } = {}
+) => {
+  const { viewerId, cursor = null, limit = 10 } = options;
+  // Public posts only, and of those the ones the shared policy lets the
+  // viewer see (no blocked authors, not excluded from the post)
+  const accessFilter = viewerId
+    ? postAccessFilter(await loadPostViewer(viewerId))
+    : null;
+
+  const { data, hasNextPage } = await postRepo.getTagFeed(tag, {
+    limit,
+    cursor,
+    accessFilter,
+  });
+  const last = data[data.length - 1];
+
+  return {
+    posts: data,
+    hasNextPage,
+    nextCursor: hasNextPage && last ? encodeTagFeedCursor(last) : null,
+  };
+};
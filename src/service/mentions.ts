@@ -0,0 +1,123 @@
+import { Types } from "mongoose";
+import userModel from "../db/model/user.model.js";
+import { userRepository } from "../db/repositories/user.repository.js";
+import { BlockedUserRepository } from "../db/repositories/blockedUser.repository.js";
+import {
+  NotificationType,
+  sendNotificationToUser,
+} from "../socket/events/notification.events.js";
+import { PostAccessFields, userIsInPostAudience } from "./postAccess.js";
+
+const _userModel = new userRepository(userModel);
+const blockedUserRepo = new BlockedUserRepository();
+
+// Upper bound of users notified from a single piece of content
+const MAX_MENTIONS = 20;
+
+const MENTION_PATTERN = /(^|[^\w@])@([a-zA-Z0-9_]{3,30})\b/g;
+
+export type MentionSource = "post" | "comment" | "message";
+
+// Unique lowercase handles written as @handle in the content
+export const extractMentionHandles = (content: string): string[] => {
+  const handles = new Set<string>();
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    handles.add(match[2]!.toLowerCase());
+    if (handles.size >= MAX_MENTIONS) break;
+  }
+  return Array.from(handles);
+};
+
+// Whether a user is in a post's audience, whatever the post's status
+export const canSeePost = (userId: string, post: PostAccessFields) =>
+  userIsInPostAudience(userId, post);
+
+// Resolve @handles to user ids, dropping the author, anyone with a block
+// relationship to the author and anyone who cannot see the content
+const resolveMentions = async (
+  content: string,
+  authorId: string,
+  canSee: (userId: string) => Promise<boolean>
+): Promise<Types.ObjectId[]> => {
+  const handles = extractMentionHandles(content);
+  if (handles.length === 0) return [];
+
+  const users = await _userModel.findByHandles(handles);
+
+  const mentions: Types.ObjectId[] = [];
+  for (const user of users) {
+    const userId = user._id.toString();
+    if (userId === authorId) continue;
+    if (await blockedUserRepo.hasBlockRelationship(authorId, userId)) continue;
+    if (!(await canSee(userId))) continue;
+    mentions.push(user._id);
+  }
+
+  return mentions;
+};
+
+export const resolvePostMentions = (content: string, post: PostAccessFields) =>
+  resolveMentions(content, post.author._id.toString(), (userId) =>
+    canSeePost(userId, post)
+  );
+
+// Comments are visible to whoever can see the post they belong to
+export const resolveCommentMentions = (
+  content: string,
+  authorId: string,
+  post: PostAccessFields | null
+) => {
+  if (!post) return Promise.resolve([]);
+  return resolveMentions(content, authorId, (userId) =>
+    canSeePost(userId, post)
+  );
+};
+
+// Chat messages are only visible to the conversation's participants
+export const resolveMessageMentions = (
+  content: string,
+  senderId: string,
+  participants: Types.ObjectId[]
+) => {
+  const participantIds = new Set(participants.map((id) => id.toString()));
+  return resolveMentions(content, senderId, async (userId) =>
+    participantIds.has(userId)
+  );
+};
+
+// Mentions present now that were not there before an edit
+export const getNewMentions = (
+  mentions: Types.ObjectId[],
+  previousMentions: Types.ObjectId[] = []
+) => {
+  const previous = new Set(previousMentions.map((id) => id.toString()));
+  return mentions.filter((id) => !previous.has(id.toString()));
+};
+
+// Let the mentioned users know. Never rejects, so callers can leave it to
+// run in the background.
+export const notifyMentions = async (
+  mentions: Types.ObjectId[],
+  actorId: string,
+  source: MentionSource,
+  data: Record<string, string>
+) => {
+  if (mentions.length === 0) return;
+
+  try {
+    const actor = await _userModel.findOne({ _id: actorId });
+    const actorName = actor ? `${actor.fName} ${actor.lName}` : "Someone";
+
+    for (const userId of mentions) {
+      sendNotificationToUser(userId.toString(), {
+        type: NotificationType.MENTION,
+        title: "New Mention",
+        message: `${actorName} mentioned you in a ${source}`,
+        data: { ...data, userId: actorId, userName: actorName },
+        actorId,
+      });
+    }
+  } catch (error) {
+    console.error(`Failed to notify mentions in a ${source}:`, error);
+  }
+};
@@ -0,0 +1,184 @@
+import userModel, { NotificationChannel } from "../db/model/user.model.js";
+import { NotificationType } from "../db/model/notification.model.js";
+import { userRepository } from "../db/repositories/user.repository.js";
+import { NotificationRepository } from "../db/repositories/notification.repository.js";
+import { sendEmail } from "./sendEmail.js";
+import { notificationEmailTemplate } from "./email.template.js";
+import { Clock, systemClock } from "./clock.js";
+import {
+  canDeliver,
+  quietHoursEndAt,
+  resolveNotificationSettings,
+} from "./notificationPreferences.js";
+
+const _userModel = new userRepository(userModel);
+const notificationRepo = new NotificationRepository();
+
+export interface NotificationEmail {
+  notificationId?: string | undefined;
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string | undefined;
+}
+
+export type NotificationEmailResult = "sent" | "held" | "skipped";
+
+// ============ DELIVERY ============
+
+// Email a notification when the recipient opted in for its type. Inside
+// their quiet hours the email is held on the notification and sent by the
+// scheduler once the quiet hours end.
+export const deliverNotificationEmail = async (
+  email: NotificationEmail,
+  now: Date = new Date()
+): Promise<NotificationEmailResult> => {
+  const user = await _userModel.findOne({ _id: email.userId });
+  if (!user || !user.email) return "skipped";
+
+  const settings = resolveNotificationSettings(user.notificationSettings);
+  if (!settings.preferences[email.type]?.email) return "skipped";
+
+  if (!canDeliver(settings, email.type, NotificationChannel.email, now)) {
+    if (!email.notificationId) return "skipped";
+    await notificationRepo.holdEmail(
+      email.notificationId,
+      quietHoursEndAt(settings.quietHours, now)
+    );
+    return "held";
+  }
+
+  await sendEmail({
+    to: user.email,
+    subject: email.title,
+    html: notificationEmailTemplate({
+      userName: user.userName || user.fName,
+      title: email.title,
+      message: email.message,
+      link: email.link,
+    }),
+  });
+
+  return "sent";
+};
+
+// ============ SCHEDULER ============
+
+// A held email that keeps failing is retried after 5 minutes, doubling per
+// failure, and dropped after the last attempt
+const HELD_EMAIL_RETRY_BASE_MS = 5 * 60 * 1000;
+const HELD_EMAIL_MAX_ATTEMPTS = 5;
+
+const heldEmailRetryDelay = (failedAttempts: number) =>
+  HELD_EMAIL_RETRY_BASE_MS * 2 ** failedAttempts;
+
+// Sends the emails held back by quiet hours once they are due
+export class HeldNotificationEmailScheduler {
+  private timer: unknown = null;
+  private running = false;
+
+  constructor(
+    private readonly clock: Clock = systemClock,
+    private readonly intervalMs: number = 5 * 60 * 1000,
+    private readonly batchSize: number = 200
+  ) {}
+
+  start() {
+    if (this.timer) return;
+    this.timer = this.clock.setTimeout(() => this.tick(), 0);
+    console.log("Held notification email scheduler started");
+  }
+
+  stop() {
+    if (this.timer) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Send one batch of due emails. Notifications read in the meantime need
+  // no email, and failed sends are retried with a backoff until
+  // HELD_EMAIL_MAX_ATTEMPTS, then dropped. Returns how many notifications
+  // were handled.
+  runDue = async () => {
+    if (this.running) return 0;
+    this.running = true;
+
+    let handled = 0;
+    try {
+      const now = this.clock.now();
+      const due = await notificationRepo.findHeldEmailsDue(now, this.batchSize);
+
+      for (const notification of due) {
+        const id = notification._id.toString();
+        try {
+          const result = notification.isRead
+            ? "skipped"
+            : await deliverNotificationEmail(
+                {
+                  notificationId: id,
+                  userId: notification.recipient.toString(),
+                  type: notification.type,
+                  title: notification.title,
+                  message: notification.message,
+                  link: notification.link,
+                },
+                now
+              );
+
+          // Still in quiet hours (the settings changed), already held again
+          if (result !== "held") await notificationRepo.releaseHeldEmail(id);
+          handled++;
+        } catch (error) {
+          console.error(
+            `Failed to send held email for notification ${id}:`,
+            error
+          );
+          await this.recordFailure(id, now, notification.emailFailedAttempts);
+        }
+      }
+    } catch (error) {
+      console.error("Held notification email run failed:", error);
+    } finally {
+      this.running = false;
+    }
+
+    return handled;
+  };
+
+  // Move a failed email behind the rest, or give up on it
+  private recordFailure = async (
+    id: string,
+    now: Date,
+    failedAttempts: number = 0
+  ) => {
+    try {
+      if (failedAttempts + 1 >= HELD_EMAIL_MAX_ATTEMPTS) {
+        console.error(`Dropping held email for notification ${id}`);
+        await notificationRepo.releaseHeldEmail(id);
+      } else {
+        await notificationRepo.retryHeldEmail(
+          id,
+          new Date(now.getTime() + heldEmailRetryDelay(failedAttempts))
+        );
+      }
+    } catch (error) {
+      console.error(`Failed to record held email failure of ${id}:`, error);
+    }
+  };
+
+  private tick = async () => {
+    const handled = await this.runDue();
+    if (!this.timer) return;
+
+    // A full batch means more is due, keep going right away
+    this.timer = this.clock.setTimeout(
+      () => this.tick(),
+      handled >= this.batchSize ? 0 : this.intervalMs
+    );
+  };
+}
+
+export const heldNotificationEmailScheduler =
+  new HeldNotificationEmailScheduler();
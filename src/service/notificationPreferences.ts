@@ -0,0 +1,220 @@
+import userModel, {
+  DigestFrequency,
+  IDigestSettings,
+  INotificationChannelPreference,
+  INotificationSettings,
+  IQuietHours,
+  NotificationChannel,
+} from "../db/model/user.model.js";
+import { NotificationType } from "../db/model/notification.model.js";
+import { userRepository } from "../db/repositories/user.repository.js";
+
+const _userModel = new userRepository(userModel);
+
+export interface ResolvedNotificationSettings {
+  preferences: Record<NotificationType, INotificationChannelPreference>;
+  quietHours: IQuietHours;
+  digest: IDigestSettings;
+}
+
+type Optional<T> = { [K in keyof T]?: T[K] | undefined };
+
+// Partial update payload shared by the REST endpoint and GraphQL
+export interface NotificationSettingsInput {
+  preferences?:
+    | Partial<
+        Record<NotificationType, Optional<INotificationChannelPreference>>
+      >
+    | undefined;
+  quietHours?: Optional<IQuietHours> | undefined;
+  digest?: { frequency?: DigestFrequency | undefined } | undefined;
+}
+
+// Live pings and the digest are on by default, emails only for system notices
+const defaultChannelPreference = (
+  type: NotificationType
+): INotificationChannelPreference => ({
+  socket: true,
+  email: type === NotificationType.SYSTEM,
+  digest: true,
+});
+
+const defaultQuietHours: IQuietHours = {
+  enabled: false,
+  start: "22:00",
+  end: "07:00",
+  timezone: "UTC",
+};
+
+export const isValidTimeZone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Merge stored settings with the defaults so every type and channel is set
+export const resolveNotificationSettings = (
+  settings?: INotificationSettings | null
+): ResolvedNotificationSettings => {
+  const stored: any = settings?.preferences;
+  const storedPreferences: Record<string, any> =
+    stored instanceof Map ? Object.fromEntries(stored) : stored || {};
+
+  const preferences = {} as Record<
+    NotificationType,
+    INotificationChannelPreference
+  >;
+  for (const type of Object.values(NotificationType)) {
+    const defaults = defaultChannelPreference(type);
+    const current = storedPreferences[type] || {};
+    preferences[type] = {
+      socket: current.socket ?? defaults.socket,
+      email: current.email ?? defaults.email,
+      digest: current.digest ?? defaults.digest,
+    };
+  }
+
+  const quietHours: any = settings?.quietHours || {};
+  const digest: any = settings?.digest || {};
+
+  return {
+    preferences,
+    quietHours: {
+      enabled: quietHours.enabled ?? defaultQuietHours.enabled,
+      start: quietHours.start || defaultQuietHours.start,
+      end: quietHours.end || defaultQuietHours.end,
+      timezone: quietHours.timezone || defaultQuietHours.timezone,
+    },
+    digest: {
+      frequency: digest.frequency || DigestFrequency.off,
+      ...(digest.lastSentAt && { lastSentAt: digest.lastSentAt }),
+    },
+  };
+};
+
+const MINUTE_MS = 60 * 1000;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours! * 60 + minutes!;
+};
+
+// Minutes since midnight on the wall clock of the timezone
+const minuteOfDay = (timezone: string, date: Date) => {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: isValidTimeZone(timezone) ? timezone : "UTC",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+
+  const hour = Number(parts.find((part) => part.type === "hour")?.value);
+  const minute = Number(parts.find((part) => part.type === "minute")?.value);
+  return hour * 60 + minute;
+};
+
+// Quiet hours are evaluated on the wall clock of the user's own timezone and
+// may wrap around midnight (e.g. 22:00 - 07:00)
+export const isWithinQuietHours = (
+  quietHours: IQuietHours,
+  date: Date = new Date()
+) => {
+  if (!quietHours.enabled || quietHours.start === quietHours.end) return false;
+
+  const now = minuteOfDay(quietHours.timezone, date);
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+
+  return start < end ? now >= start && now < end : now >= start || now < end;
+};
+
+// When the quiet hours the date falls in are over, so held back emails can
+// go out then. Assumes the date is within quiet hours.
+export const quietHoursEndAt = (
+  quietHours: IQuietHours,
+  date: Date = new Date()
+) => {
+  const now = minuteOfDay(quietHours.timezone, date);
+  const minutesLeft = (toMinutes(quietHours.end) - now + 24 * 60) % (24 * 60);
+
+  const startOfMinute = date.getTime() - (date.getTime() % MINUTE_MS);
+  return new Date(startOfMinute + minutesLeft * MINUTE_MS);
+};
+
+// Whether a notification of this type may go out on the given channel now.
+// Quiet hours hold back live pings and emails but not the digest, and system
+// notices (account status changes) are never muted by them.
+export const canDeliver = (
+  settings: ResolvedNotificationSettings,
+  type: NotificationType,
+  channel: NotificationChannel,
+  date: Date = new Date()
+) => {
+  if (!settings.preferences[type][channel]) return false;
+  if (
+    channel === NotificationChannel.digest ||
+    type === NotificationType.SYSTEM
+  ) {
+    return true;
+  }
+  return !isWithinQuietHours(settings.quietHours, date);
+};
+
+// Notification types the user wants summarised in the digest
+export const getDigestTypes = (settings: ResolvedNotificationSettings) =>
+  Object.values(NotificationType).filter(
+    (type) => settings.preferences[type].digest
+  );
+
+// Whether the type is wanted on any channel at all
+export const isTypeEnabled = (
+  settings: ResolvedNotificationSettings,
+  type: NotificationType
+) => Object.values(settings.preferences[type]).some(Boolean);
+
+export const getUserNotificationSettings = async (userId: string) => {
+  const user = await _userModel.findOne({ _id: userId });
+  return resolveNotificationSettings(user?.notificationSettings);
+};
+
+// Turn a partial settings payload into dotted $set paths so untouched
+// types and channels keep their stored values
+export const buildNotificationSettingsUpdate = (
+  input: NotificationSettingsInput
+) => {
+  const update: Record<string, boolean | string> = {};
+
+  for (const [type, channels] of Object.entries(input.preferences || {})) {
+    for (const [channel, enabled] of Object.entries(channels || {})) {
+      if (enabled === undefined) continue;
+      update[`notificationSettings.preferences.${type}.${channel}`] = enabled;
+    }
+  }
+
+  for (const [key, value] of Object.entries(input.quietHours || {})) {
+    if (value === undefined) continue;
+    update[`notificationSettings.quietHours.${key}`] = value;
+  }
+
+  if (input.digest?.frequency) {
+    update["notificationSettings.digest.frequency"] = input.digest.frequency;
+  }
+
+  return update;
+};
+
+export const updateUserNotificationSettings = async (
+  userId: string,
+  input: NotificationSettingsInput
+) => {
+  const update = buildNotificationSettingsUpdate(input);
+
+  if (Object.keys(update).length > 0) {
+    await _userModel.updateOne({ _id: userId }, { $set: update });
+  }
+
+  return getUserNotificationSettings(userId);
+};
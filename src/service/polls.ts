@@ -0,0 +1,210 @@
+import postModel, { IPoll, IPost, PostStatus } from "../db/model/post.model.js";
+import { PostRepository } from "../db/repositories/post.repository.js";
+import { PollVoteRepository } from "../db/repositories/pollVote.repository.js";
+import { PollVoterRepository } from "../db/repositories/pollVoter.repository.js";
+import { appError } from "../utils/classError.js";
+import { userCanViewPost } from "./postAccess.js";
+
+const postRepo = new PostRepository(postModel);
+const pollVoteRepo = new PollVoteRepository();
+const pollVoterRepo = new PollVoterRepository();
+
+export interface PollInput {
+  question: string;
+  options: string[];
+  multipleChoice?: boolean | undefined;
+  anonymous?: boolean | undefined;
+  closesAt?: string | Date | undefined;
+}
+
+// Multipart requests carry the poll as a JSON string
+export const parsePollField = (value: unknown) => {
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+// The poll stored on a new post; option ids are assigned by mongoose
+export const buildPoll = (input: PollInput) =>
+  ({
+    question: input.question.trim(),
+    options: input.options.map((text) => ({
+      text: text.trim(),
+      votesCount: 0,
+    })),
+    multipleChoice: !!input.multipleChoice,
+    anonymous: !!input.anonymous,
+    ...(input.closesAt && { closesAt: new Date(input.closesAt) }),
+    votersCount: 0,
+  }) as IPoll;
+
+export const isPollClosed = (poll: Pick<IPoll, "closesAt">, now = new Date()) =>
+  !!poll.closesAt && poll.closesAt.getTime() <= now.getTime();
+
+// What clients get of a poll: its counts, whether it is closed and the
+// options the viewer voted for
+export const toPollView = (poll: IPoll, userVotes: string[] = []) => {
+  const totalVotes = poll.options.reduce(
+    (sum, option) => sum + option.votesCount,
+    0
+  );
+
+  return {
+    question: poll.question,
+    multipleChoice: poll.multipleChoice,
+    anonymous: poll.anonymous,
+    closesAt: poll.closesAt || null,
+    isClosed: isPollClosed(poll),
+    votersCount: poll.votersCount,
+    totalVotes,
+    options: poll.options.map((option) => ({
+      _id: option._id,
+      text: option.text,
+      votesCount: option.votesCount,
+      // Share of the voters who picked the option
+      percentage: poll.votersCount
+        ? Math.round((option.votesCount / poll.votersCount) * 100)
+        : 0,
+    })),
+    userVotes,
+  };
+};
+
+// A post's poll as the viewer sees it, null for posts without one
+export const getPollResults = async (
+  post: Pick<IPost, "_id" | "poll">,
+  viewerId: string | null
+) => {
+  if (!post.poll) return null;
+
+  const userVotes = viewerId
+    ? await pollVoteRepo.getUserVotes(post._id.toString(), viewerId)
+    : [];
+  return toPollView(post.poll, userVotes);
+};
+
+// Load a post whose poll the user may see, 404 when there is none and 403
+// when the post is outside their audience
+const findPollPost = async (userId: string, postId: string) => {
+  const post = await postRepo.findById(postId);
+  if (!post) throw new appError("Post not found", 404);
+  if (!post.poll) throw new appError("This post has no poll", 404);
+
+  if (
+    post.status !== PostStatus.published ||
+    !(await userCanViewPost(userId, post))
+  ) {
+    throw new appError("You don't have permission to access this poll", 403);
+  }
+  return post as typeof post & { poll: IPoll };
+};
+
+const findOpenPollPost = async (userId: string, postId: string) => {
+  const post = await findPollPost(userId, postId);
+  if (isPollClosed(post.poll)) {
+    throw new appError("This poll is closed", 400);
+  }
+  return post;
+};
+
+// ============ VOTING ============
+
+// Vote for options of a poll. In a single choice poll the one option
+// replaces the user's earlier vote; in a multiple choice poll the options
+// are added to it.
+export const votePoll = async (
+  userId: string,
+  postId: string,
+  optionIds: string[]
+) => {
+  const post = await findOpenPollPost(userId, postId);
+  const { poll } = post;
+
+  const choices = Array.from(new Set(optionIds));
+  const known = new Set(poll.options.map((option) => option._id.toString()));
+  if (choices.length === 0 || choices.some((id) => !known.has(id))) {
+    throw new appError("Unknown poll option", 400);
+  }
+  if (!poll.multipleChoice && choices.length > 1) {
+    throw new appError("This poll allows a single choice", 400);
+  }
+
+  const optionDeltas: Record<string, number> = {};
+  let votersDelta = 0;
+
+  if (!poll.multipleChoice) {
+    const [optionId] = choices as [string];
+    const previous = await pollVoteRepo.setSingleVote(postId, userId, optionId);
+    if (previous !== optionId) {
+      optionDeltas[optionId] = 1;
+      if (previous) optionDeltas[previous] = -1;
+      else votersDelta = 1;
+    }
+  } else {
+    for (const optionId of choices) {
+      if (await pollVoteRepo.addVote(postId, userId, optionId)) {
+        optionDeltas[optionId] = 1;
+      }
+    }
+    const added = Object.keys(optionDeltas).length;
+    if (added > 0 && (await pollVoterRepo.addVotes(postId, userId, added))) {
+      votersDelta = 1;
+    }
+  }
+
+  await postRepo.incrementPollCounts(postId, optionDeltas, votersDelta);
+  return getPollResults((await postRepo.findById(postId))!, userId);
+};
+
+// Withdraw the user's votes, for the given options only or all of them
+export const unvotePoll = async (
+  userId: string,
+  postId: string,
+  optionIds?: string[]
+) => {
+  const { poll } = await findOpenPollPost(userId, postId);
+
+  const removed = await pollVoteRepo.removeVotes(postId, userId, optionIds);
+  if (removed.length > 0) {
+    const optionDeltas: Record<string, number> = {};
+    removed.forEach((optionId) => (optionDeltas[optionId] = -1));
+
+    // A single choice vote is the user's only one
+    const leftPoll = poll.multipleChoice
+      ? await pollVoterRepo.removeVotes(postId, userId, removed.length)
+      : true;
+    await postRepo.incrementPollCounts(postId, optionDeltas, leftPoll ? -1 : 0);
+  }
+
+  return getPollResults((await postRepo.findById(postId))!, userId);
+};
+
+// Who voted in a poll, optionally for one option. Anonymous polls keep
+// their voters hidden from everyone.
+export const getPollVoters = async (
+  userId: string,
+  postId: string,
+  options: { optionId?: string | undefined; page?: number; limit?: number }
+) => {
+  const post = await findPollPost(userId, postId);
+  if (post.poll.anonymous) {
+    throw new appError("Votes in this poll are anonymous", 403);
+  }
+
+  const { data, total, page, limit } = await pollVoteRepo.getVoters(
+    postId,
+    options
+  );
+  return {
+    voters: data.map((vote) => ({ user: vote.user, option: vote.option })),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+};
@@ -0,0 +1,454 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Types } from "mongoose";
+import { PostAvailability, PostStatus } from "../db/model/post.model.js";
+import { CommentStatus } from "../db/model/comment.model.js";
+import {
+  canViewComment,
+  canViewPost,
+  CommentAccessFields,
+  isInPostAudience,
+  PostAccessFields,
+  postAccessFilter,
+  PostViewer,
+} from "./postAccess.js";
+
+const authorId = new Types.ObjectId();
+const viewerId = new Types.ObjectId();
+const listId = new Types.ObjectId();
+const otherListId = new Types.ObjectId();
+
+const post = (fields: Partial<PostAccessFields> = {}): PostAccessFields => ({
+  author: authorId,
+  availability: PostAvailability.public,
+  status: PostStatus.published,
+  isFrozen: false,
+  isDeleted: false,
+  audienceLists: [],
+  excludedUsers: [],
+  ...fields,
+});
+
+const viewer = (
+  fields: {
+    id?: Types.ObjectId;
+    isAdmin?: boolean;
+    friend?: boolean;
+    blocked?: boolean;
+    lists?: Types.ObjectId[];
+  } = {}
+): PostViewer => ({
+  id: (fields.id || viewerId).toString(),
+  isAdmin: !!fields.isAdmin,
+  friendIds: new Set(fields.friend ? [authorId.toString()] : []),
+  blockedIds: new Set(fields.blocked ? [authorId.toString()] : []),
+  listIds: new Set((fields.lists || []).map((id) => id.toString())),
+});
+
+const author = viewer({ id: authorId });
+const stranger = viewer();
+const friend = viewer({ friend: true });
+const listMember = viewer({ friend: true, lists: [listId] });
+
+describe("isInPostAudience", () => {
+  const cases: [string, PostAccessFields, PostViewer, boolean][] = [
+    ["public post, stranger", post(), stranger, true],
+    ["public post, friend", post(), friend, true],
+    [
+      "friends post, stranger",
+      post({ availability: PostAvailability.friends }),
+      stranger,
+      false,
+    ],
+    [
+      "friends post, friend",
+      post({ availability: PostAvailability.friends }),
+      friend,
+      true,
+    ],
+    [
+      "private post, friend",
+      post({ availability: PostAvailability.private }),
+      friend,
+      false,
+    ],
+    [
+      "lists post, friend on a targeted list",
+      post({ availability: PostAvailability.lists, audienceLists: [listId] }),
+      listMember,
+      true,
+    ],
+    [
+      "lists post, friend on one of several targeted lists",
+      post({
+        availability: PostAvailability.lists,
+        audienceLists: [otherListId, listId],
+      }),
+      listMember,
+      true,
+    ],
+    [
+      "lists post, friend on no targeted list",
+      post({ availability: PostAvailability.lists, audienceLists: [listId] }),
+      viewer({ friend: true, lists: [otherListId] }),
+      false,
+    ],
+    [
+      "lists post, friend on no list at all",
+      post({ availability: PostAvailability.lists, audienceLists: [listId] }),
+      friend,
+      false,
+    ],
+    [
+      "lists post, list member no longer a friend",
+      post({ availability: PostAvailability.lists, audienceLists: [listId] }),
+      viewer({ lists: [listId] }),
+      false,
+    ],
+    [
+      "lists post without lists, friend",
+      post({ availability: PostAvailability.lists, audienceLists: [] }),
+      listMember,
+      false,
+    ],
+    [
+      "public post, excluded user",
+      post({ excludedUsers: [viewerId] }),
+      stranger,
+      false,
+    ],
+    [
+      "friends post, excluded friend",
+      post({
+        availability: PostAvailability.friends,
+        excludedUsers: [viewerId],
+      }),
+      friend,
+      false,
+    ],
+    [
+      "lists post, excluded list member",
+      post({
+        availability: PostAvailability.lists,
+        audienceLists: [listId],
+        excludedUsers: [viewerId],
+      }),
+      listMember,
+      false,
+    ],
+    [
+      "public post, other user excluded",
+      post({ excludedUsers: [new Types.ObjectId()] }),
+      stranger,
+      true,
+    ],
+    [
+      "public post, block relationship",
+      post(),
+      viewer({ blocked: true }),
+      false,
+    ],
+    [
+      "friends post, friend with block relationship",
+      post({ availability: PostAvailability.friends }),
+      viewer({ friend: true, blocked: true }),
+      false,
+    ],
+    [
+      "private post, author",
+      post({ availability: PostAvailability.private }),
+      author,
+      true,
+    ],
+    [
+      "lists post, author",
+      post({ availability: PostAvailability.lists, audienceLists: [listId] }),
+      author,
+      true,
+    ],
+    [
+      "private post, admin",
+      post({ availability: PostAvailability.private }),
+      viewer({ isAdmin: true }),
+      false,
+    ],
+  ];
+
+  for (const [name, target, reader, expected] of cases) {
+    it(`${name}: ${expected ? "in" : "out"}`, () => {
+      assert.equal(isInPostAudience(target, reader), expected);
+    });
+  }
+
+  it("accepts a populated author", () => {
+    const populated = post({ author: { _id: authorId } as any });
+    assert.equal(isInPostAudience(populated, author), true);
+    assert.equal(
+      isInPostAudience(
+        { ...populated, availability: PostAvailability.friends },
+        friend
+      ),
+      true
+    );
+  });
+});
+
+describe("canViewPost", () => {
+  const hidden: [string, Partial<PostAccessFields>][] = [
+    ["draft", { status: PostStatus.draft }],
+    ["archived", { status: PostStatus.archived }],
+    ["frozen status", { status: PostStatus.frozen }],
+    ["frozen", { isFrozen: true }],
+    ["deleted", { isDeleted: true }],
+  ];
+
+  for (const [name, fields] of hidden) {
+    it(`${name} post: hidden from its audience`, () => {
+      assert.equal(canViewPost(post(fields), stranger), false);
+    });
+
+    it(`${name} post: open to the author`, () => {
+      assert.equal(canViewPost(post(fields), author), true);
+    });
+
+    it(`${name} post: open to admins`, () => {
+      assert.equal(canViewPost(post(fields), viewer({ isAdmin: true })), true);
+    });
+  }
+
+  it("published post: follows the audience", () => {
+    const friendsPost = post({ availability: PostAvailability.friends });
+    assert.equal(canViewPost(friendsPost, friend), true);
+    assert.equal(canViewPost(friendsPost, stranger), false);
+
+    const listsPost = post({
+      availability: PostAvailability.lists,
+      audienceLists: [listId],
+    });
+    assert.equal(canViewPost(listsPost, listMember), true);
+    assert.equal(canViewPost(listsPost, friend), false);
+  });
+
+  it("admins see posts outside their audience", () => {
+    const admin = viewer({ isAdmin: true, blocked: true });
+    assert.equal(
+      canViewPost(
+        post({
+          availability: PostAvailability.private,
+          excludedUsers: [viewerId],
+        }),
+        admin
+      ),
+      true
+    );
+  });
+
+  it("authors see their posts whatever the audience", () => {
+    assert.equal(
+      canViewPost(
+        post({
+          availability: PostAvailability.lists,
+          audienceLists: [],
+          excludedUsers: [authorId],
+        }),
+        author
+      ),
+      true
+    );
+  });
+});
+
+// Reading a comment thread and reacting to comments go through
+// canViewComment, on the comment's post
+describe("canViewComment", () => {
+  const commenterId = new Types.ObjectId();
+  const commenter = viewer({ id: commenterId, friend: true });
+
+  const comment = (
+    fields: Partial<CommentAccessFields> = {}
+  ): CommentAccessFields => ({
+    author: commenterId,
+    status: CommentStatus.active,
+    isDeleted: false,
+    ...fields,
+  });
+
+  const listsPost = post({
+    availability: PostAvailability.lists,
+    audienceLists: [listId],
+  });
+
+  const cases: [
+    string,
+    CommentAccessFields,
+    PostAccessFields,
+    PostViewer,
+    boolean,
+  ][] = [
+    [
+      "active comment on a public post, stranger",
+      comment(),
+      post(),
+      stranger,
+      true,
+    ],
+    [
+      "active comment on a friends post, stranger",
+      comment(),
+      post({ availability: PostAvailability.friends }),
+      stranger,
+      false,
+    ],
+    [
+      "active comment on a friends post, friend",
+      comment(),
+      post({ availability: PostAvailability.friends }),
+      friend,
+      true,
+    ],
+    [
+      "active comment on a lists post, list member",
+      comment(),
+      listsPost,
+      listMember,
+      true,
+    ],
+    [
+      "active comment on a lists post, friend off the lists",
+      comment(),
+      listsPost,
+      friend,
+      false,
+    ],
+    [
+      "active comment on a post the viewer is excluded from",
+      comment(),
+      post({ excludedUsers: [viewerId] }),
+      stranger,
+      false,
+    ],
+    [
+      "active comment on a public post, block relationship",
+      comment(),
+      post(),
+      viewer({ blocked: true }),
+      false,
+    ],
+    [
+      "own comment on a post the commenter lost access to",
+      comment(),
+      post({ availability: PostAvailability.lists, audienceLists: [listId] }),
+      commenter,
+      false,
+    ],
+    [
+      "active comment on a private post, admin",
+      comment(),
+      post({ availability: PostAvailability.private }),
+      viewer({ isAdmin: true }),
+      true,
+    ],
+    [
+      "hidden comment, stranger",
+      comment({ status: CommentStatus.hidden }),
+      post(),
+      stranger,
+      false,
+    ],
+    [
+      "hidden comment, its author",
+      comment({ status: CommentStatus.hidden }),
+      post(),
+      commenter,
+      true,
+    ],
+    [
+      "hidden comment, post author",
+      comment({ status: CommentStatus.hidden }),
+      post(),
+      author,
+      true,
+    ],
+    [
+      "frozen comment, stranger",
+      comment({ status: CommentStatus.frozen }),
+      post(),
+      stranger,
+      false,
+    ],
+    [
+      "frozen comment, post author",
+      comment({ status: CommentStatus.frozen }),
+      post(),
+      author,
+      false,
+    ],
+    [
+      "frozen comment, its author",
+      comment({ status: CommentStatus.frozen }),
+      post(),
+      commenter,
+      true,
+    ],
+    [
+      "deleted comment, its author",
+      comment({ isDeleted: true }),
+      post(),
+      commenter,
+      false,
+    ],
+    [
+      "active comment on a draft post, stranger",
+      comment(),
+      post({ status: PostStatus.draft }),
+      stranger,
+      false,
+    ],
+  ];
+
+  for (const [name, target, thread, reader, expected] of cases) {
+    it(`${name}: ${expected ? "visible" : "hidden"}`, () => {
+      assert.equal(canViewComment(target, thread, reader), expected);
+    });
+  }
+});
+
+describe("postAccessFilter", () => {
+  const ids = (values: Types.ObjectId[]) => values.map(String);
+
+  it("lets viewers see their own posts", () => {
+    const [own] = postAccessFilter(stranger).$or;
+    assert.deepEqual(own, { author: viewerId });
+  });
+
+  it("limits other posts to published, unfrozen, unblocked ones", () => {
+    const [, others] = postAccessFilter(viewer({ blocked: true })).$or;
+    assert.equal(others!.status, PostStatus.published);
+    assert.deepEqual(others!.isFrozen, { $ne: true });
+    assert.deepEqual(ids(others!.author!.$nin), [authorId.toString()]);
+    assert.deepEqual(others!.excludedUsers, { $ne: viewerId });
+  });
+
+  it("matches each availability to the viewer's friends and lists", () => {
+    const [, others] = postAccessFilter(listMember).$or;
+    const [publicPosts, friendsPosts, listsPosts] = others!.$or!;
+
+    assert.deepEqual(publicPosts, { availability: PostAvailability.public });
+    assert.equal(friendsPosts!.availability, PostAvailability.friends);
+    assert.deepEqual(ids(friendsPosts!.author!.$in), [authorId.toString()]);
+    assert.equal(listsPosts!.availability, PostAvailability.lists);
+    assert.deepEqual(ids(listsPosts!.author!.$in), [authorId.toString()]);
+    assert.deepEqual(ids(listsPosts!.audienceLists!.$in), [listId.toString()]);
+  });
+
+  it("never matches private posts of others", () => {
+    const [, others] = postAccessFilter(
+      viewer({ isAdmin: true, friend: true, lists: [listId] })
+    ).$or;
+    assert.ok(
+      others!.$or!.every(
+        (condition) => condition.availability !== PostAvailability.private
+      )
+    );
+  });
+});
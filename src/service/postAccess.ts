@@ -0,0 +1,252 @@
+import { Types } from "mongoose";
+import postModel, {
+  IPost,
+  PostAvailability,
+  PostStatus,
+} from "../db/model/post.model.js";
+import {
+  CommentStatus,
+  CommentType,
+  IComment,
+} from "../db/model/comment.model.js";
+import { PostRepository } from "../db/repositories/post.repository.js";
+import { CommentRepository } from "../db/repositories/comment.repository.js";
+import { FriendRequestRepository } from "../db/repositories/friendRequest.repository.js";
+import { BlockedUserRepository } from "../db/repositories/blockedUser.repository.js";
+import { FriendListRepository } from "../db/repositories/friendList.repository.js";
+
+const friendRequestRepo = new FriendRequestRepository();
+const blockedUserRepo = new BlockedUserRepository();
+const friendListRepo = new FriendListRepository();
+const postRepo = new PostRepository(postModel);
+const commentRepo = new CommentRepository();
+
+// What the policy needs to know about a viewer. Loaded once for a viewer and
+// reused across posts, or scoped to a single author for one-off checks.
+export interface PostViewer {
+  id: string;
+  isAdmin: boolean;
+  friendIds: Set<string>;
+  blockedIds: Set<string>; // Blocks in either direction
+  listIds: Set<string>; // Friend lists the viewer is a member of
+}
+
+export type PostAccessFields = Pick<IPost, "author" | "availability"> &
+  Partial<
+    Pick<
+      IPost,
+      "status" | "isFrozen" | "isDeleted" | "audienceLists" | "excludedUsers"
+    >
+  >;
+
+export type CommentAccessFields = Pick<IComment, "author" | "status"> &
+  Partial<Pick<IComment, "isDeleted">>;
+
+const includesId = (ids: Types.ObjectId[] | undefined, id: string) =>
+  !!ids?.some((entry) => entry.toString() === id);
+
+// ============ POLICY ============
+
+// Whether the viewer is in the audience the author picked: the author
+// always; never anyone with a block relationship to the author or who was
+// excluded; anyone for public posts, the author's friends for friends-only
+// posts, friends on one of the targeted lists for list posts and nobody
+// else for private ones
+export const isInPostAudience = (
+  post: PostAccessFields,
+  viewer: PostViewer
+) => {
+  const authorId = post.author._id.toString();
+  if (viewer.id === authorId) return true;
+  if (viewer.blockedIds.has(authorId)) return false;
+  if (includesId(post.excludedUsers, viewer.id)) return false;
+
+  switch (post.availability) {
+    case PostAvailability.public:
+      return true;
+    case PostAvailability.friends:
+      return viewer.friendIds.has(authorId);
+    case PostAvailability.lists:
+      return (
+        viewer.friendIds.has(authorId) &&
+        !!post.audienceLists?.some((id) => viewer.listIds.has(id.toString()))
+      );
+    default:
+      return false;
+  }
+};
+
+// Whether the viewer may open a post: the author and admins always, anyone
+// else only published, unfrozen posts they are in the audience of
+export const canViewPost = (post: PostAccessFields, viewer: PostViewer) => {
+  if (viewer.id === post.author._id.toString() || viewer.isAdmin) return true;
+  if (post.status !== PostStatus.published || post.isFrozen || post.isDeleted) {
+    return false;
+  }
+  return isInPostAudience(post, viewer);
+};
+
+// Whether the viewer may open a comment on a post: only when they can view
+// the post, and for comments that aren't active only their author, admins
+// and, for hidden ones, the post author
+export const canViewComment = (
+  comment: CommentAccessFields,
+  post: PostAccessFields,
+  viewer: PostViewer
+) => {
+  if (comment.isDeleted || !canViewPost(post, viewer)) return false;
+  if (viewer.id === comment.author._id.toString() || viewer.isAdmin) {
+    return true;
+  }
+
+  switch (comment.status) {
+    case CommentStatus.active:
+      return true;
+    case CommentStatus.hidden:
+      return viewer.id === post.author._id.toString();
+    default:
+      return false;
+  }
+};
+
+// The same rules as canViewPost as a query condition, for feeds and lists
+// of posts. Admins get no exemption here, feeds are never moderation tools.
+export const postAccessFilter = (viewer: PostViewer) => {
+  const viewerId = new Types.ObjectId(viewer.id);
+  const toIds = (ids: Set<string>) =>
+    Array.from(ids, (id) => new Types.ObjectId(id));
+  const friendIds = toIds(viewer.friendIds);
+
+  return {
+    $or: [
+      { author: viewerId },
+      {
+        status: PostStatus.published,
+        isFrozen: { $ne: true },
+        author: { $nin: toIds(viewer.blockedIds) },
+        excludedUsers: { $ne: viewerId },
+        $or: [
+          { availability: PostAvailability.public },
+          {
+            availability: PostAvailability.friends,
+            author: { $in: friendIds },
+          },
+          {
+            availability: PostAvailability.lists,
+            author: { $in: friendIds },
+            audienceLists: { $in: toIds(viewer.listIds) },
+          },
+        ],
+      },
+    ],
+  };
+};
+
+// ============ LOADING ============
+
+const toIdSet = (ids: Types.ObjectId[]) =>
+  new Set(ids.map((id) => id.toString()));
+
+// Everything about a viewer, for checking many posts of any authors
+export const loadPostViewer = async (
+  viewerId: string,
+  options: { isAdmin?: boolean } = {}
+): Promise<PostViewer> => {
+  const [friendIds, blockedIds, listIds] = await Promise.all([
+    friendRequestRepo.getFriendIds(viewerId),
+    blockedUserRepo.getBlockRelatedUserIds(viewerId),
+    friendListRepo.getListIdsWithMember(viewerId),
+  ]);
+  return {
+    id: viewerId,
+    isAdmin: !!options.isAdmin,
+    friendIds: toIdSet(friendIds),
+    blockedIds: toIdSet(blockedIds),
+    listIds: toIdSet(listIds),
+  };
+};
+
+// Only what matters for posts of one author, cheaper for a single check
+const loadViewerOfAuthor = async (
+  viewerId: string,
+  authorId: string,
+  isAdmin: boolean
+): Promise<PostViewer> => {
+  const viewer: PostViewer = {
+    id: viewerId,
+    isAdmin,
+    friendIds: new Set(),
+    blockedIds: new Set(),
+    listIds: new Set(),
+  };
+  if (viewerId === authorId) return viewer;
+
+  const [isBlocked, areFriends, listIds] = await Promise.all([
+    blockedUserRepo.hasBlockRelationship(viewerId, authorId),
+    friendRequestRepo.areFriends(viewerId, authorId),
+    friendListRepo.getListIdsWithMember(viewerId, authorId),
+  ]);
+  if (isBlocked) viewer.blockedIds.add(authorId);
+  if (areFriends) viewer.friendIds.add(authorId);
+  viewer.listIds = toIdSet(listIds);
+  return viewer;
+};
+
+// canViewPost for one user and one post
+export const userCanViewPost = async (
+  userId: string,
+  post: PostAccessFields,
+  options: { isAdmin?: boolean } = {}
+) =>
+  canViewPost(
+    post,
+    await loadViewerOfAuthor(
+      userId,
+      post.author._id.toString(),
+      !!options.isAdmin
+    )
+  );
+
+// isInPostAudience for one user and one post
+export const userIsInPostAudience = async (
+  userId: string,
+  post: PostAccessFields
+) =>
+  isInPostAudience(
+    post,
+    await loadViewerOfAuthor(userId, post.author._id.toString(), false)
+  );
+
+// Walk up a reply chain to the post the comment thread belongs to
+export const findCommentPost = async (comment: IComment) => {
+  let current: IComment | null = comment;
+  for (let depth = 0; current && depth <= 10; depth++) {
+    // commentOn may come populated
+    const parentId = current.commentOn._id.toString();
+    if (current.commentOnModel === CommentType.post) {
+      return postRepo.findById(parentId);
+    }
+    current = await commentRepo.findById(parentId);
+  }
+  return null;
+};
+
+// canViewComment for one user and one comment, false when its post is gone
+export const userCanViewComment = async (
+  userId: string,
+  comment: IComment,
+  options: { isAdmin?: boolean } = {}
+) => {
+  const post = await findCommentPost(comment);
+  if (!post) return false;
+
+  return canViewComment(
+    comment,
+    post,
+    await loadViewerOfAuthor(
+      userId,
+      post.author._id.toString(),
+      !!options.isAdmin
+    )
+  );
+};
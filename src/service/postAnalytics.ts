@@ -0,0 +1,203 @@
+import { Types } from "mongoose";
+import postModel, { IPost, PostStatus } from "../db/model/post.model.js";
+import { PostDailyMetric } from "../db/model/postDailyStats.model.js";
+import { PostRepository } from "../db/repositories/post.repository.js";
+import { PostViewRepository } from "../db/repositories/postView.repository.js";
+import {
+  DailyTotals,
+  PostDailyStatsRepository,
+} from "../db/repositories/postDailyStats.repository.js";
+import { FriendRequestRepository } from "../db/repositories/friendRequest.repository.js";
+
+const postRepo = new PostRepository(postModel);
+const postViewRepo = new PostViewRepository();
+const dailyStatsRepo = new PostDailyStatsRepository();
+const friendRequestRepo = new FriendRequestRepository();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Number of days analytics cover unless asked otherwise, and at most
+export const DEFAULT_ANALYTICS_DAYS = 30;
+export const MAX_ANALYTICS_DAYS = 90;
+
+// Hours before another view of the same user counts again.
+// POST_VIEW_WINDOW_HOURS overrides the default of 24.
+const getViewWindowMs = () => {
+  const hours = Number(process.env.POST_VIEW_WINDOW_HOURS);
+  return (Number.isFinite(hours) && hours > 0 ? hours : 24) * 60 * 60 * 1000;
+};
+
+// Midnight UTC of the day a date falls on
+const startOfDay = (date: Date) =>
+  new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+
+// ============ RECORDING ============
+
+// Count a user's view of a post: at most once per view window, never for
+// the author. Returns whether the view was counted.
+export const recordPostView = async (
+  post: Pick<IPost, "_id" | "author">,
+  viewerId: string
+) => {
+  const postId = post._id.toString();
+  const authorId = post.author._id.toString();
+  if (authorId === viewerId) return false;
+
+  const now = new Date();
+  const counted = await postViewRepo.recordView(
+    postId,
+    viewerId,
+    now,
+    new Date(now.getTime() - getViewWindowMs())
+  );
+  if (!counted) return false;
+
+  const isFriend = await friendRequestRepo.areFriends(viewerId, authorId);
+  await Promise.all([
+    postRepo.incrementViewsCount(postId),
+    dailyStatsRepo.increment(postId, authorId, startOfDay(now), {
+      views: 1,
+      friendViews: isFriend ? 1 : 0,
+    }),
+  ]);
+  return true;
+};
+
+// Count new activity on a post for the day: a reaction, a comment in its
+// thread or a share. Removals are not subtracted, the rollups count what
+// happened each day.
+export const recordPostActivity = async (
+  post: Pick<IPost, "_id" | "author">,
+  metric: Exclude<PostDailyMetric, "views" | "friendViews">
+) => {
+  await dailyStatsRepo.increment(
+    post._id,
+    post.author._id,
+    startOfDay(new Date()),
+    { [metric]: 1 }
+  );
+};
+
+// ============ REPORTING ============
+
+const emptyTotals = () => ({
+  views: 0,
+  friendViews: 0,
+  reactions: 0,
+  comments: 0,
+  shares: 0,
+});
+
+// One entry per day of the period, oldest first, days without activity at 0
+const toSeries = (days: number, rows: DailyTotals[]) => {
+  const rowsByDay = new Map(rows.map((row) => [row.day.getTime(), row]));
+  const first = startOfDay(new Date()).getTime() - (days - 1) * DAY_MS;
+
+  return Array.from({ length: days }, (_, index) => {
+    const day = new Date(first + index * DAY_MS);
+    const row = rowsByDay.get(day.getTime());
+    return {
+      date: day.toISOString().slice(0, 10),
+      views: row?.views || 0,
+      reactions: row?.reactions || 0,
+      comments: row?.comments || 0,
+      shares: row?.shares || 0,
+      friendViews: row?.friendViews || 0,
+    };
+  });
+};
+
+const sumSeries = (series: ReturnType<typeof toSeries>) =>
+  series.reduce((totals, day) => {
+    totals.views += day.views;
+    totals.friendViews += day.friendViews;
+    totals.reactions += day.reactions;
+    totals.comments += day.comments;
+    totals.shares += day.shares;
+    return totals;
+  }, emptyTotals());
+
+// Who the period's views came from
+const toAudience = ({
+  views,
+  friendViews,
+}: {
+  views: number;
+  friendViews: number;
+}) => ({
+  friends: friendViews,
+  nonFriends: views - friendViews,
+  friendsPercentage: views ? Math.round((friendViews / views) * 100) : 0,
+});
+
+const periodStart = (days: number) =>
+  new Date(startOfDay(new Date()).getTime() - (days - 1) * DAY_MS);
+
+// A post's lifetime counters and its daily activity over the last `days`
+export const getPostAnalytics = async (
+  post: IPost,
+  days = DEFAULT_ANALYTICS_DAYS
+) => {
+  const postId = post._id.toString();
+  const [rows, uniqueViewers] = await Promise.all([
+    dailyStatsRepo.getPostSeries(postId, periodStart(days)),
+    postViewRepo.countViewers(postId),
+  ]);
+  const series = toSeries(days, rows);
+  const { friendViews, ...period } = sumSeries(series);
+
+  return {
+    postId: post._id,
+    lifetime: {
+      views: post.viewsCount,
+      uniqueViewers,
+      reactions: Object.values(post.reactionCounts || {}).reduce(
+        (sum: number, count) => sum + (count || 0),
+        0
+      ),
+      comments: post.commentsCount,
+      shares: post.sharesCount,
+    },
+    period: { days, ...period },
+    audience: toAudience({ views: period.views, friendViews }),
+    series,
+  };
+};
+
+// Activity across all of an author's posts over the last `days`, with the
+// posts that drew the most views
+export const getAuthorAnalytics = async (
+  authorId: string,
+  days = DEFAULT_ANALYTICS_DAYS
+) => {
+  const from = periodStart(days);
+  const [rows, top, postsCount] = await Promise.all([
+    dailyStatsRepo.getAuthorSeries(authorId, from),
+    dailyStatsRepo.getTopPosts(authorId, from),
+    postRepo.countDocuments({
+      author: new Types.ObjectId(authorId),
+      status: PostStatus.published,
+    }),
+  ]);
+  const series = toSeries(days, rows);
+  const { friendViews, ...period } = sumSeries(series);
+
+  const posts = await postRepo.findByIds(top.map((entry) => entry._id));
+  const postsById = new Map(posts.map((post) => [post._id.toString(), post]));
+
+  return {
+    postsCount,
+    period: { days, ...period },
+    audience: toAudience({ views: period.views, friendViews }),
+    series,
+    topPosts: top
+      .filter((entry) => postsById.has(entry._id.toString()))
+      .map(({ _id, friendViews, ...totals }) => ({
+        postId: _id,
+        title: postsById.get(_id.toString())!.title || "",
+        ...totals,
+      })),
+  };
+};
@@ -0,0 +1,146 @@
+import userModel from "../db/model/user.model.js";
+import postModel, {
+  PostAvailability,
+  PostStatus,
+} from "../db/model/post.model.js";
+import { userRepository } from "../db/repositories/user.repository.js";
+import { PostRepository } from "../db/repositories/post.repository.js";
+import { FriendRequestRepository } from "../db/repositories/friendRequest.repository.js";
+import { BlockedUserRepository } from "../db/repositories/blockedUser.repository.js";
+import { FriendListRepository } from "../db/repositories/friendList.repository.js";
+import {
+  NotificationType,
+  sendNotificationToUser,
+} from "../socket/events/notification.events.js";
+import { notifyMentions } from "./mentions.js";
+import { Clock, systemClock } from "./clock.js";
+
+const _userModel = new userRepository(userModel);
+const postRepo = new PostRepository(postModel);
+const friendRequestRepo = new FriendRequestRepository();
+const blockedUserRepo = new BlockedUserRepository();
+const friendListRepo = new FriendListRepository();
+
+// ============ POST PUBLISHED ============
+
+// Side effects of a post going live for the first time, whether published
+// by its author or by the scheduler: mentioned users and the author's
+// friends in the post's audience are notified. Mentioned friends only get
+// the mention.
+export const announcePublishedPost = async (postId: string) => {
+  const post = await postRepo.findById(postId);
+  if (!post || post.status !== PostStatus.published) return;
+
+  const authorId = post.author._id.toString();
+  notifyMentions(post.mentions || [], authorId, "post", { postId });
+
+  if (post.availability === PostAvailability.private) return;
+
+  const [friendIds, blockedIds, author, listMemberIds] = await Promise.all([
+    friendRequestRepo.getFriendIds(authorId),
+    blockedUserRepo.getBlockRelatedUserIds(authorId),
+    _userModel.findOne({ _id: authorId }),
+    post.availability === PostAvailability.lists
+      ? friendListRepo.getMemberIds(post.audienceLists || [])
+      : Promise.resolve(null),
+  ]);
+  const skipped = new Set(
+    [
+      ...blockedIds,
+      ...(post.mentions || []),
+      ...(post.excludedUsers || []),
+    ].map((id) => id.toString())
+  );
+  // List posts only reach friends on the lists
+  const listMembers =
+    listMemberIds && new Set(listMemberIds.map((id) => id.toString()));
+  const authorName = author ? `${author.fName} ${author.lName}` : "A friend";
+  const message = post.sharedPost
+    ? `${authorName} shared a post`
+    : `${authorName} published a new post: ${post.title}`;
+
+  for (const friendId of friendIds) {
+    if (skipped.has(friendId.toString())) continue;
+    if (listMembers && !listMembers.has(friendId.toString())) continue;
+
+    sendNotificationToUser(friendId.toString(), {
+      type: NotificationType.FRIEND_POST,
+      title: "New Post",
+      message,
+      data: { postId, userId: authorId, userName: authorName },
+      actorId: authorId,
+    });
+  }
+};
+
+// ============ SCHEDULER ============
+
+// Publishes scheduled drafts once they are due. A run happens right at
+// start so posts that came due while the server was down go out on boot;
+// the atomic publish makes sure none goes out twice.
+export class PostScheduler {
+  private timer: unknown = null;
+  private running = false;
+
+  constructor(
+    private readonly clock: Clock = systemClock,
+    private readonly intervalMs: number = 60 * 1000,
+    private readonly batchSize: number = 100
+  ) {}
+
+  start() {
+    if (this.timer) return;
+    this.timer = this.clock.setTimeout(() => this.tick(), 0);
+    console.log("Post scheduler started");
+  }
+
+  stop() {
+    if (this.timer) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Publish every scheduled post due at the clock's current time. Posts
+  // that fail stay scheduled and are retried on the next run.
+  runDue = async () => {
+    if (this.running) return 0;
+    this.running = true;
+
+    let published = 0;
+    try {
+      const now = this.clock.now();
+      const postIds = await postRepo.findDueScheduledPostIds(
+        now,
+        this.batchSize
+      );
+
+      for (const postId of postIds) {
+        try {
+          if (await postRepo.publishScheduledPost(postId, now)) published++;
+        } catch (error) {
+          console.error(`Failed to publish scheduled post ${postId}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error("Scheduled post run failed:", error);
+    } finally {
+      this.running = false;
+    }
+
+    return published;
+  };
+
+  private tick = async () => {
+    const published = await this.runDue();
+    if (!this.timer) return;
+
+    // A full batch means more posts are due, keep going right away
+    this.timer = this.clock.setTimeout(
+      () => this.tick(),
+      published >= this.batchSize ? 0 : this.intervalMs
+    );
+  };
+}
+
+export const postScheduler = new PostScheduler();
@@ -0,0 +1,170 @@
+import { IPost } from "../db/model/post.model.js";
+import {
+  PostRevisionRepository,
+  PostRevisionSnapshot,
+} from "../db/repositories/postRevision.repository.js";
+
+const revisionRepo = new PostRevisionRepository();
+
+// Fields kept in a revision; changing any of them counts as an edit
+const REVISION_FIELDS = [
+  "title",
+  "content",
+  "tags",
+  "images",
+  "imageKeys",
+] as const;
+
+export interface DiffLine {
+  type: "equal" | "added" | "removed";
+  text: string;
+}
+
+export const toRevisionSnapshot = (
+  post: Partial<PostRevisionSnapshot>
+): PostRevisionSnapshot => ({
+  title: post.title || "",
+  content: post.content || "",
+  tags: [...(post.tags || [])],
+  images: [...(post.images || [])],
+  imageKeys: [...(post.imageKeys || [])],
+});
+
+// ============ RECORDING ============
+
+// Snapshot the post before an update that changes its title, content, tags
+// or images. Returns the fields that mark the post edited, to be merged
+// into the update; empty when nothing kept in revisions changes.
+export const recordPostRevision = async (
+  post: IPost,
+  update: Record<string, any>,
+  editorId: string
+) => {
+  const snapshot = toRevisionSnapshot(post);
+  const changed = REVISION_FIELDS.some(
+    (field) =>
+      update[field] !== undefined &&
+      JSON.stringify(update[field]) !== JSON.stringify(snapshot[field])
+  );
+  if (!changed) return {};
+
+  await revisionRepo.create(post._id, snapshot, editorId);
+  return { isEdited: true, editedAt: new Date() };
+};
+
+// The update that brings back an older revision. The current state is
+// recorded as a revision first, so a restore can be undone like any edit.
+export const buildRevisionRestore = async (
+  post: IPost,
+  revision: number,
+  editorId: string
+) => {
+  const found = await revisionRepo.findRevision(post._id.toString(), revision);
+  if (!found) return null;
+
+  const update = toRevisionSnapshot(found);
+  return {
+    ...update,
+    ...(await recordPostRevision(post, update, editorId)),
+  };
+};
+
+// ============ READING ============
+
+export const getPostRevisions = (
+  postId: string,
+  options: { page?: number; limit?: number } = {}
+) => revisionRepo.getRevisions(postId, options);
+
+export const getPostRevision = (postId: string, revision: number) =>
+  revisionRepo.findRevision(postId, revision);
+
+// State of a post at a revision number, or its current state
+export const getRevisionState = async (
+  post: IPost,
+  revision: number | "current"
+): Promise<PostRevisionSnapshot | null> => {
+  if (revision === "current") return toRevisionSnapshot(post);
+
+  const found = await revisionRepo.findRevision(post._id.toString(), revision);
+  return found ? toRevisionSnapshot(found) : null;
+};
+
+// ============ DIFF ============
+
+// Line diff over the longest common subsequence; the common head and tail
+// are skipped first so small edits of long posts stay cheap
+export const diffLines = (from: string, to: string): DiffLine[] => {
+  const a = from.split("\n");
+  const b = to.split("\n");
+
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (
+    tail < a.length - head &&
+    tail < b.length - head &&
+    a[a.length - 1 - tail] === b[b.length - 1 - tail]
+  ) {
+    tail++;
+  }
+
+  const midA = a.slice(head, a.length - tail);
+  const midB = b.slice(head, b.length - tail);
+
+  // lengths[i][j]: LCS of midA[i..] and midB[j..]
+  const lengths = Array.from({ length: midA.length + 1 }, () =>
+    new Array<number>(midB.length + 1).fill(0)
+  );
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lengths[i]![j] =
+        midA[i] === midB[j]
+          ? lengths[i + 1]![j + 1]! + 1
+          : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+    }
+  }
+
+  const lines: DiffLine[] = a
+    .slice(0, head)
+    .map((text) => ({ type: "equal", text }));
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      lines.push({ type: "equal", text: midA[i]! });
+      i++;
+      j++;
+    } else if (
+      i < midA.length &&
+      (j >= midB.length || lengths[i + 1]![j]! >= lengths[i]![j + 1]!)
+    ) {
+      lines.push({ type: "removed", text: midA[i]! });
+      i++;
+    } else {
+      lines.push({ type: "added", text: midB[j]! });
+      j++;
+    }
+  }
+  for (const text of a.slice(a.length - tail)) {
+    lines.push({ type: "equal", text });
+  }
+
+  return lines;
+};
+
+const diffLists = (from: string[], to: string[]) => ({
+  added: to.filter((item) => !from.includes(item)),
+  removed: from.filter((item) => !to.includes(item)),
+});
+
+// What changed from one state of a post to another
+export const diffRevisionStates = (
+  from: PostRevisionSnapshot,
+  to: PostRevisionSnapshot
+) => ({
+  title: { from: from.title, to: to.title, changed: from.title !== to.title },
+  content: diffLines(from.content, to.content),
+  tags: diffLists(from.tags, to.tags),
+  images: diffLists(from.images, to.images),
+});
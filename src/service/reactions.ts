@@ -0,0 +1,217 @@
+import postModel from "../db/model/post.model.js";
+import {
+  ReactionCounts,
+  ReactionTargetType,
+  ReactionType,
+} from "../db/model/reaction.model.js";
+import {
+  ReactionChange,
+  ReactionRepository,
+  ReactionTarget,
+} from "../db/repositories/reaction.repository.js";
+import { PostRepository } from "../db/repositories/post.repository.js";
+import { CommentRepository } from "../db/repositories/comment.repository.js";
+import { MessageRepository } from "../db/repositories/message.repository.js";
+import { ConversationRepository } from "../db/repositories/conversation.repository.js";
+import { appError } from "../utils/classError.js";
+import { recordPostActivity } from "./postAnalytics.js";
+import { userCanViewComment, userCanViewPost } from "./postAccess.js";
+
+const reactionRepo = new ReactionRepository();
+const postRepo = new PostRepository(postModel);
+const commentRepo = new CommentRepository();
+const messageRepo = new MessageRepository();
+const conversationRepo = new ConversationRepository();
+
+// Emoji clients render for each reaction type
+export const REACTION_EMOJI: Record<ReactionType, string> = {
+  [ReactionType.like]: "👍",
+  [ReactionType.dislike]: "👎",
+  [ReactionType.love]: "❤️",
+  [ReactionType.haha]: "😂",
+  [ReactionType.wow]: "😮",
+  [ReactionType.sad]: "😢",
+  [ReactionType.angry]: "😡",
+};
+
+// How a reaction on a post or comment reads in the owner's notification.
+// Likes keep their own group, the other reactions collapse together.
+export const describeReaction = (
+  type: ReactionType,
+  targetName: "post" | "comment"
+) =>
+  type === ReactionType.like
+    ? {
+        title: "New Like",
+        activity: `liked your ${targetName}`,
+        collapsedActivity: `liked your ${targetName}`,
+        groupSuffix: "",
+      }
+    : {
+        title: "New Reaction",
+        activity: `reacted ${REACTION_EMOJI[type]} to your ${targetName}`,
+        collapsedActivity: `reacted to your ${targetName}`,
+        groupSuffix: ":reactions",
+      };
+
+// Reaction types users can pick. REACTION_TYPES (comma separated, e.g.
+// "like,love,haha") narrows the set; existing reactions of a type that gets
+// turned off are kept and still counted.
+export const getEnabledReactionTypes = (): ReactionType[] => {
+  const configured = (process.env.REACTION_TYPES || "")
+    .split(",")
+    .map((type) => type.trim().toLowerCase())
+    .filter(Boolean);
+  const all = Object.values(ReactionType);
+  if (configured.length === 0) return all;
+
+  return all.filter((type) => configured.includes(type));
+};
+
+export const getReactionSet = () =>
+  getEnabledReactionTypes().map((type) => ({
+    type,
+    emoji: REACTION_EMOJI[type],
+  }));
+
+const incrementTargetCounts: Record<
+  ReactionTargetType,
+  (id: string, delta: Partial<ReactionCounts>) => Promise<void>
+> = {
+  [ReactionTargetType.post]: (id, delta) =>
+    postRepo.incrementReactionCounts(id, delta),
+  [ReactionTargetType.comment]: (id, delta) =>
+    commentRepo.incrementReactionCounts(id, delta),
+  [ReactionTargetType.message]: (id, delta) =>
+    messageRepo.incrementReactionCounts(id, delta),
+};
+
+// Load a target the user may react to, 404 when it does not exist and 403
+// when the user cannot see it
+export const findReactionTarget = async (
+  userId: string,
+  { target, targetType }: ReactionTarget
+) => {
+  switch (targetType) {
+    case ReactionTargetType.post: {
+      const post = await postRepo.findById(target);
+      if (!post) throw new appError("Post not found", 404);
+
+      if (!(await userCanViewPost(userId, post))) {
+        throw new appError(
+          "You don't have permission to react to this post",
+          403
+        );
+      }
+      return post;
+    }
+
+    case ReactionTargetType.comment: {
+      const comment = await commentRepo.findById(target);
+      if (!comment) throw new appError("Comment not found", 404);
+
+      if (!(await userCanViewComment(userId, comment))) {
+        throw new appError(
+          "You don't have permission to react to this comment",
+          403
+        );
+      }
+      return comment;
+    }
+
+    case ReactionTargetType.message: {
+      const message = await messageRepo.findById(target);
+      if (
+        !message ||
+        message.isDeleted ||
+        message.deletedFor?.some((id: any) => id.toString() === userId)
+      ) {
+        throw new appError("Message not found", 404);
+      }
+
+      const isParticipant = await conversationRepo.isParticipant(
+        message.conversation.toString(),
+        userId
+      );
+      if (!isParticipant) {
+        throw new appError(
+          "You are not a participant of this conversation",
+          403
+        );
+      }
+      return message;
+    }
+  }
+};
+
+// React to a target with toggle semantics (same type again removes the
+// reaction) and apply the change to the target's denormalized counts
+export const toggleReaction = async (
+  userId: string,
+  target: ReactionTarget,
+  reactionType: ReactionType
+): Promise<{ change: ReactionChange; counts: ReactionCounts }> => {
+  if (!getEnabledReactionTypes().includes(reactionType)) {
+    throw new appError(`Reaction "${reactionType}" is not available`, 400);
+  }
+
+  let change = await reactionRepo.toggleReaction(userId, target, reactionType);
+
+  if (change) {
+    const delta: Partial<ReactionCounts> = {};
+    if (change.previousType) delta[change.previousType] = -1;
+    if (change.reactionType) delta[change.reactionType] = 1;
+    await incrementTargetCounts[target.targetType](target.target, delta);
+
+    if (
+      change.action === "created" &&
+      target.targetType === ReactionTargetType.post
+    ) {
+      const post = await postRepo.findById(target.target);
+      if (post) await recordPostActivity(post, "reactions");
+    }
+  } else {
+    // A concurrent request of the same user won, report where it left off
+    const current = await reactionRepo.getUserReaction(userId, target);
+    change = {
+      action: "unchanged",
+      reactionType: current?.reactionType || null,
+      previousType: current?.reactionType || null,
+    };
+  }
+
+  const counts = await reactionRepo.getReactionCounts(target);
+  return { change, counts };
+};
+
+export const getUserReaction = async (userId: string, target: ReactionTarget) =>
+  (await reactionRepo.getUserReaction(userId, target))?.reactionType || null;
+
+// The user's reactions to a page of targets, keyed by target id
+export const getUserReactions = (
+  userId: string,
+  targetIds: (string | { toString(): string })[],
+  targetType: ReactionTargetType
+) =>
+  reactionRepo.getUserReactions(
+    userId,
+    targetIds.map((id) => id.toString()),
+    targetType
+  );
+
+// Who reacted to a target, optionally only with one type, with the counts
+// of every type
+export const getReactions = async (
+  target: ReactionTarget,
+  options: {
+    reactionType?: ReactionType | undefined;
+    page?: number;
+    limit?: number;
+  } = {}
+) => {
+  const [result, counts] = await Promise.all([
+    reactionRepo.getReactors(target, options),
+    reactionRepo.getReactionCounts(target),
+  ]);
+  return { reactions: result.data, pagination: result.pagination, counts };
+};
@@ -0,0 +1,160 @@
+import { Types } from "mongoose";
+import userModel from "../db/model/user.model.js";
+import { FriendRequestStatus } from "../db/model/friendRequest.model.js";
+import { userRepository } from "../db/repositories/user.repository.js";
+import { FriendRequestRepository } from "../db/repositories/friendRequest.repository.js";
+import { BlockedUserRepository } from "../db/repositories/blockedUser.repository.js";
+
+const _userModel = new userRepository(userModel);
+const friendRequestRepo = new FriendRequestRepository();
+const blockedUserRepo = new BlockedUserRepository();
+
+// Mutual friends shown next to the count
+const MUTUAL_FRIENDS_PREVIEW = 3;
+
+// Where the viewer stands with another user. Being blocked by the other
+// user is not revealed and reads as none.
+export enum RelationshipStatus {
+  friends = "friends",
+  pendingOutgoing = "pending_outgoing",
+  pendingIncoming = "pending_incoming",
+  blockedByMe = "blocked_by_me",
+  none = "none",
+}
+
+export interface Relationship {
+  status: RelationshipStatus;
+  requestId: Types.ObjectId | null; // The viewer's pending request
+  mutualFriendsCount: number;
+  mutualFriends: any[];
+}
+
+// The viewer's relationship with each of the users, keyed by user ID. The
+// cost is a fixed handful of queries however many users are asked for; the
+// viewer gets no entry for themselves.
+export const getRelationships = async (
+  viewerId: string,
+  userIds: (Types.ObjectId | string)[]
+): Promise<Map<string, Relationship>> => {
+  const ids = Array.from(
+    new Set(userIds.map((id) => id.toString()).filter((id) => id !== viewerId))
+  ).map((id) => new Types.ObjectId(id));
+  if (ids.length === 0) return new Map();
+
+  const [requests, blockedIds, friendIds] = await Promise.all([
+    friendRequestRepo.findWithUsers(viewerId, ids),
+    blockedUserRepo.getBlockedAmong(viewerId, ids),
+    friendRequestRepo.getFriendIds(viewerId),
+  ]);
+  const mutuals = await friendRequestRepo.getMutualFriends(
+    ids,
+    friendIds,
+    MUTUAL_FRIENDS_PREVIEW
+  );
+
+  const previewIds = mutuals.flatMap((entry) => entry.preview);
+  const previewUsers = previewIds.length
+    ? await _userModel.findActiveByIds(previewIds)
+    : [];
+  const usersById = new Map(
+    previewUsers.map((user) => [user._id.toString(), user])
+  );
+
+  const blocked = new Set(blockedIds.map((id) => id.toString()));
+  const requestsByUser = new Map(
+    requests.map((request) => [
+      request.sender.toString() === viewerId
+        ? request.receiver.toString()
+        : request.sender.toString(),
+      request,
+    ])
+  );
+  const mutualsByUser = new Map(
+    mutuals.map((entry) => [entry._id.toString(), entry])
+  );
+
+  const relationships = new Map<string, Relationship>();
+  for (const id of ids) {
+    const userId = id.toString();
+    const request = requestsByUser.get(userId);
+    const mutual = mutualsByUser.get(userId);
+
+    let status = RelationshipStatus.none;
+    if (blocked.has(userId)) {
+      status = RelationshipStatus.blockedByMe;
+    } else if (request?.status === FriendRequestStatus.accepted) {
+      status = RelationshipStatus.friends;
+    } else if (request) {
+      status =
+        request.sender.toString() === viewerId
+          ? RelationshipStatus.pendingOutgoing
+          : RelationshipStatus.pendingIncoming;
+    }
+
+    relationships.set(userId, {
+      status,
+      requestId:
+        status === RelationshipStatus.pendingOutgoing ? request!._id : null,
+      mutualFriendsCount: mutual?.count || 0,
+      mutualFriends: (mutual?.preview || [])
+        .map((friendId) => usersById.get(friendId.toString()))
+        .filter(Boolean),
+    });
+  }
+  return relationships;
+};
+
+// Add the viewer's relationship to each user of a response
+export const attachRelationships = async (viewerId: string, users: any[]) => {
+  const relationships = await getRelationships(
+    viewerId,
+    users.map((user) => user._id)
+  );
+  return users.map((user) => ({
+    ...(user.toObject ? user.toObject() : user),
+    relationship: relationships.get(user._id.toString()) || null,
+  }));
+};
+
+// Collects the lookups made while resolving one GraphQL request and answers
+// them with one getRelationships call per batch
+export const createRelationshipLoader = (viewerId: string) => {
+  const cache = new Map<string, Promise<Relationship | null>>();
+  let queue: {
+    userId: string;
+    resolve: (relationship: Relationship | null) => void;
+    reject: (error: unknown) => void;
+  }[] = [];
+
+  const flush = async () => {
+    const batch = queue;
+    queue = [];
+    try {
+      const relationships = await getRelationships(
+        viewerId,
+        batch.map((entry) => entry.userId)
+      );
+      batch.forEach((entry) =>
+        entry.resolve(relationships.get(entry.userId) || null)
+      );
+    } catch (error) {
+      batch.forEach((entry) => entry.reject(error));
+    }
+  };
+
+  return {
+    load: (userId: Types.ObjectId | string) => {
+      const key = userId.toString();
+      if (!cache.has(key)) {
+        cache.set(
+          key,
+          new Promise((resolve, reject) => {
+            if (queue.length === 0) setImmediate(flush);
+            queue.push({ userId: key, resolve, reject });
+          })
+        );
+      }
+      return cache.get(key)!;
+    },
+  };
+};
@@ -0,0 +1,346 @@
+import { Types } from "mongoose";
+import userModel from "../db/model/user.model.js";
+import postModel, { PostStatus } from "../db/model/post.model.js";
+import { IMessage } from "../db/model/message.model.js";
+import { userRepository } from "../db/repositories/user.repository.js";
+import { PostRepository } from "../db/repositories/post.repository.js";
+import { CommentRepository } from "../db/repositories/comment.repository.js";
+import { MessageRepository } from "../db/repositories/message.repository.js";
+import { ConversationRepository } from "../db/repositories/conversation.repository.js";
+import { getRelationships } from "./relationships.js";
+import { loadPostViewer, postAccessFilter, PostViewer } from "./postAccess.js";
+
+const _userModel = new userRepository(userModel);
+const postRepo = new PostRepository(postModel);
+const commentRepo = new CommentRepository();
+const messageRepo = new MessageRepository();
+const conversationRepo = new ConversationRepository();
+
+export enum SearchType {
+  users = "users",
+  posts = "posts",
+  comments = "comments",
+  messages = "messages",
+}
+
+// Length of the text window returned around the first match
+const SNIPPET_LENGTH = 160;
+
+export interface SearchFilters {
+  author?: string | undefined; // Post/comment author or message sender
+  tags?: string[] | undefined; // Posts only
+  conversationId?: string | undefined; // Messages only
+  from?: Date | undefined;
+  to?: Date | undefined;
+}
+
+export interface SearchHighlight {
+  start: number;
+  length: number;
+}
+
+export interface SearchHit {
+  type: SearchType;
+  score: number;
+  snippet: string;
+  highlights: SearchHighlight[];
+  item: any;
+}
+
+export interface SearchSection {
+  hits: SearchHit[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+interface ViewerContext {
+  viewerId: string;
+  blockedIds: Types.ObjectId[];
+  postViewer: PostViewer;
+}
+
+// ============ SNIPPETS ============
+
+// Plain words of the query; negated words (-word) are never highlighted
+export const parseSearchTerms = (query: string) => {
+  const words = query
+    .replace(/(^|\s)-\S+/g, " ")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}_]+/u)
+    .filter((word) => word.length >= 2);
+  return Array.from(new Set(words));
+};
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Window of the text around the first match with the offsets of every
+// matched word in it. Text indexes match stems, so words are matched on
+// the start of each term ("running" finds "run", "runs").
+export const buildSnippet = (
+  text: string,
+  terms: string[],
+  maxLength = SNIPPET_LENGTH
+) => {
+  const stems = terms.map((term) =>
+    escapeRegExp(term.slice(0, Math.max(3, term.length - 2)))
+  );
+  if (!text || stems.length === 0) {
+    return { snippet: (text || "").slice(0, maxLength), highlights: [] };
+  }
+
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}_])(?:${stems.join("|")})[\\p{L}\\p{N}_]*`,
+    "giu"
+  );
+  const first = pattern.exec(text);
+  pattern.lastIndex = 0;
+
+  const start = first
+    ? Math.max(0, Math.min(first.index - 40, text.length - maxLength))
+    : 0;
+  const snippet = text.slice(start, start + maxLength);
+
+  const highlights: SearchHighlight[] = [];
+  for (const match of snippet.matchAll(pattern)) {
+    highlights.push({ start: match.index!, length: match[0].length });
+  }
+
+  return { snippet, highlights };
+};
+
+const toHit = (
+  type: SearchType,
+  item: any,
+  text: string,
+  terms: string[]
+): SearchHit => ({
+  type,
+  score: item.get ? item.get("score") : item.score,
+  ...buildSnippet(text, terms),
+  item,
+});
+
+// ============ VISIBILITY ============
+
+const getViewerContext = async (viewerId: string): Promise<ViewerContext> => {
+  const postViewer = await loadPostViewer(viewerId);
+  return {
+    viewerId,
+    blockedIds: Array.from(
+      postViewer.blockedIds,
+      (id) => new Types.ObjectId(id)
+    ),
+    postViewer,
+  };
+};
+
+const dateFilter = (filters: SearchFilters) => {
+  if (!filters.from && !filters.to) return {};
+  return {
+    createdAt: {
+      ...(filters.from && { $gte: filters.from }),
+      ...(filters.to && { $lte: filters.to }),
+    },
+  };
+};
+
+// ============ PER TYPE ============
+
+const searchUsers = async (
+  query: string,
+  terms: string[],
+  context: ViewerContext,
+  page: number,
+  limit: number
+): Promise<SearchSection> => {
+  const result = await _userModel.searchText(
+    query,
+    { _id: { $nin: context.blockedIds } },
+    { page, limit }
+  );
+  const relationships = await getRelationships(
+    context.viewerId,
+    result.data.map((user) => user._id)
+  );
+
+  return {
+    ...result,
+    hits: result.data.map((user) => {
+      const hit = toHit(
+        SearchType.users,
+        user,
+        [user.fName, user.lName, user.handle && `@${user.handle}`]
+          .filter(Boolean)
+          .join(" "),
+        terms
+      );
+      return {
+        ...hit,
+        item: {
+          ...user.toObject(),
+          relationship: relationships.get(user._id.toString()) || null,
+        },
+      };
+    }),
+  };
+};
+
+// Published, unfrozen posts the viewer may open under the access policy
+const searchPosts = async (
+  query: string,
+  terms: string[],
+  context: ViewerContext,
+  filters: SearchFilters,
+  page: number,
+  limit: number
+): Promise<SearchSection> => {
+  const conditions: any[] = [postAccessFilter(context.postViewer)];
+  if (filters.author) {
+    conditions.push({ author: new Types.ObjectId(filters.author) });
+  }
+  if (filters.tags?.length) {
+    conditions.push({
+      tags: { $in: filters.tags.map((tag) => tag.toLowerCase()) },
+    });
+  }
+
+  const result = await postRepo.searchText(
+    query,
+    {
+      status: PostStatus.published,
+      isFrozen: { $ne: true },
+      ...dateFilter(filters),
+      $and: conditions,
+    },
+    { page, limit }
+  );
+
+  return {
+    ...result,
+    hits: result.data.map((post) =>
+      toHit(SearchType.posts, post, `${post.title}\n${post.content}`, terms)
+    ),
+  };
+};
+
+// Comments inherit the visibility of the post their thread belongs to,
+// checked in the query so pages and totals only cover visible comments
+const searchComments = async (
+  query: string,
+  terms: string[],
+  context: ViewerContext,
+  filters: SearchFilters,
+  page: number,
+  limit: number
+): Promise<SearchSection> => {
+  const conditions: any[] = [{ author: { $nin: context.blockedIds } }];
+  if (filters.author) {
+    conditions.push({ author: new Types.ObjectId(filters.author) });
+  }
+
+  const result = await commentRepo.searchText(
+    query,
+    { ...dateFilter(filters), $and: conditions },
+    postAccessFilter(context.postViewer),
+    { page, limit }
+  );
+
+  return {
+    ...result,
+    hits: result.data.map((comment) =>
+      toHit(SearchType.comments, comment, comment.content, terms)
+    ),
+  };
+};
+
+// Messages of the viewer's own conversations that they did not delete for
+// themselves, never from users blocked in either direction
+const searchMessages = async (
+  query: string,
+  terms: string[],
+  context: ViewerContext,
+  filters: SearchFilters,
+  page: number,
+  limit: number
+): Promise<SearchSection> => {
+  let conversationIds = await conversationRepo.getUserConversationIds(
+    context.viewerId
+  );
+  if (filters.conversationId) {
+    conversationIds = conversationIds.filter(
+      (id) => id.toString() === filters.conversationId
+    );
+  }
+  if (conversationIds.length === 0) {
+    return { hits: [], total: 0, page, limit };
+  }
+
+  const conditions: any[] = [{ sender: { $nin: context.blockedIds } }];
+  if (filters.author) {
+    conditions.push({ sender: new Types.ObjectId(filters.author) });
+  }
+
+  const result = await messageRepo.searchText(
+    query,
+    context.viewerId,
+    {
+      conversation: { $in: conversationIds },
+      ...dateFilter(filters),
+      $and: conditions,
+    },
+    { page, limit }
+  );
+
+  return {
+    ...result,
+    hits: result.data.map((message: IMessage) =>
+      toHit(SearchType.messages, message, message.content, terms)
+    ),
+  };
+};
+
+// ============ SEARCH ============
+
+// Search the requested types (all by default) for the viewer. Every type
+// is ranked by text relevance and paginated on its own.
+export const search = async (
+  viewerId: string,
+  query: string,
+  options: {
+    types?: SearchType[] | undefined;
+    filters?: SearchFilters | undefined;
+    page?: number | undefined;
+    limit?: number | undefined;
+  } = {}
+) => {
+  const {
+    types = Object.values(SearchType),
+    filters = {},
+    page = 1,
+    limit = 10,
+  } = options;
+  const context = await getViewerContext(viewerId);
+  const terms = parseSearchTerms(query);
+
+  const run = (type: SearchType) => {
+    switch (type) {
+      case SearchType.users:
+        return searchUsers(query, terms, context, page, limit);
+      case SearchType.posts:
+        return searchPosts(query, terms, context, filters, page, limit);
+      case SearchType.comments:
+        return searchComments(query, terms, context, filters, page, limit);
+      case SearchType.messages:
+        return searchMessages(query, terms, context, filters, page, limit);
+    }
+  };
+
+  const uniqueTypes = Array.from(new Set(types));
+  const sections = await Promise.all(uniqueTypes.map(run));
+
+  return Object.fromEntries(
+    uniqueTypes.map((type, index) => [type, sections[index]!])
+  ) as Partial<Record<SearchType, SearchSection>>;
+};
@@ -0,0 +1,209 @@
+import { Types } from "mongoose";
+import postModel, {
+  IPost,
+  PostAvailability,
+  PostStatus,
+} from "../db/model/post.model.js";
+import { PostRepository } from "../db/repositories/post.repository.js";
+import {
+  collapsedActorsMessage,
+  NotificationType,
+  sendNotificationToUser,
+} from "../socket/events/notification.events.js";
+import { appError } from "../utils/classError.js";
+import { canSeePost, resolvePostMentions } from "./mentions.js";
+import { buildPostTags } from "./hashtags.js";
+import { recordPostActivity } from "./postAnalytics.js";
+import { canViewPost, loadPostViewer, PostViewer } from "./postAccess.js";
+
+const postRepo = new PostRepository(postModel);
+
+// Why the original of a repost or quote is not shown
+export enum SharedPostUnavailableReason {
+  deleted = "deleted",
+  frozen = "frozen",
+  restricted = "restricted", // The viewer is outside its audience
+}
+
+export interface SharedPostView {
+  _id: Types.ObjectId;
+  post: any | null;
+  unavailableReason: SharedPostUnavailableReason | null;
+}
+
+export interface ShareInput {
+  content?: string | undefined; // Commentary, turns a repost into a quote
+  availability?: PostAvailability | undefined;
+}
+
+const isFrozen = (post: Pick<IPost, "isFrozen" | "status">) =>
+  post.isFrozen || post.status === PostStatus.frozen;
+
+// A repost without commentary adds nothing of its own
+const isPlainRepost = (post: Pick<IPost, "sharedPost" | "content">) =>
+  !!post.sharedPost && !post.content;
+
+// ============ SHARING ============
+
+// Load the post a user wants to share, 404 when it does not exist and 403
+// when it cannot be shared by them. Sharing a plain repost shares its
+// original instead.
+export const findShareablePost = async (userId: string, postId: string) => {
+  let post = await postRepo.findById(postId);
+  if (post && isPlainRepost(post)) {
+    post = await postRepo.findById(post.sharedPost!.toString());
+  }
+  if (!post || post.status === PostStatus.draft) {
+    throw new appError("Post not found", 404);
+  }
+
+  if (isFrozen(post)) {
+    throw new appError("Frozen posts cannot be shared", 403);
+  }
+  if (post.availability === PostAvailability.private) {
+    throw new appError("Private posts cannot be shared", 403);
+  }
+  if (
+    post.status !== PostStatus.published ||
+    !(await canSeePost(userId, post))
+  ) {
+    throw new appError("You don't have permission to share this post", 403);
+  }
+  return post;
+};
+
+// Repost a post, or quote it when there is commentary, and let its author
+// know. The share is published right away.
+export const sharePost = async (
+  user: { _id: Types.ObjectId; fName: string; lName: string },
+  postId: string,
+  { content, availability = PostAvailability.public }: ShareInput
+) => {
+  const userId = user._id.toString();
+  const original = await findShareablePost(userId, postId);
+  const commentary = content?.trim() || "";
+
+  const share = await postRepo.create({
+    author: user._id,
+    sharedPost: original._id,
+    ...(commentary && {
+      content: commentary,
+      tags: buildPostTags(commentary),
+      mentions: await resolvePostMentions(commentary, {
+        author: user._id,
+        availability,
+      }),
+    }),
+    status: PostStatus.published,
+    availability,
+  });
+
+  await recordPostActivity(original, "shares");
+
+  const authorId = original.author._id.toString();
+  if (authorId !== userId) {
+    const actorName = `${user.fName} ${user.lName}`;
+    const action = commentary ? "quoted your post" : "shared your post";
+    sendNotificationToUser(authorId, {
+      type: NotificationType.POST_SHARE,
+      title: "New Share",
+      message: `${actorName} ${action}`,
+      data: {
+        postId: original._id.toString(),
+        shareId: share._id.toString(),
+        userId,
+        userName: actorName,
+      },
+      actorId: userId,
+      groupKey: `${NotificationType.POST_SHARE}:${original._id}`,
+      collapsedMessage: collapsedActorsMessage(actorName, action),
+    });
+  }
+
+  return share;
+};
+
+// Keep the original's share count in line with its live reposts and
+// quotes; runs for every post change
+export const syncShareCount = async (
+  before: IPost | null,
+  after: IPost | null
+) => {
+  const sharedPost = (after || before)?.sharedPost;
+  if (!sharedPost) return;
+
+  const wasLive = !!before && !before.isDeleted;
+  const isLive = !!after && !after.isDeleted;
+  if (wasLive === isLive) return;
+
+  await postRepo.incrementSharesCount(sharedPost, isLive ? 1 : -1);
+};
+
+// ============ VIEWING ============
+
+// What a viewer gets to see of an original: the post itself, or a
+// placeholder once it was deleted, frozen or is outside their audience
+const toSharedPostView = (
+  sharedPostId: Types.ObjectId,
+  original: any | null,
+  viewer: PostViewer | null
+): SharedPostView => {
+  const placeholder = (unavailableReason: SharedPostUnavailableReason) => ({
+    _id: sharedPostId,
+    post: null,
+    unavailableReason,
+  });
+
+  if (!original) return placeholder(SharedPostUnavailableReason.deleted);
+  if (isFrozen(original)) {
+    return placeholder(SharedPostUnavailableReason.frozen);
+  }
+
+  const canView =
+    original.status === PostStatus.published &&
+    (viewer
+      ? canViewPost(original, viewer)
+      : original.availability === PostAvailability.public);
+  if (!canView) return placeholder(SharedPostUnavailableReason.restricted);
+
+  return { _id: sharedPostId, post: original, unavailableReason: null };
+};
+
+export const resolveSharedPost = async (
+  sharedPostId: Types.ObjectId,
+  viewerId: string | null
+) =>
+  toSharedPostView(
+    sharedPostId,
+    await postRepo.findById(sharedPostId.toString()),
+    viewerId ? await loadPostViewer(viewerId) : null
+  );
+
+// Embed the originals of the reposts and quotes in a page of posts
+export const attachSharedPosts = async (posts: any[], viewerId: string) => {
+  const sharedPostIds = posts
+    .map((post) => post.sharedPost)
+    .filter(Boolean) as Types.ObjectId[];
+  const originals = sharedPostIds.length
+    ? await postRepo.findByIds(sharedPostIds)
+    : [];
+  const originalsById = new Map(
+    originals.map((original) => [original._id.toString(), original])
+  );
+  // One viewer for the whole page, every original is checked against it
+  const viewer = sharedPostIds.length ? await loadPostViewer(viewerId) : null;
+
+  return posts.map((post) => {
+    const postObj = post.toObject ? post.toObject() : post;
+    if (!postObj.sharedPost) return postObj;
+
+    return {
+      ...postObj,
+      sharedPost: toSharedPostView(
+        postObj.sharedPost,
+        originalsById.get(postObj.sharedPost.toString()) || null,
+        viewer
+      ),
+    };
+  });
+};
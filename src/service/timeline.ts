@@ -0,0 +1,220 @@
+import { Types } from "mongoose";
+import postModel, {
+  IPost,
+  PostAvailability,
+  PostStatus,
+} from "../db/model/post.model.js";
+import { TIMELINE_RETENTION_DAYS } from "../db/model/timeline.model.js";
+import {
+  TimelinePost,
+  TimelineRepository,
+} from "../db/repositories/timeline.repository.js";
+import { PostRepository } from "../db/repositories/post.repository.js";
+import { FriendRequestRepository } from "../db/repositories/friendRequest.repository.js";
+import { BlockedUserRepository } from "../db/repositories/blockedUser.repository.js";
+import { FollowRepository } from "../db/repositories/follow.repository.js";
+import { canViewPost, loadPostViewer } from "./postAccess.js";
+
+const timelineRepo = new TimelineRepository();
+const postRepo = new PostRepository(postModel);
+const friendRequestRepo = new FriendRequestRepository();
+const blockedUserRepo = new BlockedUserRepository();
+const followRepo = new FollowRepository();
+
+// Upper bound of entries written by a rebuild, and per author when a new
+// friendship or follow backfills a timeline
+const TIMELINE_REBUILD_LIMIT = 500;
+const TIMELINE_BACKFILL_LIMIT = 50;
+
+const retentionStart = () =>
+  new Date(Date.now() - TIMELINE_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+// Live posts shared with friends belong in timelines; drafts, private,
+// frozen and deleted ones do not
+const isTimelinePost = (post: Partial<IPost> | null) =>
+  !!post &&
+  post.status === PostStatus.published &&
+  post.availability !== PostAvailability.private &&
+  !post.isFrozen &&
+  !post.isDeleted;
+
+const toTimelinePost = (post: Partial<IPost>): TimelinePost => ({
+  post: post._id!,
+  author: post.author!,
+  publishedAt: post.publishedAt || post.createdAt || new Date(),
+});
+
+// ============ FAN-OUT ============
+
+const isPublicPost = (post: Partial<IPost> | null) =>
+  isTimelinePost(post) && post!.availability === PostAvailability.public;
+
+// Follow a post change: a post that becomes visible is pushed to the
+// author's and every friend's timeline, and to the followers' when it is
+// public; one that stops being visible is pulled from all of them
+export const fanOutPost = async (
+  before: Partial<IPost> | null,
+  after: Partial<IPost> | null
+) => {
+  const wasVisible = isTimelinePost(before);
+  const isVisible = isTimelinePost(after);
+
+  if (!isVisible) {
+    if (wasVisible) await timelineRepo.removePost(before!._id!);
+    return;
+  }
+
+  const wasPublic = isPublicPost(before);
+  const isPublic = isPublicPost(after);
+  if (wasVisible && wasPublic === isPublic) return;
+
+  // Narrowed to friends: pull it from the followers' timelines by writing
+  // it anew for friends only
+  if (wasPublic) await timelineRepo.removePost(before!._id!);
+
+  const authorId = after!.author!.toString();
+  const [friendIds, followerIds] = await Promise.all([
+    friendRequestRepo.getFriendIds(authorId),
+    isPublic ? followRepo.getFollowerIds(authorId) : Promise.resolve([]),
+  ]);
+  const owners = new Map(
+    [after!.author!, ...friendIds, ...followerIds].map((id) => [
+      id.toString(),
+      id,
+    ])
+  );
+  const entry = toTimelinePost(after!);
+
+  await timelineRepo.addEntries(
+    Array.from(owners.values()).map((owner) => ({ owner, ...entry }))
+  );
+};
+
+// Bring two users' timelines in line with their current relationship in
+// both directions: friends see each other's recent posts, followers the
+// public ones, and anyone else, or anyone behind a block, has the other
+// user's entries purged
+export const syncRelationshipTimelines = async (
+  userId: string,
+  otherId: string
+) => {
+  const isBlocked = await blockedUserRepo.hasBlockRelationship(userId, otherId);
+
+  const sync = async (ownerId: string, authorId: string) => {
+    const [areFriends, isFollowing] = isBlocked
+      ? [false, false]
+      : await Promise.all([
+          friendRequestRepo.areFriends(ownerId, authorId),
+          followRepo.isFollowing(ownerId, authorId),
+        ]);
+
+    // Followers who are no longer friends keep the public posts only
+    if (!areFriends) {
+      await timelineRepo.removeAuthorFromTimeline(ownerId, authorId);
+    }
+    if (!areFriends && !isFollowing) return;
+
+    const posts = await postRepo.getTimelinePosts(
+      [new Types.ObjectId(authorId)],
+      {
+        since: retentionStart(),
+        limit: TIMELINE_BACKFILL_LIMIT,
+        publicOnly: !areFriends,
+      }
+    );
+    await timelineRepo.addEntries(
+      posts.map((post) => ({
+        owner: new Types.ObjectId(ownerId),
+        ...toTimelinePost(post),
+      }))
+    );
+  };
+
+  await Promise.all([sync(userId, otherId), sync(otherId, userId)]);
+};
+
+// Regenerate a user's timeline from scratch out of their own and their
+// friends' recent posts and the public ones of the users they follow
+export const rebuildTimeline = async (userId: string) => {
+  const [friendIds, followingIds, blockedIds] = await Promise.all([
+    friendRequestRepo.getFriendIds(userId),
+    followRepo.getFollowingIds(userId),
+    blockedUserRepo.getBlockRelatedUserIds(userId),
+  ]);
+  const blocked = new Set(blockedIds.map((id) => id.toString()));
+  const authorIds = [
+    new Types.ObjectId(userId),
+    ...friendIds.filter((id) => !blocked.has(id.toString())),
+  ];
+  const included = new Set(authorIds.map((id) => id.toString()));
+  const followedIds = followingIds.filter(
+    (id) => !included.has(id.toString()) && !blocked.has(id.toString())
+  );
+
+  const options = { since: retentionStart(), limit: TIMELINE_REBUILD_LIMIT };
+  const [friendPosts, followedPosts] = await Promise.all([
+    postRepo.getTimelinePosts(authorIds, options),
+    followedIds.length > 0
+      ? postRepo.getTimelinePosts(followedIds, { ...options, publicOnly: true })
+      : Promise.resolve([]),
+  ]);
+  const posts = [...friendPosts, ...followedPosts]
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    .slice(0, TIMELINE_REBUILD_LIMIT);
+
+  await timelineRepo.replaceTimeline(userId, posts.map(toTimelinePost));
+  return posts.length;
+};
+
+// ============ READ ============
+
+export interface TimelineCursor {
+  publishedAt: Date;
+  post: Types.ObjectId;
+}
+
+// One page of the user's materialized timeline, newest first
+export const getTimelineFeed = async (
+  userId: string,
+  options: { cursor?: TimelineCursor | null; limit?: number } = {}
+) => {
+  const { cursor = null, limit = 10 } = options;
+  const [{ data, hasNextPage }, viewer] = await Promise.all([
+    timelineRepo.getTimeline(userId, { cursor, limit }),
+    loadPostViewer(userId),
+  ]);
+  const last = data[data.length - 1];
+
+  return {
+    // Posts deleted outright leave no document to populate. Entries are
+    // written for all friends; list audiences and exclusions are applied
+    // here, so a page may hold fewer posts than the limit.
+    posts: data
+      .map((entry) => entry.post as any)
+      .filter((post) => post && canViewPost(post, viewer)),
+    hasNextPage,
+    nextCursor:
+      hasNextPage && last
+        ? encodeTimelineCursor({
+            publishedAt: last.publishedAt,
+            post: (last.post as any)?._id || last.post,
+          })
+        : null,
+  };
+};
+
+export const encodeTimelineCursor = (cursor: TimelineCursor) =>
+  Buffer.from(`${cursor.publishedAt.toISOString()}_${cursor.post}`).toString(
+    "base64url"
+  );
+
+export const decodeTimelineCursor = (cursor: string): TimelineCursor | null => {
+  const [publishedAt, id] = Buffer.from(cursor, "base64url")
+    .toString()
+    .split("_");
+  const date = new Date(publishedAt || "");
+  if (isNaN(date.getTime()) || !id || !Types.ObjectId.isValid(id)) {
+    return null;
+  }
+  return { publishedAt: date, post: new Types.ObjectId(id) };
+};
@@ -0,0 +1,245 @@
+import postModel, { IPost } from "../db/model/post.model.js";
+import { CommentStatus } from "../db/model/comment.model.js";
+import { PostRepository } from "../db/repositories/post.repository.js";
+import { CommentRepository } from "../db/repositories/comment.repository.js";
+import { appError } from "../utils/classError.js";
+import { evenEmitter } from "./event.js";
+import { findCommentPost } from "./postAccess.js";
+import { Clock, systemClock } from "./clock.js";
+
+const postRepo = new PostRepository(postModel);
+const commentRepo = new CommentRepository();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days deleted posts and comments stay in the trash before they are purged.
+// TRASH_RETENTION_DAYS overrides the default of 30.
+export const getTrashRetentionDays = () => {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : 30;
+};
+
+// When an item deleted at `deletedAt` gets purged
+const purgeDate = (deletedAt?: Date) =>
+  deletedAt
+    ? new Date(deletedAt.getTime() + getTrashRetentionDays() * DAY_MS)
+    : null;
+
+// Users restore what they deleted themselves; what a moderator removed only
+// an admin can bring back
+const canRestore = (
+  item: { author: any; deletedBy?: any },
+  user: { _id: any; role?: string }
+) => {
+  if (user.role === "admin") return true;
+  const userId = user._id.toString();
+  return (
+    item.author._id.toString() === userId &&
+    item.deletedBy?.toString() === userId
+  );
+};
+
+// ============ POSTS ============
+
+export const getTrashedPosts = async (
+  userId: string,
+  options: { page?: number; limit?: number } = {}
+) => {
+  const { data, total, page, limit } = await postRepo.getTrashedPosts(
+    userId,
+    options
+  );
+  return {
+    posts: data.map((post) => ({
+      ...post.toObject(),
+      purgeAt: purgeDate(post.deletedAt),
+    })),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+};
+
+// Take a post out of the trash; its comments follow through the post
+// change event
+export const restorePost = async (
+  user: { _id: any; role?: string },
+  postId: string
+) => {
+  const post = await postRepo.findDeletedById(postId);
+  if (!post) throw new appError("Post not found in trash", 404);
+  if (!canRestore(post, user)) {
+    throw new appError("You don't have permission to restore this post", 403);
+  }
+
+  return postRepo.restore(postId);
+};
+
+// Move the thread of a post to the trash with it and back; runs for every
+// post change
+export const syncTrashedComments = async (
+  before: IPost | null,
+  after: IPost | null
+) => {
+  if (!before || !after || !!before.isDeleted === !!after.isDeleted) return;
+
+  const postId = after._id.toString();
+  if (after.isDeleted) {
+    await commentRepo.trashThread(
+      postId,
+      (after.deletedBy || after.author).toString(),
+      after.deletedAt || new Date()
+    );
+  } else {
+    await commentRepo.restoreThread(postId);
+  }
+};
+
+// Delete a post for good with everything that hangs off it: comments,
+// bookmarks, votes, revisions, analytics and its images on S3
+export const purgePost = async (
+  post: Pick<IPost, "_id" | "imageKeys">,
+  deletedBy?: string
+) => {
+  const postId = post._id.toString();
+  if (!(await postRepo.hardDelete(postId, true))) return false;
+
+  evenEmitter.emit("postDeleted", { postId, deletedBy });
+  if (post.imageKeys && post.imageKeys.length > 0) {
+    evenEmitter.emit("deletePostImages", {
+      imageKeys: post.imageKeys,
+      bucket: process.env.AWS_BUCKET_NAME,
+      postId,
+    });
+  }
+  return true;
+};
+
+// ============ COMMENTS ============
+
+export const getTrashedComments = async (
+  userId: string,
+  options: { page?: number; limit?: number } = {}
+) => {
+  const { data, pagination } = await commentRepo.getTrashedComments(
+    userId,
+    options
+  );
+  return {
+    comments: data.map((comment) => ({
+      ...comment.toObject(),
+      purgeAt: purgeDate(comment.deletedAt),
+    })),
+    pagination,
+  };
+};
+
+// Take a comment out of the trash. It only comes back while the post and
+// the comment it answers are still there.
+export const restoreComment = async (
+  user: { _id: any; role?: string },
+  commentId: string
+) => {
+  const comment = await commentRepo.findDeletedById(commentId);
+  if (!comment || comment.trashedWithPost) {
+    throw new appError("Comment not found in trash", 404);
+  }
+  if (!canRestore(comment, user)) {
+    throw new appError(
+      "You don't have permission to restore this comment",
+      403
+    );
+  }
+  if (!(await findCommentPost(comment))) {
+    throw new appError(
+      "The post or comment this comment belongs to was deleted",
+      409
+    );
+  }
+
+  return commentRepo.restore(
+    commentId,
+    comment.isFrozen ? CommentStatus.frozen : CommentStatus.active
+  );
+};
+
+// ============ PURGE JOB ============
+
+// Hard-deletes posts and comments that stayed in the trash past the
+// retention period
+export class TrashPurgeScheduler {
+  private timer: unknown = null;
+  private running = false;
+
+  constructor(
+    private readonly clock: Clock = systemClock,
+    private readonly intervalMs: number = 60 * 60 * 1000,
+    private readonly batchSize: number = 100
+  ) {}
+
+  start() {
+    if (this.timer) return;
+    this.timer = this.clock.setTimeout(() => this.tick(), 0);
+    console.log("Trash purge scheduler started");
+  }
+
+  stop() {
+    if (this.timer) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Purge one batch of expired posts and comments. Returns how many were
+  // purged; items that fail stay in the trash for the next run.
+  runDue = async () => {
+    if (this.running) return 0;
+    this.running = true;
+
+    let purged = 0;
+    try {
+      const cutoff = new Date(
+        this.clock.now().getTime() - getTrashRetentionDays() * DAY_MS
+      );
+
+      const posts = await postRepo.findExpiredTrash(cutoff, this.batchSize);
+      for (const post of posts) {
+        try {
+          if (await purgePost(post)) purged++;
+        } catch (error) {
+          console.error(`Failed to purge post ${post._id}:`, error);
+        }
+      }
+
+      const commentIds = await commentRepo.findExpiredTrashIds(
+        cutoff,
+        this.batchSize
+      );
+      if (commentIds.length > 0) {
+        purged += await commentRepo.purge(commentIds);
+      }
+    } catch (error) {
+      console.error("Trash purge run failed:", error);
+    } finally {
+      this.running = false;
+    }
+
+    return purged;
+  };
+
+  private tick = async () => {
+    const purged = await this.runDue();
+    if (!this.timer) return;
+
+    // A full batch means more is due, keep going right away
+    this.timer = this.clock.setTimeout(
+      () => this.tick(),
+      purged >= this.batchSize ? 0 : this.intervalMs
+    );
+  };
+}
+
+export const trashPurgeScheduler = new TrashPurgeScheduler();
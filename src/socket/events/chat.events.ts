@@ -6,6 +6,10 @@ import { Types } from "mongoose";
 import { MessageRepository } from "../../db/repositories/message.repository.js";
 import { ConversationRepository } from "../../db/repositories/conversation.repository.js";
 import { MessageType, MessageStatus } from "../../db/model/message.model.js";
+import {
+  notifyMentions,
+  resolveMessageMentions,
+} from "../../service/mentions.js";
 
 const messageRepo = new MessageRepository();
 const conversationRepo = new ConversationRepository();
@@ -78,12 +82,23 @@ export const registerChatEvents = (
           return;
         }
 
+        // Get conversation to resolve mentions and emit to all participants
+        const conversation = await conversationRepo.findById(conversationId);
+
+        // Only participants of the conversation can be mentioned
+        const mentions = await resolveMessageMentions(
+          content,
+          socket.userId!,
+          conversation?.participants || []
+        );
+
         // Create message in database
         const message = await messageRepo.create({
           conversation: new Types.ObjectId(conversationId),
           sender: new Types.ObjectId(socket.userId!),
           content,
           messageType: messageType as MessageType,
+          mentions,
           replyTo: rest.replyTo ? new Types.ObjectId(rest.replyTo) : undefined,
           fileUrl: rest.fileUrl,
           fileKey: rest.fileKey,
@@ -109,9 +124,6 @@ export const registerChatEvents = (
           }
         );
 
-        // Get conversation to emit to all participants
-        const conversation = await conversationRepo.findById(conversationId);
-
         if (conversation) {
           // Emit to all participants except sender
           conversation.participants.forEach((participantId) => {
@@ -125,6 +137,11 @@ export const registerChatEvents = (
           });
         }
 
+        notifyMentions(mentions, socket.userId!, "message", {
+          conversationId,
+          messageId: message._id.toString(),
+        });
+
         // Send confirmation to sender
         socket.emit("chat:message_sent", {
           success: true,
@@ -1,16 +1,22 @@
 import { Server as SocketServer } from "socket.io";
+import { Types } from "mongoose";
 import { AuthenticatedSocket } from "../middleware/auth.middleware.js";
 import { emitToUser } from "../server.js";
+import { NotificationRepository } from "../../db/repositories/notification.repository.js";
+import { BlockedUserRepository } from "../../db/repositories/blockedUser.repository.js";
+import { NotificationType } from "../../db/model/notification.model.js";
+import { NotificationChannel } from "../../db/model/user.model.js";
+import {
+  canDeliver,
+  getUserNotificationSettings,
+  isTypeEnabled,
+} from "../../service/notificationPreferences.js";
+import { evenEmitter } from "../../service/event.js";
 
-export enum NotificationType {
-  FRIEND_REQUEST = "friend_request",
-  FRIEND_REQUEST_ACCEPTED = "friend_request_accepted",
-  POST_LIKE = "post_like",
-  POST_COMMENT = "post_comment",
-  COMMENT_REPLY = "comment_reply",
-  MENTION = "mention",
-  SYSTEM = "system",
-}
+export { NotificationType };
+
+const notificationRepo = new NotificationRepository();
+const blockedUserRepo = new BlockedUserRepository();
 
 interface Notification {
   type: NotificationType;
@@ -18,19 +24,33 @@ interface Notification {
   message: string;
   data?: any;
   link?: string;
+  // User who triggered the notification (used for self and block checks)
+  actorId?: string;
+  // Unread notifications sharing a group key are collapsed into one
+  groupKey?: string;
+  // Message shown once more than one actor is collapsed into the group
+  collapsedMessage?: (actorsCount: number) => string;
 }
 
 export const registerNotificationEvents = (
   socket: AuthenticatedSocket,
   io: SocketServer
 ) => {
-  socket.on("notification:subscribe", () => {
+  socket.on("notification:subscribe", async () => {
     socket.join(`notifications:${socket.userId}`);
     console.log(`User ${socket.userId} subscribed to notifications`);
 
+    let unreadCount = 0;
+    try {
+      unreadCount = await notificationRepo.getUnreadCount(socket.userId!);
+    } catch (error: any) {
+      console.error("Error fetching unread notification count:", error);
+    }
+
     socket.emit("notification:subscribed", {
       success: true,
       message: "Subscribed to notifications",
+      unreadCount,
     });
   });
 
@@ -41,18 +61,40 @@ export const registerNotificationEvents = (
 
   socket.on(
     "notification:mark_read",
-    (data: { notificationId: string }, callback) => {
+    async (data: { notificationId: string }, callback) => {
       try {
         const { notificationId } = data;
 
-        console.log(
-          `Notification ${notificationId} marked as read by ${socket.userId}`
+        const notification = await notificationRepo.markAsRead(
+          notificationId,
+          socket.userId!
+        );
+
+        if (!notification) {
+          if (callback) {
+            callback({
+              success: false,
+              error: "Notification not found",
+            });
+          }
+          return;
+        }
+
+        const unreadCount = await notificationRepo.getUnreadCount(
+          socket.userId!
         );
 
+        // Keep the badge in sync across all of the user's tabs
+        emitToUser(io, socket.userId!, "notification:unread_count", {
+          unreadCount,
+        });
+
         if (callback) {
           callback({
             success: true,
             message: "Notification marked as read",
+            notification,
+            unreadCount,
           });
         }
       } catch (error: any) {
@@ -67,14 +109,21 @@ export const registerNotificationEvents = (
     }
   );
 
-  socket.on("notification:mark_all_read", (callback) => {
+  socket.on("notification:mark_all_read", async (callback) => {
     try {
-      console.log(`All notifications marked as read for user ${socket.userId}`);
+      const modifiedCount = await notificationRepo.markAllAsRead(
+        socket.userId!
+      );
+
+      emitToUser(io, socket.userId!, "notification:unread_count", {
+        unreadCount: 0,
+      });
 
       if (callback) {
         callback({
           success: true,
           message: "All notifications marked as read",
+          modifiedCount,
         });
       }
     } catch (error: any) {
@@ -87,6 +136,27 @@ export const registerNotificationEvents = (
       }
     }
   });
+
+  socket.on("notification:get_unread_count", async (callback) => {
+    try {
+      const unreadCount = await notificationRepo.getUnreadCount(socket.userId!);
+
+      if (callback) {
+        callback({
+          success: true,
+          unreadCount,
+        });
+      }
+    } catch (error: any) {
+      console.error("Error fetching unread notification count:", error);
+      if (callback) {
+        callback({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  });
 };
 
 // Singleton to store the io instance
@@ -100,18 +170,140 @@ export const getSocketIOInstance = (): SocketServer | null => {
   return socketIOInstance;
 };
 
-export const sendNotification = (
-  io: SocketServer,
+// Builds "Jane Doe and 11 others liked your post" for collapsed groups
+export const collapsedActorsMessage =
+  (actorName: string, action: string) => (actorsCount: number) =>
+    `${actorName} and ${actorsCount - 1} other${
+      actorsCount > 2 ? "s" : ""
+    } ${action}`;
+
+// Fold a repeated event into the recipient's unread notification of the
+// same group instead of creating a new one
+const collapseNotification = async (
+  io: SocketServer | null,
   userId: string,
   notification: Notification
 ) => {
-  emitToUser(io, userId, "notification:new", {
-    ...notification,
-    timestamp: new Date(),
-    read: false,
-  });
+  const existing = await notificationRepo.findUnreadByGroup(
+    userId,
+    notification.groupKey!
+  );
+  if (!existing) return null;
+
+  const actorIds = new Set(existing.actors.map((actor) => actor.toString()));
+  actorIds.add(notification.actorId!);
+
+  const message =
+    actorIds.size > 1 && notification.collapsedMessage
+      ? notification.collapsedMessage(actorIds.size)
+      : notification.message;
+
+  const updatedNotification = await notificationRepo.addActor(
+    existing._id.toString(),
+    notification.actorId!,
+    {
+      title: notification.title,
+      message,
+      data: notification.data,
+    }
+  );
+
+  if (io && updatedNotification) {
+    emitToUser(io, userId, "notification:updated", {
+      _id: updatedNotification._id.toString(),
+      type: updatedNotification.type,
+      title: updatedNotification.title,
+      message: updatedNotification.message,
+      data: updatedNotification.data,
+      link: updatedNotification.link,
+      actorsCount: updatedNotification.actors.length,
+      timestamp: updatedNotification.activityAt,
+      read: false,
+    });
+  }
 
-  console.log(`Notification sent to user ${userId}:`, notification.type);
+  return updatedNotification;
+};
+
+// Persist the notification so offline users can fetch it later,
+// then push it to any live sockets of the recipient
+export const sendNotification = async (
+  io: SocketServer | null,
+  userId: string,
+  notification: Notification
+) => {
+  try {
+    const { actorId, groupKey, collapsedMessage, ...payload } = notification;
+
+    if (actorId) {
+      // Never notify users about their own actions
+      if (actorId === userId) return null;
+
+      // Nothing flows between users with a block relationship
+      if (await blockedUserRepo.hasBlockRelationship(userId, actorId)) {
+        return null;
+      }
+    }
+
+    // Respect the recipient's per-type channels and quiet hours: a type
+    // muted everywhere is dropped, otherwise it is stored for the inbox and
+    // digest but only pushed live when the socket channel allows it
+    const settings = await getUserNotificationSettings(userId);
+    if (!isTypeEnabled(settings, payload.type)) return null;
+
+    if (!canDeliver(settings, payload.type, NotificationChannel.socket)) {
+      io = null;
+    }
+
+    if (groupKey && actorId) {
+      const collapsed = await collapseNotification(io, userId, notification);
+      if (collapsed) return collapsed;
+    }
+
+    const notificationData: any = {
+      recipient: new Types.ObjectId(userId),
+      type: payload.type,
+      title: payload.title,
+      message: payload.message,
+      data: payload.data,
+      actors: actorId ? [new Types.ObjectId(actorId)] : [],
+    };
+
+    if (payload.link) notificationData.link = payload.link;
+    if (groupKey) notificationData.groupKey = groupKey;
+
+    const storedNotification = await notificationRepo.create(notificationData);
+
+    if (io) {
+      emitToUser(io, userId, "notification:new", {
+        ...payload,
+        _id: storedNotification._id.toString(),
+        actorsCount: storedNotification.actors.length,
+        timestamp: storedNotification.activityAt,
+        read: false,
+      });
+
+      const unreadCount = await notificationRepo.getUnreadCount(userId);
+      emitToUser(io, userId, "notification:unread_count", { unreadCount });
+    }
+
+    // The email listener checks the email channel and quiet hours itself
+    evenEmitter.emit("notificationEmail", {
+      notificationId: storedNotification._id.toString(),
+      userId,
+      type: payload.type,
+      title: payload.title,
+      message: payload.message,
+      link: payload.link,
+    });
+
+    console.log(`Notification sent to user ${userId}:`, notification.type);
+
+    return storedNotification;
+  } catch (error) {
+    console.error(`Failed to send notification to user ${userId}:`, error);
+    return null;
+  }
 };
 
 // Helper function that uses the global instance
@@ -120,10 +312,11 @@ export const sendNotificationToUser = (
   notification: Notification
 ) => {
   if (!socketIOInstance) {
-    console.warn("Socket.IO instance not initialized. Notification not sent.");
-    return;
+    console.warn(
+      "Socket.IO instance not initialized. Notification stored but not pushed."
+    );
   }
-  sendNotification(socketIOInstance, userId, notification);
+  return sendNotification(socketIOInstance, userId, notification);
 };
 
 export const broadcastSystemNotification = (